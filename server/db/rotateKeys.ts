@@ -0,0 +1,34 @@
+/**
+ * Key rotation — re-encrypts every stored secret under the current master key.
+ *
+ * Usage:
+ *   1. Move the old key into DP_MASTER_KEY_PREVIOUS and set a new DP_MASTER_KEY
+ *   2. npm run rotate-keys
+ *   3. Once it reports success, DP_MASTER_KEY_PREVIOUS can be removed
+ *
+ * Also encrypts any plaintext rows written before encryption was enabled.
+ * Runs in one transaction — a single undecryptable value aborts the whole run.
+ */
+
+import { loadDotEnv } from '../lib/env';
+import { initDb } from './schema';
+import { resealAllSecrets } from './secrets';
+import { currentKeyId, isSecretBoxConfigured } from '../lib/secretBox';
+
+loadDotEnv();
+
+if (!isSecretBoxConfigured()) {
+  console.error('[rotate-keys] DP_MASTER_KEY is not set — nothing to rotate to.');
+  process.exit(1);
+}
+
+initDb();
+
+try {
+  const { resealed, total } = resealAllSecrets();
+  console.log(`[rotate-keys] Master key ${currentKeyId()}: re-encrypted ${resealed} of ${total} stored secrets.`);
+  process.exit(0);
+} catch (err) {
+  console.error(`[rotate-keys] Aborted, no rows changed: ${String(err)}`);
+  process.exit(1);
+}
@@ -5,9 +5,29 @@
  * Runtime data (VRAM, models, logs) comes from the daemon live — not stored.
  *
  * Tables:
- *   users         — admin accounts
- *   nodes         — registered remote daemon instances
+ *   users         — bridge accounts (admin / viewer, local or SSO-provisioned), can be disabled; optional TOTP secret (encrypted at rest)
+ *   recovery_codes — hashed single-use 2FA recovery codes
+ *   sessions      — one row per login; holds the hashed rotating refresh token and the selected daemon target
+ *   api_tokens    — hashed personal API tokens (scoped, revocable) for scripts
+ *   gateway_keys  — hashed keys for the OpenAI-compatible /v1 gateway (per user, revocable)
+ *   login_attempts — failed-login counters / lockouts per username and per IP
+ *   auth_events   — append-only log of login successes, failures and lockouts
+ *   audit_log     — every mutating proxy/remote call: who, target, parameters (redacted), outcome
+ *   nodes         — registered remote daemon instances (the target registry)
  *   node_tokens   — per-node API keys (encrypted at rest)
+ *   node_ssh_credentials — per-node SSH login for /api/remote/* (encrypted at rest)
+ *   target_acl    — per-user, per-target grants (view / operate); see lib/targetAcl
+ *   failover_policies — ordered model-pattern → target-group retry rules; see lib/failover
+ *   usage_events  — token usage per inference call: who, model, target, daemon usage/stats; see lib/usage
+ *   user_quotas   — per-user token budgets (soft/hard, daily/monthly), max tokens per request, allowed models; see lib/quotas
+ *   quota_events  — soft-limit warnings and hard-limit refusals, at most one per user, limit and period
+ *   health_samples — every health probe result per target (state, latency), kept HEALTH_RAW_HOURS; see lib/healthHistory
+ *   health_hourly — the same probes rolled up per target and UTC hour, kept for the longest report range
+ *   health_outages — intervals a target was stopped or stalled (open while it still is)
+ *   alert_rules   — what to alert on (health, VRAM, GPU temperature, model unloads, log errors), thresholds, silencing; see lib/alerts
+ *   alerts        — fired alerts per rule, target and subject: open until resolved, with acknowledgement
+ *   alert_webhooks — HTTP endpoints notified of every alert (signing secret encrypted at rest); see lib/webhooks
+ *   settings      — bridge-level key/value state (e.g. the initial target id, 2FA policy)
  */
 
 import Database from 'better-sqlite3';
@@ -37,14 +57,112 @@ export function initDb(): void {
       username    TEXT    NOT NULL UNIQUE,
       password_hash TEXT  NOT NULL,
       role        TEXT    NOT NULL DEFAULT 'viewer'  CHECK(role IN ('admin','viewer')),
+      disabled    INTEGER NOT NULL DEFAULT 0,        -- 1 = cannot sign in, existing tokens rejected
+      totp_secret         TEXT,                      -- sealed base32 secret of the active factor
+      totp_pending_secret TEXT,                      -- sealed secret awaiting its first valid code
+      totp_enabled        INTEGER NOT NULL DEFAULT 0,
+      totp_last_step      INTEGER,                   -- last accepted time step (replay guard)
+      auth_source TEXT    NOT NULL DEFAULT 'local'   CHECK(auth_source IN ('local','oidc')),
+      oidc_subject TEXT,                             -- '<issuer>|<sub>' for SSO accounts
       created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
     );
 
+    CREATE TABLE IF NOT EXISTS recovery_codes (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id     INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      code_hash   TEXT NOT NULL,                     -- sha256 of the normalised code
+      used_at     TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_recovery_codes_user ON recovery_codes(user_id);
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      id                TEXT PRIMARY KEY,            -- carried in the access JWT as "sid"
+      user_id           INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      refresh_hash      TEXT NOT NULL,               -- sha256 of the current refresh token
+      prev_refresh_hash TEXT,                        -- previous token, for reuse detection
+      rotated_at        TEXT,
+      ip                TEXT,
+      user_agent        TEXT,
+      target_id         TEXT,                        -- daemon target picked in this session (no FK: stale ids fall back)
+      created_at        TEXT NOT NULL DEFAULT (datetime('now')),
+      last_seen_at      TEXT NOT NULL DEFAULT (datetime('now')),
+      expires_at        TEXT NOT NULL,
+      revoked_at        TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_sessions_user    ON sessions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_sessions_refresh ON sessions(refresh_hash);
+
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id           INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id      INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name         TEXT NOT NULL,
+      scope        TEXT NOT NULL CHECK(scope IN ('read','inference','operator')),
+      token_hash   TEXT NOT NULL UNIQUE,             -- sha256 of the full token
+      prefix       TEXT NOT NULL,                    -- first characters, shown in the UI
+      created_at   TEXT NOT NULL DEFAULT (datetime('now')),
+      last_used_at TEXT,
+      expires_at   TEXT,                             -- NULL = never
+      revoked_at   TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
+
+    CREATE TABLE IF NOT EXISTS gateway_keys (
+      id           INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id      INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name         TEXT NOT NULL,
+      key_hash     TEXT NOT NULL UNIQUE,             -- sha256 of the full key
+      prefix       TEXT NOT NULL,                    -- first characters, shown in the UI
+      created_at   TEXT NOT NULL DEFAULT (datetime('now')),
+      last_used_at TEXT,
+      expires_at   TEXT,                             -- NULL = never
+      revoked_at   TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_gateway_keys_user ON gateway_keys(user_id);
+
+    CREATE TABLE IF NOT EXISTS login_attempts (
+      key             TEXT PRIMARY KEY,              -- 'user:<name>' or 'ip:<address>'
+      failures        INTEGER NOT NULL DEFAULT 0,
+      last_failure_at INTEGER NOT NULL,              -- epoch ms
+      locked_until    INTEGER                        -- epoch ms
+    );
+
+    CREATE TABLE IF NOT EXISTS auth_events (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      at          TEXT NOT NULL DEFAULT (datetime('now')),
+      type        TEXT NOT NULL,                     -- login_success | login_failed | login_blocked | lockout
+      username    TEXT,
+      ip          TEXT,
+      detail      TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_auth_events_at ON auth_events(at);
+
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      at          TEXT NOT NULL DEFAULT (datetime('now')),
+      user_id     INTEGER,                        -- no FK: entries outlive deleted accounts
+      username    TEXT NOT NULL,
+      via         TEXT NOT NULL,                  -- 'session' or 'token:<id>'
+      target      TEXT,                           -- daemon target id, node id or 'ssh:<host>'
+      method      TEXT NOT NULL,
+      route       TEXT NOT NULL,                  -- e.g. /api/proxy/models/load
+      params      TEXT NOT NULL DEFAULT '{}',     -- JSON, secrets redacted
+      status      INTEGER NOT NULL,
+      outcome     TEXT NOT NULL CHECK(outcome IN ('ok','error','denied','aborted')),
+      error       TEXT,
+      duration_ms INTEGER NOT NULL,
+      ip          TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_audit_log_at ON audit_log(at);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_username ON audit_log(username);
+
     CREATE TABLE IF NOT EXISTS nodes (
       node_id     TEXT PRIMARY KEY,
       label       TEXT NOT NULL,
       ip_address  TEXT NOT NULL,
       port        INTEGER NOT NULL DEFAULT 1234,
+      url         TEXT NOT NULL DEFAULT '',       -- full daemon base URL
+      host        TEXT,                           -- lms --host override
+      mode        TEXT NOT NULL DEFAULT 'local'   CHECK(mode IN ('local','remote')),
       tags        TEXT NOT NULL DEFAULT '[]',  -- JSON array
       created_at  TEXT NOT NULL DEFAULT (datetime('now'))
     );
@@ -55,7 +173,198 @@ export function initDb(): void {
       created_at  TEXT NOT NULL DEFAULT (datetime('now')),
       PRIMARY KEY (node_id)
     );
+
+    CREATE TABLE IF NOT EXISTS node_ssh_credentials (
+      node_id     TEXT PRIMARY KEY REFERENCES nodes(node_id) ON DELETE CASCADE,
+      username    TEXT NOT NULL,
+      port        INTEGER NOT NULL DEFAULT 22,
+      private_key TEXT,                           -- sealed: PEM content or key path on the bridge host
+      password    TEXT,                           -- sealed
+      updated_at  TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS target_acl (
+      user_id     INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      target_id   TEXT    NOT NULL REFERENCES nodes(node_id) ON DELETE CASCADE,
+      level       TEXT    NOT NULL CHECK(level IN ('view','operate')),
+      PRIMARY KEY (user_id, target_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS failover_policies (
+      position      INTEGER PRIMARY KEY,            -- evaluation order, first match wins
+      model_pattern TEXT    NOT NULL,               -- glob, '*' = every model
+      target_ids    TEXT    NOT NULL DEFAULT '[]',  -- JSON array; empty = any visible target
+      max_attempts  INTEGER NOT NULL DEFAULT 2,
+      allow_jit     INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS usage_events (
+      id                INTEGER PRIMARY KEY AUTOINCREMENT,
+      at                TEXT NOT NULL DEFAULT (datetime('now')),
+      user_id           INTEGER,                  -- no FK: accounting outlives deleted accounts
+      username          TEXT NOT NULL,
+      via               TEXT NOT NULL,            -- 'session', 'token:<id>' or 'gateway:<id>'
+      endpoint          TEXT NOT NULL,            -- chat | completions | embeddings
+      model             TEXT NOT NULL,
+      target            TEXT NOT NULL,
+      prompt_tokens     INTEGER NOT NULL DEFAULT 0,
+      completion_tokens INTEGER NOT NULL DEFAULT 0,
+      total_tokens      INTEGER NOT NULL DEFAULT 0,
+      tokens_per_second REAL,                     -- daemon stats, when reported
+      ttft_ms           REAL,
+      generation_ms     REAL,
+      estimated         INTEGER NOT NULL DEFAULT 0  -- 1: no usage block (stream cut short), tokens estimated
+    );
+    CREATE INDEX IF NOT EXISTS idx_usage_events_at ON usage_events(at);
+    CREATE INDEX IF NOT EXISTS idx_usage_events_user ON usage_events(user_id, at);
+
+    CREATE TABLE IF NOT EXISTS user_quotas (
+      user_id                INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      daily_soft             INTEGER,             -- tokens per UTC day; NULL = no limit
+      daily_hard             INTEGER,
+      monthly_soft           INTEGER,             -- tokens per UTC calendar month
+      monthly_hard           INTEGER,
+      max_tokens_per_request INTEGER,
+      allowed_models         TEXT,                -- JSON array of model globs; NULL = every model
+      updated_at             TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS quota_events (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      at          TEXT NOT NULL DEFAULT (datetime('now')),
+      user_id     INTEGER NOT NULL,               -- no FK: kept with the usage history
+      username    TEXT NOT NULL,
+      kind        TEXT NOT NULL CHECK(kind IN ('soft','hard')),
+      period      TEXT NOT NULL CHECK(period IN ('daily','monthly')),
+      used        INTEGER NOT NULL,               -- tokens used in the period when it fired
+      quota_limit INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_quota_events_at ON quota_events(at);
+
+    CREATE TABLE IF NOT EXISTS health_samples (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      target_id   TEXT    NOT NULL REFERENCES nodes(node_id) ON DELETE CASCADE,
+      at          TEXT    NOT NULL,               -- datetime('now') format, UTC
+      state       TEXT    NOT NULL CHECK(state IN ('running','stopped','stalled')),
+      latency_ms  INTEGER NOT NULL,
+      covered_ms  INTEGER NOT NULL DEFAULT 0      -- time since the target's previous sample
+    );
+    CREATE INDEX IF NOT EXISTS idx_health_samples_target ON health_samples(target_id, at);
+
+    CREATE TABLE IF NOT EXISTS health_hourly (
+      target_id   TEXT    NOT NULL REFERENCES nodes(node_id) ON DELETE CASCADE,
+      hour        TEXT    NOT NULL,               -- 'YYYY-MM-DD HH:00:00', UTC
+      samples     INTEGER NOT NULL DEFAULT 0,
+      running     INTEGER NOT NULL DEFAULT 0,     -- samples that found the daemon running
+      covered_ms  INTEGER NOT NULL DEFAULT 0,     -- time the samples cover (uptime is weighted by it)
+      running_ms  INTEGER NOT NULL DEFAULT 0,     -- of which the daemon was running
+      latency_sum INTEGER NOT NULL DEFAULT 0,     -- over running samples only
+      latency_max INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (target_id, hour)
+    );
+
+    CREATE TABLE IF NOT EXISTS health_outages (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      target_id   TEXT    NOT NULL REFERENCES nodes(node_id) ON DELETE CASCADE,
+      started_at  TEXT    NOT NULL,
+      ended_at    TEXT,                           -- NULL while the outage lasts
+      state       TEXT    NOT NULL CHECK(state IN ('stopped','stalled'))   -- as first seen
+    );
+    CREATE INDEX IF NOT EXISTS idx_health_outages_target ON health_outages(target_id, started_at);
+
+    CREATE TABLE IF NOT EXISTS alert_rules (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      name        TEXT    NOT NULL,
+      kind        TEXT    NOT NULL CHECK(kind IN ('health','vram','gpu_temp','model_unloaded','log_error')),
+      target_id   TEXT    REFERENCES nodes(node_id) ON DELETE CASCADE,   -- NULL = every target
+      states      TEXT,                           -- health: JSON array of states that fire
+      threshold   REAL,                           -- vram: % of total VRAM · gpu_temp: °C
+      pattern     TEXT,                           -- log_error: regex, case-insensitive
+      for_seconds INTEGER NOT NULL DEFAULT 0,     -- how long a condition must hold before it fires
+      enabled     INTEGER NOT NULL DEFAULT 1,
+      silenced_until TEXT,                        -- no notifications before this (datetime('now') format)
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS alerts (
+      id           INTEGER PRIMARY KEY AUTOINCREMENT,
+      rule_id      INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+      target_id    TEXT    NOT NULL REFERENCES nodes(node_id) ON DELETE CASCADE,
+      subject      TEXT    NOT NULL DEFAULT '',   -- GPU index or model id; '' = the target as a whole
+      message      TEXT    NOT NULL,
+      value        REAL,                          -- reading that fired it (% VRAM, °C)
+      occurrences  INTEGER NOT NULL DEFAULT 1,    -- events seen while open
+      started_at   TEXT    NOT NULL DEFAULT (datetime('now')),
+      last_seen_at TEXT    NOT NULL DEFAULT (datetime('now')),
+      resolved_at  TEXT,                          -- NULL while open
+      acked_at     TEXT,
+      acked_by     TEXT
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_open ON alerts(rule_id, target_id, subject) WHERE resolved_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_alerts_started ON alerts(started_at);
+
+    CREATE TABLE IF NOT EXISTS alert_webhooks (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      name        TEXT    NOT NULL,
+      url         TEXT    NOT NULL,
+      secret      TEXT,                           -- sealed; signs deliveries (X-DaemonPulse-Signature)
+      enabled     INTEGER NOT NULL DEFAULT 1,
+      last_status TEXT    CHECK(last_status IN ('ok','retrying','failed')),
+      last_error  TEXT,
+      last_at     TEXT,
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS settings (
+      key         TEXT PRIMARY KEY,
+      value       TEXT NOT NULL,
+      updated_at  TEXT NOT NULL DEFAULT (datetime('now'))
+    );
   `);
 
+  // Columns added after the first release — CREATE TABLE IF NOT EXISTS
+  // leaves databases created by older builds untouched, so patch them here.
+  ensureColumn('nodes', 'url',  "TEXT NOT NULL DEFAULT ''");
+  ensureColumn('nodes', 'host', 'TEXT');
+  ensureColumn('nodes', 'mode', "TEXT NOT NULL DEFAULT 'local' CHECK(mode IN ('local','remote'))");
+  ensureColumn('users', 'disabled', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn('users', 'totp_secret', 'TEXT');
+  ensureColumn('users', 'totp_pending_secret', 'TEXT');
+  ensureColumn('users', 'totp_enabled', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn('users', 'totp_last_step', 'INTEGER');
+  ensureColumn('users', 'auth_source', "TEXT NOT NULL DEFAULT 'local' CHECK(auth_source IN ('local','oidc'))");
+  ensureColumn('users', 'oidc_subject', 'TEXT');
+  ensureColumn('sessions', 'target_id', 'TEXT');
+  ensureColumn('usage_events', 'estimated', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn('health_samples', 'covered_ms', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn('health_hourly', 'covered_ms', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn('health_hourly', 'running_ms', 'INTEGER NOT NULL DEFAULT 0');
+  db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_users_oidc_subject ON users(oidc_subject)');
+
   console.log(`[DB] SQLite initialised at ${path.resolve(DB_PATH)}`);
 }
+
+/** Add a column to an existing table if it is not there yet (idempotent). */
+function ensureColumn(table: string, column: string, definition: string): void {
+  const cols = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (cols.some(c => c.name === column)) return;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+// ---------------------------------------------------------------------------
+// settings — tiny key/value store for bridge state that must survive restarts
+// ---------------------------------------------------------------------------
+
+export function getSetting(key: string): string | undefined {
+  const row = getDb()
+    .prepare<string, { value: string }>('SELECT value FROM settings WHERE key = ?')
+    .get(key);
+  return row?.value;
+}
+
+export function setSetting(key: string, value: string): void {
+  getDb().prepare(`
+    INSERT INTO settings (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')
+  `).run(key, value);
+}
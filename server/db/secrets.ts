@@ -0,0 +1,61 @@
+/**
+ * Sealed columns — every SQLite column that holds a secretBox value.
+ *
+ * Used by the key-rotation script and the boot-time health check. Add new
+ * sealed columns here so they are covered by `npm run rotate-keys`.
+ */
+
+import { getDb } from './schema';
+import { needsReseal, resealSecret } from '../lib/secretBox';
+
+interface SealedColumn {
+  table:  string;
+  pk:     string;
+  column: string;
+}
+
+export const SEALED_COLUMNS: readonly SealedColumn[] = [
+  { table: 'node_tokens',          pk: 'node_id', column: 'api_key'     },
+  { table: 'node_ssh_credentials', pk: 'node_id', column: 'private_key' },
+  { table: 'node_ssh_credentials', pk: 'node_id', column: 'password'    },
+  { table: 'users',                pk: 'id',      column: 'totp_secret' },
+  { table: 'users',                pk: 'id',      column: 'totp_pending_secret' },
+  { table: 'alert_webhooks',       pk: 'id',      column: 'secret'      },
+];
+
+function sealedRows(col: SealedColumn): { id: string | number; value: string }[] {
+  return getDb()
+    .prepare(`SELECT ${col.pk} AS id, ${col.column} AS value FROM ${col.table} WHERE ${col.column} IS NOT NULL`)
+    .all() as { id: string | number; value: string }[];
+}
+
+/** Number of values that are plaintext or sealed under a retired master key. */
+export function countStaleSecrets(): number {
+  let stale = 0;
+  for (const col of SEALED_COLUMNS) {
+    stale += sealedRows(col).filter(r => needsReseal(r.value)).length;
+  }
+  return stale;
+}
+
+/**
+ * Re-encrypt every stale value under DP_MASTER_KEY in a single transaction.
+ * Throws (and rolls back) if any value cannot be decrypted with the configured keys.
+ */
+export function resealAllSecrets(): { resealed: number; total: number } {
+  const db = getDb();
+  let resealed = 0;
+  let total    = 0;
+  db.transaction(() => {
+    for (const col of SEALED_COLUMNS) {
+      const update = db.prepare(`UPDATE ${col.table} SET ${col.column} = ? WHERE ${col.pk} = ?`);
+      for (const row of sealedRows(col)) {
+        total++;
+        if (!needsReseal(row.value)) continue;
+        update.run(resealSecret(row.value), row.id);
+        resealed++;
+      }
+    }
+  })();
+  return { resealed, total };
+}
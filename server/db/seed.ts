@@ -1,18 +1,37 @@
 /**
- * Seed script — creates the first admin account.
+ * Seed script — creates an admin account from the command line.
  *
- * Usage (one-time before first run):
- *   npx tsx server/db/seed.ts [username] [password]
+ * The normal way to create the first admin is the setup wizard the
+ * dashboard shows on first run. Use this for headless installs or to
+ * regain access when no admin can sign in.
  *
- * Defaults: admin / changeme
- * The script is idempotent — re-running it will not create duplicates.
+ * Usage:
+ *   npm run seed -- <username> <password>
+ *
+ * There is no default password; it must pass the same strength rules as
+ * the setup wizard. The script is idempotent — re-running it will not
+ * create duplicates.
  */
 
 import bcrypt   from 'bcrypt';
 import { initDb, getDb } from './schema.js';
+import { BCRYPT_ROUNDS, USERNAME_RE, strongPasswordError } from '../lib/accounts.js';
+
+const [username, password] = process.argv.slice(2);
 
-const username = process.argv[2] ?? 'admin';
-const password = process.argv[3] ?? 'changeme';
+if (!username || !password) {
+  console.error('Usage: npm run seed -- <username> <password>');
+  process.exit(1);
+}
+if (!USERNAME_RE.test(username)) {
+  console.error('[seed] Username must be 3–32 characters: letters, digits, . _ -');
+  process.exit(1);
+}
+const weak = strongPasswordError(password, username);
+if (weak) {
+  console.error(`[seed] ${weak}`);
+  process.exit(1);
+}
 
 initDb();
 const db = getDb();
@@ -26,12 +45,11 @@ if (existing) {
   process.exit(0);
 }
 
-const hash = await bcrypt.hash(password, 12);
+const hash = await bcrypt.hash(password, BCRYPT_ROUNDS);
 
 db.prepare(
   'INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?)'
 ).run(username, hash, 'admin');
 
 console.log(`[seed] Created admin user: "${username}"`);
-console.log(`[seed] ⚠  Change this password immediately after first login.`);
 process.exit(0);
@@ -0,0 +1,199 @@
+/**
+ * Mock OpenID Connect provider — for trying and testing SSO locally.
+ *
+ * Usage:
+ *   npm run mock-oidc            # listens on http://localhost:9400
+ *
+ * Then point the bridge at it (.env) and restart it:
+ *   OIDC_ISSUER=http://localhost:9400
+ *   OIDC_CLIENT_ID=daemonpulse
+ *   OIDC_CLIENT_SECRET=mock-secret
+ *   OIDC_ADMIN_GROUPS=dp-admins
+ *   OIDC_VIEWER_GROUPS=dp-viewers
+ *
+ * The authorize page lets you pick one of the test identities below (no
+ * password), so every role-mapping branch can be exercised: an admin, a
+ * viewer and a user in neither group. Implements discovery, authorize,
+ * token (with PKCE S256 and client_secret_basic/post), userinfo and JWKS.
+ * Keys and codes live in memory and change on every start.
+ *
+ * Not for production use.
+ */
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+
+const PORT          = Number(process.env['MOCK_OIDC_PORT'] ?? 9400);
+const ISSUER        = process.env['MOCK_OIDC_ISSUER'] ?? `http://localhost:${PORT}`;
+const CLIENT_ID     = process.env['MOCK_OIDC_CLIENT_ID'] ?? 'daemonpulse';
+const CLIENT_SECRET = process.env['MOCK_OIDC_CLIENT_SECRET'] ?? 'mock-secret';
+
+interface TestUser {
+  sub:                string;
+  preferred_username: string;
+  email:              string;
+  name:               string;
+  groups:             string[];
+}
+
+const USERS: TestUser[] = [
+  { sub: 'u-1001', preferred_username: 'alice', email: 'alice@example.test', name: 'Alice Admin',  groups: ['dp-admins', 'staff'] },
+  { sub: 'u-1002', preferred_username: 'bob',   email: 'bob@example.test',   name: 'Bob Viewer',   groups: ['dp-viewers', 'staff'] },
+  { sub: 'u-1003', preferred_username: 'eve',   email: 'eve@example.test',   name: 'Eve Outsider', groups: ['contractors'] },
+];
+
+const KID = randomBytes(6).toString('hex');
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface PendingCode {
+  user:          TestUser;
+  redirectUri:   string;
+  nonce:         string | undefined;
+  challenge:     string | undefined;
+  expiresAt:     number;
+}
+
+const codes  = new Map<string, PendingCode>();
+const access = new Map<string, TestUser>();
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (_req, res) => {
+  res.json({
+    issuer:                                ISSUER,
+    authorization_endpoint:                `${ISSUER}/authorize`,
+    token_endpoint:                        `${ISSUER}/token`,
+    userinfo_endpoint:                     `${ISSUER}/userinfo`,
+    jwks_uri:                              `${ISSUER}/jwks`,
+    response_types_supported:              ['code'],
+    subject_types_supported:               ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported:      ['S256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    scopes_supported:                      ['openid', 'profile', 'email', 'groups'],
+  });
+});
+
+app.get('/jwks', (_req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, use: 'sig', alg: 'RS256' }] });
+});
+
+/** The "login page": choose an identity. Carries the request parameters through. */
+app.get('/authorize', (req, res) => {
+  const q = req.query as Record<string, string | undefined>;
+  if (q['client_id'] !== CLIENT_ID || !q['redirect_uri'] || q['response_type'] !== 'code') {
+    res.status(400).send('invalid_request: unknown client_id, missing redirect_uri or response_type is not "code"');
+    return;
+  }
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map(k => `<input type="hidden" name="${k}" value="${esc(q[k] ?? '')}">`).join('');
+  res.type('html').send(`<!doctype html>
+    <html><head><title>Mock OIDC</title></head>
+    <body style="font-family: system-ui; background: #0d0f14; color: #cbd5e1; padding: 3rem">
+      <h1 style="font-size: 1.1rem">Mock identity provider</h1>
+      <p style="font-size: .8rem; color: #64748b">Sign in to <b>${esc(CLIENT_ID)}</b> as:</p>
+      ${USERS.map(u => `
+        <form method="post" action="/authorize" style="margin: .5rem 0">
+          ${hidden}<input type="hidden" name="sub" value="${esc(u.sub)}">
+          <button style="padding: .5rem 1rem; min-width: 22rem; text-align: left">
+            ${esc(u.name)} — ${esc(u.preferred_username)} · groups: ${esc(u.groups.join(', '))}
+          </button>
+        </form>`).join('')}
+      <form method="post" action="/authorize">${hidden}<input type="hidden" name="deny" value="1">
+        <button style="margin-top: 1rem">Cancel (access_denied)</button>
+      </form>
+    </body></html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const b = req.body as Record<string, string | undefined>;
+  const redirect = new URL(b['redirect_uri'] ?? '');
+  if (b['state']) redirect.searchParams.set('state', b['state']);
+
+  const user = USERS.find(u => u.sub === b['sub']);
+  if (b['deny'] || !user) {
+    redirect.searchParams.set('error', 'access_denied');
+    redirect.searchParams.set('error_description', 'The user cancelled sign-in');
+    res.redirect(redirect.toString());
+    return;
+  }
+  if (b['code_challenge'] && b['code_challenge_method'] !== 'S256') {
+    redirect.searchParams.set('error', 'invalid_request');
+    redirect.searchParams.set('error_description', 'Only S256 code challenges are supported');
+    res.redirect(redirect.toString());
+    return;
+  }
+
+  const code = randomBytes(16).toString('base64url');
+  codes.set(code, {
+    user,
+    redirectUri: b['redirect_uri'] ?? '',
+    nonce:       b['nonce'] || undefined,
+    challenge:   b['code_challenge'] || undefined,
+    expiresAt:   Date.now() + 60_000,
+  });
+  redirect.searchParams.set('code', code);
+  res.redirect(redirect.toString());
+});
+
+app.post('/token', (req, res) => {
+  const b = req.body as Record<string, string | undefined>;
+
+  let clientId     = b['client_id'];
+  let clientSecret = b['client_secret'];
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/)?.[1];
+  if (basic) {
+    const [id, secret] = Buffer.from(basic, 'base64').toString().split(':').map(decodeURIComponent);
+    clientId = id; clientSecret = secret;
+  }
+  if (clientId !== CLIENT_ID) {
+    res.status(401).json({ error: 'invalid_client' });
+    return;
+  }
+
+  const pending = codes.get(b['code'] ?? '');
+  codes.delete(b['code'] ?? '');
+  if (b['grant_type'] !== 'authorization_code' || !pending || pending.expiresAt < Date.now()
+      || pending.redirectUri !== b['redirect_uri']) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+  // A presented secret must be right; a public client (no secret) must use PKCE
+  if (clientSecret !== undefined ? clientSecret !== CLIENT_SECRET : !pending.challenge) {
+    res.status(401).json({ error: 'invalid_client' });
+    return;
+  }
+  if (pending.challenge
+      && createHash('sha256').update(b['code_verifier'] ?? '').digest('base64url') !== pending.challenge) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    return;
+  }
+
+  const { user } = pending;
+  const accessToken = randomBytes(24).toString('base64url');
+  access.set(accessToken, user);
+  const idToken = jwt.sign(
+    { ...user, ...(pending.nonce && { nonce: pending.nonce }) },
+    privateKey,
+    { algorithm: 'RS256', keyid: KID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' },
+  );
+  res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+});
+
+app.get('/userinfo', (req, res) => {
+  const user = access.get(req.headers.authorization?.replace(/^Bearer /, '') ?? '');
+  if (!user) {
+    res.status(401).json({ error: 'invalid_token' });
+    return;
+  }
+  res.json(user);
+});
+
+app.listen(PORT, () => {
+  console.log(`[mock-oidc] Issuer ${ISSUER} — client_id "${CLIENT_ID}", client_secret "${CLIENT_SECRET}"`);
+  console.log(`[mock-oidc] Test identities: ${USERS.map(u => `${u.preferred_username} (${u.groups.join(', ')})`).join('; ')}`);
+});
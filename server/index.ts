@@ -3,49 +3,113 @@
  *
  * Sits between the browser and the remote llmster daemon.
  * Responsibilities:
- *   1. Auth: login endpoint, JWT issuance
+ *   1. Auth: login endpoint, JWT issuance, user management
  *   2. Proxy: forwards /api/proxy/* to the daemon, injects auth headers
  *   3. Security: never exposes the daemon URL directly to the browser
+ *   4. Gateway: OpenAI-compatible /v1/* for downstream apps, routed by model
+ *   5. Accounting: token usage per user, model and target
+ *   6. Monitoring: Prometheus /metrics for the bridge and its targets
+ *   7. Alerting: rules on health, VRAM, GPU temperature, unloads and log errors, sent to webhooks
  */
 
 import express from 'express';
-import { readFileSync } from 'fs';
-import { resolve } from 'path';
+import { loadDotEnv } from './lib/env';
 import { initDb } from './db/schema';
 import { authRouter }   from './routes/auth';
 import { proxyRouter }  from './routes/proxy';
 import { remoteRouter } from './routes/remote';
+import { usersRouter }  from './routes/users';
+import { sessionsRouter } from './routes/sessions';
+import { mfaRouter }    from './routes/mfa';
+import { tokensRouter } from './routes/tokens';
+import { auditRouter }  from './routes/audit';
+import { usageRouter }  from './routes/usage';
+import { setupRouter }  from './routes/setup';
+import { oidcRouter }   from './routes/oidc';
+import { gatewayRouter } from './routes/gateway';
+import { gatewayKeysRouter } from './routes/gatewayKeys';
+import { metricsRouter } from './routes/metrics';
+import { alertsRouter } from './routes/alerts';
 import { requireAuth }  from './middleware/auth';
+import { syncDefaultTarget } from './lib/targets';
+import { startHealthHistory } from './lib/healthHistory';
+import { startAlerts } from './lib/alerts';
+import { isSecretBoxConfigured } from './lib/secretBox';
+import { countStaleSecrets } from './db/secrets';
+import { initJwtSecret } from './lib/jwtSecret';
+import { issueSetupCode } from './lib/setup';
 
 // Load .env manually — no dotenv dependency needed
-try {
-  const envPath = resolve(process.cwd(), '.env');
-  const lines = readFileSync(envPath, 'utf-8').split('\n');
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) continue;
-    const eq = trimmed.indexOf('=');
-    if (eq === -1) continue;
-    const key = trimmed.slice(0, eq).trim();
-    const val = trimmed.slice(eq + 1).trim();
-    if (!(key in process.env)) process.env[key] = val;
-  }
-} catch { /* .env not found — fall back to defaults */ }
+loadDotEnv();
 
 const PORT = process.env['BRIDGE_PORT'] ? parseInt(process.env['BRIDGE_PORT'], 10) : 3000;
 
 const app = express();
 app.use(express.json());
 
-// Initialise SQLite on startup
+// Behind a reverse proxy, trust X-Forwarded-For so sessions record the real client IP.
+// TRUST_PROXY: 'true', a hop count, or a list of proxy addresses/subnets (e.g. 'loopback').
+const trustProxy = process.env['TRUST_PROXY']?.trim();
+if (trustProxy) {
+  app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
+// Initialise SQLite on startup, then make sure the .env default target exists
 initDb();
+syncDefaultTarget();
+startHealthHistory();   // polls every target in the background and records the results
+startAlerts();          // evaluates alert rules against those polls, GPU samples and runtime logs
+
+try {
+  if (initJwtSecret() === 'generated') {
+    console.log('[DaemonPulse Bridge] Generated a new JWT signing secret (stored in the database)');
+  }
+} catch (err) {
+  console.error(`[DaemonPulse Bridge] ${(err as Error).message}`);
+  process.exit(1);
+}
+
+// No accounts yet — the dashboard shows the setup wizard, which needs this code
+const setupCode = issueSetupCode();
+if (setupCode) {
+  console.log('[DaemonPulse Bridge] ──────────────────────────────────────────────');
+  console.log('[DaemonPulse Bridge] First run: no accounts exist yet.');
+  console.log(`[DaemonPulse Bridge] Open the dashboard and enter setup code: ${setupCode}`);
+  console.log('[DaemonPulse Bridge] ──────────────────────────────────────────────');
+}
+
+// Stored daemon keys and SSH credentials are sealed with DP_MASTER_KEY
+if (!isSecretBoxConfigured()) {
+  console.warn('[DaemonPulse Bridge] DP_MASTER_KEY is not set — permission keys, SSH credentials and 2FA secrets cannot be saved');
+} else {
+  const stale = countStaleSecrets();
+  if (stale > 0) {
+    console.warn(`[DaemonPulse Bridge] ${stale} stored secret(s) are plaintext or use a retired master key — run \`npm run rotate-keys\``);
+  }
+}
 
 // --- Public routes ---
 app.use('/api/auth', authRouter);
+app.use('/api/auth/oidc', oidcRouter);
+app.use('/api/setup', setupRouter);
 
-// --- Protected routes (JWT required) ---
+// --- Protected routes (session JWT or personal API token) ---
 app.use('/api/proxy',  requireAuth, proxyRouter);
 app.use('/api/remote', requireAuth, remoteRouter);
+app.use('/api/users',  usersRouter);   // guards are per-route (requireAdmin / requireSession)
+app.use('/api/sessions', sessionsRouter);
+app.use('/api/mfa',    mfaRouter);   // guards are per-route
+app.use('/api/tokens', tokensRouter);
+app.use('/api/audit',  auditRouter);
+app.use('/api/usage',  requireAuth, usageRouter);
+app.use('/api/alerts', requireAuth, alertsRouter);
+app.use('/api/gateway/keys', gatewayKeysRouter);
+
+// --- Prometheus scrape endpoint (admin session or admin API token) ---
+app.use('/metrics', requireAuth, metricsRouter);
+
+// --- OpenAI-compatible gateway (gateway keys, not dashboard tokens) ---
+app.use('/v1', gatewayRouter);
 
 app.listen(PORT, () => {
   console.log(`[DaemonPulse Bridge] Listening on http://localhost:${PORT}`);
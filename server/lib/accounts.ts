@@ -0,0 +1,43 @@
+/**
+ * accounts — Username and password rules shared by the users API, the
+ * first-run setup flow and the seed script.
+ */
+
+export const BCRYPT_ROUNDS    = 12;
+export const MIN_PASSWORD_LEN = 8;
+export const MIN_STRONG_LEN   = 12;
+export const USERNAME_RE      = /^[A-Za-z0-9._-]{3,32}$/;
+
+const COMMON_PASSWORDS = new Set([
+  'changeme', 'password', 'password1', 'password123', 'admin', 'admin123', 'administrator',
+  'letmein', 'welcome', 'qwerty', 'qwertyuiop', '123456789012', 'daemonpulse', 'lmstudio',
+]);
+
+/** Baseline rule for every account password. */
+export function passwordError(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LEN) {
+    return `Password must be at least ${MIN_PASSWORD_LEN} characters`;
+  }
+  if (password.length > 72) return 'Password must be at most 72 characters';   // bcrypt input limit
+  return null;
+}
+
+/**
+ * Stricter rule for the first admin: at least MIN_STRONG_LEN characters from
+ * three of lower / upper / digit / symbol, not a well-known password and not
+ * derived from the username.
+ */
+export function strongPasswordError(password: unknown, username: string): string | null {
+  const base = passwordError(password);
+  if (base) return base;
+  const pw = password as string;
+  if (pw.length < MIN_STRONG_LEN) return `Password must be at least ${MIN_STRONG_LEN} characters`;
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(re => re.test(pw)).length;
+  if (classes < 3) return 'Use at least three of: lowercase, uppercase, digits, symbols';
+
+  const lower = pw.toLowerCase();
+  if (COMMON_PASSWORDS.has(lower.replace(/[^a-z0-9]/g, ''))) return 'That password is too common';
+  if (username && lower.includes(username.toLowerCase())) return 'Password must not contain the username';
+  return null;
+}
@@ -0,0 +1,173 @@
+import '../test/tempDb';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import type { Request, Response } from 'express';
+import { initDb } from '../db/schema';
+import type { AuthPayload } from '../middleware/auth';
+import { laneStatuses, priorityOf, queued, setAdmissionConfig, PRIORITY_HEADER, type Priority } from './admissionQueue';
+import type { ForwardResult } from './daemonProxy';
+
+initDb();
+
+const session: AuthPayload = { sub: 1, username: 'alice', role: 'viewer', sid: 's' };
+const token:   AuthPayload = { ...session, apiToken: { id: 1, scope: 'inference' } };
+const gateway: AuthPayload = { ...session, gatewayKey: { id: 1 } };
+
+const withHeader = (value?: string) =>
+  ({ get: (name: string) => (name === PRIORITY_HEADER ? value : undefined) }) as unknown as Request;
+
+/** Just enough of a Response for queued(): the target, close events and a JSON answer. */
+interface FakeResponse extends EventEmitter {
+  locals:   Record<string, unknown>;
+  headers:  Record<string, string>;
+  answered: { status: number; body: unknown } | null;
+}
+
+function fakeRes(targetId: string): FakeResponse {
+  const res = Object.assign(new EventEmitter(), { locals: { target: { id: targetId } }, headers: {}, answered: null }) as FakeResponse;
+  let status = 200;
+  Object.assign(res, {
+    setHeader: (name: string, value: string) => { res.headers[name] = value; },
+    status:    (code: number) => { status = code; return res; },
+    json:      (body: unknown) => { res.answered = { status, body }; return res; },
+  });
+  return res;
+}
+
+/** A forward that runs until finish() is called, logging the order requests reach the daemon. */
+function daemon() {
+  const reached: string[] = [];
+  const finishers = new Map<string, () => void>();
+  const forward = (name: string) => () => new Promise<ForwardResult>(resolve => {
+    reached.push(name);
+    finishers.set(name, () => resolve({ ok: true }));
+  });
+  const finish = (name: string) => finishers.get(name)?.();
+  return { reached, forward, finish };
+}
+
+/** Start a request on the lane; resolves with its result once it has been forwarded or turned away. */
+function send(d: ReturnType<typeof daemon>, targetId: string, name: string, priority: Priority, res = fakeRes(targetId)) {
+  const done = queued(d.forward(name), 'qwen3-8b', priority)({} as Request, res as unknown as Response);
+  return { res, done };
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+test('sessions are interactive, tokens and gateway keys are batch', () => {
+  assert.equal(priorityOf(withHeader(), session), 'interactive');
+  assert.equal(priorityOf(withHeader(), token), 'batch');
+  assert.equal(priorityOf(withHeader(), gateway), 'batch');
+});
+
+test('anyone can step down to batch, only sessions get interactive', () => {
+  assert.equal(priorityOf(withHeader(' Batch '), session), 'batch');
+  assert.equal(priorityOf(withHeader('interactive'), token), 'batch');
+  assert.equal(priorityOf(withHeader('interactive'), gateway), 'batch');
+});
+
+test('a lane lets `limit` requests through and admits the next when one finishes', async () => {
+  setAdmissionConfig({ maxConcurrency: 2, maxQueueDepth: 8, maxWaitSeconds: 60 });
+  const d = daemon();
+  const requests = ['a', 'b', 'c'].map(name => send(d, 'aq-limit', name, 'batch'));
+  await tick();
+  assert.deepEqual(d.reached, ['a', 'b']);
+  assert.deepEqual(laneStatuses(['aq-limit']).map(l => [l.active, l.queued.batch]), [[2, 1]]);
+
+  d.finish('a');
+  await tick();
+  assert.deepEqual(d.reached, ['a', 'b', 'c']);
+
+  d.finish('b');
+  d.finish('c');
+  await Promise.all(requests.map(r => r.done));
+  assert.deepEqual(laneStatuses(['aq-limit']).map(l => [l.active, l.queued.batch]), [[0, 0]]);
+});
+
+test('interactive waiters are admitted before batch ones', async () => {
+  setAdmissionConfig({ maxConcurrency: 1, maxQueueDepth: 8, maxWaitSeconds: 60 });
+  const d = daemon();
+  const running = send(d, 'aq-priority', 'running', 'batch');
+  const waiting = [
+    send(d, 'aq-priority', 'batch-1', 'batch'),
+    send(d, 'aq-priority', 'interactive-1', 'interactive'),
+    send(d, 'aq-priority', 'batch-2', 'batch'),
+    send(d, 'aq-priority', 'interactive-2', 'interactive'),
+  ];
+  await tick();
+
+  for (const name of ['running', 'interactive-1', 'interactive-2', 'batch-1']) {
+    d.finish(name);
+    await tick();
+  }
+  d.finish('batch-2');
+  await Promise.all([running, ...waiting].map(r => r.done));
+  assert.deepEqual(d.reached, ['running', 'interactive-1', 'interactive-2', 'batch-1', 'batch-2']);
+});
+
+test('a full queue answers 429 with Retry-After', async () => {
+  setAdmissionConfig({ maxConcurrency: 1, maxQueueDepth: 1, maxWaitSeconds: 60 });
+  const d = daemon();
+  const running = send(d, 'aq-full', 'running', 'interactive');
+  const waiting = send(d, 'aq-full', 'waiting', 'interactive');
+  const refused = send(d, 'aq-full', 'refused', 'interactive');
+
+  assert.deepEqual(await refused.done, { ok: true });
+  assert.equal(refused.res.answered?.status, 429);
+  assert.match(String((refused.res.answered?.body as { error: string }).error), /Queue full for "qwen3-8b" on target "aq-full"/);
+  assert.ok(Number(refused.res.headers['Retry-After']) >= 1);
+
+  d.finish('running');
+  await tick();
+  d.finish('waiting');
+  await Promise.all([running.done, waiting.done]);
+  assert.deepEqual(d.reached, ['running', 'waiting']);
+});
+
+test('a retryable forward gets the rejection back unsent, for failover', async () => {
+  setAdmissionConfig({ maxConcurrency: 1, maxQueueDepth: 0, maxWaitSeconds: 60 });
+  const d = daemon();
+  const running = send(d, 'aq-failover', 'running', 'batch');
+  const res = fakeRes('aq-failover');
+  const result = await queued(d.forward('refused'), 'qwen3-8b', 'batch')({} as Request, res as unknown as Response, { retryable: true });
+
+  assert.equal(!result.ok && result.status, 429);
+  assert.ok(!result.ok && result.headers?.['Retry-After']);
+  assert.equal(res.answered, null);
+  d.finish('running');
+  await running.done;
+});
+
+test('a request still queued after maxWaitSeconds gets 429', async () => {
+  setAdmissionConfig({ maxConcurrency: 1, maxQueueDepth: 8, maxWaitSeconds: 1 });
+  const d = daemon();
+  const running = send(d, 'aq-wait', 'running', 'batch');
+  const waiting = send(d, 'aq-wait', 'waiting', 'batch');
+
+  await waiting.done;
+  assert.equal(waiting.res.answered?.status, 429);
+  assert.match(String((waiting.res.answered?.body as { error: string }).error), /Waited 1s in the queue/);
+  d.finish('running');
+  await running.done;
+  assert.deepEqual(d.reached, ['running']);
+});
+
+test('a client that hangs up leaves the queue without reaching the daemon', async () => {
+  setAdmissionConfig({ maxConcurrency: 1, maxQueueDepth: 8, maxWaitSeconds: 60 });
+  const d = daemon();
+  const running = send(d, 'aq-gone', 'running', 'batch');
+  const gone    = send(d, 'aq-gone', 'gone', 'batch');
+  const next    = send(d, 'aq-gone', 'next', 'batch');
+  await tick();
+
+  gone.res.emit('close');
+  assert.deepEqual(await gone.done, { ok: true });
+  assert.equal(gone.res.answered, null);
+
+  d.finish('running');
+  await tick();
+  d.finish('next');
+  await Promise.all([running.done, next.done]);
+  assert.deepEqual(d.reached, ['running', 'next']);
+});
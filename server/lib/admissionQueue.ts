@@ -0,0 +1,263 @@
+/**
+ * admissionQueue — Bridge-side admission control for inference, per target
+ * and model.
+ *
+ * Each (target, model) lane lets `limit` requests through to the daemon at
+ * once and parks the rest, so a burst waits its turn at the bridge instead of
+ * piling onto a daemon whose slots are full and timing out.
+ *   limit  — the bridge-wide maxConcurrency when set, otherwise the
+ *            n_parallel the model was loaded with through this bridge
+ *            (POST /api/proxy/models/load), otherwise DEFAULT_N_PARALLEL
+ *   depth  — at most maxQueueDepth requests wait per lane; the next gets 429
+ *   wait   — a request still queued after maxWaitSeconds gets 429
+ * Rejections carry Retry-After, estimated from how long the lane's recent
+ * requests took.
+ *
+ * Two priority classes: interactive requests are always admitted before
+ * batch ones, first come first served within a class. Dashboard sessions are
+ * interactive; personal API tokens and gateway keys are batch. Any caller
+ * can step down to batch with the X-DaemonPulse-Priority header; only
+ * sessions may ask for interactive, so tokens and keys cannot jump the queue.
+ *
+ * Config is stored in the settings table (`admission_config`); lane state is
+ * in memory, per bridge process.
+ */
+
+import type { Request, Response } from 'express';
+import { getSetting, setSetting } from '../db/schema';
+import { targetOf, type Forward, type ForwardResult } from './daemonProxy';
+import type { AuthPayload } from '../middleware/auth';
+
+export type Priority = 'interactive' | 'batch';
+
+export const PRIORITY_HEADER    = 'X-DaemonPulse-Priority';
+export const DEFAULT_N_PARALLEL = 4;   // llmster's own default
+
+const CONFIG_SETTING   = 'admission_config';
+const DURATION_ALPHA   = 0.3;          // weight of the newest sample in the duration average
+const MAX_RETRY_AFTER  = 300;          // seconds
+
+export interface AdmissionConfig {
+  maxConcurrency: number | null;   // null = the model's n_parallel
+  maxQueueDepth:  number;          // per lane; 0 = never queue
+  maxWaitSeconds: number;
+}
+
+const DEFAULT_CONFIG: AdmissionConfig = { maxConcurrency: null, maxQueueDepth: 32, maxWaitSeconds: 120 };
+
+export function getAdmissionConfig(): AdmissionConfig {
+  try {
+    const parsed = parseAdmissionConfig(JSON.parse(getSetting(CONFIG_SETTING) ?? 'null'));
+    if (parsed.ok) return parsed.value;
+  } catch { /* fall through to defaults */ }
+  return { ...DEFAULT_CONFIG };
+}
+
+export function setAdmissionConfig(config: AdmissionConfig): void {
+  setSetting(CONFIG_SETTING, JSON.stringify(config));
+  for (const lane of lanes.values()) pump(lane);   // a higher limit admits waiters now
+}
+
+const wholeIn = (v: unknown, min: number, max: number): v is number =>
+  typeof v === 'number' && Number.isInteger(v) && v >= min && v <= max;
+
+/** Validate a PUT body: { maxConcurrency, maxQueueDepth, maxWaitSeconds }. */
+export function parseAdmissionConfig(body: unknown): { ok: true; value: AdmissionConfig } | { ok: false; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const concurrency = b['maxConcurrency'] ?? null;
+  if (concurrency !== null && !wholeIn(concurrency, 1, 64)) {
+    return { ok: false, error: 'maxConcurrency must be null (use n_parallel) or a whole number between 1 and 64' };
+  }
+  if (!wholeIn(b['maxQueueDepth'], 0, 1000)) {
+    return { ok: false, error: 'maxQueueDepth must be a whole number between 0 and 1000' };
+  }
+  if (!wholeIn(b['maxWaitSeconds'], 1, 3600)) {
+    return { ok: false, error: 'maxWaitSeconds must be a whole number between 1 and 3600' };
+  }
+  return { ok: true, value: { maxConcurrency: concurrency, maxQueueDepth: b['maxQueueDepth'], maxWaitSeconds: b['maxWaitSeconds'] } };
+}
+
+/** Dashboard sessions are interactive and tokens/keys are batch; the header can only lower that. */
+export function priorityOf(req: Request, user: AuthPayload): Priority {
+  if (req.get(PRIORITY_HEADER)?.trim().toLowerCase() === 'batch') return 'batch';
+  return user.apiToken || user.gatewayKey ? 'batch' : 'interactive';
+}
+
+// ---------------------------------------------------------------------------
+// Lanes — in memory, per bridge process
+// ---------------------------------------------------------------------------
+
+interface Waiter {
+  priority: Priority;
+  admit:    () => void;
+}
+
+interface Lane {
+  targetId:      string;
+  model:         string;
+  active:        number;
+  queue:         Waiter[];        // interactive ahead of batch
+  nParallel:     number | null;   // from the last load through this bridge
+  avgDurationMs: number | null;
+}
+
+const lanes = new Map<string, Lane>();
+
+function laneOf(targetId: string, model: string): Lane {
+  const key = `${targetId}|${model}`;
+  let lane = lanes.get(key);
+  if (!lane) {
+    lane = { targetId, model, active: 0, queue: [], nParallel: null, avgDurationMs: null };
+    lanes.set(key, lane);
+  }
+  return lane;
+}
+
+const limitOf = (lane: Lane) => getAdmissionConfig().maxConcurrency ?? lane.nParallel ?? DEFAULT_N_PARALLEL;
+
+function pump(lane: Lane): void {
+  const limit = limitOf(lane);
+  while (lane.active < limit && lane.queue.length > 0) {
+    lane.active += 1;
+    lane.queue.shift()!.admit();
+  }
+}
+
+/** Seconds until a request joining the lane now would likely get a slot. */
+function retryAfter(lane: Lane): number {
+  const avg   = lane.avgDurationMs ?? 10_000;
+  const waves = Math.ceil((lane.queue.length + 1) / limitOf(lane));
+  return Math.min(MAX_RETRY_AFTER, Math.max(1, Math.ceil(avg * waves / 1000)));
+}
+
+/** Remember the n_parallel a model was loaded with, so its lane admits that many at once. */
+export function recordLoad(targetId: string, model: string, nParallel: number): void {
+  const lane = laneOf(targetId, model);
+  lane.nParallel = nParallel;
+  pump(lane);
+}
+
+type Admission =
+  | { ok: true; release: () => void }
+  | { ok: false; status: number; body: unknown; retryAfter: number }
+  | { ok: false; gone: true };
+
+/** Wait for a slot in the lane. Resolves once admitted, rejected, or the client has gone away. */
+function acquire(lane: Lane, priority: Priority, res: Response): Promise<Admission> {
+  let startedAt = Date.now();   // reset on admission, so the average measures run time and not queue wait
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    lane.active = Math.max(0, lane.active - 1);
+    const ms = Date.now() - startedAt;
+    lane.avgDurationMs = lane.avgDurationMs === null ? ms : lane.avgDurationMs + DURATION_ALPHA * (ms - lane.avgDurationMs);
+    pump(lane);
+  };
+
+  pump(lane);
+  if (lane.active < limitOf(lane)) {
+    lane.active += 1;
+    return Promise.resolve({ ok: true, release });
+  }
+
+  const config = getAdmissionConfig();
+  if (lane.queue.length >= config.maxQueueDepth) {
+    return Promise.resolve({
+      ok: false, status: 429, retryAfter: retryAfter(lane),
+      body: { error: `Queue full for "${lane.model}" on target "${lane.targetId}"`, queued: lane.queue.length },
+    });
+  }
+
+  return new Promise<Admission>(resolve => {
+    const leave = () => {
+      const i = lane.queue.indexOf(waiter);
+      if (i >= 0) lane.queue.splice(i, 1);
+      clearTimeout(timer);
+      res.off('close', onClose);
+    };
+    const onClose = () => { leave(); resolve({ ok: false, gone: true }); };
+    const timer = setTimeout(() => {
+      leave();
+      resolve({
+        ok: false, status: 429, retryAfter: retryAfter(lane),
+        body: { error: `Waited ${config.maxWaitSeconds}s in the queue for "${lane.model}" on target "${lane.targetId}"` },
+      });
+    }, config.maxWaitSeconds * 1000);
+    const waiter: Waiter = {
+      priority,
+      admit: () => {
+        startedAt = Date.now();
+        clearTimeout(timer);
+        res.off('close', onClose);
+        resolve({ ok: true, release });
+      },
+    };
+
+    // Interactive waiters go behind the last interactive one, batch at the end
+    const firstBatch = lane.queue.findIndex(w => w.priority === 'batch');
+    if (priority === 'interactive' && firstBatch >= 0) lane.queue.splice(firstBatch, 0, waiter);
+    else lane.queue.push(waiter);
+    res.once('close', onClose);
+  });
+}
+
+/**
+ * Wrap a transport helper so it only runs once the request has a slot on
+ * its target (res.locals.target, checked on every call, so each failover
+ * attempt queues on the new target). A rejection follows the ForwardResult
+ * contract: answered with 429 + Retry-After, or handed back when retryable.
+ */
+export function queued(forward: Forward, model: string | null, priority: Priority): Forward {
+  return async (req, res, opts = {}) => {
+    const admission = await acquire(laneOf(targetOf(res).id, model ?? ''), priority, res);
+    if (!admission.ok) {
+      if ('gone' in admission) return { ok: true };   // nobody left to answer
+      const failure: ForwardResult = {
+        ok: false, status: admission.status, body: admission.body,
+        headers: { 'Retry-After': String(admission.retryAfter) },
+      };
+      if (opts.retryable) return failure;
+      res.setHeader('Retry-After', String(admission.retryAfter));
+      res.status(admission.status).json(admission.body);
+      return { ok: true };
+    }
+    try {
+      return await forward(req, res, opts);
+    } finally {
+      admission.release();
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot — for the slot monitor
+// ---------------------------------------------------------------------------
+
+export interface LaneStatus {
+  targetId:      string;
+  model:         string;   // '' = requests that named no model
+  limit:         number;
+  limitSource:   'config' | 'n_parallel' | 'default';
+  active:        number;
+  queued:        Record<Priority, number>;
+  avgDurationMs: number | null;
+}
+
+export function laneStatuses(targetIds: string[]): LaneStatus[] {
+  const config = getAdmissionConfig();
+  return [...lanes.values()]
+    .filter(l => targetIds.includes(l.targetId))
+    .map(l => ({
+      targetId:      l.targetId,
+      model:         l.model,
+      limit:         limitOf(l),
+      limitSource:   config.maxConcurrency !== null ? 'config' as const : l.nParallel !== null ? 'n_parallel' as const : 'default' as const,
+      active:        l.active,
+      queued:        {
+        interactive: l.queue.filter(w => w.priority === 'interactive').length,
+        batch:       l.queue.filter(w => w.priority === 'batch').length,
+      },
+      avgDurationMs: l.avgDurationMs === null ? null : Math.round(l.avgDurationMs),
+    }));
+}
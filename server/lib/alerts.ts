@@ -0,0 +1,675 @@
+/**
+ * alerts — Rules evaluated against daemon signals, notified through webhooks.
+ *
+ * A rule (table `alert_rules`) watches one target, or every target when it
+ * names none:
+ *   health          — the health state is one of `states` (default: stalled)
+ *   vram            — VRAM in use is at least `threshold` % of the total
+ *   gpu_temp        — a GPU is at or above `threshold` °C
+ *   model_unloaded  — a model left `lms ps` without being ejected or stopped
+ *                     through the bridge (expectUnload)
+ *   log_error       — a runtime log line matches `pattern` (regex, any case)
+ *
+ * Signals: every result of lib/health's shared poller; a sampler every
+ * SAMPLE_INTERVAL_MS for targets with a vram, gpu_temp or model_unloaded rule
+ * (`lms ps` via lib/lmsCli, GPU readings via lib/gpuStats); and one runtime
+ * log stream per target with a log_error rule.
+ *
+ * Conditions (health, vram, gpu_temp) fire once they have held for the
+ * rule's forSeconds and resolve when they clear. Events (model_unloaded,
+ * log_error) fire at once, count repeats while open, and resolve when
+ * acknowledged or EVENT_RESOLVE_MS after they were last seen. At most one
+ * alert is open per rule, target and subject (a GPU, a model). Acknowledging
+ * records who is on it; a silenced rule still records alerts but sends no
+ * notifications until the silence expires. Firing and resolution go to every
+ * enabled webhook (lib/webhooks).
+ */
+
+import { getDb } from '../db/schema';
+import { getTarget, listTargets, type DaemonTarget } from './targets';
+import { subscribeHealth, type HealthProbe, type HealthState } from './health';
+import { getDaemonHeaders, getDaemonUrl } from './daemonProxy';
+import { runningModels } from './lmsCli';
+import { gpuReadings } from './gpuStats';
+import { notifyWebhooks } from './webhooks';
+
+export type AlertKind = 'health' | 'vram' | 'gpu_temp' | 'model_unloaded' | 'log_error';
+
+export const ALERT_KINDS: readonly AlertKind[] = ['health', 'vram', 'gpu_temp', 'model_unloaded', 'log_error'];
+
+const EVENT_KINDS: ReadonlySet<AlertKind> = new Set(['model_unloaded', 'log_error']);
+
+const SAMPLE_INTERVAL_MS = 30_000;
+const EVENT_RESOLVE_MS   = 60 * 60_000;
+const UNLOAD_GRACE_MS    = 2 * 60_000;   // a bridge-initiated unload explains disappearances this long
+const LOG_RECONNECT_MS   = 30_000;
+const RETENTION_DAYS     = 30;
+const PRUNE_EVERY        = 200;          // alerts opened between retention sweeps
+const MAX_MESSAGE_LEN    = 300;
+
+const DEFAULT_LOG_PATTERN = '\\b(error|fatal|panic|exception)\\b';
+
+export interface AlertRule {
+  id:            number;
+  name:          string;
+  kind:          AlertKind;
+  targetId:      string | null;        // null = every target
+  states:        HealthState[] | null; // health
+  threshold:     number | null;        // vram (%), gpu_temp (°C)
+  pattern:       string | null;        // log_error
+  forSeconds:    number;
+  enabled:       boolean;
+  silencedUntil: string | null;        // ISO
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'silencedUntil'>;
+
+export interface Alert {
+  id:             number;
+  ruleId:         number;
+  ruleName:       string;
+  kind:           AlertKind;
+  targetId:       string;
+  targetLabel:    string;
+  subject:        string;
+  message:        string;
+  value:          number | null;
+  occurrences:    number;
+  startedAt:      string;          // ISO
+  lastSeenAt:     string;
+  resolvedAt:     string | null;   // null while open
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  silenced:       boolean;
+}
+
+const toIso = (t: string | null) => (t ? `${t.replace(' ', 'T')}Z` : null);
+const isSilenced = (rule: Pick<AlertRule, 'silencedUntil'>) =>
+  rule.silencedUntil !== null && Date.parse(rule.silencedUntil) > Date.now();
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+interface RuleRow {
+  id:             number;
+  name:           string;
+  kind:           AlertKind;
+  target_id:      string | null;
+  states:         string | null;
+  threshold:      number | null;
+  pattern:        string | null;
+  for_seconds:    number;
+  enabled:        number;
+  silenced_until: string | null;
+}
+
+let rules: AlertRule[] = [];   // loaded once, reloaded after every change
+
+function loadRules(): void {
+  rules = getDb()
+    .prepare<[], RuleRow>('SELECT * FROM alert_rules ORDER BY id')
+    .all()
+    .map(r => ({
+      id:            r.id,
+      name:          r.name,
+      kind:          r.kind,
+      targetId:      r.target_id,
+      states:        r.states ? JSON.parse(r.states) as HealthState[] : null,
+      threshold:     r.threshold,
+      pattern:       r.pattern,
+      forSeconds:    r.for_seconds,
+      enabled:       r.enabled === 1,
+      silencedUntil: toIso(r.silenced_until),
+    }));
+  compiledPatterns.clear();
+}
+
+export function listAlertRules(): AlertRule[] {
+  return rules;
+}
+
+/** Enabled rules of these kinds that cover the target. */
+function rulesFor(targetId: string, kinds: AlertKind[]): AlertRule[] {
+  return rules.filter(r => r.enabled && kinds.includes(r.kind) && (r.targetId === null || r.targetId === targetId));
+}
+
+function writeRule(input: AlertRuleInput) {
+  return {
+    name:       input.name,
+    kind:       input.kind,
+    targetId:   input.targetId,
+    states:     input.states ? JSON.stringify(input.states) : null,
+    threshold:  input.threshold,
+    pattern:    input.pattern,
+    forSeconds: input.forSeconds,
+    enabled:    input.enabled ? 1 : 0,
+  };
+}
+
+export function createAlertRule(input: AlertRuleInput): AlertRule {
+  const { lastInsertRowid } = getDb().prepare(`
+    INSERT INTO alert_rules (name, kind, target_id, states, threshold, pattern, for_seconds, enabled)
+    VALUES (@name, @kind, @targetId, @states, @threshold, @pattern, @forSeconds, @enabled)
+  `).run(writeRule(input));
+  loadRules();
+  syncSignals();
+  return rules.find(r => r.id === Number(lastInsertRowid))!;
+}
+
+/** Open alerts of the rule are resolved: they were raised under the old definition. */
+export function updateAlertRule(id: number, input: AlertRuleInput): AlertRule | undefined {
+  const changes = getDb().prepare(`
+    UPDATE alert_rules SET name = @name, kind = @kind, target_id = @targetId, states = @states,
+      threshold = @threshold, pattern = @pattern, for_seconds = @forSeconds, enabled = @enabled
+    WHERE id = @id
+  `).run({ id, ...writeRule(input) }).changes;
+  if (changes === 0) return undefined;
+  loadRules();
+  resetRule(id);
+  syncSignals();
+  return rules.find(r => r.id === id);
+}
+
+export function deleteAlertRule(id: number): boolean {
+  resetRule(id);   // resolves (and notifies) before the rows cascade away
+  const deleted = getDb().prepare('DELETE FROM alert_rules WHERE id = ?').run(id).changes > 0;
+  loadRules();
+  syncSignals();
+  return deleted;
+}
+
+/** Mute notifications from the rule for `minutes` (0 lifts the silence). */
+export function silenceAlertRule(id: number, minutes: number): AlertRule | undefined {
+  const changes = getDb()
+    .prepare("UPDATE alert_rules SET silenced_until = CASE WHEN ? > 0 THEN datetime('now', ?) END WHERE id = ?")
+    .run(minutes, `+${minutes} minutes`, id).changes;
+  if (changes === 0) return undefined;
+  loadRules();
+  return rules.find(r => r.id === id);
+}
+
+const HEALTH_ALERT_STATES: readonly HealthState[] = ['stopped', 'stalled'];
+
+/** Validate a POST/PUT body. */
+export function parseAlertRuleInput(body: unknown): { ok: true; value: AlertRuleInput } | { ok: false; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const name = typeof b['name'] === 'string' ? b['name'].trim() : '';
+  if (!name)            return { ok: false, error: 'name is required' };
+  if (name.length > 64) return { ok: false, error: 'name must be 64 characters or fewer' };
+
+  const kind = b['kind'];
+  if (!ALERT_KINDS.includes(kind as AlertKind)) return { ok: false, error: `kind must be one of: ${ALERT_KINDS.join(', ')}` };
+
+  const targetId = b['targetId'] ?? null;
+  if (targetId !== null && (typeof targetId !== 'string' || !getTarget(targetId))) {
+    return { ok: false, error: 'targetId must be a registered target, or null for every target' };
+  }
+
+  const enabled = b['enabled'] ?? true;
+  if (typeof enabled !== 'boolean') return { ok: false, error: 'enabled must be true or false' };
+
+  const value: AlertRuleInput = {
+    name, kind: kind as AlertKind, targetId, states: null, threshold: null, pattern: null, forSeconds: 0, enabled,
+  };
+
+  if (!EVENT_KINDS.has(value.kind)) {
+    const forSeconds = b['forSeconds'] ?? 0;
+    if (!Number.isInteger(forSeconds) || (forSeconds as number) < 0 || (forSeconds as number) > 86_400) {
+      return { ok: false, error: 'forSeconds must be a whole number of seconds between 0 and 86400' };
+    }
+    value.forSeconds = forSeconds as number;
+  }
+
+  switch (value.kind) {
+    case 'health': {
+      const states = b['states'] ?? ['stalled'];
+      if (!Array.isArray(states) || states.length === 0 || !states.every(s => HEALTH_ALERT_STATES.includes(s as HealthState))) {
+        return { ok: false, error: 'states must list one or both of: stopped, stalled' };
+      }
+      value.states = [...new Set(states as HealthState[])];
+      break;
+    }
+    case 'vram':
+    case 'gpu_temp': {
+      const [min, max] = value.kind === 'vram' ? [1, 100] : [1, 150];
+      const threshold  = b['threshold'];
+      if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < min || threshold > max) {
+        return { ok: false, error: `threshold must be a number between ${min} and ${max}` };
+      }
+      value.threshold = threshold;
+      break;
+    }
+    case 'log_error': {
+      const pattern = b['pattern'] ?? DEFAULT_LOG_PATTERN;
+      if (typeof pattern !== 'string' || !pattern || pattern.length > 200) {
+        return { ok: false, error: 'pattern must be a regular expression of 200 characters or fewer' };
+      }
+      try { new RegExp(pattern, 'i'); } catch { return { ok: false, error: 'pattern is not a valid regular expression' }; }
+      value.pattern = pattern;
+      break;
+    }
+    case 'model_unloaded':
+      break;
+  }
+  return { ok: true, value };
+}
+
+// ---------------------------------------------------------------------------
+// Alerts
+// ---------------------------------------------------------------------------
+
+interface AlertRow {
+  id:           number;
+  rule_id:      number;
+  rule_name:    string;
+  kind:         AlertKind;
+  target_id:    string;
+  target_label: string;
+  subject:      string;
+  message:      string;
+  value:        number | null;
+  occurrences:  number;
+  started_at:   string;
+  last_seen_at: string;
+  resolved_at:  string | null;
+  acked_at:     string | null;
+  acked_by:     string | null;
+  silenced_until: string | null;
+}
+
+const ALERT_SELECT = `
+  SELECT a.*, r.name AS rule_name, r.kind, r.silenced_until, n.label AS target_label
+  FROM alerts a JOIN alert_rules r ON r.id = a.rule_id JOIN nodes n ON n.node_id = a.target_id
+`;
+
+function toAlert(r: AlertRow): Alert {
+  return {
+    id:             r.id,
+    ruleId:         r.rule_id,
+    ruleName:       r.rule_name,
+    kind:           r.kind,
+    targetId:       r.target_id,
+    targetLabel:    r.target_label,
+    subject:        r.subject,
+    message:        r.message,
+    value:          r.value,
+    occurrences:    r.occurrences,
+    startedAt:      toIso(r.started_at)!,
+    lastSeenAt:     toIso(r.last_seen_at)!,
+    resolvedAt:     toIso(r.resolved_at),
+    acknowledgedAt: toIso(r.acked_at),
+    acknowledgedBy: r.acked_by,
+    silenced:       isSilenced({ silencedUntil: toIso(r.silenced_until) }),
+  };
+}
+
+function alertById(id: number): Alert | undefined {
+  const row = getDb().prepare<number, AlertRow>(`${ALERT_SELECT} WHERE a.id = ?`).get(id);
+  return row && toAlert(row);
+}
+
+/** Open alerts on these targets, newest first. */
+export function activeAlerts(targetIds: string[]): Alert[] {
+  if (targetIds.length === 0) return [];
+  return getDb()
+    .prepare<string[], AlertRow>(`
+      ${ALERT_SELECT} WHERE a.resolved_at IS NULL AND a.target_id IN (${targetIds.map(() => '?').join(', ')})
+      ORDER BY a.started_at DESC, a.id DESC
+    `)
+    .all(...targetIds)
+    .map(toAlert);
+}
+
+/** Resolved alerts on these targets, most recently resolved first. */
+export function recentAlerts(targetIds: string[], limit = 50): Alert[] {
+  if (targetIds.length === 0) return [];
+  return getDb()
+    .prepare<unknown[], AlertRow>(`
+      ${ALERT_SELECT} WHERE a.resolved_at IS NOT NULL AND a.target_id IN (${targetIds.map(() => '?').join(', ')})
+      ORDER BY a.resolved_at DESC, a.id DESC LIMIT ?
+    `)
+    .all(...targetIds, limit)
+    .map(toAlert);
+}
+
+/** The target an alert belongs to — for the route's permission check. */
+export function alertTargetId(id: number): string | undefined {
+  return getDb().prepare<number, { target_id: string }>('SELECT target_id FROM alerts WHERE id = ?').get(id)?.target_id;
+}
+
+function notify(event: 'alert.firing' | 'alert.resolved', alert: Alert | undefined): void {
+  if (!alert || alert.silenced) return;
+  notifyWebhooks(event, { alert });
+}
+
+let writesSincePrune = 0;
+
+function openAlertId(ruleId: number, targetId: string, subject: string): number | undefined {
+  return getDb()
+    .prepare<[number, string, string], { id: number }>(
+      'SELECT id FROM alerts WHERE rule_id = ? AND target_id = ? AND subject = ? AND resolved_at IS NULL',
+    )
+    .get(ruleId, targetId, subject)?.id;
+}
+
+/** Open an alert, or refresh the one already open for this rule, target and subject. */
+function raise(rule: AlertRule, target: DaemonTarget, subject: string, message: string, value: number | null): void {
+  const db   = getDb();
+  const text = message.slice(0, MAX_MESSAGE_LEN);
+  const open = openAlertId(rule.id, target.id, subject);
+  if (open !== undefined) {
+    db.prepare(`
+      UPDATE alerts SET message = ?, value = ?, last_seen_at = datetime('now'),
+        occurrences = occurrences + ? WHERE id = ?
+    `).run(text, value, EVENT_KINDS.has(rule.kind) ? 1 : 0, open);
+    return;
+  }
+  const { lastInsertRowid } = db
+    .prepare('INSERT INTO alerts (rule_id, target_id, subject, message, value) VALUES (?, ?, ?, ?, ?)')
+    .run(rule.id, target.id, subject, text, value);
+  notify('alert.firing', alertById(Number(lastInsertRowid)));
+  if (++writesSincePrune >= PRUNE_EVERY) {
+    writesSincePrune = 0;
+    db.prepare("DELETE FROM alerts WHERE resolved_at IS NOT NULL AND resolved_at < datetime('now', ?)").run(`-${RETENTION_DAYS} days`);
+  }
+}
+
+function resolve(id: number): void {
+  const changes = getDb()
+    .prepare("UPDATE alerts SET resolved_at = datetime('now') WHERE id = ? AND resolved_at IS NULL")
+    .run(id).changes;
+  if (changes > 0) notify('alert.resolved', alertById(id));
+}
+
+/** Resolve everything the rule has open and forget its pending conditions. */
+function resetRule(ruleId: number): void {
+  for (const key of pendingSince.keys()) {
+    if (key.startsWith(`${ruleId}:`)) pendingSince.delete(key);
+  }
+  const open = getDb().prepare<number, { id: number }>('SELECT id FROM alerts WHERE rule_id = ? AND resolved_at IS NULL').all(ruleId);
+  for (const { id } of open) resolve(id);
+}
+
+/**
+ * Record who is handling an open alert. Event alerts have no condition that
+ * could clear, so acknowledging one also resolves it.
+ */
+export function acknowledgeAlert(id: number, username: string): Alert | undefined {
+  const changes = getDb()
+    .prepare("UPDATE alerts SET acked_at = datetime('now'), acked_by = ? WHERE id = ? AND resolved_at IS NULL")
+    .run(username, id).changes;
+  if (changes === 0) return undefined;
+  const alert = alertById(id);
+  if (alert && EVENT_KINDS.has(alert.kind)) resolve(id);
+  return alertById(id);
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+interface Observation {
+  subject: string;
+  firing:  boolean;
+  value:   number | null;
+  message: string;
+}
+
+const pendingSince = new Map<string, number>();   // `${ruleId}:${targetId}:${subject}` → first seen firing
+
+/**
+ * A condition rule's current readings for one target. Firing subjects open
+ * (or keep) an alert once they have held for forSeconds; every other open
+ * alert of the rule on the target resolves.
+ */
+function evaluate(rule: AlertRule, target: DaemonTarget, observations: Observation[]): void {
+  const now    = Date.now();
+  const firing = new Set<string>();
+  for (const o of observations) {
+    const key = `${rule.id}:${target.id}:${o.subject}`;
+    if (!o.firing) {
+      pendingSince.delete(key);
+      continue;
+    }
+    firing.add(o.subject);
+    const since = pendingSince.get(key) ?? now;
+    pendingSince.set(key, since);
+    // An alert that is already open (e.g. from before a restart) does not wait again
+    if (now - since >= rule.forSeconds * 1000 || openAlertId(rule.id, target.id, o.subject) !== undefined) {
+      raise(rule, target, o.subject, o.message, o.value);
+    }
+  }
+  const open = getDb()
+    .prepare<[number, string], { id: number; subject: string }>(
+      'SELECT id, subject FROM alerts WHERE rule_id = ? AND target_id = ? AND resolved_at IS NULL',
+    )
+    .all(rule.id, target.id);
+  for (const a of open) {
+    if (!firing.has(a.subject)) resolve(a.id);
+  }
+}
+
+function onHealth(target: DaemonTarget, health: HealthProbe): void {
+  for (const rule of rulesFor(target.id, ['health'])) {
+    evaluate(rule, target, [{
+      subject: '',
+      firing:  (rule.states ?? ['stalled']).includes(health.state),
+      value:   null,
+      message: `${target.label} is ${health.state}`,
+    }]);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sampler — VRAM, GPU temperature, unexpected unloads
+// ---------------------------------------------------------------------------
+
+const lastModels   = new Map<string, Set<string>>();   // targetId → identifiers in the previous `lms ps`
+const expectations = new Map<string, { at: number; identifiers: Set<string> | null }>();   // null = all
+
+/**
+ * The bridge is about to unload models on the target (eject, unload all,
+ * server or daemon stop): their disappearance is not an unexpected unload.
+ */
+export function expectUnload(targetId: string, identifier?: string): void {
+  const prev = expectations.get(targetId);
+  const live = prev && Date.now() - prev.at < UNLOAD_GRACE_MS ? prev.identifiers : new Set<string>();
+  const identifiers = identifier === undefined || live === null ? null : new Set([...live, identifier]);
+  expectations.set(targetId, { at: Date.now(), identifiers });
+}
+
+function expected(targetId: string, identifier: string): boolean {
+  const e = expectations.get(targetId);
+  if (!e || Date.now() - e.at >= UNLOAD_GRACE_MS) return false;
+  return e.identifiers === null || e.identifiers.has(identifier);
+}
+
+async function sample(target: DaemonTarget): Promise<void> {
+  const vramRules   = rulesFor(target.id, ['vram']);
+  const tempRules   = rulesFor(target.id, ['gpu_temp']);
+  const unloadRules = rulesFor(target.id, ['model_unloaded']);
+  if (vramRules.length + tempRules.length + unloadRules.length === 0) {
+    lastModels.delete(target.id);
+    return;
+  }
+
+  const models = vramRules.length + unloadRules.length > 0 ? await runningModels(target) : null;
+  const gpus   = vramRules.length + tempRules.length > 0 ? await gpuReadings(target) : null;
+
+  if (unloadRules.length > 0) {
+    const now      = new Set((models ?? []).map(m => m.identifier));
+    const previous = lastModels.get(target.id);
+    if (models && previous) {
+      for (const id of previous) {
+        if (now.has(id) || expected(target.id, id)) continue;
+        for (const rule of unloadRules) raise(rule, target, id, `${id} was unloaded from ${target.label}`, null);
+      }
+    }
+    // CLI unreachable (daemon down — the health rule covers that): start over from the next answer
+    if (models) lastModels.set(target.id, now);
+    else lastModels.delete(target.id);
+  }
+
+  if (gpus && gpus.length > 0) {
+    const total = gpus.reduce((sum, g) => sum + (g.totalVramGb ?? 0), 0);
+    // GPUs that report memory in use are exact; otherwise add up what the loaded models hold
+    const used  = gpus.every(g => g.usedVramGb !== null)
+      ? gpus.reduce((sum, g) => sum + g.usedVramGb!, 0)
+      : models ? models.reduce((sum, m) => sum + (m.vramBytes ?? 0), 0) / 1e9 : null;
+    const pct   = total > 0 && used !== null ? Math.round((used / total) * 1000) / 10 : null;
+    if (pct !== null) {
+      for (const rule of vramRules) {
+        evaluate(rule, target, [{
+          subject: '',
+          firing:  pct >= rule.threshold!,
+          value:   pct,
+          message: `VRAM on ${target.label} at ${pct}% (threshold ${rule.threshold}%)`,
+        }]);
+      }
+    }
+
+    const readable = gpus.filter(g => g.temperatureC !== null);
+    if (readable.length > 0) {
+      for (const rule of tempRules) {
+        evaluate(rule, target, readable.map(g => ({
+          subject: `gpu:${g.index}`,
+          firing:  g.temperatureC! >= rule.threshold!,
+          value:   g.temperatureC,
+          message: `GPU ${g.index}${g.name ? ` (${g.name})` : ''} on ${target.label} at ${g.temperatureC} °C (threshold ${rule.threshold} °C)`,
+        })));
+      }
+    }
+  }
+}
+
+function resolveStaleEvents(): void {
+  const stale = getDb()
+    .prepare<[string], { id: number }>(`
+      SELECT a.id FROM alerts a JOIN alert_rules r ON r.id = a.rule_id
+      WHERE a.resolved_at IS NULL AND r.kind IN ('model_unloaded', 'log_error') AND a.last_seen_at < datetime('now', ?)
+    `)
+    .all(`-${Math.round(EVENT_RESOLVE_MS / 1000)} seconds`);
+  for (const { id } of stale) resolve(id);
+}
+
+let sampling = false;
+
+async function tick(): Promise<void> {
+  if (sampling) return;   // the previous round is still waiting on a slow CLI
+  sampling = true;
+  try {
+    syncSignals();
+    resolveStaleEvents();
+    await Promise.all(listTargets().map(t => sample(t).catch((err: unknown) => {
+      console.error(`[alerts] Sampling ${t.id} failed:`, err);
+    })));
+  } finally {
+    sampling = false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Runtime log streams — one per target with a log_error rule
+// ---------------------------------------------------------------------------
+
+const compiledPatterns = new Map<number, RegExp>();
+
+function patternOf(rule: AlertRule): RegExp {
+  let re = compiledPatterns.get(rule.id);
+  if (!re) {
+    re = new RegExp(rule.pattern ?? DEFAULT_LOG_PATTERN, 'i');
+    compiledPatterns.set(rule.id, re);
+  }
+  return re;
+}
+
+function onLogLine(target: DaemonTarget, line: string): void {
+  for (const rule of rulesFor(target.id, ['log_error'])) {
+    if (patternOf(rule).test(line)) raise(rule, target, '', line.trim(), null);
+  }
+}
+
+const logStreams = new Map<string, AbortController>();
+
+function openLogStream(target: DaemonTarget): void {
+  const ctrl = new AbortController();
+  logStreams.set(target.id, ctrl);
+  void (async () => {
+    try {
+      const upstream = await fetch(`${getDaemonUrl(target)}/v1/lms/log/stream?source=runtime`, {
+        signal:  ctrl.signal,
+        headers: getDaemonHeaders(target),
+      });
+      if (!upstream.ok || !upstream.body) return;
+      const reader = upstream.body.getReader();
+      const dec    = new TextDecoder();
+      let leftover = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        leftover += dec.decode(value, { stream: true });
+        const lines = leftover.split('\n');
+        leftover    = lines.pop() ?? '';
+        for (const line of lines) {
+          if (line.trim()) onLogLine(target, line);
+        }
+      }
+    } catch { /* daemon unreachable or aborted */ }
+    if (logStreams.get(target.id) !== ctrl || ctrl.signal.aborted) return;
+    // Ended on its own — reconnect later if a rule still wants it
+    setTimeout(() => {
+      if (logStreams.get(target.id) !== ctrl) return;
+      logStreams.delete(target.id);
+      syncSignals();
+    }, LOG_RECONNECT_MS).unref();
+  })();
+}
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+const healthSubscriptions = new Map<string, () => void>();   // targetId → unsubscribe
+
+/** Follow the target registry and the rules: health listeners on every target, log streams where wanted. */
+function syncSignals(): void {
+  const targets = listTargets();
+  const ids     = new Set(targets.map(t => t.id));
+  for (const [id, unsubscribe] of healthSubscriptions) {
+    if (ids.has(id)) continue;
+    unsubscribe();
+    healthSubscriptions.delete(id);
+    lastModels.delete(id);
+  }
+  for (const t of targets) {
+    if (healthSubscriptions.has(t.id)) continue;
+    healthSubscriptions.set(t.id, subscribeHealth(t, (health) => {
+      const current = getTarget(t.id);
+      if (!current) return;
+      try {
+        onHealth(current, health);
+      } catch (err) {
+        console.error('[alerts] Failed to evaluate health rules:', err);
+      }
+    }));
+  }
+
+  const wantLogs = new Set(targets.filter(t => rulesFor(t.id, ['log_error']).length > 0).map(t => t.id));
+  for (const [id, ctrl] of logStreams) {
+    if (wantLogs.has(id)) continue;
+    ctrl.abort();
+    logStreams.delete(id);
+  }
+  for (const t of targets) {
+    if (wantLogs.has(t.id) && !logStreams.has(t.id)) openLogStream(t);
+  }
+}
+
+/** Load the rules and start watching every target. Call once, after initDb(). */
+export function startAlerts(): void {
+  loadRules();
+  syncSignals();
+  setInterval(() => void tick(), SAMPLE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,166 @@
+/**
+ * apiTokens — Long-lived personal API tokens for scripts and automation.
+ *
+ * A token is `dp_` + 32 random bytes (base64url). Only its SHA-256 is stored;
+ * the plaintext is returned once, at creation. Each token carries a scope
+ * that narrows what its owner's role allows (see middleware/auth):
+ *   read      — GET-style endpoints only
+ *   inference — prompt endpoints only (chat, completions, embeddings)
+ *   operator  — everything the owner's role permits, including changes
+ *
+ * Tokens belong to a user: disabling or deleting the user, or demoting an
+ * admin, takes effect on their tokens immediately.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getDb } from '../db/schema';
+import { sqliteTimeToMs, type Role } from './sessions';
+
+export const TOKEN_PREFIX = 'dp_';
+
+export type ApiTokenScope = 'read' | 'inference' | 'operator';
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = ['read', 'inference', 'operator'];
+
+interface TokenRow {
+  id:           number;
+  user_id:      number;
+  username:     string;
+  name:         string;
+  scope:        ApiTokenScope;
+  prefix:       string;
+  created_at:   string;
+  last_used_at: string | null;
+  expires_at:   string | null;
+}
+
+export interface ApiTokenSummary {
+  id:         number;
+  userId:     number;
+  username:   string;
+  name:       string;
+  scope:      ApiTokenScope;
+  prefix:     string;          // first characters of the token, for recognising it
+  createdAt:  string;          // ISO
+  lastUsedAt: string | null;   // ISO
+  expiresAt:  string | null;   // ISO
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+const iso    = (v: string | null) => (v ? new Date(sqliteTimeToMs(v)).toISOString() : null);
+
+export const isApiToken = (bearer: string) => bearer.startsWith(TOKEN_PREFIX);
+
+export function isApiTokenScope(v: unknown): v is ApiTokenScope {
+  return API_TOKEN_SCOPES.includes(v as ApiTokenScope);
+}
+
+/** Operator tokens can change state, so only admins may mint them. */
+export function scopeAllowedFor(role: Role, scope: ApiTokenScope): boolean {
+  return scope !== 'operator' || role === 'admin';
+}
+
+const SELECT_TOKENS = `
+  SELECT t.id, t.user_id, u.username, t.name, t.scope, t.prefix, t.created_at, t.last_used_at, t.expires_at
+  FROM api_tokens t JOIN users u ON u.id = t.user_id
+  WHERE t.revoked_at IS NULL AND (t.expires_at IS NULL OR t.expires_at > datetime('now'))
+`;
+
+function toSummary(r: TokenRow): ApiTokenSummary {
+  return {
+    id:         r.id,
+    userId:     r.user_id,
+    username:   r.username,
+    name:       r.name,
+    scope:      r.scope,
+    prefix:     r.prefix,
+    createdAt:  iso(r.created_at)!,
+    lastUsedAt: iso(r.last_used_at),
+    expiresAt:  iso(r.expires_at),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Management
+// ---------------------------------------------------------------------------
+
+/** Returns the plaintext token (shown once) and its summary. */
+export function createApiToken(
+  userId: number, name: string, scope: ApiTokenScope, expiresInDays: number | null,
+): { token: string; summary: ApiTokenSummary } {
+  const db    = getDb();
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const info  = db.prepare(`
+    INSERT INTO api_tokens (user_id, name, scope, token_hash, prefix, expires_at)
+    VALUES (?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', ?) END)
+  `).run(
+    userId, name, scope, sha256(token), token.slice(0, TOKEN_PREFIX.length + 6),
+    expiresInDays, `+${expiresInDays ?? 0} days`,
+  );
+  const row = db.prepare<number, TokenRow>(`${SELECT_TOKENS} AND t.id = ?`).get(Number(info.lastInsertRowid))!;
+  return { token, summary: toSummary(row) };
+}
+
+/** Live tokens — one user's, or everyone's when userId is omitted (admin view). */
+export function listApiTokens(userId?: number): ApiTokenSummary[] {
+  const db = getDb();
+  const rows = userId === undefined
+    ? db.prepare<[], TokenRow>(`${SELECT_TOKENS} ORDER BY t.created_at DESC`).all()
+    : db.prepare<number, TokenRow>(`${SELECT_TOKENS} AND t.user_id = ? ORDER BY t.created_at DESC`).all(userId);
+  return rows.map(toSummary);
+}
+
+export function tokenOwner(tokenId: number): number | undefined {
+  return getDb()
+    .prepare<number, { user_id: number }>('SELECT user_id FROM api_tokens WHERE id = ? AND revoked_at IS NULL')
+    .get(tokenId)?.user_id;
+}
+
+export function revokeApiToken(tokenId: number): boolean {
+  const info = getDb()
+    .prepare("UPDATE api_tokens SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL")
+    .run(tokenId);
+  return info.changes > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Authentication — used by requireAuth
+// ---------------------------------------------------------------------------
+
+export interface ResolvedApiToken {
+  tokenId:  number;
+  userId:   number;
+  username: string;
+  role:     Role;
+  disabled: boolean;
+  scope:    ApiTokenScope;
+}
+
+/** Look up a presented token. Undefined when unknown, revoked or expired. */
+export function resolveApiToken(presented: string): ResolvedApiToken | undefined {
+  const row = getDb().prepare<string, {
+    id: number; user_id: number; username: string; role: Role; disabled: number; scope: ApiTokenScope;
+  }>(`
+    SELECT t.id, t.user_id, u.username, u.role, u.disabled, t.scope
+    FROM api_tokens t JOIN users u ON u.id = t.user_id
+    WHERE t.token_hash = ? AND t.revoked_at IS NULL AND (t.expires_at IS NULL OR t.expires_at > datetime('now'))
+  `).get(sha256(presented));
+  if (!row) return undefined;
+  return {
+    tokenId:  row.id,
+    userId:   row.user_id,
+    username: row.username,
+    role:     row.role,
+    disabled: row.disabled === 1,
+    scope:    row.scope,
+  };
+}
+
+/** Bump last_used_at, at most once a minute per token to keep writes cheap. */
+export function touchApiToken(tokenId: number): void {
+  getDb()
+    .prepare(`
+      UPDATE api_tokens SET last_used_at = datetime('now')
+      WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-60 seconds'))
+    `)
+    .run(tokenId);
+}
@@ -0,0 +1,227 @@
+/**
+ * audit — Persistent trail of every state-changing bridge call.
+ *
+ * requireAccess('operate' | 'mutate') hands each permitted request to auditRequest(),
+ * which writes one `audit_log` row when the response closes: who, which
+ * target, route, request parameters (secrets redacted), outcome, HTTP
+ * status and duration. Denied attempts are recorded too.
+ *
+ * Rows older than AUDIT_RETENTION_DAYS (default 90) are pruned
+ * opportunistically on write.
+ */
+
+import type { Request, Response } from 'express';
+import { getDb } from '../db/schema';
+import { requestTargetId } from './targetAcl';
+import type { AccessPayload } from './sessions';
+
+export type AuditOutcome = 'ok' | 'error' | 'denied' | 'aborted';
+
+const SECRET_KEY_RE   = /key|password|passphrase|secret|token|private|credential|authorization/i;
+const MAX_STRING_LEN  = 256;
+const MAX_PARAMS_LEN  = 4096;
+const PRUNE_EVERY     = 200;   // writes between retention sweeps
+
+let writesSincePrune = 0;
+
+function retentionDays(): number {
+  const n = Number(process.env['AUDIT_RETENTION_DAYS'] ?? 90);
+  return Number.isFinite(n) && n > 0 ? n : 90;
+}
+
+/** Deep copy with secret-looking fields replaced and long strings truncated. */
+export function redact(value: unknown, depth = 0): unknown {
+  if (depth > 6) return '[…]';
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LEN ? `${value.slice(0, MAX_STRING_LEN)}… (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) return value.slice(0, 50).map(v => redact(v, depth + 1));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = SECRET_KEY_RE.test(k) && v !== null && v !== undefined && v !== '' ? '[redacted]' : redact(v, depth + 1);
+    }
+    return out;
+  }
+  return value;
+}
+
+/** Which daemon target or remote host the call acts on. */
+function describeTarget(req: Request, res: Response): string | null {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const id   = requestTargetId(req, res);
+  if (id === null && req.baseUrl.endsWith('/remote') && typeof body['host'] === 'string') return `ssh:${body['host']}`;
+  return id;
+}
+
+interface AuditEntry {
+  user:       AccessPayload & { apiToken?: { id: number } };
+  target:     string | null;
+  method:     string;
+  route:      string;
+  params:     unknown;
+  status:     number;
+  outcome:    AuditOutcome;
+  error:      string | null;
+  durationMs: number;
+  ip:         string | null;
+}
+
+function writeAudit(e: AuditEntry): void {
+  const db = getDb();
+  let params = JSON.stringify(e.params ?? {});
+  if (params.length > MAX_PARAMS_LEN) params = JSON.stringify({ truncated: params.slice(0, MAX_PARAMS_LEN) });
+
+  db.prepare(`
+    INSERT INTO audit_log (user_id, username, via, target, method, route, params, status, outcome, error, duration_ms, ip)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    e.user.sub, e.user.username, e.user.apiToken ? `token:${e.user.apiToken.id}` : 'session',
+    e.target, e.method, e.route, params, e.status, e.outcome, e.error, e.durationMs, e.ip,
+  );
+
+  if (++writesSincePrune >= PRUNE_EVERY) {
+    writesSincePrune = 0;
+    db.prepare("DELETE FROM audit_log WHERE at < datetime('now', ?)").run(`-${retentionDays()} days`);
+  }
+}
+
+function auditParams(req: Request): unknown {
+  const out: Record<string, unknown> = {};
+  const body = req.body as unknown;
+  if (Object.keys(req.params).length > 0) out['path'] = req.params;
+  if (Object.keys(req.query).length > 0)  out['query'] = req.query;
+  if (body && typeof body === 'object' && Object.keys(body).length > 0) out['body'] = body;
+  return redact(out);
+}
+
+/**
+ * Record this request once its response has been sent (or the client went
+ * away). Captures the `error` field of JSON error responses.
+ */
+export function auditRequest(req: Request, res: Response, user: AuditEntry['user']): void {
+  const started = Date.now();
+  const target  = describeTarget(req, res);
+  const params  = auditParams(req);
+  let error: string | null = null;
+
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (body && typeof body === 'object' && typeof (body as { error?: unknown }).error === 'string') {
+      const { error: msg, detail } = body as { error: string; detail?: unknown };
+      error = typeof detail === 'string' ? `${msg}: ${detail}` : msg;
+    }
+    return json(body);
+  };
+
+  res.once('close', () => {
+    const status  = res.statusCode;
+    const outcome: AuditOutcome = !res.writableFinished ? 'aborted' : status >= 400 ? 'error' : 'ok';
+    try {
+      writeAudit({
+        user, target, method: req.method, route: `${req.baseUrl}${req.route?.path ?? req.path}`,
+        params, status, outcome, error: error?.slice(0, 1000) ?? null,
+        durationMs: Date.now() - started, ip: req.ip ?? null,
+      });
+    } catch (err) {
+      console.error('[audit] Failed to record entry:', err);
+    }
+  });
+}
+
+/** A mutating call rejected by requireAccess. */
+export function auditDenied(req: Request, res: Response, user: AuditEntry['user'], reason: string): void {
+  try {
+    writeAudit({
+      user, target: describeTarget(req, res), method: req.method, route: `${req.baseUrl}${req.route?.path ?? req.path}`,
+      params: auditParams(req), status: 403, outcome: 'denied', error: reason, durationMs: 0, ip: req.ip ?? null,
+    });
+  } catch (err) {
+    console.error('[audit] Failed to record entry:', err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Querying — for GET /api/audit and its exports
+// ---------------------------------------------------------------------------
+
+export interface AuditFilter {
+  user?:    string;
+  target?:  string;
+  outcome?: AuditOutcome;
+  q?:       string;   // substring of route, params or error
+  from?:    string;   // ISO
+  to?:      string;   // ISO
+}
+
+export interface AuditRecord {
+  id:         number;
+  at:         string;   // ISO
+  userId:     number | null;
+  username:   string;
+  via:        string;
+  target:     string | null;
+  method:     string;
+  route:      string;
+  params:     unknown;
+  status:     number;
+  outcome:    AuditOutcome;
+  error:      string | null;
+  durationMs: number;
+  ip:         string | null;
+}
+
+interface AuditRow {
+  id: number; at: string; user_id: number | null; username: string; via: string; target: string | null;
+  method: string; route: string; params: string; status: number; outcome: AuditOutcome;
+  error: string | null; duration_ms: number; ip: string | null;
+}
+
+/** ISO → SQLite datetime('now') format so string comparison works. */
+const toSqliteTime = (iso: string) => new Date(iso).toISOString().slice(0, 19).replace('T', ' ');
+
+function whereClause(f: AuditFilter): { sql: string; args: (string | number)[] } {
+  const parts: string[] = [];
+  const args: (string | number)[] = [];
+  if (f.user)    { parts.push('username = ?'); args.push(f.user); }
+  if (f.target)  { parts.push('target = ?');   args.push(f.target); }
+  if (f.outcome) { parts.push('outcome = ?');  args.push(f.outcome); }
+  if (f.q) {
+    parts.push("(route LIKE ? ESCAPE '\\' OR params LIKE ? ESCAPE '\\' OR error LIKE ? ESCAPE '\\')");
+    const like = `%${f.q.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+    args.push(like, like, like);
+  }
+  if (f.from && !Number.isNaN(Date.parse(f.from))) { parts.push('at >= ?'); args.push(toSqliteTime(f.from)); }
+  if (f.to   && !Number.isNaN(Date.parse(f.to)))   { parts.push('at <= ?'); args.push(toSqliteTime(f.to)); }
+  return { sql: parts.length ? `WHERE ${parts.join(' AND ')}` : '', args };
+}
+
+function toRecord(r: AuditRow): AuditRecord {
+  let params: unknown = r.params;
+  try { params = JSON.parse(r.params); } catch { /* keep raw */ }
+  return {
+    id: r.id, at: new Date(`${r.at.replace(' ', 'T')}Z`).toISOString(), userId: r.user_id, username: r.username,
+    via: r.via, target: r.target, method: r.method, route: r.route, params, status: r.status,
+    outcome: r.outcome, error: r.error, durationMs: r.duration_ms, ip: r.ip,
+  };
+}
+
+/** Newest first. */
+export function queryAudit(filter: AuditFilter, limit: number, offset = 0): { entries: AuditRecord[]; total: number } {
+  const db = getDb();
+  const { sql, args } = whereClause(filter);
+  const total = db.prepare<(string | number)[], { n: number }>(`SELECT COUNT(*) AS n FROM audit_log ${sql}`).get(...args)?.n ?? 0;
+  const rows  = db
+    .prepare<(string | number)[], AuditRow>(`SELECT * FROM audit_log ${sql} ORDER BY id DESC LIMIT ? OFFSET ?`)
+    .all(...args, limit, offset);
+  return { entries: rows.map(toRecord), total };
+}
+
+/** Distinct users and targets seen in the log — populates the view's filter dropdowns. */
+export function auditFacets(): { users: string[]; targets: string[] } {
+  const db = getDb();
+  return {
+    users:   db.prepare<[], { v: string }>('SELECT DISTINCT username AS v FROM audit_log ORDER BY v').all().map(r => r.v),
+    targets: db.prepare<[], { v: string }>('SELECT DISTINCT target AS v FROM audit_log WHERE target IS NOT NULL ORDER BY v').all().map(r => r.v),
+  };
+}
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { admit, circuitStatus, recordFailure, recordHealth, recordSuccess, releaseTrial } from './circuitBreaker';
+
+/** Trip the target's circuit, then let a health probe move it to half-open. */
+function halfOpen(targetId: string): void {
+  for (let i = 0; i < 3; i++) recordFailure(targetId, 'HTTP 500');
+  assert.equal(circuitStatus(targetId).state, 'open');
+  assert.equal(admit(targetId), null);
+  recordHealth(targetId, 'running');
+  assert.equal(circuitStatus(targetId).state, 'half-open');
+}
+
+test('opens after three failures in a row', () => {
+  recordFailure('cb-open', 'HTTP 500');
+  recordFailure('cb-open', 'HTTP 500');
+  assert.equal(circuitStatus('cb-open').state, 'closed');
+  recordFailure('cb-open', 'Daemon unreachable');
+  assert.equal(circuitStatus('cb-open').state, 'open');
+  assert.equal(circuitStatus('cb-open').lastError, 'Daemon unreachable');
+});
+
+test('half-open lets exactly one trial through', () => {
+  halfOpen('cb-trial');
+  assert.notEqual(admit('cb-trial')?.trial ?? null, null);
+  assert.equal(admit('cb-trial'), null);
+});
+
+test('a trial that succeeds closes the circuit, one that fails opens it again', () => {
+  halfOpen('cb-verdict');
+  assert.ok(admit('cb-verdict'));
+  recordSuccess('cb-verdict');
+  assert.equal(circuitStatus('cb-verdict').state, 'closed');
+
+  halfOpen('cb-verdict');
+  assert.ok(admit('cb-verdict'));
+  recordFailure('cb-verdict', 'HTTP 503');
+  assert.equal(circuitStatus('cb-verdict').state, 'open');
+});
+
+test('a trial turned away before the daemon is handed back', () => {
+  halfOpen('cb-release');
+  const pass = admit('cb-release');
+  assert.ok(pass);
+  releaseTrial('cb-release', pass);
+  assert.equal(circuitStatus('cb-release').state, 'half-open');
+  assert.ok(admit('cb-release'), 'the next request becomes the trial');
+});
+
+test('releasing a settled trial does not free a later one', () => {
+  halfOpen('cb-stale');
+  const first = admit('cb-stale');
+  assert.ok(first);
+  recordFailure('cb-stale', 'HTTP 500');
+  recordHealth('cb-stale', 'running');
+  assert.ok(admit('cb-stale'));
+  releaseTrial('cb-stale', first);
+  assert.equal(admit('cb-stale'), null);
+});
@@ -0,0 +1,145 @@
+/**
+ * circuitBreaker — Per-target circuit breaker, so requests stop going to a
+ * daemon that is down or stalled.
+ *
+ *   closed     — traffic flows; consecutive failures are counted
+ *   open       — FAILURE_THRESHOLD failures in a row (daemon unreachable or
+ *                5xx), or a health probe that found it stopped/stalled.
+ *                No traffic until OPEN_COOLDOWN_MS has passed
+ *   half-open  — one trial request is let through: success closes the
+ *                circuit, failure opens it again
+ *
+ * Fed by the transport helpers (lib/daemonProxy) and by the health probes in
+ * lib/health. A health probe that finds the daemon running moves an open
+ * circuit to half-open straight away, so recovery does not wait out the
+ * cooldown. State is in memory and starts closed on every bridge start.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+const FAILURE_THRESHOLD = 3;
+const OPEN_COOLDOWN_MS  = 30_000;
+
+interface Circuit {
+  state:        CircuitState;
+  failures:     number;           // consecutive
+  openedAt:     number | null;    // epoch ms
+  lastError:    string | null;
+  trial:        number | null;    // half-open: id of the one trial request in flight
+}
+
+/** What the health stream and the routing config report per target. */
+export interface CircuitStatus {
+  state:     CircuitState;
+  failures:  number;
+  retryAt:   string | null;   // ISO — when an open circuit lets a trial through
+  lastError: string | null;
+}
+
+const circuits = new Map<string, Circuit>();
+let lastTrial = 0;
+
+function circuitOf(targetId: string): Circuit {
+  let c = circuits.get(targetId);
+  if (!c) {
+    c = { state: 'closed', failures: 0, openedAt: null, lastError: null, trial: null };
+    circuits.set(targetId, c);
+  }
+  return c;
+}
+
+function open(c: Circuit, reason: string): void {
+  c.state        = 'open';
+  c.openedAt     = Date.now();
+  c.lastError    = reason;
+  c.trial        = null;
+}
+
+/** An open circuit whose cooldown has passed becomes half-open. */
+function refresh(c: Circuit): Circuit {
+  if (c.state === 'open' && c.openedAt !== null && Date.now() - c.openedAt >= OPEN_COOLDOWN_MS) {
+    c.state        = 'half-open';
+    c.trial        = null;
+  }
+  return c;
+}
+
+/** Whether traffic may be sent to the target right now (without claiming the half-open trial). */
+export function isAvailable(targetId: string): boolean {
+  const c = refresh(circuitOf(targetId));
+  return c.state === 'closed' || (c.state === 'half-open' && c.trial === null);
+}
+
+/** A request let through by admit(); `trial` is set when it is the half-open trial. */
+export interface CircuitPass {
+  trial: number | null;
+}
+
+/**
+ * Claim a request slot on the target. Null while the circuit is open, or
+ * half-open with its trial request already in flight.
+ */
+export function admit(targetId: string): CircuitPass | null {
+  const c = refresh(circuitOf(targetId));
+  if (c.state === 'closed') return { trial: null };
+  if (c.state === 'half-open' && c.trial === null) {
+    c.trial = ++lastTrial;
+    return { trial: c.trial };
+  }
+  return null;
+}
+
+/**
+ * Hand back a trial that got no verdict because it never reached the daemon
+ * (admission queue full or timed out, client gone), so the next request may
+ * be the trial. No-op once the trial's success or failure was recorded.
+ */
+export function releaseTrial(targetId: string, pass: CircuitPass): void {
+  const c = circuitOf(targetId);
+  if (pass.trial !== null && c.trial === pass.trial) c.trial = null;
+}
+
+export function recordSuccess(targetId: string): void {
+  const c = circuitOf(targetId);
+  c.state        = 'closed';
+  c.failures     = 0;
+  c.openedAt     = null;
+  c.trial        = null;
+}
+
+export function recordFailure(targetId: string, reason: string): void {
+  const c = refresh(circuitOf(targetId));
+  c.failures += 1;
+  c.lastError = reason;
+  if (c.state === 'half-open' || c.failures >= FAILURE_THRESHOLD) open(c, reason);
+}
+
+/** Health probe result: stopped/stalled opens the circuit, running lets a trial through. */
+export function recordHealth(targetId: string, state: 'running' | 'stopped' | 'stalled'): void {
+  const c = circuitOf(targetId);
+  if (state === 'running') {
+    if (c.state === 'open') {
+      c.state        = 'half-open';
+      c.trial        = null;
+    }
+    return;
+  }
+  if (c.state !== 'open') {
+    c.failures += 1;
+    open(c, `health probe: ${state}`);
+  }
+}
+
+export function circuitStatus(targetId: string): CircuitStatus {
+  const c = refresh(circuitOf(targetId));
+  return {
+    state:     c.state,
+    failures:  c.failures,
+    retryAt:   c.state === 'open' && c.openedAt !== null ? new Date(c.openedAt + OPEN_COOLDOWN_MS).toISOString() : null,
+    lastError: c.lastError,
+  };
+}
+
+export function circuitStatuses(targetIds: string[]): Record<string, CircuitStatus> {
+  return Object.fromEntries(targetIds.map(id => [id, circuitStatus(id)]));
+}
@@ -0,0 +1,212 @@
+/**
+ * daemonProxy — HTTP transport from the bridge to one llmster daemon.
+ *
+ * The forward helpers send the incoming request to the target stored in
+ * res.locals.target, which the calling router sets before the handler runs
+ * (routes/proxy resolves it from header/session, routes/gateway from the
+ * requested model). They answer the client themselves, including a 502
+ * when the daemon cannot be reached.
+ *
+ * forwardTo and forwardStream also leave the time to first token in
+ * res.locals.ttftMs (daemon-reported stats, or the first streamed chunk)
+ * for lib/loadBalancer, the daemon's `usage` and `stats` blocks (the JSON
+ * body, or a streamed chunk — llmster puts them in the final one) in
+ * res.locals.usage / res.locals.stats for lib/usage, and report every
+ * outcome to lib/circuitBreaker.
+ * With `retryable` they leave the response unsent when the daemon is
+ * unreachable or answers 5xx, and return the error instead, so lib/failover
+ * can try another target.
+ */
+
+import type { Request, Response } from 'express';
+import type { DaemonTarget } from './targets';
+import { recordFailure, recordSuccess } from './circuitBreaker';
+
+/**
+ * Request header naming the target explicitly (routes/proxy); on responses,
+ * the target that actually served an inference call.
+ */
+export const TARGET_HEADER = 'X-DaemonPulse-Target';
+
+/** The target chosen for this request by the calling router. */
+export const targetOf = (res: Response) => res.locals['target'] as DaemonTarget;
+
+export const getDaemonUrl = (target: DaemonTarget) => target.url;
+
+// Per-target key (sealed in node_tokens); the default target falls back to DAEMON_API_KEY
+export function getDaemonHeaders(target: DaemonTarget): Record<string, string> {
+  const key = target.key;
+  const h: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (key) h['Authorization'] = `Bearer ${key}`;
+  return h;
+}
+
+// ---------------------------------------------------------------------------
+// Transport helpers
+// ---------------------------------------------------------------------------
+
+export interface ForwardOptions {
+  /** Do not answer on "unreachable" or 5xx — return the error so the caller can fail over. */
+  retryable?: boolean;
+}
+
+/** ok: the client has been answered. Otherwise nothing was sent and `status`/`body` (+ `headers`) is the error to send. */
+export type ForwardResult = { ok: true } | { ok: false; status: number; body: unknown; headers?: Record<string, string> };
+
+export type Forward = (req: Request, res: Response, opts?: ForwardOptions) => Promise<ForwardResult>;
+
+/** Record an outcome against the target's circuit; a retryable failure is handed back unsent. */
+function settle(res: Response, status: number, body: unknown, opts: ForwardOptions): ForwardResult {
+  const target = targetOf(res);
+  if (status < 500) {
+    recordSuccess(target.id);
+  } else {
+    recordFailure(target.id, status === 502 ? 'Daemon unreachable' : `HTTP ${status}`);
+    if (opts.retryable) return { ok: false, status, body };
+  }
+  res.status(status).json(body);
+  return { ok: true };
+}
+
+/** Keep the `usage`/`stats` blocks and served model of a daemon response body or stream chunk. */
+function noteUsage(res: Response, data: unknown): void {
+  if (!data || typeof data !== 'object') return;
+  const { usage, stats, model } = data as Record<string, unknown>;
+  if (usage && typeof usage === 'object') res.locals['usage'] = usage;
+  if (stats && typeof stats === 'object') res.locals['stats'] = stats;
+  if (typeof model === 'string' && model) res.locals['servedModel'] = model;
+}
+
+export async function forwardTo(daemonPath: string, req: Request, res: Response, opts: ForwardOptions = {}): Promise<ForwardResult> {
+  try {
+    const url  = `${getDaemonUrl(targetOf(res))}${daemonPath}`;
+    const init: RequestInit = {
+      method:  req.method,
+      headers: getDaemonHeaders(targetOf(res)),
+    };
+    if (req.method !== 'GET') init.body = JSON.stringify(req.body);
+
+    const upstream = await fetch(url, init);
+    const data     = await upstream.json() as { stats?: { time_to_first_token?: unknown } } | null;
+    const ttft     = data?.stats?.time_to_first_token;
+    if (typeof ttft === 'number') res.locals['ttftMs'] = ttft * 1000;
+    if (upstream.ok) noteUsage(res, data);
+    return settle(res, upstream.status, data, opts);
+  } catch (err) {
+    return settle(res, 502, { error: 'Daemon unreachable', detail: String(err) }, opts);
+  }
+}
+
+/**
+ * SSE streaming passthrough.
+ * Forces stream:true in the request body, then pipes the upstream
+ * text/event-stream response directly to the client chunk by chunk.
+ */
+export async function forwardStream(daemonPath: string, req: Request, res: Response, opts: ForwardOptions = {}): Promise<ForwardResult> {
+  try {
+    const url  = `${getDaemonUrl(targetOf(res))}${daemonPath}`;
+    const body = { ...(req.body as Record<string, unknown>), stream: true };
+    const startedAt = Date.now();
+
+    const upstream = await fetch(url, {
+      method:  'POST',
+      headers: getDaemonHeaders(targetOf(res)),
+      body:    JSON.stringify(body),
+    });
+
+    if (!upstream.ok || !upstream.body) {
+      return settle(res, upstream.status, { error: 'Upstream error', status: upstream.status }, opts);
+    }
+    recordSuccess(targetOf(res).id);
+    res.locals['streamChunks'] = 0;   // lib/usage estimates from this when no usage chunk arrives
+
+    res.setHeader('Content-Type',  'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection',    'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering if behind proxy
+    res.flushHeaders();
+
+    const reader = upstream.body.getReader();
+    const dec    = new TextDecoder();
+    let   partial = '';   // incomplete SSE line carried to the next chunk
+
+    // Client gone: stop generating rather than stream into the void
+    const onClose = () => { if (!res.writableFinished) void reader.cancel().catch(() => undefined); };
+    res.once('close', onClose);
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.locals['ttftMs'] ??= Date.now() - startedAt;
+      const text = dec.decode(value, { stream: true });
+      res.write(text);
+
+      const lines = (partial + text).split('\n');
+      partial = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.startsWith('data:') || line.includes('[DONE]')) continue;
+        res.locals['streamChunks'] = (res.locals['streamChunks'] as number) + 1;
+        if (!line.includes('"usage"')) continue;
+        try { noteUsage(res, JSON.parse(line.slice(5))); } catch { /* not JSON */ }
+      }
+    }
+
+    res.off('close', onClose);
+    res.end();
+    return { ok: true };
+  } catch (err) {
+    // Only send error if headers not yet sent — a stream that broke midway cannot be retried
+    if (!res.headersSent) {
+      return settle(res, 502, { error: 'Daemon unreachable', detail: String(err) }, opts);
+    }
+    recordFailure(targetOf(res).id, String(err));
+    res.write(`data: [ERROR] ${String(err)}\n\n`);
+    res.end();
+    return { ok: true };
+  }
+}
+
+/**
+ * Raw pipe — pipes upstream response body as-is (no body modification).
+ * Used for endpoints that stream their own progress events (e.g. /api/v1/models/load).
+ */
+export async function forwardPipe(daemonPath: string, req: Request, res: Response): Promise<void> {
+  try {
+    const url      = `${getDaemonUrl(targetOf(res))}${daemonPath}`;
+    const upstream = await fetch(url, {
+      method:  req.method,
+      headers: getDaemonHeaders(targetOf(res)),
+      body:    req.method !== 'GET' ? JSON.stringify(req.body) : undefined,
+    });
+
+    if (!upstream.ok || !upstream.body) {
+      const errBody = await upstream.text().catch(() => '');
+      res.status(upstream.status).json({ error: 'Upstream error', detail: errBody });
+      return;
+    }
+
+    res.setHeader('Content-Type',      'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control',     'no-cache');
+    res.setHeader('Connection',        'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const reader = upstream.body.getReader();
+    const dec    = new TextDecoder();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(dec.decode(value, { stream: true }));
+    }
+    res.end();
+  } catch (err) {
+    if (!res.headersSent) {
+      res.status(502).json({ error: 'Daemon unreachable', detail: String(err) });
+    } else {
+      res.write(`data: [ERROR] ${String(err)}\n\n`);
+      res.end();
+    }
+  }
+}
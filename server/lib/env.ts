@@ -0,0 +1,22 @@
+/**
+ * env — minimal .env loader shared by the bridge and the CLI scripts.
+ * No dotenv dependency needed. Real environment variables always win.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+export function loadDotEnv(file = resolve(process.cwd(), '.env')): void {
+  try {
+    const lines = readFileSync(file, 'utf-8').split('\n');
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      const eq = trimmed.indexOf('=');
+      if (eq === -1) continue;
+      const key = trimmed.slice(0, eq).trim();
+      const val = trimmed.slice(eq + 1).trim();
+      if (!(key in process.env)) process.env[key] = val;
+    }
+  } catch { /* .env not found — fall back to defaults */ }
+}
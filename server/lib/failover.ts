@@ -0,0 +1,170 @@
+/**
+ * failover — Retry inference on another target when the chosen one is down.
+ *
+ * Policies (table `failover_policies`, evaluated in order, first match wins)
+ * say which requests may move and where to:
+ *   modelPattern — model id glob, `*` matches anything (case-insensitive)
+ *   targetIds    — the target group to fail over within; empty = any target
+ *                  the caller can see
+ *   maxAttempts  — targets tried in total, including the first
+ *   allowJit     — also fail over to targets that only have the model on
+ *                  disk (the daemon loads it just in time)
+ *
+ * A request under a policy skips a target whose circuit is open
+ * (lib/circuitBreaker) and, when the daemon is unreachable or answers 5xx
+ * before any output was sent, is retried on the next healthy target that
+ * has the model loaded (then, with allowJit, on disk). Requests that match
+ * no policy, or that pinned a target with X-DaemonPulse-Target, are sent
+ * once as before. A stream that fails midway is never retried.
+ */
+
+import type { Request, Response } from 'express';
+import { getDb } from '../db/schema';
+import { admit, isAvailable, releaseTrial } from './circuitBreaker';
+import { catalog, modelMatches } from './modelCatalog';
+import { outstandingFor, trackRequest, ROUTE_HEADER } from './loadBalancer';
+import { targetOf, TARGET_HEADER, type Forward, type ForwardResult } from './daemonProxy';
+import type { DaemonTarget } from './targets';
+
+export interface FailoverPolicy {
+  modelPattern: string;
+  targetIds:    string[];
+  maxAttempts:  number;
+  allowJit:     boolean;
+}
+
+export const MAX_FAILOVER_ATTEMPTS = 5;
+
+interface PolicyRow {
+  model_pattern: string;
+  target_ids:    string;
+  max_attempts:  number;
+  allow_jit:     number;
+}
+
+export function listFailoverPolicies(): FailoverPolicy[] {
+  return getDb()
+    .prepare<[], PolicyRow>('SELECT model_pattern, target_ids, max_attempts, allow_jit FROM failover_policies ORDER BY position')
+    .all()
+    .map(r => ({
+      modelPattern: r.model_pattern,
+      targetIds:    JSON.parse(r.target_ids) as string[],
+      maxAttempts:  r.max_attempts,
+      allowJit:     r.allow_jit === 1,
+    }));
+}
+
+/** Replace the whole policy list (order matters). */
+export function setFailoverPolicies(policies: FailoverPolicy[]): void {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT INTO failover_policies (position, model_pattern, target_ids, max_attempts, allow_jit) VALUES (?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    db.prepare('DELETE FROM failover_policies').run();
+    policies.forEach((p, i) => insert.run(i, p.modelPattern, JSON.stringify(p.targetIds), p.maxAttempts, p.allowJit ? 1 : 0));
+  })();
+}
+
+/** Validate a PUT body: { policies: FailoverPolicy[] }. Unknown target ids are reported by the caller. */
+export function parseFailoverPolicies(body: unknown): { ok: true; value: FailoverPolicy[] } | { ok: false; error: string } {
+  const list = (body as { policies?: unknown } | null)?.policies;
+  if (!Array.isArray(list)) return { ok: false, error: 'policies must be an array' };
+  const out: FailoverPolicy[] = [];
+  for (const [i, raw] of list.entries()) {
+    const p = (raw ?? {}) as Record<string, unknown>;
+    const where = `policies[${i}]`;
+    if (typeof p['modelPattern'] !== 'string' || !p['modelPattern'].trim()) {
+      return { ok: false, error: `${where}.modelPattern is required (use * for every model)` };
+    }
+    const ids = p['targetIds'] ?? [];
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+      return { ok: false, error: `${where}.targetIds must be an array of target ids` };
+    }
+    const attempts = p['maxAttempts'] ?? 2;
+    if (typeof attempts !== 'number' || !Number.isInteger(attempts) || attempts < 2 || attempts > MAX_FAILOVER_ATTEMPTS) {
+      return { ok: false, error: `${where}.maxAttempts must be a whole number between 2 and ${MAX_FAILOVER_ATTEMPTS}` };
+    }
+    out.push({
+      modelPattern: p['modelPattern'].trim(),
+      targetIds:    [...new Set(ids as string[])],
+      maxAttempts:  attempts,
+      allowJit:     p['allowJit'] === true,
+    });
+  }
+  return { ok: true, value: out };
+}
+
+export function policyFor(model: string): FailoverPolicy | undefined {
+  return listFailoverPolicies().find(p => modelMatches(p.modelPattern, model));
+}
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+/** Next healthy, untried target in the group with the model loaded (or on disk, with allowJit). */
+async function nextTarget(model: string, group: DaemonTarget[], tried: string[], allowJit: boolean): Promise<DaemonTarget | undefined> {
+  const entries = (await catalog(group.filter(t => !tried.includes(t.id) && isAvailable(t.id))))
+    .filter(e => e.reachable);
+  const byLoad = (a: DaemonTarget, b: DaemonTarget) => outstandingFor(a.id) - outstandingFor(b.id);
+  const loaded = entries.filter(e => e.models.some(m => m.id === model && m.state === 'loaded')).map(e => e.target);
+  if (loaded.length > 0) return loaded.sort(byLoad)[0];
+  if (!allowJit) return undefined;
+  return entries.filter(e => e.models.some(m => m.id === model)).map(e => e.target).sort(byLoad)[0];
+}
+
+export interface FailoverContext {
+  model:  string | null;
+  usable: DaemonTarget[];   // targets the caller may use
+  pinned: boolean;          // the caller named the target — never move it
+}
+
+/**
+ * Send the request to res.locals.target, moving it to other targets as the
+ * matching policy allows. Always answers the client. A failover is reported
+ * in the response headers: X-DaemonPulse-Target names the target that
+ * served it, X-DaemonPulse-Route gains `failover=<ids tried first>`.
+ */
+export async function forwardWithFailover(req: Request, res: Response, forward: Forward, ctx: FailoverContext): Promise<void> {
+  const policy = ctx.model && !ctx.pinned ? policyFor(ctx.model) : undefined;
+  if (!ctx.model || !policy) {
+    await forward(req, res);
+    return;
+  }
+
+  const group = policy.targetIds.length > 0 ? ctx.usable.filter(t => policy.targetIds.includes(t.id)) : ctx.usable;
+  const tried: string[] = [];
+  let failure: ForwardResult & { ok: false } | null = null;
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    const target = targetOf(res);
+    const pass = admit(target.id);
+    if (pass) {
+      let result: ForwardResult;
+      try {
+        result = await forward(req, res, { retryable: attempt < policy.maxAttempts });
+      } finally {
+        releaseTrial(target.id, pass);   // still unsettled: the admission queue turned it away before the daemon
+      }
+      if (result.ok) return;
+      failure = result;
+    } else {
+      failure = { ok: false, status: 503, body: { error: `Circuit open for target "${target.id}" — daemon recently failed` } };
+    }
+    tried.push(target.id);
+
+    const next = attempt < policy.maxAttempts ? await nextTarget(ctx.model, group, tried, policy.allowJit) : undefined;
+    if (!next) break;
+    res.locals['target'] = next;
+    res.setHeader(TARGET_HEADER, next.id);
+    const route = String(res.getHeader(ROUTE_HEADER) ?? '').replace(/; failover=[^;]*$/, '');
+    res.setHeader(ROUTE_HEADER, `${route}; failover=${tried.join(',')}`);
+    trackRequest(res, next, ctx.model);
+  }
+
+  if (failure) {
+    if (failure.headers) res.set(failure.headers);
+    res.status(failure.status).json(failure.body);
+  }
+}
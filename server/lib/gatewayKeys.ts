@@ -0,0 +1,148 @@
+/**
+ * gatewayKeys — API keys for the OpenAI-compatible gateway (/v1, routes/gateway).
+ *
+ * A key is `dpg_` + 32 random bytes (base64url). Only its SHA-256 is stored;
+ * the plaintext is returned once, at creation. Gateway keys are separate from
+ * personal API tokens (`dp_…`): they only open the /v1 inference endpoints,
+ * never the dashboard API, so they can be handed to downstream apps.
+ *
+ * Each key belongs to a user. Requests made with it count as that user's
+ * (target grants from lib/targetAcl decide which daemons it can reach), and
+ * disabling or deleting the user stops the key immediately.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getDb } from '../db/schema';
+import { sqliteTimeToMs, type Role } from './sessions';
+
+export const GATEWAY_KEY_PREFIX = 'dpg_';
+
+interface KeyRow {
+  id:           number;
+  user_id:      number;
+  username:     string;
+  name:         string;
+  prefix:       string;
+  created_at:   string;
+  last_used_at: string | null;
+  expires_at:   string | null;
+}
+
+export interface GatewayKeySummary {
+  id:         number;
+  userId:     number;
+  username:   string;
+  name:       string;
+  prefix:     string;          // first characters of the key, for recognising it
+  createdAt:  string;          // ISO
+  lastUsedAt: string | null;   // ISO
+  expiresAt:  string | null;   // ISO
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+const iso    = (v: string | null) => (v ? new Date(sqliteTimeToMs(v)).toISOString() : null);
+
+export const isGatewayKey = (bearer: string) => bearer.startsWith(GATEWAY_KEY_PREFIX);
+
+const SELECT_KEYS = `
+  SELECT k.id, k.user_id, u.username, k.name, k.prefix, k.created_at, k.last_used_at, k.expires_at
+  FROM gateway_keys k JOIN users u ON u.id = k.user_id
+  WHERE k.revoked_at IS NULL AND (k.expires_at IS NULL OR k.expires_at > datetime('now'))
+`;
+
+function toSummary(r: KeyRow): GatewayKeySummary {
+  return {
+    id:         r.id,
+    userId:     r.user_id,
+    username:   r.username,
+    name:       r.name,
+    prefix:     r.prefix,
+    createdAt:  iso(r.created_at)!,
+    lastUsedAt: iso(r.last_used_at),
+    expiresAt:  iso(r.expires_at),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Management
+// ---------------------------------------------------------------------------
+
+/** Returns the plaintext key (shown once) and its summary. */
+export function createGatewayKey(
+  userId: number, name: string, expiresInDays: number | null,
+): { key: string; summary: GatewayKeySummary } {
+  const db  = getDb();
+  const key = `${GATEWAY_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const info = db.prepare(`
+    INSERT INTO gateway_keys (user_id, name, key_hash, prefix, expires_at)
+    VALUES (?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', ?) END)
+  `).run(
+    userId, name, sha256(key), key.slice(0, GATEWAY_KEY_PREFIX.length + 6),
+    expiresInDays, `+${expiresInDays ?? 0} days`,
+  );
+  const row = db.prepare<number, KeyRow>(`${SELECT_KEYS} AND k.id = ?`).get(Number(info.lastInsertRowid))!;
+  return { key, summary: toSummary(row) };
+}
+
+/** Live keys — one user's, or everyone's when userId is omitted (admin view). */
+export function listGatewayKeys(userId?: number): GatewayKeySummary[] {
+  const db = getDb();
+  const rows = userId === undefined
+    ? db.prepare<[], KeyRow>(`${SELECT_KEYS} ORDER BY k.created_at DESC`).all()
+    : db.prepare<number, KeyRow>(`${SELECT_KEYS} AND k.user_id = ? ORDER BY k.created_at DESC`).all(userId);
+  return rows.map(toSummary);
+}
+
+export function gatewayKeyOwner(keyId: number): number | undefined {
+  return getDb()
+    .prepare<number, { user_id: number }>('SELECT user_id FROM gateway_keys WHERE id = ? AND revoked_at IS NULL')
+    .get(keyId)?.user_id;
+}
+
+export function revokeGatewayKey(keyId: number): boolean {
+  const info = getDb()
+    .prepare("UPDATE gateway_keys SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL")
+    .run(keyId);
+  return info.changes > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Authentication — used by routes/gateway
+// ---------------------------------------------------------------------------
+
+export interface ResolvedGatewayKey {
+  keyId:    number;
+  userId:   number;
+  username: string;
+  role:     Role;
+  disabled: boolean;
+}
+
+/** Look up a presented key. Undefined when unknown, revoked or expired. */
+export function resolveGatewayKey(presented: string): ResolvedGatewayKey | undefined {
+  const row = getDb().prepare<string, {
+    id: number; user_id: number; username: string; role: Role; disabled: number;
+  }>(`
+    SELECT k.id, k.user_id, u.username, u.role, u.disabled
+    FROM gateway_keys k JOIN users u ON u.id = k.user_id
+    WHERE k.key_hash = ? AND k.revoked_at IS NULL AND (k.expires_at IS NULL OR k.expires_at > datetime('now'))
+  `).get(sha256(presented));
+  if (!row) return undefined;
+  return {
+    keyId:    row.id,
+    userId:   row.user_id,
+    username: row.username,
+    role:     row.role,
+    disabled: row.disabled === 1,
+  };
+}
+
+/** Bump last_used_at, at most once a minute per key to keep writes cheap. */
+export function touchGatewayKey(keyId: number): void {
+  getDb()
+    .prepare(`
+      UPDATE gateway_keys SET last_used_at = datetime('now')
+      WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-60 seconds'))
+    `)
+    .run(keyId);
+}
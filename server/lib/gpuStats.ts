@@ -0,0 +1,103 @@
+/**
+ * gpuStats — Per-GPU temperature, load and VRAM of a daemon target, for
+ * alert rules and the Fleet's GPU cards.
+ *
+ * Targets on this machine (mode 'local', no --host) are read with
+ * `nvidia-smi`, which reports live temperature, load and memory use.
+ * Everything else — and local machines without an NVIDIA driver — falls back
+ * to the cached hardware survey (lib/hardwareSurvey), which gives VRAM totals
+ * and, where the runtime reports them, VRAM use and temperature.
+ */
+
+import { execFile }  from 'child_process';
+import { promisify } from 'util';
+import { surveyHardware, type HardwareInfo } from './hardwareSurvey';
+import type { DaemonTarget } from './targets';
+
+const execFileAsync = promisify(execFile);
+
+const NVIDIA_SMI_TIMEOUT_MS = 5_000;
+const MIB                   = 1_048_576 / 1e9;   // MiB → GB
+
+export interface GpuReading {
+  index:        number;
+  name:         string;
+  totalVramGb:  number | null;
+  usedVramGb:   number | null;   // null when the source does not report it
+  temperatureC: number | null;
+  utilisation:  number | null;   // 0–100 %
+}
+
+const round = (gb: number) => Math.round(gb * 100) / 100;
+
+const num = (v: unknown): number | null => {
+  const n = typeof v === 'string' ? parseFloat(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+async function nvidiaSmi(): Promise<GpuReading[] | null> {
+  try {
+    const { stdout } = await execFileAsync('nvidia-smi', [
+      '--query-gpu=index,name,temperature.gpu,utilization.gpu,memory.used,memory.total',
+      '--format=csv,noheader,nounits',
+    ], { timeout: NVIDIA_SMI_TIMEOUT_MS });
+    const gpus = stdout.trim().split('\n').filter(Boolean).map((line) => {
+      const [index, name, temp, load, used, total] = line.split(',').map(s => s.trim());
+      const usedMib  = num(used);
+      const totalMib = num(total);
+      return {
+        index:        num(index) ?? 0,
+        name:         name ?? '',
+        totalVramGb:  totalMib === null ? null : totalMib * MIB,
+        usedVramGb:   usedMib === null ? null : usedMib * MIB,
+        temperatureC: num(temp),   // '[N/A]' on some boards
+        utilisation:  num(load),
+      };
+    });
+    return gpus.length > 0 ? gpus : null;
+  } catch {
+    return null;   // no driver, or not an NVIDIA machine
+  }
+}
+
+async function survey(target: DaemonTarget): Promise<GpuReading[] | null> {
+  try {
+    return (await surveyHardware(target)).gpus.map(g => ({
+      index:        g.index,
+      name:         g.name,
+      totalVramGb:  g.totalVram,
+      usedVramGb:   g.usedVram,
+      temperatureC: g.temperature ?? null,
+      utilisation:  g.utilisation ?? null,
+    }));
+  } catch {
+    return null;
+  }
+}
+
+/** The target's GPUs, or null when neither source answered. */
+export async function gpuReadings(target: DaemonTarget): Promise<GpuReading[] | null> {
+  if (target.mode === 'local' && !target.host) {
+    const local = await nvidiaSmi();
+    if (local) return local;
+  }
+  return survey(target);
+}
+
+/** The survey with each GPU's live VRAM use, temperature and load filled in where a reading has them. */
+export function withGpuReadings<T extends HardwareInfo>(hardware: T, readings: GpuReading[]): T {
+  return {
+    ...hardware,
+    gpus: hardware.gpus.map((gpu) => {
+      const r = readings.find(x => x.index === gpu.index);
+      if (!r) return gpu;
+      return {
+        ...gpu,
+        totalVram:   gpu.totalVram || round(r.totalVramGb ?? 0),
+        usedVram:    r.usedVramGb !== null ? round(r.usedVramGb) : gpu.usedVram,
+        temperature: r.temperatureC ?? gpu.temperature,
+        utilisation: r.utilisation ?? gpu.utilisation,
+      };
+    }),
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * parseRuntimeSurvey against checked-in `lms runtime survey` outputs, one per
+ * shape the parser accepts (see the hardwareSurvey header).
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parseRuntimeSurvey, type HardwareInfo } from './hardwareSurvey';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/runtimeSurvey/${name}`, import.meta.url), 'utf8');
+
+/** index, name, total and used VRAM, driver status, backend */
+const rows = (hw: HardwareInfo) =>
+  hw.gpus.map(g => [g.index, g.name, g.totalVram, g.usedVram, g.driverStatus, g.backend]);
+
+test('flat JSON', () => {
+  const hw = parseRuntimeSurvey(fixture('flat.json'));
+  assert.deepEqual(rows(hw), [[0, 'NVIDIA GeForce RTX 4090', 24, 3.5, 'ok', 'CUDA']]);
+  assert.equal(hw.gpus[0]?.temperature, 48);
+  assert.equal(hw.totalVram, 24);
+  assert.equal(hw.systemRam, 64);
+  assert.equal(hw.cpu, 'AMD Ryzen 9 7950X');
+  assert.equal(hw.os, 'linux');
+  assert.equal(hw.cudaVersion, '12.4');
+  assert.equal(hw.vulkanVersion, '1.3.280');
+  assert.equal(hw.metalSupported, undefined);
+  assert.equal(hw.surveyError, undefined);
+});
+
+test('engine JSON', () => {
+  const hw = parseRuntimeSurvey(fixture('engine.json'));
+  assert.deepEqual(rows(hw), [
+    [0, 'NVIDIA GeForce RTX 3060', 12.88, 2.15, 'ok', 'CUDA'],
+    [1, 'NVIDIA GeForce RTX 3060', 12.88, 0,    'ok', 'CUDA'],
+  ]);
+  assert.equal(hw.systemRam, 34.36);   // 32 GiB
+  assert.equal(hw.cpu, 'Intel(R) Core(TM) i7-12700K');
+  assert.equal(hw.cudaVersion, '12.2');
+  assert.equal(hw.vulkanVersion, undefined);
+  assert.equal(hw.os, null);
+  assert.equal(hw.surveyError, undefined);
+});
+
+test('per-runtime array: a failed runtime keeps its error, a working one supplies the GPU', () => {
+  const hw = parseRuntimeSurvey(fixture('per-runtime.json'));
+  assert.deepEqual(rows(hw), [[0, 'AMD Radeon RX 7900 XTX', 25.75, null, 'ok', 'Vulkan']]);
+  assert.equal(hw.surveyError, 'CUDA driver not found');
+  assert.equal(hw.vulkanVersion, '1.3.275');
+  assert.equal(hw.cudaVersion, '12');   // only the runtime name's
+  assert.equal(hw.systemRam, 68.72);
+  assert.equal(hw.os, 'windows');
+  assert.equal(hw.runtime, 'llama.cpp-win-x86_64-nvidia-cuda12-avx2');
+});
+
+test('plain text', () => {
+  const hw = parseRuntimeSurvey(fixture('text.txt'));
+  assert.deepEqual(rows(hw), [
+    [0, 'NVIDIA GeForce RTX 4090',      25.77, 4.19, 'ok',    'CUDA'],   // 24 GiB, 20.1 GiB free
+    [1, 'NVIDIA GeForce RTX 3060 12GB', 12.88, null, 'error', 'CUDA'],
+  ]);
+  assert.equal(hw.systemRam, 67.32);   // 62.7 GiB
+  assert.equal(hw.cpu, 'AMD Ryzen 9 7950X (AVX2)');
+  assert.equal(hw.cudaVersion, '12.4');
+  assert.equal(hw.os, 'linux');
+  assert.equal(hw.runtime, 'llama.cpp-linux-x86_64-nvidia-cuda12-avx2');
+  assert.match(hw.surveyError ?? '', /failed to initialise driver/);
+});
+
+test('banner line followed by JSON', () => {
+  const hw = parseRuntimeSurvey(fixture('banner-json.txt'));
+  assert.deepEqual(rows(hw), [[0, 'Apple M3 Max', 48, null, 'ok', 'Metal']]);
+  assert.equal(hw.metalSupported, true);
+  assert.equal(hw.cudaVersion, undefined);
+  assert.equal(hw.systemRam, 64);
+  assert.equal(hw.os, 'macOS');
+  assert.equal(hw.runtime, 'mlx-llm-mac-arm64-apple-metal-advsimd');
+});
+
+test('unrecognised output yields an empty survey', () => {
+  assert.deepEqual(parseRuntimeSurvey('lms: command not found'), { gpus: [], systemRam: null, os: null, totalVram: 0 });
+});
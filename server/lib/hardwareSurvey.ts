@@ -0,0 +1,340 @@
+/**
+ * hardwareSurvey — `lms runtime survey` normalised into one hardware model.
+ *
+ * What the survey prints depends on the LM Studio version and on the runtime
+ * (engine) that runs it. parseRuntimeSurvey() accepts:
+ *   flat JSON     { gpus: [{ index, name, totalVramGb, freeVramGb, … }], ramGb, … }
+ *   engine JSON   { gpuSurveyResult: { result, gpuInfo }, cpuSurveyResult, memoryInfo }
+ *   per-runtime   an array of either, one entry per installed runtime — merged
+ *   text          "Survey by <runtime>" followed by GPU, CPU and RAM lines
+ * and returns HardwareInfo (mirrors IHardwareInfo in src/types): GPUs with
+ * VRAM and driver status, CUDA/Vulkan/Metal support, CPU and system RAM.
+ * Memory is in GB (1e9 bytes), as in lms ps. Whatever the survey does not
+ * report is left null or absent rather than guessed.
+ *
+ * surveyHardware() runs the survey for a target, cached for SURVEY_CACHE_MS —
+ * it is slow and the hardware rarely changes.
+ */
+
+import { runLmsCli } from './lmsCli';
+import type { DaemonTarget } from './targets';
+
+const SURVEY_CACHE_MS = 10 * 60_000;
+
+const GB  = 1e9;
+const GIB = 1_073_741_824 / GB;   // GiB → GB
+const MIB = 1_048_576 / GB;
+const MB  = 1e6 / GB;
+
+export type GpuBackend   = 'CUDA' | 'Vulkan' | 'Metal' | 'ROCm';
+export type DriverStatus = 'ok' | 'error' | 'unknown';
+
+export interface GpuInfo {
+  index:        number;
+  name:         string;
+  totalVram:    number;          // GB
+  usedVram:     number | null;   // GB; null when not reported
+  temperature?: number;          // °C
+  utilisation?: number;          // 0–100 %
+  driverStatus: DriverStatus;
+  backend?:     GpuBackend;      // the API the GPU was detected through
+}
+
+export interface HardwareInfo {
+  gpus:            GpuInfo[];
+  totalVram:       number;         // GB, all GPUs
+  systemRam:       number | null;  // GB
+  os:              'linux' | 'windows' | 'macOS' | null;
+  cpu?:            string;
+  cudaVersion?:    string;
+  vulkanVersion?:  string;
+  metalSupported?: boolean;
+  runtime?:        string;         // the runtime that ran the survey
+  surveyError?:    string;         // the survey's own complaint, e.g. a missing driver
+}
+
+type Obj = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Obj => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const num = (v: unknown): number | null => {
+  const n = typeof v === 'string' ? parseFloat(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const str = (v: unknown): string | undefined =>
+  typeof v === 'string' && v.trim() ? v.trim() : typeof v === 'number' ? String(v) : undefined;
+
+const round = (gb: number) => Math.round(gb * 100) / 100;
+
+/** First of `keys` present as a number, in GB; `scale` converts the field's unit. */
+function sizeOf(o: Obj, keys: string[], scale = 1): number | null {
+  for (const key of keys) {
+    const n = num(o[key]);
+    if (n !== null) return n * scale;
+  }
+  return null;
+}
+
+function unitScale(unit: string): number {
+  switch (unit.toLowerCase()) {
+    case 'gib': return GIB;
+    case 'mib': return MIB;
+    case 'mb':  return MB;
+    default:    return 1;
+  }
+}
+
+function backendOf(s: string | undefined): GpuBackend | undefined {
+  if (!s)                     return undefined;
+  if (/cuda/i.test(s))        return 'CUDA';
+  if (/vulkan/i.test(s))      return 'Vulkan';
+  if (/metal|mlx/i.test(s))   return 'Metal';
+  if (/rocm|\bhip\b/i.test(s)) return 'ROCm';
+  return undefined;
+}
+
+function osOf(s: string | undefined): HardwareInfo['os'] {
+  if (!s) return null;
+  if (/mac|darwin|apple/i.test(s)) return 'macOS';   // before "win": darwin
+  if (/win/i.test(s))              return 'windows';
+  if (/linux/i.test(s))            return 'linux';
+  return null;
+}
+
+function driverStatusOf(v: unknown): DriverStatus {
+  if (typeof v === 'boolean') return v ? 'ok' : 'error';
+  const s = str(v);
+  if (!s) return 'unknown';
+  if (/^(ok|success|ready|available|loaded)$/i.test(s))                 return 'ok';
+  if (/error|fail|missing|not found|unavailable|unsupported|outdated/i.test(s)) return 'error';
+  return 'unknown';
+}
+
+// ---------------------------------------------------------------------------
+// Accumulating one survey (or several runtimes' surveys) into HardwareInfo
+// ---------------------------------------------------------------------------
+
+type Survey = Omit<HardwareInfo, 'totalVram'>;
+
+const emptySurvey = (): Survey => ({ gpus: [], systemRam: null, os: null });
+
+/** Runtime names carry the platform and backend, e.g. llama.cpp-win-x86_64-nvidia-cuda12-avx2. */
+function noteRuntime(s: Survey, runtime: string): void {
+  s.runtime ??= runtime;
+  s.os      ??= osOf(runtime);
+  const cuda = /cuda[-_ ]?(\d+(?:\.\d+)*)/i.exec(runtime);
+  if (cuda) s.cudaVersion ??= cuda[1];
+  if (backendOf(runtime) === 'Metal') s.metalSupported = true;
+}
+
+/** Record the backend version a GPU was detected with — more precise than the runtime name's. */
+function noteBackend(s: Survey, backend: GpuBackend | undefined, version: string | undefined): void {
+  if (backend === 'Metal')  s.metalSupported = true;
+  if (!version)             return;
+  if (backend === 'CUDA')   s.cudaVersion   = version;
+  if (backend === 'Vulkan') s.vulkanVersion = version;
+}
+
+/** Same GPU seen by two runtimes (CUDA and Vulkan) — keep the best of both readings. */
+function addGpu(s: Survey, gpu: GpuInfo): void {
+  const same = s.gpus.find(g => g.index === gpu.index && g.name.toLowerCase() === gpu.name.toLowerCase());
+  if (!same) {
+    s.gpus.push(gpu);
+    return;
+  }
+  if (same.driverStatus !== 'ok' && gpu.driverStatus !== 'unknown') {   // any runtime that works wins
+    same.driverStatus = gpu.driverStatus;
+    if (gpu.driverStatus === 'ok') same.backend = gpu.backend ?? same.backend;
+  }
+  same.totalVram     = Math.max(same.totalVram, gpu.totalVram);
+  same.usedVram    ??= gpu.usedVram;
+  same.temperature ??= gpu.temperature;
+  same.utilisation ??= gpu.utilisation;
+  same.backend     ??= gpu.backend;
+}
+
+/** { gpus: [...], ramGb, cpu, cudaVersion, … } */
+function readFlat(s: Survey, o: Obj): void {
+  const gpus = Array.isArray(o['gpus']) ? o['gpus'].filter(isObj) : [];
+  gpus.forEach((g, i) => {
+    const total = sizeOf(g, ['totalVramGb', 'vramGb']) ?? sizeOf(g, ['totalVramBytes', 'vramBytes'], 1 / GB) ?? 0;
+    const free  = sizeOf(g, ['freeVramGb']) ?? sizeOf(g, ['freeVramBytes'], 1 / GB);
+    const used  = sizeOf(g, ['usedVramGb']) ?? sizeOf(g, ['usedVramBytes'], 1 / GB);
+    const backend = backendOf(str(g['backend']) ?? str(g['api']) ?? str(g['detectionPlatform']));
+    noteBackend(s, backend, str(g['backendVersion']) ?? str(g['detectionPlatformVersion']));
+    addGpu(s, {
+      index:        num(g['index']) ?? i,
+      name:         str(g['name']) ?? `GPU ${i}`,
+      totalVram:    round(total),
+      usedVram:     used !== null ? round(used) : free !== null ? round(Math.max(0, total - free)) : null,
+      temperature:  num(g['temperature']) ?? num(g['temperatureC']) ?? undefined,
+      utilisation:  num(g['utilisation']) ?? num(g['utilization']) ?? undefined,
+      driverStatus: driverStatusOf(g['driverStatus'] ?? g['driver'] ?? g['status']),
+      backend,
+    });
+  });
+
+  const ram = sizeOf(o, ['ramGb', 'systemRamGb', 'totalRamGb']) ?? sizeOf(o, ['ramBytes', 'systemRamBytes'], 1 / GB);
+  if (ram !== null) s.systemRam ??= round(ram);
+  const cpu = isObj(o['cpu']) ? str(o['cpu']['name']) : str(o['cpu']);
+  if (cpu) s.cpu ??= cpu;
+  s.os ??= osOf(str(o['os']) ?? str(o['platform']));
+  if (str(o['cudaVersion']))   s.cudaVersion   ??= str(o['cudaVersion']);
+  if (str(o['vulkanVersion'])) s.vulkanVersion ??= str(o['vulkanVersion']);
+  if (o['metalSupported'] === true || o['metal'] === true) s.metalSupported = true;
+  const error = str(o['error']);
+  if (error) s.surveyError ??= error;
+}
+
+/** { gpuSurveyResult: { result: { code, message }, gpuInfo }, cpuSurveyResult, memoryInfo } */
+function readEngine(s: Survey, o: Obj): void {
+  const gsr    = isObj(o['gpuSurveyResult']) ? o['gpuSurveyResult'] : {};
+  const result = isObj(gsr['result']) ? gsr['result'] : {};
+  const code   = str(result['code']);
+  const ok     = code === undefined ? undefined : /^success$/i.test(code);
+  if (ok === false) s.surveyError ??= str(result['message']) ?? code;
+
+  const gpus = Array.isArray(gsr['gpuInfo']) ? gsr['gpuInfo'].filter(isObj) : [];
+  gpus.forEach((g, i) => {
+    const backend = backendOf(str(g['detectionPlatform']));
+    noteBackend(s, backend, str(g['detectionPlatformVersion']));
+    const total = sizeOf(g, ['dedicatedMemoryCapacityBytes', 'totalMemoryCapacityBytes'], 1 / GB) ?? 0;
+    const free  = sizeOf(g, ['freeMemoryBytes', 'availableMemoryBytes'], 1 / GB);
+    addGpu(s, {
+      index:        num(g['index']) ?? i,
+      name:         str(g['name']) ?? `GPU ${i}`,
+      totalVram:    round(total),
+      usedVram:     free !== null ? round(Math.max(0, total - free)) : null,
+      driverStatus: ok === undefined ? 'unknown' : ok ? 'ok' : 'error',
+      backend,
+    });
+  });
+
+  const cpuInfo = isObj(o['cpuSurveyResult']) && isObj(o['cpuSurveyResult']['cpuInfo']) ? o['cpuSurveyResult']['cpuInfo'] : {};
+  const cpu     = str(cpuInfo['name']) ?? str(cpuInfo['architecture']);
+  if (cpu) s.cpu ??= cpu;
+
+  const memory = isObj(o['memoryInfo']) ? o['memoryInfo'] : {};
+  const ram    = sizeOf(memory, ['ramCapacity', 'ramCapacityBytes'], 1 / GB);
+  if (ram !== null) s.systemRam ??= round(ram);
+}
+
+function readJson(s: Survey, value: unknown): void {
+  if (Array.isArray(value)) {
+    // One survey per runtime: { runtime | name | engine, survey | result | hardware } or the survey itself
+    for (const entry of value.filter(isObj)) {
+      const runtime = str(entry['runtime']) ?? str(entry['engine']) ?? str(entry['name']);
+      if (runtime) noteRuntime(s, runtime);
+      const inner = [entry['survey'], entry['result'], entry['hardware']].find(isObj);
+      readJson(s, inner ?? entry);
+    }
+    return;
+  }
+  if (!isObj(value)) return;
+  const runtime = str(value['runtime']) ?? str(value['surveyedBy']);
+  if (runtime) noteRuntime(s, runtime);
+  if ('gpuSurveyResult' in value || 'memoryInfo' in value) readEngine(s, value);
+  else readFlat(s, value);
+}
+
+const SIZE_RE  = /([\d.]+)\s*(GiB|GB|MiB|MB)\b(?!\s+(?:free|available))/i;
+const VRAM_RE  = /([\d.]+)\s*(GiB|GB|MiB|MB)\s+(?:of\s+)?(?:VRAM|total|memory)/i;
+const ERROR_RE = /no (?:compatible )?gpus? (?:found|detected)|driver.*(?:not found|missing|failed|error|outdated)|failed to (?:load|initiali[sz]e)/i;
+
+/** "NVIDIA GeForce RTX 3060 12GB (CUDA 12.4) — 12.00 GiB VRAM" → the name; sizes in names are whole numbers. */
+const gpuName = (body: string) =>
+  body.split(/\s+\(|\s+[—|–-]\s+|,/)[0]!.replace(/\s+\d+\.\d+\s*(?:GiB|GB|MiB|MB)\b.*$/i, '').trim();
+
+/**
+ * Human-readable survey:
+ *   Survey by llama.cpp-linux-x86_64-nvidia-cuda12-avx2 (1.28.0)
+ *   GPU 0: NVIDIA GeForce RTX 4090 (CUDA 12.4) — 24.00 GiB VRAM, 20.10 GiB free
+ *   CPU: AMD Ryzen 9 7950X (AVX2)
+ *   RAM: 62.70 GiB
+ */
+function readText(s: Survey, text: string): void {
+  let ordinal = 0;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    let m: RegExpExecArray | null;
+
+    if ((m = /^Survey by\s+(\S+)/i.exec(line))) { noteRuntime(s, m[1]!); continue; }
+
+    if ((m = /^(?:System\s+)?(?:RAM|Memory)\s*[:|]\s*([\d.]+)\s*(GiB|GB|MiB|MB)\b/i.exec(line))) {
+      s.systemRam ??= round(parseFloat(m[1]!) * unitScale(m[2]!));
+      continue;
+    }
+    if ((m = /^CPU\s*[:|]\s*(.+)$/i.exec(line))) { s.cpu ??= m[1]!.trim(); continue; }
+
+    if (ERROR_RE.test(line)) s.surveyError ??= line;
+
+    const gpuLine = /^GPU\s*#?(\d+)?\s*[:|]\s*(.+)$/i.exec(line);
+    const body    = gpuLine ? gpuLine[2]! : line;
+    const size    = VRAM_RE.exec(body) ?? SIZE_RE.exec(body);
+    const api     = /\b(CUDA|Vulkan|Metal|ROCm)\b(?:\s*v?(\d+(?:\.\d+)*))?/i.exec(body);
+    if (gpuLine ? !(size || api) : !(size && api)) continue;   // not a GPU line, or "GPU: none"
+
+    const backend = backendOf(api?.[1]);
+    noteBackend(s, backend, api?.[2]);
+    const free  = /([\d.]+)\s*(GiB|GB|MiB|MB)\s+(?:free|available)/i.exec(body);
+    const total = size ? parseFloat(size[1]!) * unitScale(size[2]!) : 0;
+    addGpu(s, {
+      index:        gpuLine?.[1] !== undefined ? Number(gpuLine[1]) : ordinal,
+      name:         gpuName(body) || `GPU ${ordinal}`,
+      totalVram:    round(total),
+      usedVram:     free ? round(Math.max(0, total - parseFloat(free[1]!) * unitScale(free[2]!))) : null,
+      driverStatus: ERROR_RE.test(body) || /error|fail|unavailable/i.test(body) ? 'error' : backend ? 'ok' : 'unknown',
+      backend,
+    });
+    ordinal += 1;
+  }
+}
+
+/** Normalise `lms runtime survey [--json]` output; unrecognised output yields an empty survey. */
+export function parseRuntimeSurvey(stdout: string): HardwareInfo {
+  const s    = emptySurvey();
+  const text = stdout.trim();
+  try {
+    readJson(s, JSON.parse(text));
+  } catch {
+    // Text, or a text banner followed by JSON
+    const start = text.search(/^[[{]/m);
+    let json: unknown;
+    if (start > 0) {
+      try { json = JSON.parse(text.slice(start)); } catch { /* text only */ }
+    }
+    if (json !== undefined) {
+      readText(s, text.slice(0, start));
+      readJson(s, json);
+    } else {
+      readText(s, text);
+    }
+  }
+  const gpus = [...s.gpus].sort((a, b) => a.index - b.index);
+  return { ...s, gpus, totalVram: round(gpus.reduce((sum, g) => sum + g.totalVram, 0)) };
+}
+
+// ---------------------------------------------------------------------------
+// Survey per target
+// ---------------------------------------------------------------------------
+
+const surveyCache = new Map<string, { at: number; hardware: HardwareInfo }>();
+
+/** The target's hardware, surveyed at most every SURVEY_CACHE_MS unless `fresh`. Throws when lms fails. */
+export async function surveyHardware(target: DaemonTarget, fresh = false): Promise<HardwareInfo & { surveyedAt: string }> {
+  const cached = surveyCache.get(target.id);
+  if (!fresh && cached && Date.now() - cached.at < SURVEY_CACHE_MS) {
+    return { ...cached.hardware, surveyedAt: new Date(cached.at).toISOString() };
+  }
+  try {
+    const hardware = parseRuntimeSurvey(await runLmsCli(target, ['runtime', 'survey', '--json']));
+    const at       = Date.now();
+    surveyCache.set(target.id, { at, hardware });
+    return { ...hardware, surveyedAt: new Date(at).toISOString() };
+  } catch (err) {
+    surveyCache.delete(target.id);
+    throw err;
+  }
+}
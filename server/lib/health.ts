@@ -0,0 +1,155 @@
+/**
+ * health — Liveness of each daemon target, polled once per target and shared.
+ *
+ * GET /api/v0/models is the cheapest ping and logs nothing in LM Studio.
+ * 200 or 401 both mean the HTTP stack is alive; no answer within
+ * STALL_THRESHOLD_MS means stalled. Every probe also feeds the target's
+ * circuit breaker.
+ *
+ * One poller runs per target while anyone subscribes (the SSE health stream
+ * in routes/proxy, lib/healthHistory, lib/alerts), however many subscribers there are;
+ * each result is cached and fanned out to all of them. The poll adapts:
+ *   running      — every HEALTH_INTERVAL_MS
+ *   down         — stopped or stalled: backing off, doubling up to MAX_BACKOFF_MS
+ *   transition   — after a state change or a forced probe, FAST_PROBES probes
+ *                  FAST_INTERVAL_MS apart, so a daemon starting or stopping
+ *                  shows up quickly
+ * healthOf() answers from the cache (POST /health/probe, /metrics) unless a
+ * fresh probe is forced or nothing recent is cached. Concurrent probes of one
+ * target share a single request.
+ */
+
+import { getTarget, type DaemonTarget } from './targets';
+import { getDaemonHeaders, getDaemonUrl } from './daemonProxy';
+import { recordHealth } from './circuitBreaker';
+
+export type HealthState = 'running' | 'stopped' | 'stalled';
+
+export interface HealthProbe {
+  state:     HealthState;
+  latencyMs: number;
+  checkedAt: string;   // ISO
+}
+
+const HEALTH_INTERVAL_MS = 15_000;
+const STALL_THRESHOLD_MS =  5_000;  // daemon response >5 s → stalled
+
+const FAST_INTERVAL_MS = 2_000;
+const FAST_PROBES      = 5;
+const MAX_BACKOFF_MS   = 60_000;
+
+type Listener = (health: HealthProbe) => void;
+
+interface Poller {
+  listeners:  Set<Listener>;
+  timer:      ReturnType<typeof setTimeout> | null;
+  fastLeft:   number;   // fast probes still due after a transition
+  downStreak: number;   // probes in a row that found the target down
+}
+
+const latest   = new Map<string, HealthProbe>();
+const inFlight = new Map<string, Promise<HealthProbe>>();
+const pollers  = new Map<string, Poller>();
+
+async function runProbe(target: DaemonTarget): Promise<HealthProbe> {
+  const start = Date.now();
+  let state: HealthState;
+  try {
+    const r = await fetch(`${getDaemonUrl(target)}/api/v0/models`, {
+      signal:  AbortSignal.timeout(STALL_THRESHOLD_MS),
+      headers: getDaemonHeaders(target),
+    });
+    state = (r.ok || r.status === 401) ? 'running' : 'stopped';
+  } catch {
+    state = Date.now() - start >= STALL_THRESHOLD_MS ? 'stalled' : 'stopped';
+  }
+  recordHealth(target.id, state);
+  return { state, latencyMs: Date.now() - start, checkedAt: new Date().toISOString() };
+}
+
+/** Probe now (joining one already in flight), cache the result and fan it out. */
+function probe(target: DaemonTarget): Promise<HealthProbe> {
+  const pending = inFlight.get(target.id);
+  if (pending) return pending;
+  const p = runProbe(target).then((health) => {
+    inFlight.delete(target.id);
+    const previous = latest.get(target.id);
+    latest.set(target.id, health);
+    const poller = pollers.get(target.id);
+    if (poller) {
+      if (previous && previous.state !== health.state) poller.fastLeft = FAST_PROBES;
+      poller.downStreak = health.state === 'running' ? 0 : poller.downStreak + 1;
+      for (const listener of poller.listeners) listener(health);
+    }
+    return health;
+  });
+  inFlight.set(target.id, p);
+  return p;
+}
+
+function nextDelay(poller: Poller, state: HealthState): number {
+  if (poller.fastLeft > 0) {
+    poller.fastLeft -= 1;
+    return FAST_INTERVAL_MS;
+  }
+  if (state === 'running') return HEALTH_INTERVAL_MS;
+  return Math.min(MAX_BACKOFF_MS, HEALTH_INTERVAL_MS * 2 ** Math.max(0, poller.downStreak - 1));
+}
+
+/** Probe now, then keep going on the adaptive schedule while the poller has subscribers. */
+function poll(targetId: string): void {
+  const poller = pollers.get(targetId);
+  if (!poller) return;
+  if (poller.timer !== null) clearTimeout(poller.timer);
+  poller.timer = null;
+  const target = getTarget(targetId);
+  if (!target) return;   // deleted — subscribers keep the last state until they reconnect
+  void probe(target).then((health) => {
+    if (pollers.get(targetId) !== poller || poller.timer !== null) return;   // stopped, or re-polled meanwhile
+    poller.timer = setTimeout(() => poll(targetId), nextDelay(poller, health.state));
+  });
+}
+
+/**
+ * Receive every health result for the target until the returned function is
+ * called. The first subscriber starts the poller (with an immediate probe);
+ * later ones get the cached result straight away.
+ */
+export function subscribeHealth(target: DaemonTarget, listener: Listener): () => void {
+  let poller = pollers.get(target.id);
+  if (poller) {
+    poller.listeners.add(listener);
+    const cached = latest.get(target.id);
+    if (cached) listener(cached);
+  } else {
+    poller = { listeners: new Set([listener]), timer: null, fastLeft: 0, downStreak: 0 };
+    pollers.set(target.id, poller);
+    poll(target.id);
+  }
+  const own = poller;
+  return () => {
+    own.listeners.delete(listener);
+    if (own.listeners.size > 0 || pollers.get(target.id) !== own) return;
+    if (own.timer !== null) clearTimeout(own.timer);
+    pollers.delete(target.id);
+  };
+}
+
+/**
+ * The target's health: the cached result while a poller keeps it current (or
+ * it is younger than HEALTH_INTERVAL_MS), otherwise a fresh probe. `force`
+ * always probes, and puts a running poller on the fast schedule — callers
+ * force after actions that are likely to change the daemon's state.
+ */
+export async function healthOf(target: DaemonTarget, force = false): Promise<HealthProbe> {
+  const cached = latest.get(target.id);
+  if (!force && cached && (pollers.has(target.id) || Date.now() - Date.parse(cached.checkedAt) < HEALTH_INTERVAL_MS)) {
+    return cached;
+  }
+  const poller = pollers.get(target.id);
+  if (force && poller) {
+    poller.fastLeft = FAST_PROBES;
+    poll(target.id);
+  }
+  return probe(target);
+}
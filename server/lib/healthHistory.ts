@@ -0,0 +1,261 @@
+/**
+ * healthHistory — Every health probe result per target, kept in SQLite for
+ * uptime and latency reporting.
+ *
+ * startHealthHistory() keeps a lib/health subscription open on every
+ * registered target (re-synced every SYNC_INTERVAL_MS as targets come and
+ * go), so the shared poller runs even with no dashboard open and each result
+ * it fans out is written here. Storage is downsampled:
+ *   health_samples  — raw results, kept HEALTH_RAW_HOURS
+ *   health_hourly   — per-hour counts, covered time and latency, updated
+ *                     with each sample, kept for the longest report range
+ *   health_outages  — one row per stopped/stalled interval, opened by the
+ *                     first sample that finds the daemon down and closed by
+ *                     the first that finds it running again
+ *
+ * Uptime is weighted by time, not by sample count: the poller probes a down
+ * daemon less often than a running one (lib/health), so each sample covers
+ * the time since the target's previous one, in its own state. Time the
+ * bridge itself was down has no samples and counts toward neither uptime
+ * nor downtime (a gap longer than MAX_SAMPLE_GAP_MS covers nothing); an
+ * outage open when it stopped closes at the first running sample after
+ * restart.
+ */
+
+import { getDb } from '../db/schema';
+import { listTargets } from './targets';
+import { subscribeHealth, type HealthProbe, type HealthState } from './health';
+
+export type HealthRange = '24h' | '7d' | '30d';
+
+export const HEALTH_RANGES: Record<HealthRange, { hours: number; bucketMinutes: number }> = {
+  '24h': { hours: 24,      bucketMinutes: 10 },
+  '7d':  { hours: 24 * 7,  bucketMinutes: 60 },
+  '30d': { hours: 24 * 30, bucketMinutes: 360 },
+};
+
+const HEALTH_RAW_HOURS = 48;
+const MAX_SAMPLE_GAP_MS = 2 * 60_000;   // above the slowest poll (lib/health backs off to 60 s, plus a stalled probe)
+const SYNC_INTERVAL_MS = 60_000;
+const PRUNE_EVERY      = 500;   // samples between retention sweeps
+
+let writesSincePrune = 0;
+
+/** ISO → SQLite datetime('now') format so string comparison works. */
+const toSqliteTime = (iso: string) => new Date(iso).toISOString().slice(0, 19).replace('T', ' ');
+const fromSqliteTime = (t: string) => new Date(`${t.replace(' ', 'T')}Z`);
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+const lastRecorded = new Map<string, string>();   // targetId → checkedAt of the last sample written
+
+function recordSample(targetId: string, health: HealthProbe): void {
+  const previous = lastRecorded.get(targetId);
+  if (previous === health.checkedAt) return;   // cached result replayed to a new subscriber
+  lastRecorded.set(targetId, health.checkedAt);
+
+  const db      = getDb();
+  const at      = toSqliteTime(health.checkedAt);
+  const running = health.state === 'running';
+  const latency = Math.round(health.latencyMs);
+  const gap     = previous === undefined ? 0 : Date.parse(health.checkedAt) - Date.parse(previous);
+  const covered = gap > 0 && gap <= MAX_SAMPLE_GAP_MS ? gap : 0;
+  db.transaction(() => {
+    db.prepare('INSERT INTO health_samples (target_id, at, state, latency_ms, covered_ms) VALUES (?, ?, ?, ?, ?)')
+      .run(targetId, at, health.state, latency, covered);
+    db.prepare(`
+      INSERT INTO health_hourly (target_id, hour, samples, running, covered_ms, running_ms, latency_sum, latency_max)
+      VALUES (@targetId, @hour, 1, @running, @covered, @runningMs, @latencySum, @latencySum)
+      ON CONFLICT(target_id, hour) DO UPDATE SET
+        samples     = samples + 1,
+        running     = running + excluded.running,
+        covered_ms  = covered_ms + excluded.covered_ms,
+        running_ms  = running_ms + excluded.running_ms,
+        latency_sum = latency_sum + excluded.latency_sum,
+        latency_max = MAX(latency_max, excluded.latency_max)
+    `).run({
+      targetId, hour: `${at.slice(0, 13)}:00:00`, running: running ? 1 : 0,
+      covered, runningMs: running ? covered : 0, latencySum: running ? latency : 0,
+    });
+
+    const open = db
+      .prepare<string, { id: number }>('SELECT id FROM health_outages WHERE target_id = ? AND ended_at IS NULL')
+      .get(targetId);
+    if (running && open) {
+      db.prepare('UPDATE health_outages SET ended_at = ? WHERE id = ?').run(at, open.id);
+    } else if (!running && !open) {
+      db.prepare('INSERT INTO health_outages (target_id, started_at, state) VALUES (?, ?, ?)').run(targetId, at, health.state);
+    }
+  })();
+
+  if (++writesSincePrune >= PRUNE_EVERY) {
+    writesSincePrune = 0;
+    prune();
+  }
+}
+
+function prune(): void {
+  const db      = getDb();
+  const keepFor = `-${Math.max(...Object.values(HEALTH_RANGES).map(r => r.hours))} hours`;
+  db.prepare("DELETE FROM health_samples WHERE at < datetime('now', ?)").run(`-${HEALTH_RAW_HOURS} hours`);
+  db.prepare("DELETE FROM health_hourly WHERE hour < datetime('now', ?)").run(keepFor);
+  db.prepare("DELETE FROM health_outages WHERE ended_at IS NOT NULL AND ended_at < datetime('now', ?)").run(keepFor);
+}
+
+const subscriptions = new Map<string, () => void>();   // targetId → unsubscribe
+
+function syncSubscriptions(): void {
+  const targets = listTargets();
+  const ids     = new Set(targets.map(t => t.id));
+  for (const [id, unsubscribe] of subscriptions) {
+    if (!ids.has(id)) {
+      unsubscribe();
+      subscriptions.delete(id);
+      lastRecorded.delete(id);
+    }
+  }
+  for (const t of targets) {
+    if (subscriptions.has(t.id)) continue;
+    subscriptions.set(t.id, subscribeHealth(t, (health) => {
+      try {
+        recordSample(t.id, health);
+      } catch (err) {
+        console.error('[healthHistory] Failed to record sample:', err);
+      }
+    }));
+  }
+}
+
+/** Start recording every target's health. Call once, after initDb(). */
+export function startHealthHistory(): void {
+  syncSubscriptions();
+  setInterval(syncSubscriptions, SYNC_INTERVAL_MS).unref();
+}
+
+// ---------------------------------------------------------------------------
+// Reporting — GET /api/proxy/health/history
+// ---------------------------------------------------------------------------
+
+export interface LatencyPoint {
+  at:        string;          // ISO, start of the bucket
+  samples:   number;
+  uptime:    number;          // 0–1, share of the covered time the daemon was running
+  avgMs:     number | null;   // over running samples; null when none
+  maxMs:     number | null;
+}
+
+export interface Outage {
+  start:      string;         // ISO
+  end:        string | null;  // null while ongoing
+  durationMs: number;         // up to now while ongoing
+  state:      Exclude<HealthState, 'running'>;
+}
+
+export interface HealthReport {
+  range:   HealthRange;
+  uptime:  Record<HealthRange, number | null>;   // 0–1; null when there are no samples
+  latency: LatencyPoint[];
+  outages: Outage[];
+}
+
+interface Rollup {
+  at: string; samples: number; running: number; covered_ms: number; running_ms: number;
+  latency_sum: number; latency_max: number;
+}
+
+type Counts = Pick<Rollup, 'samples' | 'running' | 'covered_ms' | 'running_ms'>;
+
+/** Running share of the covered time; by sample count only when the samples cover none (a lone first sample). */
+const uptimeOf = (c: Counts) => c.covered_ms > 0 ? c.running_ms / c.covered_ms : c.running / c.samples;
+
+function uptimeSince(targetId: string, hours: number): number | null {
+  const row = getDb()
+    .prepare<[string, string], Counts>(`
+      SELECT COALESCE(SUM(samples), 0) AS samples, COALESCE(SUM(running), 0) AS running,
+             COALESCE(SUM(covered_ms), 0) AS covered_ms, COALESCE(SUM(running_ms), 0) AS running_ms
+      FROM health_hourly
+      WHERE target_id = ? AND hour >= strftime('%Y-%m-%d %H:00:00', datetime('now', ?))
+    `)
+    .get(targetId, `-${hours} hours`);
+  return row?.samples ? uptimeOf(row) : null;
+}
+
+/** Raw samples (24 h) or hourly rollups (longer), grouped into the range's buckets. */
+function latencySeries(targetId: string, range: HealthRange): LatencyPoint[] {
+  const { hours, bucketMinutes } = HEALTH_RANGES[range];
+  const since = `-${hours} hours`;
+  const rows = hours <= HEALTH_RAW_HOURS
+    ? getDb().prepare<[string, string], Rollup>(`
+        SELECT at, 1 AS samples, state = 'running' AS running, covered_ms,
+               CASE WHEN state = 'running' THEN covered_ms ELSE 0 END AS running_ms,
+               CASE WHEN state = 'running' THEN latency_ms ELSE 0 END AS latency_sum,
+               CASE WHEN state = 'running' THEN latency_ms ELSE 0 END AS latency_max
+        FROM health_samples WHERE target_id = ? AND at >= datetime('now', ?) ORDER BY at
+      `).all(targetId, since)
+    : getDb().prepare<[string, string], Rollup>(`
+        SELECT hour AS at, samples, running, covered_ms, running_ms, latency_sum, latency_max
+        FROM health_hourly WHERE target_id = ? AND hour >= strftime('%Y-%m-%d %H:00:00', datetime('now', ?)) ORDER BY hour
+      `).all(targetId, since);
+
+  const bucketMs = bucketMinutes * 60_000;
+  const buckets  = new Map<number, Rollup>();
+  for (const r of rows) {
+    const start = Math.floor(fromSqliteTime(r.at).getTime() / bucketMs) * bucketMs;
+    const b = buckets.get(start);
+    if (!b) {
+      buckets.set(start, { ...r });
+    } else {
+      b.samples     += r.samples;
+      b.running     += r.running;
+      b.covered_ms  += r.covered_ms;
+      b.running_ms  += r.running_ms;
+      b.latency_sum += r.latency_sum;
+      b.latency_max  = Math.max(b.latency_max, r.latency_max);
+    }
+  }
+  return [...buckets].map(([start, b]) => ({
+    at:      new Date(start).toISOString(),
+    samples: b.samples,
+    uptime:  uptimeOf(b),
+    avgMs:   b.running ? Math.round(b.latency_sum / b.running) : null,
+    maxMs:   b.running ? b.latency_max : null,
+  }));
+}
+
+function outagesSince(targetId: string, hours: number): Outage[] {
+  return getDb()
+    .prepare<[string, string], { started_at: string; ended_at: string | null; state: Outage['state'] }>(`
+      SELECT started_at, ended_at, state FROM health_outages
+      WHERE target_id = ? AND (ended_at IS NULL OR ended_at >= datetime('now', ?))
+      ORDER BY started_at DESC
+    `)
+    .all(targetId, `-${hours} hours`)
+    .map(o => {
+      const start = fromSqliteTime(o.started_at);
+      const end   = o.ended_at ? fromSqliteTime(o.ended_at) : null;
+      return {
+        start:      start.toISOString(),
+        end:        end?.toISOString() ?? null,
+        durationMs: (end?.getTime() ?? Date.now()) - start.getTime(),
+        state:      o.state,
+      };
+    });
+}
+
+export function isHealthRange(v: unknown): v is HealthRange {
+  return typeof v === 'string' && Object.hasOwn(HEALTH_RANGES, v);
+}
+
+export function healthReport(targetId: string, range: HealthRange): HealthReport {
+  const uptime = Object.fromEntries(
+    (Object.keys(HEALTH_RANGES) as HealthRange[]).map(r => [r, uptimeSince(targetId, HEALTH_RANGES[r].hours)]),
+  ) as Record<HealthRange, number | null>;
+  return {
+    range,
+    uptime,
+    latency: latencySeries(targetId, range),
+    outages: outagesSince(targetId, HEALTH_RANGES[range].hours),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * jwtSecret — Signing key for access and MFA-challenge JWTs.
+ *
+ * Resolution order:
+ *   1. JWT_SECRET from the environment, unless it is the old placeholder
+ *   2. a random secret generated on first run and persisted in `settings`
+ *
+ * With NODE_ENV=production the bridge refuses to start while JWT_SECRET is
+ * still the placeholder from .env.example (or shorter than 32 characters),
+ * rather than silently signing tokens with a value anyone can look up.
+ */
+
+import { randomBytes } from 'crypto';
+import { getSetting, setSetting } from '../db/schema';
+
+export const DEFAULT_JWT_SECRET = 'change_this_before_deploying';
+const MIN_SECRET_LEN = 32;
+const SETTING_KEY    = 'jwt_secret';
+
+export type JwtSecretSource = 'env' | 'stored' | 'generated';
+
+let cached: { secret: string; source: JwtSecretSource } | null = null;
+
+/**
+ * Resolve (and if needed generate) the secret. index.ts calls this at boot
+ * so a bad production config fails fast; jwtSecret() calls it lazily for
+ * the CLI scripts. Throws when the configuration must not be used.
+ */
+export function initJwtSecret(): JwtSecretSource {
+  if (cached) return cached.source;
+
+  const fromEnv      = process.env['JWT_SECRET']?.trim() ?? '';
+  const isProduction = process.env['NODE_ENV'] === 'production';
+
+  if (fromEnv && fromEnv !== DEFAULT_JWT_SECRET) {
+    if (fromEnv.length < MIN_SECRET_LEN && isProduction) {
+      throw new Error(`JWT_SECRET must be at least ${MIN_SECRET_LEN} characters in production`);
+    }
+    cached = { secret: fromEnv, source: 'env' };
+    return cached.source;
+  }
+
+  if (fromEnv === DEFAULT_JWT_SECRET) {
+    if (isProduction) {
+      throw new Error(
+        'JWT_SECRET is still the placeholder "change_this_before_deploying" — ' +
+        'set a random value (openssl rand -base64 48) or remove it to use a generated secret',
+      );
+    }
+    console.warn('[DaemonPulse Bridge] Ignoring placeholder JWT_SECRET — using the generated secret instead');
+  }
+
+  const stored = getSetting(SETTING_KEY);
+  if (stored) {
+    cached = { secret: stored, source: 'stored' };
+    return cached.source;
+  }
+
+  const generated = randomBytes(48).toString('base64url');
+  setSetting(SETTING_KEY, generated);
+  cached = { secret: generated, source: 'generated' };
+  return cached.source;
+}
+
+export function jwtSecret(): string {
+  initJwtSecret();
+  return cached!.secret;
+}
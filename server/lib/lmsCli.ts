@@ -0,0 +1,81 @@
+/**
+ * lmsCli — Runs the `lms` command-line tool against a daemon target.
+ *
+ * Some daemon state is only available from the CLI (runtime survey, `lms ps`,
+ * load estimates, server start/stop). Remote targets get `--host`. The binary
+ * is run directly, without a shell, so arguments are never interpreted as
+ * shell syntax.
+ *
+ * runningModels() is the parsed `lms ps --json`, cached for PS_CACHE_MS so
+ * /metrics scrapes and the alert sampler (lib/alerts) share one call.
+ */
+
+import { execFile }  from 'child_process';
+import { promisify } from 'util';
+import type { DaemonTarget } from './targets';
+
+const execFileAsync = promisify(execFile);
+
+// lms binary candidates: PATH first, then standard per-user install locations
+const LMS_BINS = [
+  'lms',
+  `${process.env['HOME'] ?? '~'}/.lmstudio/bin/lms`,                                // Linux headless
+  `${process.env['LOCALAPPDATA'] ?? ''}\\LM-Studio\\bin\\lms.exe`,              // Windows
+];
+
+export async function runLmsCli(target: DaemonTarget, args: string[]): Promise<string> {
+  // Inject --host from the request's target when it is a remote machine
+  const hostFlag = target.host ? ['--host', target.host] : [];
+  const fullArgs = [...args, ...hostFlag];
+
+  // Remote targets: 8 s timeout (unreachable hosts stall but don't hang forever).
+  // Local targets:  12 s (GPU backend initialisation can be slow on first start).
+  const cliTimeout = target.mode === 'remote' ? 8_000 : 12_000;
+
+  let lastErr: unknown;
+  for (const bin of LMS_BINS) {
+    try {
+      const { stdout } = await execFileAsync(bin, fullArgs, { timeout: cliTimeout });
+      return stdout.trim();
+    } catch (err) {
+      lastErr = err;
+    }
+  }
+  throw lastErr ?? new Error('lms binary not found in PATH or known install locations');
+}
+
+// ---------------------------------------------------------------------------
+// lms ps
+// ---------------------------------------------------------------------------
+
+const PS_CACHE_MS = 30_000;
+const GB          = 1e9;   // lms ps reports memory in GB
+
+export interface RunningModel {
+  identifier: string;
+  vramBytes:  number | null;
+  ramBytes:   number | null;
+}
+
+const psCache = new Map<string, { at: number; models: RunningModel[] }>();
+
+/** `lms ps --json` for one target, cached; null when the CLI fails. */
+export async function runningModels(target: DaemonTarget): Promise<RunningModel[] | null> {
+  const cached = psCache.get(target.id);
+  if (cached && Date.now() - cached.at < PS_CACHE_MS) return cached.models;
+  try {
+    const parsed = JSON.parse(await runLmsCli(target, ['ps', '--json'])) as unknown;
+    const rows   = Array.isArray(parsed) ? parsed as Record<string, unknown>[] : [];
+    const bytes  = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? Math.round(v * GB) : null);
+    const models = rows.map(r => ({
+      identifier: String(r['identifier'] ?? r['instance_id'] ?? r['model_path'] ?? ''),
+      vramBytes:  bytes(r['vram_usage']),
+      ramBytes:   bytes(r['ram_usage']),
+    })).filter(m => m.identifier);
+    psCache.set(target.id, { at: Date.now(), models });
+    return models;
+  } catch {
+    psCache.delete(target.id);
+    return null;
+  }
+}
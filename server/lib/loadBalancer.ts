@@ -0,0 +1,145 @@
+/**
+ * loadBalancer — Spreads inference for one model over every target that has
+ * it loaded.
+ *
+ * Where each model lives comes from lib/modelCatalog (`/api/v0/models`
+ * state per target). When two or more usable targets have the requested
+ * model loaded, one is picked with the bridge-wide strategy:
+ *   round-robin        — take turns, per model
+ *   least-outstanding  — fewest requests the bridge has in flight to the target
+ *   lowest-ttft        — lowest recent time-to-first-token for this model on
+ *                        the target (EWMA); unmeasured targets are tried first
+ * Ties fall back to round-robin. Targets whose circuit is open
+ * (lib/circuitBreaker) are left out while another has the model loaded.
+ * With the model loaded on one target only, that target is used; loaded
+ * nowhere, the caller keeps its own choice.
+ *
+ * trackRequest() counts the request as outstanding until the response closes
+ * and feeds the TTFT that daemonProxy recorded (res.locals.ttftMs) back into
+ * the per-target average. The decision goes back to the client in the
+ * X-DaemonPulse-Route header (see describeDecision).
+ */
+
+import type { Response } from 'express';
+import { getSetting, setSetting } from '../db/schema';
+import { catalog } from './modelCatalog';
+import { isAvailable } from './circuitBreaker';
+import type { DaemonTarget } from './targets';
+
+export type BalanceStrategy = 'round-robin' | 'least-outstanding' | 'lowest-ttft';
+export const BALANCE_STRATEGIES: readonly BalanceStrategy[] = ['round-robin', 'least-outstanding', 'lowest-ttft'];
+
+export const ROUTE_HEADER = 'X-DaemonPulse-Route';
+
+const STRATEGY_SETTING = 'balance_strategy';
+const TTFT_ALPHA       = 0.3;   // weight of the newest sample in the TTFT average
+
+export const isBalanceStrategy = (v: unknown): v is BalanceStrategy =>
+  BALANCE_STRATEGIES.includes(v as BalanceStrategy);
+
+export function getBalanceStrategy(): BalanceStrategy {
+  const stored = getSetting(STRATEGY_SETTING);
+  return isBalanceStrategy(stored) ? stored : 'least-outstanding';
+}
+
+export function setBalanceStrategy(strategy: BalanceStrategy): void {
+  setSetting(STRATEGY_SETTING, strategy);
+}
+
+// ---------------------------------------------------------------------------
+// Live state — in memory, per bridge process
+// ---------------------------------------------------------------------------
+
+const outstanding = new Map<string, number>();              // targetId → in flight
+const ttftMs      = new Map<string, number>();              // `${targetId}|${model}` → EWMA
+const rrCursor    = new Map<string, number>();              // model → next index
+
+const ttftKey = (targetId: string, model: string) => `${targetId}|${model}`;
+
+export const outstandingFor = (targetId: string) => outstanding.get(targetId) ?? 0;
+
+function recordTtft(targetId: string, model: string, ms: number): void {
+  const key  = ttftKey(targetId, model);
+  const prev = ttftMs.get(key);
+  ttftMs.set(key, prev === undefined ? ms : prev + TTFT_ALPHA * (ms - prev));
+}
+
+// ---------------------------------------------------------------------------
+// Decision
+// ---------------------------------------------------------------------------
+
+export type RouteReason = 'balanced' | 'only-loaded';
+
+export interface RouteDecision {
+  target:     DaemonTarget;
+  model:      string;
+  strategy:   BalanceStrategy;
+  reason:     RouteReason;
+  candidates: { id: string; outstanding: number; ttftMs: number | null }[];
+}
+
+/** Index into `n` candidates that takes turns per model. */
+function nextTurn(model: string, n: number): number {
+  const i = (rrCursor.get(model) ?? 0) % n;
+  rrCursor.set(model, i + 1);
+  return i;
+}
+
+/**
+ * Choose among the `usable` targets that have `model` loaded. Null when
+ * none has it loaded — the caller then routes as it would without balancing.
+ */
+export async function chooseLoadedTarget(model: string, usable: DaemonTarget[]): Promise<RouteDecision | null> {
+  const withModel = (await catalog(usable))
+    .filter(e => e.models.some(m => m.id === model && m.state === 'loaded'))
+    .map(e => e.target);
+  // Targets behind an open circuit are skipped while any other has the model
+  const healthy = withModel.filter(t => isAvailable(t.id));
+  const loaded  = healthy.length > 0 ? healthy : withModel;
+  if (loaded.length === 0) return null;
+
+  const strategy   = getBalanceStrategy();
+  const candidates = loaded.map(t => ({
+    id:          t.id,
+    outstanding: outstandingFor(t.id),
+    ttftMs:      ttftMs.get(ttftKey(t.id, model)) ?? null,
+  }));
+  if (loaded.length === 1) {
+    return { target: loaded[0]!, model, strategy, reason: 'only-loaded', candidates };
+  }
+
+  // Lower score wins; equal scores take turns
+  const score = (c: typeof candidates[number]) =>
+    strategy === 'least-outstanding' ? c.outstanding
+    : strategy === 'lowest-ttft'     ? (c.ttftMs ?? -1)
+    : 0;
+  const best = Math.min(...candidates.map(score));
+  const tied = loaded.filter((_t, i) => score(candidates[i]!) === best);
+  const target = tied[nextTurn(model, tied.length)]!;
+  return { target, model, strategy, reason: 'balanced', candidates };
+}
+
+/** `strategy=…; reason=…; candidates=id,id` — ASCII only, safe for a header. */
+export function describeDecision(d: RouteDecision): string {
+  return `strategy=${d.strategy}; reason=${d.reason}; candidates=${d.candidates.map(c => c.id).join(',')}`;
+}
+
+/**
+ * Count the request against its target until the response closes, then
+ * record its TTFT there. Calling it again (after a failover) moves the
+ * request to the new target.
+ */
+export function trackRequest(res: Response, target: DaemonTarget, model: string): void {
+  const previous = res.locals['trackedTargetId'] as string | undefined;
+  if (previous !== undefined) outstanding.set(previous, Math.max(0, outstandingFor(previous) - 1));
+  outstanding.set(target.id, outstandingFor(target.id) + 1);
+  res.locals['trackedTargetId'] = target.id;
+  if (previous !== undefined) return;
+
+  res.once('close', () => {
+    const id = res.locals['trackedTargetId'] as string;
+    outstanding.set(id, Math.max(0, outstandingFor(id) - 1));
+    const measured = res.locals['ttftMs'];
+    if (typeof measured === 'number' && measured >= 0) recordTtft(id, model, measured);
+  });
+}
@@ -0,0 +1,121 @@
+/**
+ * loginThrottle — Brute-force protection for POST /api/auth/login.
+ *
+ * Failures are counted per username and per client IP in `login_attempts`
+ * (so limits survive a bridge restart):
+ *   - from the 3rd consecutive failure, each further attempt must wait an
+ *     exponentially growing delay (1 s, 2 s, 4 s …)
+ *   - MAX_USER_FAILURES failures lock the username for LOCKOUT_SECONDS
+ *   - MAX_IP_FAILURES failures lock the client IP for LOCKOUT_SECONDS
+ * Counters reset after FAILURE_WINDOW_SECONDS without a failure, and a
+ * successful login clears them.
+ *
+ * Every failure, block and lockout is appended to `auth_events`.
+ */
+
+import { getDb } from '../db/schema';
+
+const FAILURE_WINDOW_SECONDS = 15 * 60;
+const DELAY_AFTER_FAILURES   = 3;
+const MAX_DELAY_SECONDS      = 30;
+const MAX_USER_FAILURES      = 5;
+const MAX_IP_FAILURES        = 20;
+const LOCKOUT_SECONDS        = 15 * 60;
+
+export type AuthEventType = 'login_success' | 'login_failed' | 'login_blocked' | 'lockout';
+
+interface AttemptRow {
+  failures:        number;
+  last_failure_at: number;   // epoch ms
+  locked_until:    number | null;
+}
+
+const userKey = (username: string) => `user:${username.toLowerCase()}`;
+const ipKey   = (ip: string)       => `ip:${ip}`;
+
+function readAttempts(key: string): AttemptRow | undefined {
+  const row = getDb()
+    .prepare<string, AttemptRow>('SELECT failures, last_failure_at, locked_until FROM login_attempts WHERE key = ?')
+    .get(key);
+  if (!row) return undefined;
+  // Stale counters behave as if they were never recorded
+  if (Date.now() - row.last_failure_at > FAILURE_WINDOW_SECONDS * 1000 && (row.locked_until ?? 0) <= Date.now()) {
+    return undefined;
+  }
+  return row;
+}
+
+/** Seconds until this counter allows another attempt (0 = allowed now). */
+function waitSeconds(row: AttemptRow | undefined): number {
+  if (!row) return 0;
+  const now = Date.now();
+  if (row.locked_until && row.locked_until > now) return Math.ceil((row.locked_until - now) / 1000);
+  if (row.failures < DELAY_AFTER_FAILURES) return 0;
+  const delayMs = Math.min(2 ** (row.failures - DELAY_AFTER_FAILURES), MAX_DELAY_SECONDS) * 1000;
+  const readyAt = row.last_failure_at + delayMs;
+  return readyAt > now ? Math.ceil((readyAt - now) / 1000) : 0;
+}
+
+export function recordAuthEvent(type: AuthEventType, username: string | null, ip: string | null, detail?: string): void {
+  getDb()
+    .prepare('INSERT INTO auth_events (type, username, ip, detail) VALUES (?, ?, ?, ?)')
+    .run(type, username, ip, detail ?? null);
+}
+
+export interface ThrottleVerdict {
+  allowed:    boolean;
+  retryAfter: number;   // seconds
+  locked:     boolean;  // true for a hard lockout, false for a progressive delay
+}
+
+/** Call before checking the password. */
+export function checkLoginAllowed(username: string, ip: string): ThrottleVerdict {
+  const user = readAttempts(userKey(username));
+  const addr = readAttempts(ipKey(ip));
+  const retryAfter = Math.max(waitSeconds(user), waitSeconds(addr));
+  const now    = Date.now();
+  const locked = (user?.locked_until ?? 0) > now || (addr?.locked_until ?? 0) > now;
+  return { allowed: retryAfter === 0, retryAfter, locked };
+}
+
+/**
+ * Count a failed attempt against both the username and the IP.
+ * Returns the wait before the next attempt, so the 401 can already carry it.
+ */
+export function recordLoginFailure(username: string, ip: string): ThrottleVerdict {
+  const db  = getDb();
+  const now = Date.now();
+  let lockedNow = false;
+
+  db.transaction(() => {
+    for (const [key, max] of [[userKey(username), MAX_USER_FAILURES], [ipKey(ip), MAX_IP_FAILURES]] as const) {
+      const failures    = (readAttempts(key)?.failures ?? 0) + 1;
+      const lockedUntil = failures >= max ? now + LOCKOUT_SECONDS * 1000 : null;
+      db.prepare(`
+        INSERT INTO login_attempts (key, failures, last_failure_at, locked_until) VALUES (?, ?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET
+          failures = excluded.failures, last_failure_at = excluded.last_failure_at, locked_until = excluded.locked_until
+      `).run(key, failures, now, lockedUntil);
+      if (lockedUntil) {
+        lockedNow = true;
+        recordAuthEvent('lockout', username, ip, `${key} locked for ${LOCKOUT_SECONDS / 60} min after ${failures} failures`);
+      }
+    }
+    recordAuthEvent('login_failed', username, ip);
+  })();
+
+  const verdict = checkLoginAllowed(username, ip);
+  return { ...verdict, locked: verdict.locked || lockedNow };
+}
+
+export function recordLoginSuccess(username: string, ip: string): void {
+  clearLoginFailures(username, ip);
+  recordAuthEvent('login_success', username, ip);
+}
+
+/** Reset counters, e.g. after a successful login or an admin password reset. */
+export function clearLoginFailures(username: string, ip?: string): void {
+  const stmt = getDb().prepare('DELETE FROM login_attempts WHERE key = ?');
+  stmt.run(userKey(username));
+  if (ip) stmt.run(ipKey(ip));
+}
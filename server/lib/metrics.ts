@@ -0,0 +1,232 @@
+/**
+ * metrics — Prometheus text-format metrics for the bridge and its targets.
+ *
+ * Two kinds of series:
+ *   recorded  — counters and histograms updated as traffic passes through:
+ *               proxied requests per route, model and status
+ *               (requestMetrics, on routes/proxy and the /v1 gateway),
+ *               daemon-reported throughput and TTFT per model and target
+ *               (observeInference, from lib/usage), and SSH operation
+ *               outcomes (sshMetrics, on routes/remote)
+ *   collected — gauges read when /metrics is scraped: every target's health
+ *               (lib/health — the health stream's cached result, or a fresh
+ *               probe when none is recent) and circuit state, and loaded
+ *               model memory from `lms ps` (lib/lmsCli, cached; only asked
+ *               of running targets)
+ *
+ * Recorded series are in memory and restart from zero with the bridge, as
+ * Prometheus counters are expected to.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { listTargets } from './targets';
+import { healthOf, type HealthState } from './health';
+import { circuitStatuses, type CircuitState } from './circuitBreaker';
+import { runningModels } from './lmsCli';
+
+type Labels = Record<string, string>;
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const TPS_BUCKETS      = [1, 5, 10, 20, 30, 50, 75, 100, 150, 250];
+const TTFT_BUCKETS     = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30];
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+interface Series {
+  labels: Labels;
+  value:  number;       // counter total, or histogram sum
+  count:  number;       // histogram only
+  bucketCounts: number[];
+}
+
+interface Family {
+  name:    string;
+  help:    string;
+  type:    'counter' | 'histogram';
+  buckets: number[];
+  series:  Map<string, Series>;
+}
+
+const families: Family[] = [];
+
+function family(name: string, help: string, type: Family['type'], buckets: number[] = []): Family {
+  const f: Family = { name, help, type, buckets, series: new Map() };
+  families.push(f);
+  return f;
+}
+
+function seriesOf(f: Family, labels: Labels): Series {
+  const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+  let s = f.series.get(key);
+  if (!s) {
+    s = { labels, value: 0, count: 0, bucketCounts: f.buckets.map(() => 0) };
+    f.series.set(key, s);
+  }
+  return s;
+}
+
+function inc(f: Family, labels: Labels, by = 1): void {
+  seriesOf(f, labels).value += by;
+}
+
+function observe(f: Family, labels: Labels, value: number): void {
+  const s = seriesOf(f, labels);
+  s.value += value;
+  s.count += 1;
+  f.buckets.forEach((le, i) => { if (value <= le) s.bucketCounts[i]! += 1; });
+}
+
+const escapeLabel = (v: string) => v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function sample(name: string, labels: Labels, value: number): string {
+  const entries = Object.entries(labels);
+  const set = entries.length ? `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}` : '';
+  return `${name}${set} ${Number.isFinite(value) ? value : 0}`;
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function renderFamily(f: Family): string[] {
+  const lines = header(f.name, f.help, f.type);
+  for (const s of f.series.values()) {
+    if (f.type === 'counter') {
+      lines.push(sample(f.name, s.labels, s.value));
+      continue;
+    }
+    f.buckets.forEach((le, i) => lines.push(sample(`${f.name}_bucket`, { ...s.labels, le: String(le) }, s.bucketCounts[i]!)));
+    lines.push(sample(`${f.name}_bucket`, { ...s.labels, le: '+Inf' }, s.count));
+    lines.push(sample(`${f.name}_sum`, s.labels, s.value));
+    lines.push(sample(`${f.name}_count`, s.labels, s.count));
+  }
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Recorded
+// ---------------------------------------------------------------------------
+
+const requestsTotal = family(
+  'daemonpulse_proxy_requests_total', 'Proxied requests by route, model and HTTP status.', 'counter');
+const requestDuration = family(
+  'daemonpulse_proxy_request_duration_seconds', 'Time to answer a proxied request, streams included.', 'histogram', DURATION_BUCKETS);
+const tokensPerSecond = family(
+  'daemonpulse_inference_tokens_per_second', 'Generation throughput reported by the daemon (v0 stats).', 'histogram', TPS_BUCKETS);
+const timeToFirstToken = family(
+  'daemonpulse_inference_ttft_seconds', 'Time to first token reported by the daemon (v0 stats).', 'histogram', TTFT_BUCKETS);
+const tokensTotal = family(
+  'daemonpulse_inference_tokens_total', 'Tokens reported by the daemon, by kind (prompt or completion).', 'counter');
+const sshTotal = family(
+  'daemonpulse_ssh_operations_total', 'Remote SSH operations by operation and outcome (ok, error, aborted).', 'counter');
+const sshDuration = family(
+  'daemonpulse_ssh_operation_duration_seconds', 'Time taken by remote SSH operations.', 'histogram', DURATION_BUCKETS);
+
+/**
+ * The `model` label: only the model the daemon reported serving, never the
+ * caller's request body — any key holder could otherwise mint new series.
+ */
+export function modelLabel(res: Response): string {
+  return (res.locals['servedModel'] as string | undefined) ?? '';
+}
+
+/** Router middleware: count and time every request once its response closes. */
+export function requestMetrics(req: Request, res: Response, next: NextFunction): void {
+  const started = Date.now();
+  res.once('close', () => {
+    const model  = modelLabel(res);
+    const route  = req.route ? `${req.baseUrl}${String(req.route.path)}` : 'unmatched';
+    const status = res.writableFinished ? String(res.statusCode) : 'aborted';
+    inc(requestsTotal, { route, model, status });
+    observe(requestDuration, { route, model }, (Date.now() - started) / 1000);
+  });
+  next();
+}
+
+/** Daemon-reported stats and usage of one inference call (lib/usage); `model` as from modelLabel(). */
+export function observeInference(
+  model: string, targetId: string, stats: Record<string, unknown>, promptTokens: number, completionTokens: number,
+): void {
+  const labels = { model, target: targetId };
+  const tps  = stats['tokens_per_second'];
+  const ttft = stats['time_to_first_token'];
+  if (typeof tps === 'number' && tps > 0)   observe(tokensPerSecond, labels, tps);
+  if (typeof ttft === 'number' && ttft >= 0) observe(timeToFirstToken, labels, ttft);
+  if (promptTokens > 0)     inc(tokensTotal, { ...labels, kind: 'prompt' }, promptTokens);
+  if (completionTokens > 0) inc(tokensTotal, { ...labels, kind: 'completion' }, completionTokens);
+}
+
+/**
+ * Router middleware for routes/remote. The operation is the route path with
+ * its :action filled in (probe, install/stream, daemon/start, …); the
+ * credential routes do not touch SSH and are skipped, as are requests refused
+ * before connecting (400, 403). Streams always answer 200, so a route marks a
+ * failure it reports in-band with res.locals.sshFailed.
+ */
+export function sshMetrics(req: Request, res: Response, next: NextFunction): void {
+  const started = Date.now();
+  res.once('close', () => {
+    if (!req.route || String(req.route.path).startsWith('/credentials')) return;
+    if (res.statusCode === 400 || res.statusCode === 403) return;
+    const action    = (req.params as Record<string, string | undefined>)['action'];
+    const operation = String(req.route.path).slice(1).replace(':action', action ?? '');
+    const outcome   = !res.writableFinished ? 'aborted'
+      : res.statusCode >= 400 || res.locals['sshFailed'] === true ? 'error' : 'ok';
+    inc(sshTotal, { operation, outcome });
+    observe(sshDuration, { operation }, (Date.now() - started) / 1000);
+  });
+  next();
+}
+
+// ---------------------------------------------------------------------------
+// Collected at scrape time
+// ---------------------------------------------------------------------------
+
+const HEALTH_STATES:  HealthState[]  = ['running', 'stopped', 'stalled'];
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'open', 'half-open'];
+
+async function collectTargets(): Promise<string[]> {
+  const targets = listTargets();
+  const probes  = await Promise.all(targets.map(async (t) => {
+    const health = await healthOf(t);
+    const models = health.state === 'running' ? await runningModels(t) : null;
+    return { target: t, health, models };
+  }));
+  const circuits = circuitStatuses(targets.map(t => t.id));
+
+  const up       = header('daemonpulse_target_up', 'Whether the target answered its health probe (1) or not (0).', 'gauge');
+  const state    = header('daemonpulse_target_health_state', 'Health probe state of each target (1 for the current state).', 'gauge');
+  const latency  = header('daemonpulse_target_probe_latency_seconds', 'Duration of the last health probe.', 'gauge');
+  const checked  = header('daemonpulse_target_probe_timestamp_seconds', 'When that health probe ran (Unix time).', 'gauge');
+  const circuit  = header('daemonpulse_target_circuit_state', 'Circuit breaker state of each target (1 for the current state).', 'gauge');
+  const psUp     = header('daemonpulse_target_lms_ps_up', 'Whether `lms ps` answered for the target (1) or not (0).', 'gauge');
+  const vram     = header('daemonpulse_model_vram_bytes', 'VRAM used by each loaded model instance, from `lms ps`.', 'gauge');
+  const ram      = header('daemonpulse_model_ram_bytes', 'System RAM used by each loaded model instance, from `lms ps`.', 'gauge');
+
+  for (const { target, health, models } of probes) {
+    const t = { target: target.id, label: target.label };
+    up.push(sample('daemonpulse_target_up', t, health.state === 'running' ? 1 : 0));
+    for (const s of HEALTH_STATES) state.push(sample('daemonpulse_target_health_state', { ...t, state: s }, health.state === s ? 1 : 0));
+    latency.push(sample('daemonpulse_target_probe_latency_seconds', t, health.latencyMs / 1000));
+    checked.push(sample('daemonpulse_target_probe_timestamp_seconds', t, Date.parse(health.checkedAt) / 1000));
+    for (const s of CIRCUIT_STATES) {
+      circuit.push(sample('daemonpulse_target_circuit_state', { ...t, state: s }, circuits[target.id]?.state === s ? 1 : 0));
+    }
+    if (health.state !== 'running') continue;
+    psUp.push(sample('daemonpulse_target_lms_ps_up', t, models ? 1 : 0));
+    for (const m of models ?? []) {
+      const labels = { target: target.id, model: m.identifier };
+      if (m.vramBytes !== null) vram.push(sample('daemonpulse_model_vram_bytes', labels, m.vramBytes));
+      if (m.ramBytes !== null)  ram.push(sample('daemonpulse_model_ram_bytes', labels, m.ramBytes));
+    }
+  }
+  return [...up, ...state, ...latency, ...checked, ...circuit, ...psUp, ...vram, ...ram];
+}
+
+/** The full exposition, in Prometheus text format 0.0.4. */
+export async function renderMetrics(): Promise<string> {
+  const lines = [...await collectTargets(), ...families.flatMap(renderFamily)];
+  return `${lines.join('\n')}\n`;
+}
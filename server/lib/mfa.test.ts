@@ -0,0 +1,50 @@
+import '../test/tempDb';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDb, initDb } from '../db/schema';
+import { confirmEnrollment, startEnrollment, verifySecondFactor } from './mfa';
+import { totpCode, totpStep } from './totp';
+
+initDb();
+
+/** A user with 2FA switched on; returns the id, the TOTP secret and the recovery codes. */
+async function enrolled(username: string): Promise<{ id: number; secret: string; recoveryCodes: string[] }> {
+  const id = Number(getDb().prepare("INSERT INTO users (username, password_hash, role) VALUES (?, 'x', 'viewer')").run(username).lastInsertRowid);
+  const { secret } = await startEnrollment(id, username);
+  const recoveryCodes = confirmEnrollment(id, totpCode(secret, totpStep()));
+  assert.ok(recoveryCodes);
+  return { id, secret, recoveryCodes };
+}
+
+test('enrollment needs a code from the new secret', async () => {
+  const id = Number(getDb().prepare("INSERT INTO users (username, password_hash, role) VALUES ('wrong', 'x', 'viewer')").run().lastInsertRowid);
+  const { secret } = await startEnrollment(id, 'wrong');
+  const code = totpCode(secret, totpStep() + 5);   // well outside the drift window
+  assert.equal(confirmEnrollment(id, code), null);
+});
+
+test('the code that confirmed enrollment cannot sign in', async () => {
+  const { id, secret } = await enrolled('confirm');
+  assert.equal(verifySecondFactor(id, totpCode(secret, totpStep())), null);
+});
+
+test('a TOTP code works once', async () => {
+  const { id, secret } = await enrolled('replay');
+  const next = totpCode(secret, totpStep() + 1);   // the next step, inside the drift window
+  assert.equal(verifySecondFactor(id, next), 'totp');
+  assert.equal(verifySecondFactor(id, next), null);
+});
+
+test('an older step is refused after a newer one was used', async () => {
+  const { id, secret } = await enrolled('older');
+  assert.equal(verifySecondFactor(id, totpCode(secret, totpStep() + 1)), 'totp');
+  assert.equal(verifySecondFactor(id, totpCode(secret, totpStep() - 1)), null);
+});
+
+test('a recovery code works once', async () => {
+  const { id, recoveryCodes } = await enrolled('recovery');
+  const [code] = recoveryCodes;
+  assert.ok(code);
+  assert.equal(verifySecondFactor(id, code), 'recovery');
+  assert.equal(verifySecondFactor(id, code), null);
+});
@@ -0,0 +1,182 @@
+/**
+ * mfa — TOTP second factor: enrollment, verification, recovery codes and
+ * the "admins must use 2FA" policy.
+ *
+ * The TOTP secret lives in users.totp_secret, sealed with secretBox like every
+ * other credential. Enrollment parks a new secret in users.totp_pending_secret;
+ * it only replaces the active one once the user has proven their app produces
+ * valid codes. Each code is accepted once (users.totp_last_step) so a
+ * shoulder-surfed code cannot be replayed inside its 30-second window.
+ *
+ * Recovery codes are single-use and stored as SHA-256 hashes.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { getDb, getSetting, setSetting } from '../db/schema';
+import { sealSecret, openSecret } from './secretBox';
+import { base32Encode, generateTotpSecret, matchTotp, otpauthUri } from './totp';
+import type { Role } from './sessions';
+
+const ISSUER               = 'DaemonPulse';
+const RECOVERY_CODE_COUNT  = 10;
+const POLICY_KEY           = 'require_admin_2fa';
+
+interface MfaRow {
+  totp_secret:    string | null;
+  totp_enabled:   number;
+  totp_last_step: number | null;
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+/** Recovery codes are compared case- and dash-insensitively. */
+const normaliseRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z2-7]/g, '');
+
+function readMfa(userId: number): MfaRow | undefined {
+  return getDb()
+    .prepare<number, MfaRow>('SELECT totp_secret, totp_enabled, totp_last_step FROM users WHERE id = ?')
+    .get(userId);
+}
+
+// ---------------------------------------------------------------------------
+// Policy
+// ---------------------------------------------------------------------------
+
+export function isAdmin2faRequired(): boolean {
+  return getSetting(POLICY_KEY) === '1';
+}
+
+export function setAdmin2faRequired(required: boolean): void {
+  setSetting(POLICY_KEY, required ? '1' : '0');
+}
+
+export function is2faRequiredFor(role: Role): boolean {
+  return role === 'admin' && isAdmin2faRequired();
+}
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+
+export function is2faEnabled(userId: number): boolean {
+  return readMfa(userId)?.totp_enabled === 1;
+}
+
+export function recoveryCodesLeft(userId: number): number {
+  return getDb()
+    .prepare<number, { n: number }>('SELECT COUNT(*) AS n FROM recovery_codes WHERE user_id = ? AND used_at IS NULL')
+    .get(userId)?.n ?? 0;
+}
+
+// ---------------------------------------------------------------------------
+// Enrollment
+// ---------------------------------------------------------------------------
+
+export interface EnrollmentSecret {
+  secret:     string;   // base32, for manual entry
+  otpauthUrl: string;
+  qr:         string;   // data: URL of a PNG QR code
+}
+
+/**
+ * Generate a fresh pending secret. Any earlier, unconfirmed secret is
+ * replaced; an already-enabled factor is left alone until confirmEnrollment.
+ */
+export async function startEnrollment(userId: number, username: string): Promise<EnrollmentSecret> {
+  const secret = generateTotpSecret();
+  getDb()
+    .prepare('UPDATE users SET totp_pending_secret = ? WHERE id = ?')
+    .run(sealSecret(secret), userId);
+
+  const otpauthUrl = otpauthUri(ISSUER, username, secret);
+  const qr         = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+  return { secret, otpauthUrl, qr };
+}
+
+/**
+ * Activate the pending secret if `code` matches it. Returns the new recovery
+ * codes (shown to the user exactly once), or null when the code is wrong or
+ * no enrollment is in progress.
+ */
+export function confirmEnrollment(userId: number, code: string): string[] | null {
+  const db  = getDb();
+  const row = db
+    .prepare<number, { totp_pending_secret: string | null }>('SELECT totp_pending_secret FROM users WHERE id = ?')
+    .get(userId);
+  if (!row?.totp_pending_secret) return null;
+
+  const secret = openSecret(row.totp_pending_secret);
+  const step   = matchTotp(secret, code);
+  if (step === null) return null;
+
+  let codes: string[] = [];
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE users
+      SET totp_secret = totp_pending_secret, totp_pending_secret = NULL, totp_enabled = 1, totp_last_step = ?
+      WHERE id = ?
+    `).run(step, userId);
+    codes = regenerateRecoveryCodes(userId);
+  })();
+  return codes;
+}
+
+/** Turn 2FA off and forget the secret and recovery codes. */
+export function disable2fa(userId: number): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE users
+      SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled = 0, totp_last_step = NULL
+      WHERE id = ?
+    `).run(userId);
+    db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(userId);
+  })();
+}
+
+/** Replace all recovery codes. Returns the plaintext codes. */
+export function regenerateRecoveryCodes(userId: number): string[] {
+  const db    = getDb();
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(7)).toLowerCase().slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  db.transaction(() => {
+    db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(userId);
+    const insert = db.prepare('INSERT INTO recovery_codes (user_id, code_hash) VALUES (?, ?)');
+    for (const c of codes) insert.run(userId, sha256(normaliseRecoveryCode(c)));
+  })();
+  return codes;
+}
+
+// ---------------------------------------------------------------------------
+// Verification (login second step)
+// ---------------------------------------------------------------------------
+
+export type SecondFactor = 'totp' | 'recovery';
+
+/**
+ * Accept either a current TOTP code or an unused recovery code.
+ * Both are consumed on success.
+ */
+export function verifySecondFactor(userId: number, code: string): SecondFactor | null {
+  const db  = getDb();
+  const row = readMfa(userId);
+  if (!row || row.totp_enabled !== 1 || !row.totp_secret) return null;
+
+  const step = matchTotp(openSecret(row.totp_secret), code);
+  if (step !== null) {
+    if (row.totp_last_step !== null && step <= row.totp_last_step) return null;   // replay
+    db.prepare('UPDATE users SET totp_last_step = ? WHERE id = ?').run(step, userId);
+    return 'totp';
+  }
+
+  const normalised = normaliseRecoveryCode(code);
+  if (normalised.length !== 10) return null;
+  const used = db.prepare(`
+    UPDATE recovery_codes SET used_at = datetime('now')
+    WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+  `).run(userId, sha256(normalised));
+  return used.changes > 0 ? 'recovery' : null;
+}
@@ -0,0 +1,96 @@
+/**
+ * modelCatalog — Which registered daemon has which model.
+ *
+ * Reads each target's `/api/v0/models` (every model on disk, with
+ * `state: 'loaded' | 'not-loaded'`) and keeps the answer for CATALOG_TTL_MS,
+ * so routing a request by model name does not cost a round trip to every
+ * daemon. A lookup that finds nothing refreshes once before giving up, so a
+ * model loaded a moment ago is found without waiting for the cache to expire.
+ *
+ * Unreachable targets are listed with `reachable: false` and no models.
+ */
+
+import { getDaemonHeaders, getDaemonUrl } from './daemonProxy';
+import type { DaemonTarget } from './targets';
+
+const CATALOG_TTL_MS   = 15_000;
+const FETCH_TIMEOUT_MS = 3_000;
+
+export interface CatalogModel {
+  id:     string;
+  type:   string;    // llm | vlm | embeddings
+  state:  string;    // loaded | not-loaded
+  publisher?: string;
+}
+
+export interface TargetModels {
+  target:    DaemonTarget;
+  reachable: boolean;
+  models:    CatalogModel[];
+  fetchedAt: number;   // epoch ms
+}
+
+const cache = new Map<string, TargetModels>();
+
+async function fetchModels(target: DaemonTarget): Promise<TargetModels> {
+  try {
+    const r = await fetch(`${getDaemonUrl(target)}/api/v0/models`, {
+      headers: getDaemonHeaders(target),
+      signal:  AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!r.ok) throw new Error(`HTTP ${r.status}`);
+    const d = (await r.json()) as { data?: { id?: unknown; type?: unknown; state?: unknown; publisher?: unknown }[] };
+    const models = (d.data ?? []).flatMap(m => typeof m.id === 'string' ? [{
+      id:        m.id,
+      type:      typeof m.type  === 'string' ? m.type  : 'llm',
+      state:     typeof m.state === 'string' ? m.state : 'not-loaded',
+      ...(typeof m.publisher === 'string' && { publisher: m.publisher }),
+    }] : []);
+    return { target, reachable: true, models, fetchedAt: Date.now() };
+  } catch {
+    return { target, reachable: false, models: [], fetchedAt: Date.now() };
+  }
+}
+
+/** Models on one target, from the cache unless it is stale or `force` is set. */
+export async function targetModels(target: DaemonTarget, force = false): Promise<TargetModels> {
+  const hit = cache.get(target.id);
+  // A cached entry for an edited target (new URL or key) does not count
+  if (!force && hit && Date.now() - hit.fetchedAt < CATALOG_TTL_MS
+      && hit.target.url === target.url && hit.target.key === target.key) {
+    return hit;
+  }
+  const fresh = await fetchModels(target);
+  cache.set(target.id, fresh);
+  return fresh;
+}
+
+/** Model id glob: `*` matches anything, case-insensitive (failover policies, allowed-model lists). */
+export function modelMatches(pattern: string, modelId: string): boolean {
+  const re = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${re}$`, 'i').test(modelId);
+}
+
+/** Models on every given target, fetched in parallel. */
+export function catalog(targets: DaemonTarget[], force = false): Promise<TargetModels[]> {
+  return Promise.all(targets.map(t => targetModels(t, force)));
+}
+
+/**
+ * Targets that can serve `modelId`: those with it loaded first, then those
+ * that only have it on disk (the daemon loads it just in time). Empty when
+ * no reachable target knows the model.
+ */
+export async function targetsForModel(modelId: string, targets: DaemonTarget[]): Promise<DaemonTarget[]> {
+  const pick = (entries: TargetModels[]) => {
+    const loaded: DaemonTarget[] = [];
+    const onDisk: DaemonTarget[] = [];
+    for (const e of entries) {
+      const m = e.models.find(x => x.id === modelId);
+      if (m) (m.state === 'loaded' ? loaded : onDisk).push(e.target);
+    }
+    return [...loaded, ...onDisk];
+  };
+  const found = pick(await catalog(targets));
+  return found.length > 0 ? found : pick(await catalog(targets, true));
+}
@@ -0,0 +1,316 @@
+/**
+ * oidc — OpenID Connect single sign-on (authorization code flow + PKCE).
+ *
+ * Configured entirely from the environment; SSO is off unless OIDC_ISSUER
+ * and OIDC_CLIENT_ID are set:
+ *
+ *   OIDC_ISSUER            issuer URL (discovery at /.well-known/openid-configuration)
+ *   OIDC_CLIENT_ID         client registered with the IdP
+ *   OIDC_CLIENT_SECRET     omit for a public client (PKCE only)
+ *   OIDC_REDIRECT_URI      browser-visible callback, …/api/auth/oidc/callback
+ *                          (default: derived from the request host)
+ *   OIDC_SCOPES            default "openid profile email groups"
+ *   OIDC_USERNAME_CLAIM    default "preferred_username" (falls back to email, then sub)
+ *   OIDC_GROUPS_CLAIM      default "groups"
+ *   OIDC_ADMIN_GROUPS      comma-separated; members sign in as admin
+ *   OIDC_VIEWER_GROUPS     comma-separated; when set, everyone else is refused
+ *   OIDC_BUTTON_LABEL      login button text, default "Sign in with SSO"
+ *
+ * The ID token is verified against the issuer's JWKS (signature, iss, aud,
+ * exp, nonce). Users are provisioned on first sign-in and keyed by
+ * issuer + subject; their role is re-derived from the groups claim every
+ * time, so IdP group changes apply at the next login.
+ */
+
+import { createHash, createPublicKey, randomBytes, type KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcrypt';
+import { getDb } from '../db/schema';
+import { BCRYPT_ROUNDS, USERNAME_RE } from './accounts';
+import type { Role } from './sessions';
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+export interface OidcConfig {
+  issuer:        string;
+  clientId:      string;
+  clientSecret:  string | undefined;
+  redirectUri:   string | undefined;
+  scopes:        string;
+  usernameClaim: string;
+  groupsClaim:   string;
+  adminGroups:   string[];
+  viewerGroups:  string[];
+  buttonLabel:   string;
+}
+
+const list = (v: string | undefined) => (v ?? '').split(',').map(s => s.trim()).filter(Boolean);
+
+/** Null when SSO is not configured. */
+export function oidcConfig(): OidcConfig | null {
+  const issuer   = process.env['OIDC_ISSUER']?.trim();
+  const clientId = process.env['OIDC_CLIENT_ID']?.trim();
+  if (!issuer || !clientId) return null;
+  return {
+    issuer:        issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret:  process.env['OIDC_CLIENT_SECRET']?.trim() || undefined,
+    redirectUri:   process.env['OIDC_REDIRECT_URI']?.trim() || undefined,
+    scopes:        process.env['OIDC_SCOPES']?.trim() || 'openid profile email groups',
+    usernameClaim: process.env['OIDC_USERNAME_CLAIM']?.trim() || 'preferred_username',
+    groupsClaim:   process.env['OIDC_GROUPS_CLAIM']?.trim() || 'groups',
+    adminGroups:   list(process.env['OIDC_ADMIN_GROUPS']),
+    viewerGroups:  list(process.env['OIDC_VIEWER_GROUPS']),
+    buttonLabel:   process.env['OIDC_BUTTON_LABEL']?.trim() || 'Sign in with SSO',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Discovery + JWKS (cached)
+// ---------------------------------------------------------------------------
+
+interface Discovery {
+  issuer:                 string;
+  authorization_endpoint: string;
+  token_endpoint:         string;
+  jwks_uri:               string;
+  userinfo_endpoint?:     string;
+}
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const JWKS_MIN_REFETCH_MS = 60 * 1000;   // unknown kid → refetch, but not more often than this
+
+let discovery: { issuer: string; doc: Discovery; fetchedAt: number } | null = null;
+let jwks: { uri: string; keys: Map<string, KeyObject>; fetchedAt: number } | null = null;
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+/** GET/POST `url` for a JSON object. Every failure — network, timeout, status, body — is an OidcError. */
+async function fetchJson<T extends object>(url: string, init?: RequestInit): Promise<Partial<T>> {
+  let res: globalThis.Response;
+  let body: string;
+  try {
+    res  = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    body = await res.text();
+  } catch (err) {
+    const timedOut = err instanceof Error && err.name === 'TimeoutError';
+    throw new OidcError(timedOut
+      ? `${url} did not answer within ${FETCH_TIMEOUT_MS / 1000}s`
+      : `${url} is unreachable: ${(err as Error).message}`);
+  }
+  if (!res.ok) throw new OidcError(`${url} answered HTTP ${res.status}: ${body.slice(0, 200)}`);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new OidcError(`${url} did not return JSON`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new OidcError(`${url} did not return a JSON object`);
+  }
+  return parsed as Partial<T>;
+}
+
+async function getDiscovery(cfg: OidcConfig): Promise<Discovery> {
+  if (discovery?.issuer === cfg.issuer && Date.now() - discovery.fetchedAt < DISCOVERY_TTL_MS) return discovery.doc;
+  const url = `${cfg.issuer}/.well-known/openid-configuration`;
+  const raw = await fetchJson<Discovery>(url);
+  const missing = (['issuer', 'authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const)
+    .filter(k => typeof raw[k] !== 'string' || !raw[k]);
+  if (missing.length) throw new OidcError(`${url} lacks ${missing.join(', ')}`);
+  const doc = raw as Discovery;
+  if (typeof doc.userinfo_endpoint !== 'string') delete doc.userinfo_endpoint;
+  if (doc.issuer.replace(/\/+$/, '') !== cfg.issuer) {
+    throw new OidcError(`Discovery issuer "${doc.issuer}" does not match OIDC_ISSUER`);
+  }
+  discovery = { issuer: cfg.issuer, doc, fetchedAt: Date.now() };
+  return doc;
+}
+
+async function signingKey(doc: Discovery, kid: string | undefined): Promise<KeyObject> {
+  const find = () => {
+    if (!jwks || jwks.uri !== doc.jwks_uri) return undefined;
+    return kid ? jwks.keys.get(kid) : jwks.keys.size === 1 ? [...jwks.keys.values()][0] : undefined;
+  };
+  const stale = !jwks || jwks.uri !== doc.jwks_uri || Date.now() - jwks.fetchedAt > JWKS_MIN_REFETCH_MS;
+  if (!find() && stale) {
+    const set = await fetchJson<{ keys: unknown[] }>(doc.jwks_uri);
+    if (!Array.isArray(set.keys)) throw new OidcError(`${doc.jwks_uri} is not a JWK set`);
+    const keys = new Map<string, KeyObject>();
+    set.keys.forEach((entry, i) => {
+      if (typeof entry !== 'object' || entry === null) return;
+      const k = entry as Record<string, unknown>;
+      if (k['use'] && k['use'] !== 'sig') return;
+      const kid = typeof k['kid'] === 'string' ? k['kid'] : `#${i}`;
+      try { keys.set(kid, createPublicKey({ key: k, format: 'jwk' })); } catch { /* unsupported key type */ }
+    });
+    jwks = { uri: doc.jwks_uri, keys, fetchedAt: Date.now() };
+  }
+  const key = find();
+  if (!key) throw new OidcError(`No signing key${kid ? ` "${kid}"` : ''} in the issuer's JWKS`);
+  return key;
+}
+
+// ---------------------------------------------------------------------------
+// Login transactions — state → PKCE verifier + nonce, held for 10 minutes
+// ---------------------------------------------------------------------------
+
+const PENDING_TTL_MS = 10 * 60 * 1000;
+const pending = new Map<string, { verifier: string; nonce: string; redirectUri: string; expiresAt: number }>();
+
+const b64url = (buf: Buffer) => buf.toString('base64url');
+
+/** Build the IdP authorization URL. `state` must also be bound to the browser (cookie). */
+export async function beginLogin(cfg: OidcConfig, redirectUri: string): Promise<{ url: string; state: string }> {
+  const doc      = await getDiscovery(cfg);
+  const state    = b64url(randomBytes(24));
+  const nonce    = b64url(randomBytes(24));
+  const verifier = b64url(randomBytes(32));
+
+  const now = Date.now();
+  for (const [k, v] of pending) if (v.expiresAt < now) pending.delete(k);
+  pending.set(state, { verifier, nonce, redirectUri, expiresAt: now + PENDING_TTL_MS });
+
+  const url = new URL(doc.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type:         'code',
+    client_id:             cfg.clientId,
+    redirect_uri:          redirectUri,
+    scope:                 cfg.scopes,
+    state,
+    nonce,
+    code_challenge:        b64url(createHash('sha256').update(verifier).digest()),
+    code_challenge_method: 'S256',
+  }).toString();
+  return { url: url.toString(), state };
+}
+
+export interface OidcIdentity {
+  subject:  string;   // `${iss}|${sub}`
+  username: string;
+  groups:   string[];
+}
+
+/** Redeem the authorization code and verify the ID token. Throws OidcError. */
+export async function completeLogin(cfg: OidcConfig, state: string, code: string): Promise<OidcIdentity> {
+  const txn = pending.get(state);
+  pending.delete(state);
+  if (!txn || txn.expiresAt < Date.now()) throw new OidcError('Sign-in request expired — start again');
+
+  const doc  = await getDiscovery(cfg);
+  const body = new URLSearchParams({
+    grant_type:    'authorization_code',
+    code,
+    redirect_uri:  txn.redirectUri,
+    client_id:     cfg.clientId,
+    code_verifier: txn.verifier,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  if (cfg.clientSecret) {
+    const enc = (s: string) => encodeURIComponent(s);
+    headers['Authorization'] = `Basic ${Buffer.from(`${enc(cfg.clientId)}:${enc(cfg.clientSecret)}`).toString('base64')}`;
+  }
+  const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(doc.token_endpoint, {
+    method: 'POST', headers, body,
+  });
+  if (typeof tokens.id_token !== 'string' || !tokens.id_token) throw new OidcError('Token response carried no id_token');
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') throw new OidcError('Malformed id_token');
+  const key = await signingKey(doc, decoded.header.kid);
+
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'],
+      issuer:     doc.issuer,
+      audience:   cfg.clientId,
+      clockTolerance: 60,
+    }) as jwt.JwtPayload;
+  } catch (err) {
+    throw new OidcError(`id_token rejected: ${(err as Error).message}`);
+  }
+  if (claims['nonce'] !== txn.nonce) throw new OidcError('id_token nonce mismatch');
+  if (!claims.sub) throw new OidcError('id_token has no subject');
+
+  // Many IdPs only put groups (or the username) in the userinfo response
+  if ((!(cfg.groupsClaim in claims) || !(cfg.usernameClaim in claims)) && doc.userinfo_endpoint && typeof tokens.access_token === 'string') {
+    try {
+      const info = await fetchJson<Record<string, unknown>>(doc.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+      });
+      if (info['sub'] === claims.sub) claims = { ...info, ...claims };
+    } catch { /* the ID token alone will have to do */ }
+  }
+
+  const rawGroups = claims[cfg.groupsClaim] as unknown;
+  const groups = Array.isArray(rawGroups) ? rawGroups.filter((g): g is string => typeof g === 'string')
+    : typeof rawGroups === 'string' ? list(rawGroups) : [];
+
+  const rawName = [claims[cfg.usernameClaim], claims['email'], claims.sub].find(v => typeof v === 'string' && v) as string;
+  return { subject: `${doc.issuer}|${claims.sub}`, username: toUsername(rawName), groups };
+}
+
+/** Fit an IdP name into the local username rules (3–32 of letters, digits, . _ -). */
+function toUsername(raw: string): string {
+  let name = raw.replace(/[^A-Za-z0-9._-]/g, '_').slice(0, 32);
+  while (name.length < 3) name += '_';
+  return name;
+}
+
+/** admin / viewer from the groups claim; null when the user may not sign in. */
+export function roleForGroups(cfg: OidcConfig, groups: string[]): Role | null {
+  if (groups.some(g => cfg.adminGroups.includes(g))) return 'admin';
+  if (cfg.viewerGroups.length === 0 || groups.some(g => cfg.viewerGroups.includes(g))) return 'viewer';
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Provisioning
+// ---------------------------------------------------------------------------
+
+export interface SsoUser {
+  id:       number;
+  username: string;
+  role:     Role;
+  disabled: number;
+}
+
+/**
+ * Find the account linked to this identity (creating it on first sign-in)
+ * and apply the role mapped from the IdP groups. A local account that
+ * already holds the username is never taken over.
+ */
+export async function provisionUser(identity: OidcIdentity, role: Role): Promise<SsoUser> {
+  const db = getDb();
+  const linked = db
+    .prepare<string, SsoUser>('SELECT id, username, role, disabled FROM users WHERE oidc_subject = ?')
+    .get(identity.subject);
+  if (linked) {
+    if (linked.role !== role) db.prepare('UPDATE users SET role = ? WHERE id = ?').run(role, linked.id);
+    return { ...linked, role };
+  }
+
+  if (!USERNAME_RE.test(identity.username)) throw new OidcError(`Cannot derive a valid username from "${identity.username}"`);
+  if (db.prepare<string, { id: number }>('SELECT id FROM users WHERE username = ? COLLATE NOCASE').get(identity.username)) {
+    throw new OidcError(`A local account named "${identity.username}" already exists — ask an administrator to rename it`);
+  }
+
+  // SSO accounts have no usable password; the hash only satisfies NOT NULL
+  const unusable = await bcrypt.hash(randomBytes(32).toString('base64'), BCRYPT_ROUNDS);
+  const info = db.prepare(`
+    INSERT INTO users (username, password_hash, role, auth_source, oidc_subject) VALUES (?, ?, ?, 'oidc', ?)
+  `).run(identity.username, unusable, role, identity.subject);
+  return { id: Number(info.lastInsertRowid), username: identity.username, role, disabled: 0 };
+}
+
+export function isSsoUser(userId: number): boolean {
+  return getDb()
+    .prepare<number, { auth_source: string }>('SELECT auth_source FROM users WHERE id = ?')
+    .get(userId)?.auth_source === 'oidc';
+}
@@ -0,0 +1,104 @@
+import '../test/tempDb';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDb, initDb } from '../db/schema';
+import type { AuthPayload } from '../middleware/auth';
+import {
+  checkQuota, listQuotaEvents, setQuota, NATIVE_CHAT_TOKEN_LIMITS, OPENAI_TOKEN_LIMITS, REMAINING_HEADER, WARNING_HEADER,
+  type UserQuota,
+} from './quotas';
+
+initDb();
+
+const NO_LIMITS: UserQuota = {
+  dailySoft: null, dailyHard: null, monthlySoft: null, monthlyHard: null, maxTokensPerRequest: null, allowedModels: null,
+};
+
+/** A viewer with the given quota. */
+function userWith(username: string, quota: Partial<UserQuota>): AuthPayload {
+  const sub = Number(getDb().prepare("INSERT INTO users (username, password_hash, role) VALUES (?, 'x', 'viewer')").run(username).lastInsertRowid);
+  setQuota(sub, { ...NO_LIMITS, ...quota });
+  return { sub, username, role: 'viewer', sid: 'test' };
+}
+
+function used(user: AuthPayload, tokens: number): void {
+  getDb().prepare(`
+    INSERT INTO usage_events (user_id, username, via, endpoint, model, target, total_tokens)
+    VALUES (?, ?, 'session', 'chat', 'qwen3-8b', 'default', ?)
+  `).run(user.sub, user.username, tokens);
+}
+
+test('a user without a quota is not limited', () => {
+  const sub = Number(getDb().prepare("INSERT INTO users (username, password_hash, role) VALUES ('free', 'x', 'viewer')").run().lastInsertRowid);
+  const body = {};
+  assert.deepEqual(checkQuota({ sub, username: 'free', role: 'viewer', sid: 'test' }, 'any', OPENAI_TOKEN_LIMITS, body), { ok: true, headers: {} });
+  assert.deepEqual(body, {});
+});
+
+test('only allowed models get through', () => {
+  const user = userWith('models', { allowedModels: ['qwen3-*'] });
+  assert.equal(checkQuota(user, 'qwen3-8b', null, undefined).ok, true);
+  const other = checkQuota(user, 'llama-3.1-8b', null, undefined);
+  assert.equal(!other.ok && `${other.status} ${other.code}`, '403 model_not_allowed');
+  const none = checkQuota(user, null, null, undefined);
+  assert.equal(!none.ok && none.code, 'model_not_allowed');
+});
+
+test('every OpenAI token-limit field is held to the per-request cap', () => {
+  const user = userWith('cap-openai', { maxTokensPerRequest: 256 });
+  for (const field of OPENAI_TOKEN_LIMITS.accepted) {
+    const over = checkQuota(user, 'm', OPENAI_TOKEN_LIMITS, { [field]: 257 });
+    assert.equal(!over.ok && `${over.status} ${over.code}`, '403 max_tokens_exceeded', field);
+    assert.equal(checkQuota(user, 'm', OPENAI_TOKEN_LIMITS, { [field]: 256 }).ok, true, field);
+  }
+});
+
+test('the cap is filled in when no limit or an unlimited one is set', () => {
+  const user = userWith('cap-inject', { maxTokensPerRequest: 256 });
+
+  const bare: Record<string, unknown> = {};
+  checkQuota(user, 'm', OPENAI_TOKEN_LIMITS, bare);
+  assert.deepEqual(bare, { max_tokens: 256 });
+
+  const unlimited: Record<string, unknown> = { max_completion_tokens: -1 };
+  checkQuota(user, 'm', OPENAI_TOKEN_LIMITS, unlimited);
+  assert.deepEqual(unlimited, { max_completion_tokens: 256 });
+
+  const native: Record<string, unknown> = { max_tokens: 100 };   // not a field the native chat understands
+  checkQuota(user, 'm', NATIVE_CHAT_TOKEN_LIMITS, native);
+  assert.deepEqual(native, { max_tokens: 100, max_output_tokens: 256 });
+  const nativeOver = checkQuota(user, 'm', NATIVE_CHAT_TOKEN_LIMITS, { max_output_tokens: 1000 });
+  assert.equal(!nativeOver.ok && nativeOver.code, 'max_tokens_exceeded');
+});
+
+test('past the soft limit calls go through with a warning, logged once', () => {
+  const user = userWith('soft', { dailySoft: 100, dailyHard: 1000 });
+  used(user, 150);
+  for (let i = 0; i < 2; i++) {
+    const decision = checkQuota(user, 'm', null, undefined);
+    assert.equal(decision.ok, true);
+    assert.equal(decision.headers[REMAINING_HEADER.daily], '850');
+    assert.match(decision.headers[WARNING_HEADER] ?? '', /daily soft limit reached \(150 of 100 tokens\)/);
+  }
+  assert.deepEqual(listQuotaEvents(user.sub).map(e => [e.kind, e.period, e.used, e.limit]), [['soft', 'daily', 150, 100]]);
+});
+
+test('at the hard limit calls get 429 until the period resets', () => {
+  const user = userWith('hard', { monthlyHard: 500 });
+  used(user, 499);
+  assert.equal(checkQuota(user, 'm', null, undefined).headers[REMAINING_HEADER.monthly], '1');
+  used(user, 1);
+
+  const decision = checkQuota(user, 'm', null, undefined);
+  assert.equal(!decision.ok && `${decision.status} ${decision.code}`, '429 budget_exhausted');
+  assert.equal(decision.headers[REMAINING_HEADER.monthly], '0');
+  assert.ok(Number(decision.headers['Retry-After']) >= 1);
+  assert.deepEqual(listQuotaEvents(user.sub).map(e => [e.kind, e.period]), [['hard', 'monthly']]);
+});
+
+test('usage from before the period does not count', () => {
+  const user = userWith('old', { dailyHard: 100 });
+  used(user, 1000);
+  getDb().prepare("UPDATE usage_events SET at = datetime('now', '-1 day', 'start of day') WHERE user_id = ?").run(user.sub);
+  assert.equal(checkQuota(user, 'm', null, undefined).ok, true);
+});
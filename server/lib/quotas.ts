@@ -0,0 +1,296 @@
+/**
+ * quotas — Per-user token budgets and model limits, enforced before an
+ * inference call is forwarded.
+ *
+ * A `user_quotas` row (users without one are unlimited) can set:
+ *   daily / monthly budgets  — tokens per UTC day / calendar month, counted
+ *                              from the daemon `usage` blocks lib/usage
+ *                              records. Each has a soft and a hard limit:
+ *                              past the soft limit calls still go through
+ *                              with a warning header and a `quota_events`
+ *                              row; at the hard limit they get 429
+ *   maxTokensPerRequest      — any token-limit field above it gets 403; a
+ *                              chat or completion that sets none gets this
+ *                              one, in the field its route understands
+ *   allowedModels            — model globs (lib/modelCatalog modelMatches);
+ *                              any other model gets 403
+ *
+ * Responses carry the remaining hard budget in the
+ * X-DaemonPulse-Budget-Remaining-Daily / -Monthly headers. A call in flight
+ * counts once it has finished, so a burst can overshoot a budget slightly.
+ */
+
+import { getDb } from '../db/schema';
+import { modelMatches } from './modelCatalog';
+import type { UsageEndpoint } from './usage';
+import type { AuthPayload } from '../middleware/auth';
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export interface UserQuota {
+  dailySoft:           number | null;
+  dailyHard:           number | null;
+  monthlySoft:         number | null;
+  monthlyHard:         number | null;
+  maxTokensPerRequest: number | null;
+  allowedModels:       string[] | null;   // null = every model
+}
+
+export const REMAINING_HEADER: Record<QuotaPeriod, string> = {
+  daily:   'X-DaemonPulse-Budget-Remaining-Daily',
+  monthly: 'X-DaemonPulse-Budget-Remaining-Monthly',
+};
+export const WARNING_HEADER = 'X-DaemonPulse-Budget-Warning';
+
+const PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+
+// Start of the current period, in SQLite datetime('now') format (UTC)
+const PERIOD_START_SQL: Record<QuotaPeriod, string> = {
+  daily:   "date('now')",
+  monthly: "strftime('%Y-%m-01', 'now')",
+};
+
+interface QuotaRow {
+  daily_soft: number | null; daily_hard: number | null; monthly_soft: number | null; monthly_hard: number | null;
+  max_tokens_per_request: number | null; allowed_models: string | null;
+}
+
+export function getQuota(userId: number): UserQuota | null {
+  const r = getDb().prepare<number, QuotaRow>('SELECT * FROM user_quotas WHERE user_id = ?').get(userId);
+  if (!r) return null;
+  return {
+    dailySoft: r.daily_soft, dailyHard: r.daily_hard, monthlySoft: r.monthly_soft, monthlyHard: r.monthly_hard,
+    maxTokensPerRequest: r.max_tokens_per_request,
+    allowedModels:       r.allowed_models === null ? null : JSON.parse(r.allowed_models) as string[],
+  };
+}
+
+/** Replace a user's quota; null (or a quota that limits nothing) removes it. */
+export function setQuota(userId: number, quota: UserQuota | null): void {
+  const db = getDb();
+  const limitsNothing = !quota || (Object.values(quota).every(v => v === null));
+  if (limitsNothing) {
+    db.prepare('DELETE FROM user_quotas WHERE user_id = ?').run(userId);
+    return;
+  }
+  db.prepare(`
+    INSERT INTO user_quotas (user_id, daily_soft, daily_hard, monthly_soft, monthly_hard, max_tokens_per_request, allowed_models)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(user_id) DO UPDATE SET
+      daily_soft = excluded.daily_soft, daily_hard = excluded.daily_hard,
+      monthly_soft = excluded.monthly_soft, monthly_hard = excluded.monthly_hard,
+      max_tokens_per_request = excluded.max_tokens_per_request, allowed_models = excluded.allowed_models,
+      updated_at = datetime('now')
+  `).run(
+    userId, quota.dailySoft, quota.dailyHard, quota.monthlySoft, quota.monthlyHard, quota.maxTokensPerRequest,
+    quota.allowedModels === null ? null : JSON.stringify(quota.allowedModels),
+  );
+}
+
+/** Validate a PUT body. Every field is optional; missing or null means "no limit". */
+export function parseQuota(body: unknown): { ok: true; value: UserQuota } | { ok: false; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const limits: Record<string, number | null> = {};
+  for (const key of ['dailySoft', 'dailyHard', 'monthlySoft', 'monthlyHard', 'maxTokensPerRequest']) {
+    const v = b[key] ?? null;
+    if (v !== null && (typeof v !== 'number' || !Number.isInteger(v) || v < 1)) {
+      return { ok: false, error: `${key} must be a positive whole number of tokens, or null for no limit` };
+    }
+    limits[key] = v;
+  }
+  for (const period of PERIODS) {
+    const soft = limits[`${period}Soft`], hard = limits[`${period}Hard`];
+    if (soft != null && hard != null && soft > hard) {
+      return { ok: false, error: `The ${period} soft limit cannot be above the hard limit` };
+    }
+  }
+
+  let allowedModels: string[] | null = null;
+  const models = b['allowedModels'] ?? null;
+  if (models !== null) {
+    if (!Array.isArray(models) || !models.every(m => typeof m === 'string')) {
+      return { ok: false, error: 'allowedModels must be an array of model ids or globs, or null for every model' };
+    }
+    allowedModels = [...new Set((models as string[]).map(m => m.trim()).filter(Boolean))];
+    if (allowedModels.length === 0) return { ok: false, error: 'allowedModels cannot be empty — use null to allow every model' };
+  }
+
+  return {
+    ok: true,
+    value: {
+      dailySoft:   limits['dailySoft']   ?? null, dailyHard:   limits['dailyHard']   ?? null,
+      monthlySoft: limits['monthlySoft'] ?? null, monthlyHard: limits['monthlyHard'] ?? null,
+      maxTokensPerRequest: limits['maxTokensPerRequest'] ?? null,
+      allowedModels,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Budget state
+// ---------------------------------------------------------------------------
+
+/** Tokens the user has used today and this month (UTC). */
+export function usedTokens(userId: number): Record<QuotaPeriod, number> {
+  return getDb().prepare<number, Record<QuotaPeriod, number>>(`
+    SELECT COALESCE(SUM(CASE WHEN at >= ${PERIOD_START_SQL.daily} THEN total_tokens END), 0) AS daily,
+           COALESCE(SUM(total_tokens), 0) AS monthly
+    FROM usage_events WHERE user_id = ? AND at >= ${PERIOD_START_SQL.monthly}
+  `).get(userId)!;
+}
+
+/** When the current period ends (UTC). */
+export function periodResetsAt(period: QuotaPeriod, now = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+const limitOf = (q: UserQuota, period: QuotaPeriod, kind: 'soft' | 'hard') =>
+  period === 'daily' ? (kind === 'soft' ? q.dailySoft : q.dailyHard) : (kind === 'soft' ? q.monthlySoft : q.monthlyHard);
+
+/** Log a crossing once per user, kind and period. */
+function recordEvent(user: AuthPayload, kind: 'soft' | 'hard', period: QuotaPeriod, used: number, limit: number): void {
+  const db = getDb();
+  const seen = db.prepare<[number, string, string], { id: number }>(`
+    SELECT id FROM quota_events WHERE user_id = ? AND kind = ? AND period = ? AND at >= ${PERIOD_START_SQL[period]} LIMIT 1
+  `).get(user.sub, kind, period);
+  if (seen) return;
+  db.prepare('INSERT INTO quota_events (user_id, username, kind, period, used, quota_limit) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(user.sub, user.username, kind, period, used, limit);
+  console.warn(`[quotas] ${user.username} reached the ${period} ${kind} limit (${used} of ${limit} tokens)`);
+}
+
+// ---------------------------------------------------------------------------
+// Enforcement
+// ---------------------------------------------------------------------------
+
+export type QuotaCode = 'model_not_allowed' | 'max_tokens_exceeded' | 'budget_exhausted';
+
+export type QuotaDecision =
+  | { ok: true;  headers: Record<string, string> }
+  | { ok: false; status: 403 | 429; code: QuotaCode; message: string; headers: Record<string, string> };
+
+/**
+ * The output-token limits a request body shape accepts. Every one the caller
+ * sets is held to maxTokensPerRequest; `inject` is the one filled in when
+ * none is set.
+ */
+export interface TokenLimitFields {
+  accepted: readonly string[];
+  inject:   string;
+}
+
+/** OpenAI-style chat and completion bodies (/v1 and /api/v0). */
+export const OPENAI_TOKEN_LIMITS: TokenLimitFields = { accepted: ['max_tokens', 'max_completion_tokens'], inject: 'max_tokens' };
+
+/** The daemon's native /api/v1/chat body. */
+export const NATIVE_CHAT_TOKEN_LIMITS: TokenLimitFields = { accepted: ['max_output_tokens'], inject: 'max_output_tokens' };
+
+/** Token limits of an OpenAI-style body for `endpoint` — embeddings have none. */
+export function openAiTokenLimits(endpoint: UsageEndpoint): TokenLimitFields | null {
+  return endpoint === 'embeddings' ? null : OPENAI_TOKEN_LIMITS;
+}
+
+/**
+ * Check an inference call against the caller's quota. Headers are meant for
+ * the response either way. May set a token-limit field of `body` (see
+ * maxTokensPerRequest).
+ */
+export function checkQuota(
+  user: AuthPayload, model: string | null, limits: TokenLimitFields | null, body: Record<string, unknown> | undefined,
+): QuotaDecision {
+  const quota = getQuota(user.sub);
+  if (!quota) return { ok: true, headers: {} };
+
+  if (quota.allowedModels && !(model && quota.allowedModels.some(p => modelMatches(p, model)))) {
+    return {
+      ok: false, status: 403, code: 'model_not_allowed', headers: {},
+      message: `${model ? `The model "${model}" is` : 'Requests without a model are'} not allowed for your account `
+        + `(allowed: ${quota.allowedModels.join(', ')})`,
+    };
+  }
+
+  const cap = quota.maxTokensPerRequest;
+  if (cap !== null && limits && body) {
+    const set = limits.accepted.filter(field => body[field] !== undefined && body[field] !== null);
+    for (const field of set) {
+      const asked = body[field];
+      if (typeof asked === 'number' && asked > cap) {
+        return {
+          ok: false, status: 403, code: 'max_tokens_exceeded', headers: {},
+          message: `${field} ${asked} is above your per-request limit of ${cap}`,
+        };
+      }
+      // llmster treats a negative limit as "until the context is full"
+      if (typeof asked !== 'number' || asked < 0) body[field] = cap;
+    }
+    if (set.length === 0) body[limits.inject] = cap;
+  }
+
+  const used     = usedTokens(user.sub);
+  const headers: Record<string, string> = {};
+  const warnings: string[] = [];
+  for (const period of PERIODS) {
+    const hard = limitOf(quota, period, 'hard');
+    const soft = limitOf(quota, period, 'soft');
+    if (hard !== null) headers[REMAINING_HEADER[period]] = String(Math.max(0, hard - used[period]));
+    if (hard !== null && used[period] >= hard) {
+      recordEvent(user, 'hard', period, used[period], hard);
+      const resets = periodResetsAt(period);
+      headers['Retry-After'] = String(Math.max(1, Math.ceil((resets.getTime() - Date.now()) / 1000)));
+      return {
+        ok: false, status: 429, code: 'budget_exhausted', headers,
+        message: `Your ${period} token budget is used up (${used[period]} of ${hard} tokens); it resets at ${resets.toISOString()}`,
+      };
+    }
+    if (soft !== null && used[period] >= soft) {
+      recordEvent(user, 'soft', period, used[period], soft);
+      warnings.push(`${period} soft limit reached (${used[period]} of ${soft} tokens)`);
+    }
+  }
+  if (warnings.length > 0) headers[WARNING_HEADER] = warnings.join('; ');
+  return { ok: true, headers };
+}
+
+// ---------------------------------------------------------------------------
+// Reporting — for /api/usage
+// ---------------------------------------------------------------------------
+
+export interface QuotaStatus {
+  quota:  UserQuota | null;
+  used:   Record<QuotaPeriod, number>;
+  resets: Record<QuotaPeriod, string>;   // ISO
+}
+
+export function quotaStatus(userId: number): QuotaStatus {
+  return {
+    quota:  getQuota(userId),
+    used:   usedTokens(userId),
+    resets: { daily: periodResetsAt('daily').toISOString(), monthly: periodResetsAt('monthly').toISOString() },
+  };
+}
+
+export interface QuotaEvent {
+  id:       number;
+  at:       string;   // ISO
+  username: string;
+  kind:     'soft' | 'hard';
+  period:   QuotaPeriod;
+  used:     number;
+  limit:    number;
+}
+
+/** Newest first; only the given user's when userId is set. */
+export function listQuotaEvents(userId?: number, limit = 50): QuotaEvent[] {
+  const where = userId === undefined ? '' : 'WHERE user_id = ?';
+  return getDb()
+    .prepare<number[], { id: number; at: string; username: string; kind: 'soft' | 'hard'; period: QuotaPeriod; used: number; quota_limit: number }>(
+      `SELECT * FROM quota_events ${where} ORDER BY id DESC LIMIT ?`,
+    )
+    .all(...(userId === undefined ? [limit] : [userId, limit]))
+    .map(r => ({
+      id: r.id, at: new Date(`${r.at.replace(' ', 'T')}Z`).toISOString(), username: r.username,
+      kind: r.kind, period: r.period, used: r.used, limit: r.quota_limit,
+    }));
+}
@@ -0,0 +1,146 @@
+/**
+ * secretBox — Envelope encryption for secrets stored in SQLite.
+ *
+ * Every value gets its own random 256-bit data key (DEK). The value is sealed
+ * with the DEK (AES-256-GCM) and the DEK is wrapped with the master key
+ * (AES-256-GCM). A copied `daemonpulse.db` is useless without the master key.
+ *
+ * Master keys come from the environment:
+ *   DP_MASTER_KEY           — current key; all new values are sealed with it
+ *   DP_MASTER_KEY_PREVIOUS  — comma-separated retired keys, still accepted for
+ *                             decryption until `npm run rotate-keys` has run
+ *
+ * A key may be 32 bytes as base64 or hex; anything else is treated as a
+ * passphrase and stretched with scrypt.
+ *
+ * Sealed format (dot-separated, base64url parts):
+ *   dp1.<keyId>.<iv|tag|wrappedDek>.<iv|tag|ciphertext>
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+
+const PREFIX  = 'dp1';
+const IV_LEN  = 12;
+const TAG_LEN = 16;
+
+export class SecretBoxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretBoxError';
+  }
+}
+
+interface MasterKey {
+  id:  string;   // first 8 hex chars of sha256(key) — identifies which key sealed a value
+  key: Buffer;
+}
+
+function deriveKey(raw: string): MasterKey {
+  const value = raw.trim();
+  let key: Buffer | null = null;
+  if (/^[0-9a-f]{64}$/i.test(value)) key = Buffer.from(value, 'hex');
+  else {
+    const b64 = Buffer.from(value, 'base64');
+    if (b64.length === 32) key = b64;
+  }
+  key ??= scryptSync(value, 'daemonpulse.master-key.v1', 32);
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+// Resolved lazily — .env is loaded by index.ts after module imports are evaluated
+let keyring: { current: MasterKey | null; all: Map<string, MasterKey> } | null = null;
+
+function getKeyring(): NonNullable<typeof keyring> {
+  if (keyring) return keyring;
+  const currentRaw = process.env['DP_MASTER_KEY'] ?? '';
+  const current    = currentRaw.trim() ? deriveKey(currentRaw) : null;
+  const all        = new Map<string, MasterKey>();
+  if (current) all.set(current.id, current);
+  for (const raw of (process.env['DP_MASTER_KEY_PREVIOUS'] ?? '').split(',')) {
+    if (!raw.trim()) continue;
+    const k = deriveKey(raw);
+    if (!all.has(k.id)) all.set(k.id, k);
+  }
+  keyring = { current, all };
+  return keyring;
+}
+
+export function isSecretBoxConfigured(): boolean {
+  return getKeyring().current !== null;
+}
+
+/** Key id of DP_MASTER_KEY, or null when unset. */
+export function currentKeyId(): string | null {
+  return getKeyring().current?.id ?? null;
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(`${PREFIX}.`);
+}
+
+/** True when the value is plaintext or sealed with a retired master key. */
+export function needsReseal(value: string): boolean {
+  if (!isSealed(value)) return true;
+  return value.split('.')[1] !== currentKeyId();
+}
+
+export function sealSecret(plaintext: string): string {
+  const master = getKeyring().current;
+  if (!master) {
+    throw new SecretBoxError('DP_MASTER_KEY is not set — refusing to store secrets unencrypted');
+  }
+  const dek = randomBytes(32);
+  return [
+    PREFIX,
+    master.id,
+    gcmEncrypt(master.key, dek, Buffer.from(master.id)).toString('base64url'),
+    gcmEncrypt(dek, Buffer.from(plaintext, 'utf-8')).toString('base64url'),
+  ].join('.');
+}
+
+/**
+ * Decrypt a sealed value. Values written before encryption existed are
+ * returned unchanged so legacy rows keep working until they are resealed.
+ */
+export function openSecret(value: string): string {
+  if (!isSealed(value)) return value;
+  const [, keyId, wrapped, data] = value.split('.');
+  if (!keyId || !wrapped || !data) throw new SecretBoxError('Malformed sealed secret');
+  const master = getKeyring().all.get(keyId);
+  if (!master) {
+    throw new SecretBoxError(`Secret was sealed with master key ${keyId}, which is not configured`);
+  }
+  try {
+    const dek = gcmDecrypt(master.key, Buffer.from(wrapped, 'base64url'), Buffer.from(keyId));
+    return gcmDecrypt(dek, Buffer.from(data, 'base64url')).toString('utf-8');
+  } catch {
+    throw new SecretBoxError(`Secret failed authentication under master key ${keyId}`);
+  }
+}
+
+/** Decrypt with whatever key sealed it, then seal again under DP_MASTER_KEY. */
+export function resealSecret(value: string): string {
+  return sealSecret(openSecret(value));
+}
+
+// ---------------------------------------------------------------------------
+// AES-256-GCM primitives — output layout: iv | tag | ciphertext
+// ---------------------------------------------------------------------------
+
+function gcmEncrypt(key: Buffer, plaintext: Buffer, aad?: Buffer): Buffer {
+  const iv     = randomBytes(IV_LEN);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  if (aad) cipher.setAAD(aad);
+  const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ct]);
+}
+
+function gcmDecrypt(key: Buffer, blob: Buffer, aad?: Buffer): Buffer {
+  const iv       = blob.subarray(0, IV_LEN);
+  const tag      = blob.subarray(IV_LEN, IV_LEN + TAG_LEN);
+  const ct       = blob.subarray(IV_LEN + TAG_LEN);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  if (aad) decipher.setAAD(aad);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ct), decipher.final()]);
+}
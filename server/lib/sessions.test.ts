@@ -0,0 +1,56 @@
+import '../test/tempDb';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request } from 'express';
+import { getDb, initDb } from '../db/schema';
+import { createSession, rotateRefreshToken, type RefreshResult } from './sessions';
+
+initDb();
+
+const req = { ip: '127.0.0.1', headers: {} } as Request;
+
+function newUser(username: string): number {
+  return Number(getDb().prepare("INSERT INTO users (username, password_hash, role) VALUES (?, 'x', 'viewer')").run(username).lastInsertRowid);
+}
+
+const revokedAt = (sessionId: string) =>
+  getDb().prepare<string, { revoked_at: string | null }>('SELECT revoked_at FROM sessions WHERE id = ?').get(sessionId)?.revoked_at;
+
+function rotated(result: RefreshResult): string {
+  assert.ok(result.ok);
+  assert.ok(result.refreshToken);
+  return result.refreshToken;
+}
+
+test('a refresh token rotates on use', () => {
+  const { sessionId, refreshToken } = createSession(newUser('rotate'), req);
+  const next = rotated(rotateRefreshToken(refreshToken));
+  assert.notEqual(next, refreshToken);
+  rotated(rotateRefreshToken(next));   // the new one works in turn
+  assert.equal(revokedAt(sessionId), null);
+});
+
+test('the previous token within the grace window gets no new token but keeps the session', () => {
+  const { sessionId, refreshToken } = createSession(newUser('grace'), req);
+  rotated(rotateRefreshToken(refreshToken));
+  const again = rotateRefreshToken(refreshToken);
+  assert.deepEqual(again.ok && { sessionId: again.sessionId, refreshToken: again.refreshToken }, { sessionId, refreshToken: null });
+  assert.equal(revokedAt(sessionId), null);
+});
+
+test('reusing a rotated token after the grace window revokes the session', () => {
+  const { sessionId, refreshToken } = createSession(newUser('reuse'), req);
+  const current = rotated(rotateRefreshToken(refreshToken));
+  getDb().prepare("UPDATE sessions SET rotated_at = datetime('now', '-5 minutes') WHERE id = ?").run(sessionId);
+
+  assert.deepEqual(rotateRefreshToken(refreshToken), { ok: false, reason: 'reused' });
+  assert.notEqual(revokedAt(sessionId), null);
+  assert.deepEqual(rotateRefreshToken(current), { ok: false, reason: 'revoked' }, 'the thief and the owner are both signed out');
+});
+
+test('an expired or unknown token is refused', () => {
+  const { sessionId, refreshToken } = createSession(newUser('expired'), req);
+  getDb().prepare("UPDATE sessions SET expires_at = datetime('now', '-1 minute') WHERE id = ?").run(sessionId);
+  assert.deepEqual(rotateRefreshToken(refreshToken), { ok: false, reason: 'expired' });
+  assert.deepEqual(rotateRefreshToken('not-a-token'), { ok: false, reason: 'unknown' });
+});
@@ -0,0 +1,270 @@
+/**
+ * sessions — Server-side login sessions, access tokens and refresh tokens.
+ *
+ * Each login creates a row in `sessions`. The browser receives:
+ *   - a short-lived access JWT (ACCESS_TTL) carrying the session id as `sid`
+ *   - an opaque refresh token in an httpOnly cookie scoped to /api/auth
+ *
+ * Refresh tokens rotate on every use; only their SHA-256 is stored. Presenting
+ * the previous token again outside a short grace window (two tabs refreshing
+ * at once) is treated as theft and revokes the whole session. Revoking a
+ * session makes its access token fail in requireAuth immediately.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { getDb } from '../db/schema';
+import { jwtSecret } from './jwtSecret';
+
+export const ACCESS_TTL_SECONDS  = 15 * 60;
+export const SESSION_TTL_SECONDS = 8 * 60 * 60;   // absolute lifetime from login
+const REUSE_GRACE_SECONDS        = 30;
+
+export const REFRESH_COOKIE = 'dp_refresh';
+const REFRESH_COOKIE_PATH   = '/api/auth';
+
+export type Role = 'admin' | 'viewer';
+
+export interface AccessPayload {
+  sub:      number;
+  username: string;
+  role:     Role;
+  sid:      string;
+}
+
+interface SessionRow {
+  id:                string;
+  user_id:           number;
+  refresh_hash:      string;
+  prev_refresh_hash: string | null;
+  rotated_at:        string | null;
+  expires_at:        string;
+  revoked_at:        string | null;
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+/** SQLite datetime('now') format → epoch ms */
+export const sqliteTimeToMs = (value: string) => Date.parse(`${value.replace(' ', 'T')}Z`);
+
+// ---------------------------------------------------------------------------
+// Access tokens
+// ---------------------------------------------------------------------------
+
+export function signAccessToken(payload: AccessPayload): string {
+  return jwt.sign(payload, jwtSecret(), { expiresIn: ACCESS_TTL_SECONDS });
+}
+
+/** Throws on a bad signature or expiry (unless ignoreExpiration is set). */
+export function verifyAccessToken(token: string, ignoreExpiration = false): AccessPayload {
+  return jwt.verify(token, jwtSecret(), { ignoreExpiration }) as unknown as AccessPayload;
+}
+
+// ---------------------------------------------------------------------------
+// Second-factor challenge — issued after a correct password when the account
+// needs a TOTP code (or has to enroll first). Not accepted as an access token.
+// ---------------------------------------------------------------------------
+
+const MFA_TTL_SECONDS = 5 * 60;
+const MFA_AUDIENCE    = 'daemonpulse:mfa';
+
+export type MfaChallenge = 'verify' | 'enroll';
+
+export function signMfaToken(userId: number, challenge: MfaChallenge): string {
+  return jwt.sign({ sub: userId, challenge }, jwtSecret(), { expiresIn: MFA_TTL_SECONDS, audience: MFA_AUDIENCE });
+}
+
+/** Throws when the token is invalid, expired or not an MFA challenge. */
+export function verifyMfaToken(token: string): { sub: number; challenge: MfaChallenge } {
+  return jwt.verify(token, jwtSecret(), { audience: MFA_AUDIENCE }) as unknown as { sub: number; challenge: MfaChallenge };
+}
+
+// ---------------------------------------------------------------------------
+// Session lifecycle
+// ---------------------------------------------------------------------------
+
+export interface IssuedSession {
+  sessionId:    string;
+  refreshToken: string;
+  expiresAt:    string;   // ISO
+}
+
+export function createSession(userId: number, req: Request): IssuedSession {
+  const db           = getDb();
+  const sessionId    = randomUUID();
+  const refreshToken = randomBytes(32).toString('base64url');
+
+  // Opportunistic cleanup — expired/revoked rows are kept a week for the sessions panel
+  db.prepare(`
+    DELETE FROM sessions
+    WHERE expires_at < datetime('now', '-7 days') OR revoked_at < datetime('now', '-7 days')
+  `).run();
+
+  db.prepare(`
+    INSERT INTO sessions (id, user_id, refresh_hash, ip, user_agent, expires_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now', ?))
+  `).run(
+    sessionId, userId, sha256(refreshToken),
+    req.ip ?? null, (req.headers['user-agent'] ?? '').slice(0, 512) || null,
+    `+${SESSION_TTL_SECONDS} seconds`,
+  );
+
+  return { sessionId, refreshToken, expiresAt: sessionExpiry(sessionId) };
+}
+
+export type RefreshResult =
+  | { ok: true; userId: number; sessionId: string; refreshToken: string | null; expiresAt: string }
+  | { ok: false; reason: 'unknown' | 'expired' | 'revoked' | 'reused' };
+
+/**
+ * Exchange a refresh token for a new one. `refreshToken` is null in the
+ * grace-window case: the caller already holds the newer cookie.
+ */
+export function rotateRefreshToken(presented: string): RefreshResult {
+  const db   = getDb();
+  const hash = sha256(presented);
+  const row  = db.prepare<[string, string], SessionRow>(`
+    SELECT id, user_id, refresh_hash, prev_refresh_hash, rotated_at, expires_at, revoked_at
+    FROM sessions WHERE refresh_hash = ? OR prev_refresh_hash = ?
+  `).get(hash, hash);
+
+  if (!row)                                        return { ok: false, reason: 'unknown' };
+  if (row.revoked_at)                              return { ok: false, reason: 'revoked' };
+  if (sqliteTimeToMs(row.expires_at) <= Date.now()) return { ok: false, reason: 'expired' };
+
+  if (row.refresh_hash !== hash) {
+    const rotatedMs = row.rotated_at ? sqliteTimeToMs(row.rotated_at) : 0;
+    if (Date.now() - rotatedMs <= REUSE_GRACE_SECONDS * 1000) {
+      return { ok: true, userId: row.user_id, sessionId: row.id, refreshToken: null, expiresAt: sessionExpiry(row.id) };
+    }
+    revokeSession(row.id);
+    return { ok: false, reason: 'reused' };
+  }
+
+  const next = randomBytes(32).toString('base64url');
+  db.prepare(`
+    UPDATE sessions
+    SET prev_refresh_hash = refresh_hash, refresh_hash = ?, rotated_at = datetime('now'), last_seen_at = datetime('now')
+    WHERE id = ?
+  `).run(sha256(next), row.id);
+  return { ok: true, userId: row.user_id, sessionId: row.id, refreshToken: next, expiresAt: sessionExpiry(row.id) };
+}
+
+/** Look up the session behind a refresh token without rotating it (used by logout). */
+export function sessionIdForRefreshToken(presented: string): string | undefined {
+  const hash = sha256(presented);
+  return getDb()
+    .prepare<[string, string], { id: string }>('SELECT id FROM sessions WHERE refresh_hash = ? OR prev_refresh_hash = ?')
+    .get(hash, hash)?.id;
+}
+
+export function revokeSession(sessionId: string): boolean {
+  const info = getDb()
+    .prepare("UPDATE sessions SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL")
+    .run(sessionId);
+  return info.changes > 0;
+}
+
+/** Revoke every live session of a user, optionally keeping one (e.g. the caller's). */
+export function revokeUserSessions(userId: number, exceptSessionId?: string): number {
+  const info = getDb()
+    .prepare("UPDATE sessions SET revoked_at = datetime('now') WHERE user_id = ? AND revoked_at IS NULL AND id != ?")
+    .run(userId, exceptSessionId ?? '');
+  return info.changes;
+}
+
+/** The daemon target this session has selected, if any (see routes/proxy.ts). */
+export function getSessionTargetId(sessionId: string): string | undefined {
+  return getDb()
+    .prepare<string, { target_id: string | null }>('SELECT target_id FROM sessions WHERE id = ?')
+    .get(sessionId)?.target_id ?? undefined;
+}
+
+export function setSessionTargetId(sessionId: string, targetId: string): void {
+  getDb().prepare('UPDATE sessions SET target_id = ? WHERE id = ?').run(targetId, sessionId);
+}
+
+/** Bump last_seen_at, at most once a minute per session to keep writes cheap. */
+export function touchSession(sessionId: string): void {
+  getDb()
+    .prepare("UPDATE sessions SET last_seen_at = datetime('now') WHERE id = ? AND last_seen_at < datetime('now', '-60 seconds')")
+    .run(sessionId);
+}
+
+function sessionExpiry(sessionId: string): string {
+  const row = getDb()
+    .prepare<string, { expires_at: string }>('SELECT expires_at FROM sessions WHERE id = ?')
+    .get(sessionId);
+  return new Date(row ? sqliteTimeToMs(row.expires_at) : Date.now()).toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// Refresh cookie
+// ---------------------------------------------------------------------------
+
+export function setRefreshCookie(req: Request, res: Response, token: string): void {
+  res.cookie(REFRESH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure:   req.secure,
+    path:     REFRESH_COOKIE_PATH,
+    maxAge:   SESSION_TTL_SECONDS * 1000,
+  });
+}
+
+export function clearRefreshCookie(res: Response): void {
+  res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+}
+
+/** Minimal Cookie header parser — avoids pulling in cookie-parser for one value. */
+export function readRefreshCookie(req: Request): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    if (part.slice(0, eq).trim() === REFRESH_COOKIE) {
+      try { return decodeURIComponent(part.slice(eq + 1).trim()); } catch { return undefined; }
+    }
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Listing — for the admin "Active sessions" panel
+// ---------------------------------------------------------------------------
+
+export interface SessionSummary {
+  id:         string;
+  userId:     number;
+  username:   string;
+  ip:         string | null;
+  userAgent:  string | null;
+  issuedAt:   string;   // ISO
+  lastSeenAt: string;   // ISO
+  expiresAt:  string;   // ISO
+}
+
+/** Sessions that are neither revoked nor expired, most recently active first. */
+export function listActiveSessions(): SessionSummary[] {
+  const rows = getDb().prepare<[], {
+    id: string; user_id: number; username: string; ip: string | null; user_agent: string | null;
+    created_at: string; last_seen_at: string; expires_at: string;
+  }>(`
+    SELECT s.id, s.user_id, u.username, s.ip, s.user_agent, s.created_at, s.last_seen_at, s.expires_at
+    FROM sessions s JOIN users u ON u.id = s.user_id
+    WHERE s.revoked_at IS NULL AND s.expires_at > datetime('now')
+    ORDER BY s.last_seen_at DESC
+  `).all();
+
+  const iso = (v: string) => new Date(sqliteTimeToMs(v)).toISOString();
+  return rows.map(r => ({
+    id:         r.id,
+    userId:     r.user_id,
+    username:   r.username,
+    ip:         r.ip,
+    userAgent:  r.user_agent,
+    issuedAt:   iso(r.created_at),
+    lastSeenAt: iso(r.last_seen_at),
+    expiresAt:  iso(r.expires_at),
+  }));
+}
@@ -0,0 +1,38 @@
+/**
+ * setup — First-run state: the bridge has no accounts yet.
+ *
+ * While the users table is empty the bridge prints a one-time setup code to
+ * its console. POST /api/setup needs that code, so someone who merely
+ * reaches the port first cannot claim the admin account. The code lives
+ * only in memory and changes on every restart.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { getDb } from '../db/schema';
+import { base32Encode } from './totp';
+
+let setupCode: string | null = null;
+
+export function needsSetup(): boolean {
+  const row = getDb().prepare<[], { n: number }>('SELECT COUNT(*) AS n FROM users').get();
+  return (row?.n ?? 0) === 0;
+}
+
+/** Generate the code for this run (call at boot). Null once accounts exist. */
+export function issueSetupCode(): string | null {
+  if (!needsSetup()) return null;
+  const raw = base32Encode(randomBytes(5));   // 8 characters
+  setupCode = `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  return setupCode;
+}
+
+export function checkSetupCode(presented: string): boolean {
+  if (!setupCode) return false;
+  const a = Buffer.from(presented.trim().toUpperCase().replace(/[^A-Z2-7]/g, ''));
+  const b = Buffer.from(setupCode.replace('-', ''));
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function clearSetupCode(): void {
+  setupCode = null;
+}
@@ -0,0 +1,92 @@
+/**
+ * targetAcl — Per-target permissions (which user may see or drive which daemon).
+ *
+ * Rows in `target_acl` grant one user a level on one target:
+ *   view    — the target is listed, and read/inference routes work against it
+ *   operate — also load/eject, downloads, lifecycle and the remote daemon
+ *             actions (`operate` routes, see requireAccess)
+ *
+ * Resolution for a user and a target:
+ *   admin                      → operate on every target (ACL rows are ignored)
+ *   no ACL rows at all         → view on every target (the pre-ACL behaviour)
+ *   has ACL rows               → exactly what the rows grant; unlisted targets are hidden
+ *
+ * So restricting a user is opt-in: the first assignment switches them from
+ * "sees everything" to "sees only what is listed". Registry management
+ * (creating/editing targets, keys, SSH credentials) stays admin-only.
+ */
+
+import type { Request, Response } from 'express';
+import { getDb } from '../db/schema';
+import type { DaemonTarget } from './targets';
+import type { AccessPayload } from './sessions';
+
+export type TargetPermission = 'view' | 'operate';
+
+export interface TargetAclEntry {
+  targetId: string;
+  level:    TargetPermission;
+}
+
+export const isTargetPermission = (v: unknown): v is TargetPermission => v === 'view' || v === 'operate';
+
+type AclUser = Pick<AccessPayload, 'sub' | 'role'>;
+
+export function listTargetAcl(userId: number): TargetAclEntry[] {
+  return getDb()
+    .prepare<number, { target_id: string; level: TargetPermission }>(
+      'SELECT target_id, level FROM target_acl WHERE user_id = ? ORDER BY target_id',
+    )
+    .all(userId)
+    .map(r => ({ targetId: r.target_id, level: r.level }));
+}
+
+/** Replace a user's grants. An empty list lifts the restriction (view on all). */
+export function setTargetAcl(userId: number, entries: TargetAclEntry[]): void {
+  const db = getDb();
+  const insert = db.prepare('INSERT INTO target_acl (user_id, target_id, level) VALUES (?, ?, ?)');
+  db.transaction(() => {
+    db.prepare('DELETE FROM target_acl WHERE user_id = ?').run(userId);
+    for (const e of entries) insert.run(userId, e.targetId, e.level);
+  })();
+}
+
+/** Effective permission of `user` on `targetId`, or null when it is hidden from them. */
+export function targetPermission(user: AclUser, targetId: string): TargetPermission | null {
+  if (user.role === 'admin') return 'operate';
+  const rows = listTargetAcl(user.sub);
+  if (rows.length === 0) return 'view';
+  return rows.find(r => r.targetId === targetId)?.level ?? null;
+}
+
+/** The targets `user` may see, each with its effective permission. */
+export function visibleTargets(user: AclUser, targets: DaemonTarget[]): { target: DaemonTarget; access: TargetPermission }[] {
+  if (user.role === 'admin') return targets.map(target => ({ target, access: 'operate' as const }));
+  const rows = listTargetAcl(user.sub);
+  if (rows.length === 0) return targets.map(target => ({ target, access: 'view' as const }));
+  const levels = new Map(rows.map(r => [r.targetId, r.level]));
+  return targets.flatMap(target => {
+    const access = levels.get(target.id);
+    return access ? [{ target, access }] : [];
+  });
+}
+
+/**
+ * Which registered target a proxy or remote request acts on, or null when it
+ * names none (remote calls with an ad-hoc host, the target list, creating a
+ * target). Other proxy calls use the target the proxy router resolved for
+ * this request (res.locals.target).
+ */
+export function requestTargetId(req: Request, res: Response): string | null {
+  const params = req.params as Record<string, string | undefined>;
+  const body   = (req.body ?? {}) as Record<string, unknown>;
+  if (req.baseUrl.endsWith('/remote')) {
+    if (typeof params['nodeId'] === 'string') return params['nodeId'];
+    if (typeof body['nodeId'] === 'string')   return body['nodeId'];
+    return null;
+  }
+  if (req.path.startsWith('/config/targets')) return params['id'] ?? null;
+  // Only the key route honours body.targetId; every other proxy route talks to the resolved target
+  if (req.path === '/config/daemon-key' && typeof body['targetId'] === 'string') return body['targetId'];
+  return (res.locals['target'] as DaemonTarget | undefined)?.id ?? null;
+}
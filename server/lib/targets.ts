@@ -0,0 +1,344 @@
+/**
+ * Target Registry — persisted daemon targets (multi-host support).
+ *
+ * Each target is one LM Studio daemon the bridge can talk to.
+ * Targets are stored in the `nodes` table; their permission keys in `node_tokens`.
+ *
+ * The `default` target mirrors DAEMON_API_URL / DAEMON_LABEL / DAEMON_HOST from
+ * .env and is re-synced on every boot, so there is always somewhere to send
+ * requests. It cannot be deleted or edited through the API.
+ *
+ * Requests pick their target individually (header, query or the session's
+ * selection — see routes/proxy.ts). The *initial* target, used when a request
+ * names none and its session has not chosen one, lives in the `settings`
+ * table and survives restarts.
+ *
+ * Permission keys and SSH credentials are sealed with secretBox before they
+ * touch the database and opened only when a request needs them.
+ */
+
+import { randomUUID } from 'crypto';
+import { getDb, getSetting, setSetting } from '../db/schema';
+import { openSecret, sealSecret, SecretBoxError } from './secretBox';
+import type { SSHConnectOpts } from './sshClient';
+
+export interface DaemonTarget {
+  id:     string;
+  label:  string;
+  url:    string;   // full daemon base URL  e.g. http://192.168.1.70:1234
+  host?:  string;   // hostname/IP for lms --host flag (when different from URL host)
+  key?:   string;   // per-target LM Studio Permission Key (overrides DAEMON_API_KEY)
+  mode:   'local' | 'remote';
+}
+
+/** Shape accepted by create/update — validated by parseTargetInput(). */
+export interface TargetInput {
+  label: string;
+  url:   string;
+  host?: string;
+  /** undefined = leave unchanged (update) · '' = clear */
+  key?:  string;
+  mode:  'local' | 'remote';
+}
+
+/** Shape returned to the browser — the key itself never leaves the bridge. */
+export interface TargetSummary extends Omit<DaemonTarget, 'key'> {
+  keyHint?: string;
+}
+
+export const DEFAULT_TARGET_ID = 'default';
+
+const INITIAL_TARGET_SETTING = 'active_target_id';   // key kept from when selection was bridge-wide
+
+interface NodeRow {
+  node_id:  string;
+  label:    string;
+  url:      string;
+  host:     string | null;
+  mode:     'local' | 'remote';
+  api_key:  string | null;
+}
+
+const SELECT_NODES = `
+  SELECT n.node_id, n.label, n.url, n.host, n.mode, t.api_key
+  FROM nodes n LEFT JOIN node_tokens t ON t.node_id = n.node_id
+`;
+
+function rowToTarget(row: NodeRow): DaemonTarget {
+  const target: DaemonTarget = { id: row.node_id, label: row.label, url: row.url, mode: row.mode };
+  if (row.host) target.host = row.host;
+  // The default target falls back to the .env key when none has been stored
+  const key = row.api_key !== null
+    ? tryOpen(row.api_key, `permission key for target "${row.node_id}"`)
+    : row.node_id === DEFAULT_TARGET_ID ? process.env['DAEMON_API_KEY'] : undefined;
+  if (key) target.key = key;
+  return target;
+}
+
+/** Undecryptable secrets are treated as absent rather than failing the request. */
+function tryOpen(sealed: string, what: string): string | undefined {
+  try {
+    return openSecret(sealed);
+  } catch (err) {
+    if (!(err instanceof SecretBoxError)) throw err;
+    console.warn(`[targets] Cannot decrypt ${what}: ${err.message}`);
+    return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Boot
+// ---------------------------------------------------------------------------
+
+/** Upsert the env-driven default target. Call once after initDb(). */
+export function syncDefaultTarget(): void {
+  const url  = (process.env['DAEMON_API_URL'] ?? 'http://localhost:1234').replace(/\/+$/, '');
+  const addr = addressOf(url);
+  getDb().prepare(`
+    INSERT INTO nodes (node_id, label, ip_address, port, url, host, mode)
+    VALUES (@id, @label, @ip, @port, @url, @host, 'local')
+    ON CONFLICT(node_id) DO UPDATE SET
+      label = excluded.label, ip_address = excluded.ip_address, port = excluded.port,
+      url = excluded.url, host = excluded.host
+  `).run({
+    id:    DEFAULT_TARGET_ID,
+    label: process.env['DAEMON_LABEL'] ?? 'Local',
+    ip:    addr.ip,
+    port:  addr.port,
+    url,
+    host:  process.env['DAEMON_HOST'] ?? null,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+export function listTargets(): DaemonTarget[] {
+  const rows = getDb()
+    .prepare(`${SELECT_NODES} ORDER BY n.node_id = '${DEFAULT_TARGET_ID}' DESC, n.created_at, n.label`)
+    .all() as NodeRow[];
+  return rows.map(rowToTarget);
+}
+
+export function getTarget(id: string): DaemonTarget | undefined {
+  const row = getDb().prepare(`${SELECT_NODES} WHERE n.node_id = ?`).get(id) as NodeRow | undefined;
+  return row ? rowToTarget(row) : undefined;
+}
+
+export function getInitialTargetId(): string {
+  const id = getSetting(INITIAL_TARGET_SETTING);
+  return id && getTarget(id) ? id : DEFAULT_TARGET_ID;
+}
+
+export function getInitialTarget(): DaemonTarget {
+  const target = getTarget(getInitialTargetId()) ?? getTarget(DEFAULT_TARGET_ID);
+  if (!target) throw new Error('Default target missing. Call syncDefaultTarget() after initDb().');
+  return target;
+}
+
+/** Returns false when the id does not exist. */
+export function setInitialTargetId(id: string): boolean {
+  if (!getTarget(id)) return false;
+  setSetting(INITIAL_TARGET_SETTING, id);
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+export function createTarget(input: TargetInput): DaemonTarget {
+  const id   = randomUUID();
+  const addr = addressOf(input.url);
+  const db   = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO nodes (node_id, label, ip_address, port, url, host, mode)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(id, input.label, addr.ip, addr.port, input.url, input.host ?? null, input.mode);
+    if (input.key) writeKey(id, input.key);
+  })();
+  return getTarget(id)!;
+}
+
+/** Returns undefined when the id does not exist. */
+export function updateTarget(id: string, input: TargetInput): DaemonTarget | undefined {
+  if (!getTarget(id)) return undefined;
+  const addr = addressOf(input.url);
+  const db   = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE nodes SET label = ?, ip_address = ?, port = ?, url = ?, host = ?, mode = ?
+      WHERE node_id = ?
+    `).run(input.label, addr.ip, addr.port, input.url, input.host ?? null, input.mode, id);
+    if (input.key !== undefined) writeKey(id, input.key);
+  })();
+  return getTarget(id);
+}
+
+/** node_tokens rows cascade with the node. Returns false when nothing was deleted. */
+export function deleteTarget(id: string): boolean {
+  const { changes } = getDb().prepare('DELETE FROM nodes WHERE node_id = ?').run(id);
+  if (changes > 0 && getSetting(INITIAL_TARGET_SETTING) === id) {
+    setSetting(INITIAL_TARGET_SETTING, DEFAULT_TARGET_ID);
+  }
+  return changes > 0;
+}
+
+/**
+ * Store (or clear, with '') the permission key for a target.
+ * Throws SecretBoxError when DP_MASTER_KEY is not configured.
+ */
+export function writeKey(id: string, key: string): void {
+  const db = getDb();
+  if (!key) {
+    db.prepare('DELETE FROM node_tokens WHERE node_id = ?').run(id);
+    return;
+  }
+  db.prepare(`
+    INSERT INTO node_tokens (node_id, api_key) VALUES (?, ?)
+    ON CONFLICT(node_id) DO UPDATE SET api_key = excluded.api_key, created_at = datetime('now')
+  `).run(id, sealSecret(key));
+}
+
+// ---------------------------------------------------------------------------
+// SSH credentials — used by /api/remote/* when a request names a nodeId
+// ---------------------------------------------------------------------------
+
+export interface SshCredentialInput {
+  username:    string;
+  port?:       number;
+  privateKey?: string;
+  password?:   string;
+}
+
+interface SshCredentialRow {
+  username:    string;
+  port:        number;
+  private_key: string | null;
+  password:    string | null;
+}
+
+/** Throws SecretBoxError when DP_MASTER_KEY is not configured. */
+export function saveSshCredentials(id: string, creds: SshCredentialInput): void {
+  getDb().prepare(`
+    INSERT INTO node_ssh_credentials (node_id, username, port, private_key, password)
+    VALUES (@id, @username, @port, @privateKey, @password)
+    ON CONFLICT(node_id) DO UPDATE SET
+      username = excluded.username, port = excluded.port,
+      private_key = excluded.private_key, password = excluded.password,
+      updated_at = datetime('now')
+  `).run({
+    id,
+    username:   creds.username,
+    port:       creds.port ?? 22,
+    privateKey: creds.privateKey ? sealSecret(creds.privateKey) : null,
+    password:   creds.password   ? sealSecret(creds.password)   : null,
+  });
+}
+
+export function deleteSshCredentials(id: string): boolean {
+  return getDb().prepare('DELETE FROM node_ssh_credentials WHERE node_id = ?').run(id).changes > 0;
+}
+
+/** Metadata only — safe to return to the browser. */
+export function describeSshCredentials(id: string): { username: string; port: number; method: 'key' | 'password' } | undefined {
+  const row = getDb()
+    .prepare('SELECT username, port, private_key, password FROM node_ssh_credentials WHERE node_id = ?')
+    .get(id) as SshCredentialRow | undefined;
+  if (!row) return undefined;
+  return { username: row.username, port: row.port, method: row.private_key ? 'key' : 'password' };
+}
+
+/**
+ * Build ssh2 connection options from a target's saved credentials.
+ * The SSH host is the target's --host override, else the hostname of its URL.
+ */
+export function getSshConnectOpts(id: string): SSHConnectOpts | undefined {
+  const target = getTarget(id);
+  const row    = getDb()
+    .prepare('SELECT username, port, private_key, password FROM node_ssh_credentials WHERE node_id = ?')
+    .get(id) as SshCredentialRow | undefined;
+  if (!target || !row) return undefined;
+  const opts: SSHConnectOpts = {
+    host:     target.host ?? addressOf(target.url).ip,
+    port:     row.port,
+    username: row.username,
+  };
+  const privateKey = row.private_key ? tryOpen(row.private_key, `SSH key for target "${id}"`) : undefined;
+  const password   = row.password    ? tryOpen(row.password,    `SSH password for target "${id}"`) : undefined;
+  if (privateKey) opts.privateKey = privateKey;
+  if (password)   opts.password   = password;
+  return opts;
+}
+
+// ---------------------------------------------------------------------------
+// Validation / presentation
+// ---------------------------------------------------------------------------
+
+// Host is passed to `lms --host` on a shell command line — keep it to plain
+// hostname / IPv4 / IPv6 characters so nothing can be smuggled into exec().
+const HOST_RE = /^[A-Za-z0-9.\-:[\]]{1,253}$/;
+const KEY_RE  = /^\S{1,512}$/;
+
+export function parseTargetInput(body: unknown): { ok: true; value: TargetInput } | { ok: false; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const label = typeof b['label'] === 'string' ? b['label'].trim() : '';
+  if (!label)             return { ok: false, error: 'label is required' };
+  if (label.length > 64)  return { ok: false, error: 'label must be 64 characters or fewer' };
+
+  const rawUrl = typeof b['url'] === 'string' ? b['url'].trim() : '';
+  let parsed: URL;
+  try { parsed = new URL(rawUrl); } catch { return { ok: false, error: 'url must be a valid http(s) URL' }; }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { ok: false, error: 'url must use http or https' };
+  }
+  if (parsed.pathname !== '/' || parsed.search || parsed.hash || parsed.username) {
+    return { ok: false, error: 'url must be a bare base URL, e.g. http://192.168.1.70:1234' };
+  }
+  const url = `${parsed.protocol}//${parsed.host}`;
+
+  const mode = b['mode'] ?? 'local';
+  if (mode !== 'local' && mode !== 'remote') return { ok: false, error: "mode must be 'local' or 'remote'" };
+
+  const value: TargetInput = { label, url, mode };
+
+  if (b['host'] !== undefined && b['host'] !== null && b['host'] !== '') {
+    const host = typeof b['host'] === 'string' ? b['host'].trim() : '';
+    if (!HOST_RE.test(host)) return { ok: false, error: 'host must be a plain hostname or IP address' };
+    value.host = host;
+  }
+
+  if (b['key'] !== undefined && b['key'] !== null) {
+    const key = typeof b['key'] === 'string' ? b['key'].trim() : null;
+    if (key === null || (key !== '' && !KEY_RE.test(key))) {
+      return { ok: false, error: 'key must be a single token without whitespace' };
+    }
+    value.key = key;
+  }
+
+  return { ok: true, value };
+}
+
+/** Never echo a full key — presence hint only. */
+export function maskKey(key: string | undefined): string {
+  if (!key) return '';
+  return key.length > 4 ? '••••' + key.slice(-4) : '••••';
+}
+
+export function summarise(target: DaemonTarget): TargetSummary {
+  const { key, ...rest } = target;
+  return key ? { ...rest, keyHint: maskKey(key) } : rest;
+}
+
+function addressOf(url: string): { ip: string; port: number } {
+  try {
+    const u = new URL(url);
+    const port = u.port ? parseInt(u.port, 10) : u.protocol === 'https:' ? 443 : 80;
+    return { ip: u.hostname, port };
+  } catch {
+    return { ip: url, port: 1234 };
+  }
+}
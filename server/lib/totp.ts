@@ -0,0 +1,89 @@
+/**
+ * totp — RFC 6238 time-based one-time passwords (the codes authenticator
+ * apps show), plus the RFC 4648 base32 encoding their secrets use.
+ *
+ * Parameters are the ones every authenticator app defaults to:
+ * HMAC-SHA1, 6 digits, 30-second steps.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const STEP_SECONDS = 30;
+const DIGITS       = 6;
+const B32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += B32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += B32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const ch of clean) {
+    const idx = B32_ALPHABET.indexOf(ch);
+    if (idx < 0) throw new Error(`Invalid base32 character "${ch}"`);
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** 160-bit secret, base32-encoded (the length RFC 4226 recommends for SHA-1). */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/** Time step counter for an epoch-ms timestamp. */
+export function totpStep(atMs = Date.now()): number {
+  return Math.floor(atMs / 1000 / STEP_SECONDS);
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac   = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/**
+ * Check a code against the current step ± `window` steps (clock drift).
+ * Returns the matching step so callers can reject replays, or null.
+ */
+export function matchTotp(secret: string, code: string, window = 1, atMs = Date.now()): number | null {
+  const candidate = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(candidate)) return null;
+  const now = totpStep(atMs);
+  for (let step = now - window; step <= now + window; step++) {
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(candidate))) return step;
+  }
+  return null;
+}
+
+/** otpauth:// URI understood by Google Authenticator, 1Password, Authy, … */
+export function otpauthUri(issuer: string, account: string, secret: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,195 @@
+/**
+ * usage — Token accounting for inference through the bridge.
+ *
+ * meterUsage() is attached to every inference call (routes/proxy and the /v1
+ * gateway). Once the forward has finished and the response has closed —
+ * whichever is later, so a client that hangs up is still charged for what
+ * the daemon generated — it writes one `usage_events` row from the `usage`
+ * and `stats` blocks lib/daemonProxy captured (the JSON body, or the final
+ * chunk of a stream), attributed to the caller, the model and the target
+ * that finally served it (after balancing and failover). The /v1 gateway
+ * asks for that final chunk with stream_options.include_usage. A stream that
+ * ended without one (the client left, the daemon broke off) is charged an
+ * estimate, flagged `estimated`: a token per streamed chunk plus the prompt
+ * at ESTIMATE_CHARS_PER_TOKEN. Errors are not counted. Real usage also feeds
+ * the throughput and TTFT histograms of lib/metrics.
+ *
+ * The query half backs /api/usage: daily rollups (UTC days), top consumers
+ * and the CSV export.
+ */
+
+import type { Request, Response } from 'express';
+import { getDb } from '../db/schema';
+import { targetOf } from './daemonProxy';
+import { modelLabel, observeInference } from './metrics';
+import type { AuthPayload } from '../middleware/auth';
+
+export type UsageEndpoint = 'chat' | 'completions' | 'embeddings';
+
+const ESTIMATE_CHARS_PER_TOKEN = 4;
+
+const count = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? Math.round(v) : 0);
+const num   = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+
+/** How the caller authenticated — same vocabulary as the audit log. */
+export function viaOf(user: AuthPayload): string {
+  if (user.apiToken)   return `token:${user.apiToken.id}`;
+  if (user.gatewayKey) return `gateway:${user.gatewayKey.id}`;
+  return 'session';
+}
+
+/**
+ * Start metering an inference call. Call the returned function when the
+ * forward has finished (also when it never started); the row is written once
+ * that has happened and the response has closed.
+ */
+export function meterUsage(req: Request, res: Response, endpoint: UsageEndpoint): () => void {
+  let waiting = 2;
+  const settle = () => { if (--waiting === 0) recordUsage(req, res, endpoint); };
+  res.once('close', settle);
+  let finished = false;
+  return () => {
+    if (finished) return;
+    finished = true;
+    settle();
+  };
+}
+
+/** A stream that ended without a usage block: a token per chunk, the prompt by its length. */
+function estimateUsage(req: Request, chunks: number): Record<string, unknown> {
+  const body   = (req.body ?? {}) as Record<string, unknown>;
+  const prompt = JSON.stringify(body['messages'] ?? body['input'] ?? body['prompt'] ?? '');
+  return { prompt_tokens: Math.ceil(prompt.length / ESTIMATE_CHARS_PER_TOKEN), completion_tokens: chunks };
+}
+
+function recordUsage(req: Request, res: Response, endpoint: UsageEndpoint): void {
+  const chunks    = res.locals['streamChunks'];
+  const estimated = !res.locals['usage'] && typeof chunks === 'number';
+  const usage = (estimated ? estimateUsage(req, chunks) : res.locals['usage']) as Record<string, unknown> | undefined;
+  if (!usage) return;
+  const user   = res.locals['user'] as AuthPayload;
+  const stats  = (res.locals['stats'] ?? {}) as Record<string, unknown>;
+  const asked  = (req.body as Record<string, unknown> | undefined)?.['model'];
+  const model  = (res.locals['servedModel'] as string | undefined) ?? (typeof asked === 'string' ? asked : '');
+  const prompt     = count(usage['prompt_tokens']);
+  const completion = count(usage['completion_tokens']);
+  const ttft = num(stats['time_to_first_token']);
+  const gen  = num(stats['generation_time']);
+  if (!estimated) observeInference(modelLabel(res), targetOf(res).id, stats, prompt, completion);
+  try {
+    getDb().prepare(`
+      INSERT INTO usage_events (user_id, username, via, endpoint, model, target,
+        prompt_tokens, completion_tokens, total_tokens, tokens_per_second, ttft_ms, generation_ms, estimated)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      user.sub, user.username, viaOf(user), endpoint, model, targetOf(res).id,
+      prompt, completion, count(usage['total_tokens']) || prompt + completion,
+      num(stats['tokens_per_second']), ttft === null ? null : ttft * 1000, gen === null ? null : gen * 1000,
+      estimated ? 1 : 0,
+    );
+  } catch (err) {
+    console.error('[usage] Failed to record usage:', err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Querying — for GET /api/usage and its export
+// ---------------------------------------------------------------------------
+
+export interface UsageFilter {
+  userId?: number;   // non-admins are limited to their own rows
+  user?:   string;
+  model?:  string;
+  target?: string;
+  from?:   string;   // ISO
+  to?:     string;   // ISO
+}
+
+export interface UsageTotals {
+  requests:         number;
+  promptTokens:     number;
+  completionTokens: number;
+  totalTokens:      number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  day: string;   // yyyy-mm-dd (UTC)
+}
+
+export interface TopConsumer extends UsageTotals {
+  key: string;   // username, model or target id
+}
+
+export interface UsageExportRow extends DailyUsage {
+  username: string;
+  model:    string;
+  target:   string;
+}
+
+const TOTALS_SQL = `
+  COUNT(*) AS requests, COALESCE(SUM(prompt_tokens), 0) AS promptTokens,
+  COALESCE(SUM(completion_tokens), 0) AS completionTokens, COALESCE(SUM(total_tokens), 0) AS totalTokens
+`;
+
+/** ISO → SQLite datetime('now') format so string comparison works. */
+const toSqliteTime = (iso: string) => new Date(iso).toISOString().slice(0, 19).replace('T', ' ');
+
+function whereClause(f: UsageFilter): { sql: string; args: (string | number)[] } {
+  const parts: string[] = [];
+  const args: (string | number)[] = [];
+  if (f.userId !== undefined) { parts.push('user_id = ?');  args.push(f.userId); }
+  if (f.user)                 { parts.push('username = ?'); args.push(f.user); }
+  if (f.model)                { parts.push('model = ?');    args.push(f.model); }
+  if (f.target)               { parts.push('target = ?');   args.push(f.target); }
+  if (f.from && !Number.isNaN(Date.parse(f.from))) { parts.push('at >= ?'); args.push(toSqliteTime(f.from)); }
+  if (f.to   && !Number.isNaN(Date.parse(f.to)))   { parts.push('at <= ?'); args.push(toSqliteTime(f.to)); }
+  return { sql: parts.length ? `WHERE ${parts.join(' AND ')}` : '', args };
+}
+
+export function usageTotals(filter: UsageFilter): UsageTotals {
+  const { sql, args } = whereClause(filter);
+  return getDb().prepare<(string | number)[], UsageTotals>(`SELECT ${TOTALS_SQL} FROM usage_events ${sql}`).get(...args)!;
+}
+
+/** One row per UTC day with any usage, oldest first. */
+export function usageDaily(filter: UsageFilter): DailyUsage[] {
+  const { sql, args } = whereClause(filter);
+  return getDb()
+    .prepare<(string | number)[], DailyUsage>(`SELECT date(at) AS day, ${TOTALS_SQL} FROM usage_events ${sql} GROUP BY day ORDER BY day`)
+    .all(...args);
+}
+
+const TOP_COLUMN = { user: 'username', model: 'model', target: 'target' } as const;
+
+/** Heaviest users, models or targets by total tokens. */
+export function usageTop(filter: UsageFilter, by: keyof typeof TOP_COLUMN, limit = 10): TopConsumer[] {
+  const { sql, args } = whereClause(filter);
+  const column = TOP_COLUMN[by];
+  return getDb()
+    .prepare<(string | number)[], TopConsumer>(`
+      SELECT ${column} AS key, ${TOTALS_SQL} FROM usage_events ${sql}
+      GROUP BY ${column} ORDER BY totalTokens DESC, requests DESC LIMIT ?
+    `)
+    .all(...args, limit);
+}
+
+/** Daily rollup per user, model and target — the CSV export. */
+export function usageExportRows(filter: UsageFilter): UsageExportRow[] {
+  const { sql, args } = whereClause(filter);
+  return getDb()
+    .prepare<(string | number)[], UsageExportRow>(`
+      SELECT date(at) AS day, username, model, target, ${TOTALS_SQL} FROM usage_events ${sql}
+      GROUP BY day, username, model, target ORDER BY day, username, model, target
+    `)
+    .all(...args);
+}
+
+/** Distinct users, models and targets with usage — populates the view's filter dropdowns. */
+export function usageFacets(userId?: number): { users: string[]; models: string[]; targets: string[] } {
+  const { sql, args } = whereClause({ userId });
+  const distinct = (column: string) => getDb()
+    .prepare<(string | number)[], { v: string }>(`SELECT DISTINCT ${column} AS v FROM usage_events ${sql} ORDER BY v`)
+    .all(...args)
+    .map(r => r.v);
+  return { users: distinct('username'), models: distinct('model'), targets: distinct('target') };
+}
@@ -0,0 +1,210 @@
+/**
+ * webhooks — Outgoing HTTP notifications for alerts (lib/alerts).
+ *
+ * Every enabled webhook (table `alert_webhooks`) receives each notification
+ * as a JSON POST with an `X-DaemonPulse-Event` header. A delivery that fails
+ * — network error, timeout, 408, 429 or 5xx — is tried again after each of
+ * RETRY_DELAYS_MS and then given up; any other 4xx is final. The latest
+ * outcome is kept on the webhook (lastStatus, lastError, lastAt) so the
+ * settings panel can show a broken endpoint. Pending retries live in memory
+ * and do not survive a bridge restart.
+ *
+ * A webhook with a secret gets its body signed:
+ *   X-DaemonPulse-Signature: sha256=<hex HMAC-SHA256 of the raw body>
+ * Secrets are sealed with DP_MASTER_KEY and never returned to the browser.
+ */
+
+import { createHmac } from 'crypto';
+import { getDb } from '../db/schema';
+import { openSecret, sealSecret } from './secretBox';
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const RETRY_DELAYS_MS     = [10_000, 60_000, 5 * 60_000, 15 * 60_000];
+
+export type WebhookStatus = 'ok' | 'retrying' | 'failed';
+
+export interface Webhook {
+  id:         number;
+  name:       string;
+  url:        string;
+  hasSecret:  boolean;
+  enabled:    boolean;
+  lastStatus: WebhookStatus | null;
+  lastError:  string | null;
+  lastAt:     string | null;   // ISO
+}
+
+/** Shape accepted by create/update — validated by parseWebhookInput(). */
+export interface WebhookInput {
+  name:    string;
+  url:     string;
+  enabled: boolean;
+  /** undefined = leave unchanged (update) · '' = clear */
+  secret?: string;
+}
+
+interface WebhookRow {
+  id:          number;
+  name:        string;
+  url:         string;
+  secret:      string | null;
+  enabled:     number;
+  last_status: WebhookStatus | null;
+  last_error:  string | null;
+  last_at:     string | null;
+}
+
+const toIso = (t: string | null) => (t ? `${t.replace(' ', 'T')}Z` : null);
+
+function toWebhook(r: WebhookRow): Webhook {
+  return {
+    id:         r.id,
+    name:       r.name,
+    url:        r.url,
+    hasSecret:  r.secret !== null,
+    enabled:    r.enabled === 1,
+    lastStatus: r.last_status,
+    lastError:  r.last_error,
+    lastAt:     toIso(r.last_at),
+  };
+}
+
+function webhookRow(id: number): WebhookRow | undefined {
+  return getDb().prepare<number, WebhookRow>('SELECT * FROM alert_webhooks WHERE id = ?').get(id);
+}
+
+export function listWebhooks(): Webhook[] {
+  return getDb().prepare<[], WebhookRow>('SELECT * FROM alert_webhooks ORDER BY id').all().map(toWebhook);
+}
+
+/** Throws SecretBoxError when a secret is given and DP_MASTER_KEY is not configured. */
+export function createWebhook(input: WebhookInput): Webhook {
+  const { lastInsertRowid } = getDb()
+    .prepare('INSERT INTO alert_webhooks (name, url, secret, enabled) VALUES (?, ?, ?, ?)')
+    .run(input.name, input.url, input.secret ? sealSecret(input.secret) : null, input.enabled ? 1 : 0);
+  return toWebhook(webhookRow(Number(lastInsertRowid))!);
+}
+
+/** Throws SecretBoxError when a secret is given and DP_MASTER_KEY is not configured. */
+export function updateWebhook(id: number, input: WebhookInput): Webhook | undefined {
+  const db = getDb();
+  if (!webhookRow(id)) return undefined;
+  db.prepare('UPDATE alert_webhooks SET name = ?, url = ?, enabled = ? WHERE id = ?')
+    .run(input.name, input.url, input.enabled ? 1 : 0, id);
+  if (input.secret !== undefined) {
+    db.prepare('UPDATE alert_webhooks SET secret = ? WHERE id = ?').run(input.secret ? sealSecret(input.secret) : null, id);
+  }
+  return toWebhook(webhookRow(id)!);
+}
+
+export function deleteWebhook(id: number): boolean {
+  return getDb().prepare('DELETE FROM alert_webhooks WHERE id = ?').run(id).changes > 0;
+}
+
+export function parseWebhookInput(body: unknown): { ok: true; value: WebhookInput } | { ok: false; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const name = typeof b['name'] === 'string' ? b['name'].trim() : '';
+  if (!name)            return { ok: false, error: 'name is required' };
+  if (name.length > 64) return { ok: false, error: 'name must be 64 characters or fewer' };
+
+  const url = typeof b['url'] === 'string' ? b['url'].trim() : '';
+  let parsed: URL;
+  try { parsed = new URL(url); } catch { return { ok: false, error: 'url must be a valid http(s) URL' }; }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { ok: false, error: 'url must use http or https' };
+  }
+
+  if (b['enabled'] !== undefined && typeof b['enabled'] !== 'boolean') {
+    return { ok: false, error: 'enabled must be true or false' };
+  }
+  const value: WebhookInput = { name, url, enabled: b['enabled'] !== false };
+
+  if (b['secret'] !== undefined && b['secret'] !== null) {
+    if (typeof b['secret'] !== 'string' || b['secret'].length > 256) {
+      return { ok: false, error: 'secret must be a string of 256 characters or fewer' };
+    }
+    value.secret = b['secret'];
+  }
+  return { ok: true, value };
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+export interface DeliveryResult {
+  ok:        boolean;
+  status?:   number;
+  error?:    string;
+  retryable: boolean;
+}
+
+async function post(row: WebhookRow, event: string, body: string): Promise<DeliveryResult> {
+  const headers: Record<string, string> = {
+    'Content-Type':        'application/json',
+    'User-Agent':          'DaemonPulse-Alerts',
+    'X-DaemonPulse-Event': event,
+  };
+  if (row.secret) {
+    headers['X-DaemonPulse-Signature'] = `sha256=${createHmac('sha256', openSecret(row.secret)).update(body).digest('hex')}`;
+  }
+  try {
+    const r = await fetch(row.url, { method: 'POST', headers, body, signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS) });
+    await r.body?.cancel();
+    if (r.ok) return { ok: true, status: r.status, retryable: false };
+    return { ok: false, status: r.status, error: `HTTP ${r.status}`, retryable: r.status === 408 || r.status === 429 || r.status >= 500 };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err), retryable: true };
+  }
+}
+
+function recordOutcome(id: number, status: WebhookStatus, error: string | null): void {
+  getDb()
+    .prepare("UPDATE alert_webhooks SET last_status = ?, last_error = ?, last_at = datetime('now') WHERE id = ?")
+    .run(status, error, id);
+}
+
+async function deliver(id: number, event: string, body: string, attempt: number): Promise<void> {
+  const row = webhookRow(id);
+  if (!row?.enabled) return;   // deleted or disabled since it was queued
+  let result: DeliveryResult;
+  try {
+    result = await post(row, event, body);
+  } catch (err) {
+    result = { ok: false, error: String(err), retryable: false };   // secret could not be opened
+  }
+  if (result.ok) {
+    recordOutcome(id, 'ok', null);
+    return;
+  }
+  const delay = result.retryable ? RETRY_DELAYS_MS[attempt] : undefined;
+  recordOutcome(id, delay === undefined ? 'failed' : 'retrying', result.error ?? null);
+  if (delay === undefined) {
+    console.error(`[webhooks] Gave up delivering "${event}" to webhook ${id}: ${result.error ?? 'failed'}`);
+    return;
+  }
+  setTimeout(() => void deliver(id, event, body, attempt + 1), delay).unref();
+}
+
+/** POST the payload to every enabled webhook, retrying failures in the background. */
+export function notifyWebhooks(event: string, payload: object): void {
+  const body = JSON.stringify({ event, ...payload, sentAt: new Date().toISOString() });
+  const ids  = getDb().prepare<[], { id: number }>('SELECT id FROM alert_webhooks WHERE enabled = 1').all();
+  for (const { id } of ids) void deliver(id, event, body, 0);
+}
+
+/** One delivery of a test payload, without retries — for the settings panel. */
+export async function testWebhook(id: number): Promise<DeliveryResult | undefined> {
+  const row = webhookRow(id);
+  if (!row) return undefined;
+  const body = JSON.stringify({ event: 'test', message: 'DaemonPulse webhook test', sentAt: new Date().toISOString() });
+  let result: DeliveryResult;
+  try {
+    result = await post(row, 'test', body);
+  } catch (err) {
+    result = { ok: false, error: String(err), retryable: false };
+  }
+  recordOutcome(id, result.ok ? 'ok' : 'failed', result.error ?? null);
+  return result;
+}
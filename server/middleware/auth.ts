@@ -2,18 +2,30 @@
  * Auth Middleware — JWT verification for protected routes.
  *
  * Attaches the decoded payload to res.locals.user so downstream
- * route handlers can use it without re-decoding.
+ * route handlers can use it without re-decoding. The session and role are
+ * re-read from SQLite on every request, so logging out, revoking a session,
+ * the session reaching its absolute lifetime, or demoting/disabling/deleting
+ * an account takes effect immediately rather than when the access token
+ * expires.
+ *
+ * requireAuth also accepts personal API tokens (`dp_…`, lib/apiTokens); their
+ * scope further limits requireAccess. Account management (users, sessions,
+ * 2FA, tokens) sits behind requireSession / requireAdmin, which only accept
+ * an interactive session.
  */
 
 import { type Request, type Response, type NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env['JWT_SECRET'] ?? 'change_this_before_deploying';
+import { getDb } from '../db/schema';
+import { verifyAccessToken, touchSession, type AccessPayload } from '../lib/sessions';
+import { isApiToken, resolveApiToken, touchApiToken, type ApiTokenScope } from '../lib/apiTokens';
+import { auditRequest, auditDenied } from '../lib/audit';
+import { requestTargetId, targetPermission } from '../lib/targetAcl';
 
-interface AuthPayload {
-  sub: number;
-  username: string;
-  role: 'admin' | 'viewer';
+export interface AuthPayload extends AccessPayload {
+  /** Present when the caller authenticated with a personal API token. */
+  apiToken?: { id: number; scope: ApiTokenScope };
+  /** Present on /v1 gateway requests (routes/gateway), which authenticate with a gateway key. */
+  gatewayKey?: { id: number };
 }
 
 export function requireAuth(req: Request, res: Response, next: NextFunction): void {
@@ -24,21 +36,74 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
   }
 
   const token = header.slice(7);
+  if (isApiToken(token)) {
+    authenticateApiToken(token, res, next);
+    return;
+  }
+
   try {
-    const payload = jwt.verify(token, JWT_SECRET) as unknown as AuthPayload;
-    res.locals['user'] = payload;
-    next();
+    const payload = verifyAccessToken(token);
+    const row = getDb()
+      .prepare<[string, number], { username: string; role: AuthPayload['role']; disabled: number; revoked_at: string | null }>(`
+        SELECT u.username, u.role, u.disabled, s.revoked_at
+        FROM sessions s JOIN users u ON u.id = s.user_id
+        WHERE s.id = ? AND s.user_id = ? AND s.expires_at > datetime('now')
+      `)
+      .get(payload.sid ?? '', payload.sub);
+    if (!row || row.revoked_at) {
+      res.status(401).json({ error: 'Session ended' });
+      return;
+    }
+    if (row.disabled) {
+      res.status(401).json({ error: 'Account no longer active' });
+      return;
+    }
+    touchSession(payload.sid);
+    res.locals['user'] = { ...payload, username: row.username, role: row.role };
   } catch {
     res.status(401).json({ error: 'Invalid or expired token' });
+    return;
   }
+  next();
 }
 
-/**
- * Use this for admin-only routes.
- * Kept intentionally as security scaffolding for privileged remote orchestration routes.
- */
-export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+function authenticateApiToken(token: string, res: Response, next: NextFunction): void {
+  const found = resolveApiToken(token);
+  if (!found) {
+    res.status(401).json({ error: 'Invalid, expired or revoked API token' });
+    return;
+  }
+  if (found.disabled) {
+    res.status(401).json({ error: 'Account no longer active' });
+    return;
+  }
+  touchApiToken(found.tokenId);
+  const user: AuthPayload = {
+    sub:      found.userId,
+    username: found.username,
+    role:     found.role,
+    sid:      `token:${found.tokenId}`,   // never matches a session id
+    apiToken: { id: found.tokenId, scope: found.scope },
+  };
+  res.locals['user'] = user;
+  next();
+}
+
+/** Like requireAuth, but refuses API tokens — for account and credential management. */
+export function requireSession(req: Request, res: Response, next: NextFunction): void {
   requireAuth(req, res, () => {
+    const user = res.locals['user'] as AuthPayload | undefined;
+    if (user?.apiToken) {
+      res.status(403).json({ error: 'API tokens cannot manage accounts — sign in to the dashboard' });
+      return;
+    }
+    next();
+  });
+}
+
+/** Use this for admin-only routes. Requires an interactive session. */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  requireSession(req, res, () => {
     const user = res.locals['user'] as AuthPayload | undefined;
     if (user?.role !== 'admin') {
       res.status(403).json({ error: 'Admin role required' });
@@ -47,3 +112,78 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction): v
     next();
   });
 }
+
+/**
+ * What a route does to the daemon/bridge. Every proxy and remote route
+ * declares one via requireAccess() so the classification is visible at
+ * the route definition.
+ *   read      — observes state (lists, health, logs, surveys, estimates)
+ *   inference — runs prompts against already-available models
+ *   operate   — changes the state of one daemon target (load/eject, downloads,
+ *               lifecycle, remote daemon start/stop)
+ *   mutate    — changes the target registry, keys, SSH credentials or installs software
+ *
+ * read, inference and operate are also checked against the target the
+ * request acts on (lib/targetAcl): view is needed for read and inference,
+ * operate for operate. Admins hold operate everywhere; a viewer can operate
+ * only the targets an admin granted them.
+ */
+export type AccessLevel = 'read' | 'inference' | 'operate' | 'mutate';
+
+const ROLE_ACCESS: Record<AuthPayload['role'], ReadonlySet<AccessLevel>> = {
+  admin:  new Set(['read', 'inference', 'operate', 'mutate']),
+  viewer: new Set(['read', 'inference']),   // + operate where a target grant allows it
+};
+
+/** An API token gets the intersection of its scope and its owner's role. */
+const SCOPE_ACCESS: Record<ApiTokenScope, ReadonlySet<AccessLevel>> = {
+  read:      new Set(['read']),
+  inference: new Set(['inference']),
+  operator:  new Set(['read', 'inference', 'operate', 'mutate']),
+};
+
+const DENIED_MESSAGE: Record<AccessLevel, string> = {
+  read:      'Not permitted',
+  inference: 'Not permitted',
+  operate:   'Operate permission on this target required',
+  mutate:    'Admin role required',
+};
+
+/**
+ * Must run after requireAuth (the routers are mounted behind it).
+ * Every 'operate' and 'mutate' call — allowed or refused — is written to the audit log.
+ */
+export function requireAccess(level: AccessLevel) {
+  const audited = level === 'operate' || level === 'mutate';
+  // `req: unknown` keeps Express inferring typed route params from the path
+  return (req: unknown, res: Response, next: NextFunction): void => {
+    const user = res.locals['user'] as AuthPayload | undefined;
+    const deny = (error: string) => {
+      if (audited && user) auditDenied(req as Request, res, user, error);
+      res.status(403).json({ error, access: level });
+    };
+    if (!user) {
+      deny(DENIED_MESSAGE[level]);
+      return;
+    }
+    const targetId   = level === 'mutate' ? null : requestTargetId(req as Request, res);
+    const permission = targetId === null ? null : targetPermission(user, targetId);
+    const allowed    = level === 'operate'
+      ? ROLE_ACCESS[user.role].has('operate') || permission === 'operate'
+      : ROLE_ACCESS[user.role].has(level);
+    if (!allowed) {
+      deny(DENIED_MESSAGE[level]);
+      return;
+    }
+    if (targetId !== null && permission === null) {
+      deny(`No access to target "${targetId}"`);
+      return;
+    }
+    if (user.apiToken && !SCOPE_ACCESS[user.apiToken.scope].has(level)) {
+      deny(`API token scope "${user.apiToken.scope}" does not allow this`);
+      return;
+    }
+    if (audited) auditRequest(req as Request, res, user);
+    next();
+  };
+}
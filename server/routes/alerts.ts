@@ -0,0 +1,188 @@
+/**
+ * Alert Routes — /api/alerts (signed in)
+ *
+ *   GET    /api/alerts                      open alerts and recently resolved ones, on the targets you can see
+ *   POST   /api/alerts/:id/ack              acknowledge an open alert (operate on its target)
+ *
+ *   GET    /api/alerts/rules                alert rules                                  (mutate)
+ *   POST   /api/alerts/rules                add a rule                                   (mutate)
+ *   PUT    /api/alerts/rules/:id            replace a rule; its open alerts resolve      (mutate)
+ *   DELETE /api/alerts/rules/:id            remove a rule                                (mutate)
+ *   POST   /api/alerts/rules/:id/silence    { minutes } — mute its notifications, 0 lifts (mutate)
+ *
+ *   GET    /api/alerts/webhooks             notification endpoints, with their last delivery (mutate)
+ *   POST   /api/alerts/webhooks             add one                                      (mutate)
+ *   PUT    /api/alerts/webhooks/:id         change one (secret: omit = keep, '' = clear)  (mutate)
+ *   DELETE /api/alerts/webhooks/:id         remove one                                   (mutate)
+ *   POST   /api/alerts/webhooks/:id/test    send a test payload once                     (mutate)
+ *
+ * Rules are evaluated and notifications sent by lib/alerts and lib/webhooks.
+ */
+
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { requireAccess, type AuthPayload } from '../middleware/auth';
+import { listTargets, getTarget } from '../lib/targets';
+import { visibleTargets } from '../lib/targetAcl';
+import { SecretBoxError } from '../lib/secretBox';
+import {
+  acknowledgeAlert, activeAlerts, alertTargetId, createAlertRule, deleteAlertRule, listAlertRules, parseAlertRuleInput,
+  recentAlerts, silenceAlertRule, updateAlertRule, ALERT_KINDS,
+} from '../lib/alerts';
+import {
+  createWebhook, deleteWebhook, listWebhooks, parseWebhookInput, testWebhook, updateWebhook,
+} from '../lib/webhooks';
+
+export const alertsRouter = Router();
+
+const MAX_SILENCE_MINUTES = 7 * 24 * 60;
+
+const idParam = (req: Request) => Number(req.params['id']);
+
+function visibleTargetIds(res: Response): string[] {
+  return visibleTargets(res.locals['user'] as AuthPayload, listTargets()).map(v => v.target.id);
+}
+
+alertsRouter.get('/', requireAccess('read'), (_req, res) => {
+  const ids = visibleTargetIds(res);
+  res.json({ alerts: activeAlerts(ids), recent: recentAlerts(ids) });
+});
+
+/** Resolve the alert's target so requireAccess('operate') checks the grant on it. */
+function alertTarget(req: Request, res: Response, next: NextFunction): void {
+  const targetId = alertTargetId(idParam(req));
+  const target   = targetId === undefined ? undefined : getTarget(targetId);
+  if (!target) {
+    res.status(404).json({ error: 'Alert not found' });
+    return;
+  }
+  res.locals['target'] = target;
+  next();
+}
+
+alertsRouter.post('/:id/ack', alertTarget, requireAccess('operate'), (req, res) => {
+  const alert = acknowledgeAlert(idParam(req), (res.locals['user'] as AuthPayload).username);
+  if (!alert) {
+    res.status(409).json({ error: 'Alert is already resolved' });
+    return;
+  }
+  res.json({ ok: true, alert });
+});
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+alertsRouter.get('/rules', requireAccess('mutate'), (_req, res) => {
+  res.json({ rules: listAlertRules(), kinds: ALERT_KINDS });
+});
+
+alertsRouter.post('/rules', requireAccess('mutate'), (req, res) => {
+  const parsed = parseAlertRuleInput(req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  res.status(201).json({ ok: true, rule: createAlertRule(parsed.value) });
+});
+
+alertsRouter.put('/rules/:id', requireAccess('mutate'), (req, res) => {
+  const parsed = parseAlertRuleInput(req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const rule = updateAlertRule(idParam(req), parsed.value);
+  if (!rule) {
+    res.status(404).json({ error: 'Rule not found' });
+    return;
+  }
+  res.json({ ok: true, rule });
+});
+
+alertsRouter.delete('/rules/:id', requireAccess('mutate'), (req, res) => {
+  if (!deleteAlertRule(idParam(req))) {
+    res.status(404).json({ error: 'Rule not found' });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+alertsRouter.post('/rules/:id/silence', requireAccess('mutate'), (req, res) => {
+  const minutes = (req.body as { minutes?: unknown } | undefined)?.minutes;
+  if (!Number.isInteger(minutes) || (minutes as number) < 0 || (minutes as number) > MAX_SILENCE_MINUTES) {
+    res.status(400).json({ error: `minutes must be a whole number between 0 and ${MAX_SILENCE_MINUTES}` });
+    return;
+  }
+  const rule = silenceAlertRule(idParam(req), minutes as number);
+  if (!rule) {
+    res.status(404).json({ error: 'Rule not found' });
+    return;
+  }
+  res.json({ ok: true, rule });
+});
+
+// ---------------------------------------------------------------------------
+// Webhooks
+// ---------------------------------------------------------------------------
+
+alertsRouter.get('/webhooks', requireAccess('mutate'), (_req, res) => {
+  res.json({ webhooks: listWebhooks() });
+});
+
+alertsRouter.post('/webhooks', requireAccess('mutate'), (req, res) => {
+  const parsed = parseWebhookInput(req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  try {
+    res.status(201).json({ ok: true, webhook: createWebhook(parsed.value) });
+  } catch (err) {
+    if (err instanceof SecretBoxError) {
+      res.status(503).json({ error: 'Cannot store the webhook secret', detail: err.message });
+      return;
+    }
+    throw err;
+  }
+});
+
+alertsRouter.put('/webhooks/:id', requireAccess('mutate'), (req, res) => {
+  const parsed = parseWebhookInput(req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  try {
+    const webhook = updateWebhook(idParam(req), parsed.value);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json({ ok: true, webhook });
+  } catch (err) {
+    if (err instanceof SecretBoxError) {
+      res.status(503).json({ error: 'Cannot store the webhook secret', detail: err.message });
+      return;
+    }
+    throw err;
+  }
+});
+
+alertsRouter.delete('/webhooks/:id', requireAccess('mutate'), (req, res) => {
+  if (!deleteWebhook(idParam(req))) {
+    res.status(404).json({ error: 'Webhook not found' });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+alertsRouter.post('/webhooks/:id/test', requireAccess('mutate'), (req, res) => {
+  void (async () => {
+    const result = await testWebhook(idParam(req));
+    if (!result) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json({ ok: result.ok, status: result.status ?? null, error: result.error ?? null });
+  })();
+});
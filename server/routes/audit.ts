@@ -0,0 +1,70 @@
+/**
+ * Audit Routes — /api/audit (admin)
+ *
+ *   GET /api/audit          newest-first page of mutating calls + filter facets
+ *   GET /api/audit/export   the same filters as a CSV or JSON download (?format=csv|json)
+ *
+ * Filters (query string): user, target, outcome, q (substring of route,
+ * parameters or error), from / to (ISO timestamps), limit, offset.
+ */
+
+import { Router, type Request } from 'express';
+import { requireAdmin } from '../middleware/auth';
+import { auditFacets, queryAudit, type AuditFilter, type AuditOutcome, type AuditRecord } from '../lib/audit';
+
+export const auditRouter = Router();
+
+const PAGE_MAX   = 500;
+const EXPORT_MAX = 50_000;
+const OUTCOMES   = new Set<AuditOutcome>(['ok', 'error', 'denied', 'aborted']);
+
+function parseFilter(req: Request): AuditFilter {
+  const q = req.query as Record<string, unknown>;
+  const str = (k: string) => (typeof q[k] === 'string' && q[k] ? q[k] : undefined);
+  const outcome = str('outcome');
+  return {
+    user:    str('user'),
+    target:  str('target'),
+    outcome: outcome && OUTCOMES.has(outcome as AuditOutcome) ? outcome as AuditOutcome : undefined,
+    q:       str('q'),
+    from:    str('from'),
+    to:      str('to'),
+  };
+}
+
+function clampInt(v: unknown, fallback: number, max: number): number {
+  const n = Number(v);
+  return Number.isInteger(n) && n >= 0 ? Math.min(n, max) : fallback;
+}
+
+auditRouter.get('/', requireAdmin, (req, res) => {
+  const limit  = clampInt(req.query['limit'], 100, PAGE_MAX) || 100;
+  const offset = clampInt(req.query['offset'], 0, Number.MAX_SAFE_INTEGER);
+  res.json({ ...queryAudit(parseFilter(req), limit, offset), ...auditFacets() });
+});
+
+const CSV_COLUMNS: (keyof AuditRecord)[] = [
+  'id', 'at', 'username', 'via', 'target', 'method', 'route', 'status', 'outcome', 'durationMs', 'error', 'ip', 'params',
+];
+
+/** Quoted as needed; text a spreadsheet would run as a formula (=, +, -, @, tab, CR) gets a leading '. */
+function csvCell(v: unknown): string {
+  if (v === null || v === undefined) return '';
+  let s = typeof v === 'string' ? v : JSON.stringify(v);
+  if (typeof v !== 'number' && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+auditRouter.get('/export', requireAdmin, (req, res) => {
+  const format = req.query['format'] === 'json' ? 'json' : 'csv';
+  const { entries } = queryAudit(parseFilter(req), EXPORT_MAX);
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  res.setHeader('Content-Disposition', `attachment; filename="daemonpulse-audit-${stamp}.${format}"`);
+  if (format === 'json') {
+    res.type('application/json').send(JSON.stringify(entries, null, 2));
+    return;
+  }
+  const lines = [CSV_COLUMNS.join(','), ...entries.map(e => CSV_COLUMNS.map(c => csvCell(e[c])).join(','))];
+  res.type('text/csv').send(`${lines.join('\r\n')}\r\n`);
+});
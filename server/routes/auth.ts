@@ -1,22 +1,79 @@
 /**
- * Auth Routes — /api/auth/login, /api/auth/logout
+ * Auth Routes — /api/auth/login, /mfa/enroll, /mfa/verify, /refresh, /logout, /logout-all
+ *
+ * Login creates a server-side session (see lib/sessions). The response
+ * carries a short-lived access JWT; the rotating refresh token travels in
+ * an httpOnly cookie that only /api/auth can see.
+ *
+ * Login is throttled per username and per IP (lib/loginThrottle); a blocked
+ * attempt answers 429 with `retryAfter` seconds and a Retry-After header.
+ *
+ * Two-factor accounts (lib/mfa) get `{ mfa: 'verify', mfaToken }` instead of
+ * a session and finish at /mfa/verify with a TOTP or recovery code. Admins
+ * who must use 2FA but have not enrolled get `{ mfa: 'enroll', mfaToken }`
+ * and set it up through /mfa/enroll + /mfa/verify before any session exists.
  */
 
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { getDb } from '../db/schema';
+import { requireSession, type AuthPayload } from '../middleware/auth';
+import {
+  createSession, rotateRefreshToken, revokeSession, revokeUserSessions, sessionIdForRefreshToken,
+  signAccessToken, verifyAccessToken, setRefreshCookie, clearRefreshCookie, readRefreshCookie,
+  signMfaToken, verifyMfaToken, type MfaChallenge,
+} from '../lib/sessions';
+import {
+  checkLoginAllowed, recordLoginFailure, recordLoginSuccess, recordAuthEvent, type ThrottleVerdict,
+} from '../lib/loginThrottle';
+import { confirmEnrollment, is2faRequiredFor, recoveryCodesLeft, startEnrollment, verifySecondFactor } from '../lib/mfa';
+import { SecretBoxError } from '../lib/secretBox';
 
 export const authRouter = Router();
 
-const JWT_SECRET  = process.env['JWT_SECRET'] ?? 'change_this_before_deploying';
-const JWT_EXPIRES = '8h';
+// Compared against when the username does not exist, so both paths cost one bcrypt round
+const DUMMY_HASH = bcrypt.hashSync('daemonpulse-timing-equaliser', 12);
+
+function sendThrottled(res: Response, verdict: ThrottleVerdict): void {
+  res.setHeader('Retry-After', String(verdict.retryAfter));
+  res.status(429).json({
+    error: verdict.locked
+      ? 'Too many failed attempts — sign-in is temporarily locked'
+      : 'Too many failed attempts — slow down',
+    retryAfter: verdict.retryAfter,
+  });
+}
 
 interface UserRow {
   id: number;
   username: string;
   password_hash: string;
   role: 'admin' | 'viewer';
+  disabled: number;
+  totp_enabled: number;
+}
+
+/** Count a failed password or code and answer 401 (or 429 once locked). */
+function sendFailure(res: Response, username: string, ip: string, error: string): void {
+  const after = recordLoginFailure(username, ip);
+  if (after.locked) {
+    sendThrottled(res, after);
+    return;
+  }
+  if (after.retryAfter > 0) res.setHeader('Retry-After', String(after.retryAfter));
+  res.status(401).json({ error, ...(after.retryAfter > 0 && { retryAfter: after.retryAfter }) });
+}
+
+/** Create the session, set the refresh cookie and send the access token. */
+function issueSession(req: Request, res: Response, user: UserRow, extra: Record<string, unknown> = {}): void {
+  recordLoginSuccess(user.username, req.ip ?? 'unknown');
+  const session = createSession(user.id, req);
+  setRefreshCookie(req, res, session.refreshToken);
+  res.json({
+    token: signAccessToken({ sub: user.id, username: user.username, role: user.role, sid: session.sessionId }),
+    sessionExpiresAt: session.expiresAt,
+    ...extra,
+  });
 }
 
 authRouter.post('/login', async (req, res) => {
@@ -27,30 +84,196 @@ authRouter.post('/login', async (req, res) => {
     return;
   }
 
+  const ip      = req.ip ?? 'unknown';
+  const verdict = checkLoginAllowed(username, ip);
+  if (!verdict.allowed) {
+    recordAuthEvent('login_blocked', username, ip, `retry in ${verdict.retryAfter}s`);
+    sendThrottled(res, verdict);
+    return;
+  }
+
   const db   = getDb();
   const user = db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
 
-  if (!user) {
-    res.status(401).json({ error: 'Invalid credentials' });
+  const valid = await bcrypt.compare(password, user?.password_hash ?? DUMMY_HASH);
+  if (!user || !valid) {
+    sendFailure(res, username, ip, 'Invalid credentials');
     return;
   }
 
-  const valid = await bcrypt.compare(password, user.password_hash);
-  if (!valid) {
-    res.status(401).json({ error: 'Invalid credentials' });
+  if (user.disabled) {
+    res.status(403).json({ error: 'Account is disabled — contact an administrator' });
     return;
   }
 
-  const token = jwt.sign(
-    { sub: user.id, username: user.username, role: user.role },
-    JWT_SECRET,
-    { expiresIn: JWT_EXPIRES },
-  );
+  // Throttle counters stay in place until the second factor succeeds too
+  const challenge: MfaChallenge | null =
+    user.totp_enabled ? 'verify' : is2faRequiredFor(user.role) ? 'enroll' : null;
+  if (challenge) {
+    res.json({ mfa: challenge, mfaToken: signMfaToken(user.id, challenge) });
+    return;
+  }
 
-  res.json({ token });
+  issueSession(req, res, user);
 });
 
-authRouter.post('/logout', (_req, res) => {
-  // JWT is stateless — client deletes the token. Nothing to do server-side.
+// ---------------------------------------------------------------------------
+// Second factor
+// ---------------------------------------------------------------------------
+
+/** Resolve the user behind an MFA challenge token, or answer 401 and return undefined. */
+function challengeUser(req: Request, res: Response): { user: UserRow; challenge: MfaChallenge } | undefined {
+  const { mfaToken } = req.body as { mfaToken?: string };
+  let claims: ReturnType<typeof verifyMfaToken>;
+  try {
+    claims = verifyMfaToken(mfaToken ?? '');
+  } catch {
+    res.status(401).json({ error: 'Sign-in step expired — enter your password again' });
+    return undefined;
+  }
+  const user = getDb().prepare<number, UserRow>('SELECT * FROM users WHERE id = ?').get(claims.sub);
+  if (!user || user.disabled) {
+    res.status(401).json({ error: 'Account no longer active' });
+    return undefined;
+  }
+  return { user, challenge: claims.challenge };
+}
+
+/** Forced enrollment: generate the secret + QR code for an admin without 2FA. */
+authRouter.post('/mfa/enroll', (req, res) => {
+  void (async () => {
+    const found = challengeUser(req, res);
+    if (!found) return;
+    if (found.challenge !== 'enroll') {
+      res.status(400).json({ error: 'Two-factor authentication is already set up for this account' });
+      return;
+    }
+    try {
+      res.json(await startEnrollment(found.user.id, found.user.username));
+    } catch (err) {
+      if (err instanceof SecretBoxError) {
+        res.status(503).json({ error: 'Cannot store a 2FA secret', detail: err.message });
+        return;
+      }
+      // Rethrowing here would be an unhandled rejection — nothing awaits this handler
+      console.error('[auth] 2FA enrollment failed:', err);
+      res.status(500).json({ error: 'Cannot start 2FA enrollment', detail: String(err) });
+    }
+  })();
+});
+
+/**
+ * Finish sign-in with a TOTP code (or a recovery code). For an enroll
+ * challenge the code confirms the new secret and the response also carries
+ * the freshly generated recovery codes.
+ */
+authRouter.post('/mfa/verify', (req, res) => {
+  const found = challengeUser(req, res);
+  if (!found) return;
+  const { user, challenge } = found;
+  const ip = req.ip ?? 'unknown';
+
+  const verdict = checkLoginAllowed(user.username, ip);
+  if (!verdict.allowed) {
+    recordAuthEvent('login_blocked', user.username, ip, `retry in ${verdict.retryAfter}s`);
+    sendThrottled(res, verdict);
+    return;
+  }
+
+  const { code } = req.body as { code?: unknown };
+  if (typeof code !== 'string' || !code) {
+    res.status(400).json({ error: 'code is required' });
+    return;
+  }
+
+  try {
+    if (challenge === 'enroll') {
+      const recoveryCodes = confirmEnrollment(user.id, code);
+      if (!recoveryCodes) {
+        sendFailure(res, user.username, ip, 'Invalid code');
+        return;
+      }
+      issueSession(req, res, user, { recoveryCodes });
+      return;
+    }
+
+    const factor = verifySecondFactor(user.id, code);
+    if (!factor) {
+      sendFailure(res, user.username, ip, 'Invalid code');
+      return;
+    }
+    issueSession(req, res, user, factor === 'recovery' ? { recoveryCodesLeft: recoveryCodesLeft(user.id) } : {});
+  } catch (err) {
+    if (err instanceof SecretBoxError) {
+      res.status(503).json({ error: 'Cannot read the 2FA secret', detail: err.message });
+      return;
+    }
+    throw err;
+  }
+});
+
+/** Exchange the refresh cookie for a fresh access token (and a rotated cookie). */
+authRouter.post('/refresh', (req, res) => {
+  const presented = readRefreshCookie(req);
+  if (!presented) {
+    res.status(401).json({ error: 'No session' });
+    return;
+  }
+
+  const result = rotateRefreshToken(presented);
+  if (!result.ok) {
+    clearRefreshCookie(res);
+    res.status(401).json({ error: result.reason === 'reused' ? 'Session revoked — refresh token reuse detected' : 'Session ended' });
+    return;
+  }
+
+  const user = getDb()
+    .prepare<number, Omit<UserRow, 'password_hash'>>('SELECT id, username, role, disabled FROM users WHERE id = ?')
+    .get(result.userId);
+  if (!user || user.disabled) {
+    revokeSession(result.sessionId);
+    clearRefreshCookie(res);
+    res.status(401).json({ error: 'Account no longer active' });
+    return;
+  }
+
+  if (result.refreshToken) setRefreshCookie(req, res, result.refreshToken);
+  res.json({
+    token: signAccessToken({ sub: user.id, username: user.username, role: user.role, sid: result.sessionId }),
+    sessionExpiresAt: result.expiresAt,
+  });
+});
+
+/**
+ * Revoke the current session. Works with an expired access token (the
+ * signature is still checked) or with just the refresh cookie.
+ */
+authRouter.post('/logout', (req, res) => {
+  const sid = sessionFromBearer(req) ?? sessionFromCookie(req);
+  if (sid) revokeSession(sid);
+  clearRefreshCookie(res);
   res.json({ ok: true });
 });
+
+/** Sign out everywhere — revokes every session belonging to the caller. */
+authRouter.post('/logout-all', requireSession, (_req, res: Response) => {
+  const user    = res.locals['user'] as AuthPayload;
+  const revoked = revokeUserSessions(user.sub);
+  clearRefreshCookie(res);
+  res.json({ ok: true, revoked });
+});
+
+function sessionFromBearer(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return undefined;
+  try {
+    return verifyAccessToken(header.slice(7), true).sid;
+  } catch {
+    return undefined;
+  }
+}
+
+function sessionFromCookie(req: Request): string | undefined {
+  const presented = readRefreshCookie(req);
+  return presented ? sessionIdForRefreshToken(presented) : undefined;
+}
@@ -0,0 +1,183 @@
+/**
+ * OpenAI-compatible Gateway — /v1 (gateway key)
+ *
+ *   GET  /v1/models              every model on the targets the key may use
+ *   GET  /v1/models/:id          one of them
+ *   POST /v1/chat/completions    { model, messages, stream? }
+ *   POST /v1/completions         { model, prompt, stream? }
+ *   POST /v1/embeddings          { model, input }
+ *
+ * Lets downstream apps point any OpenAI client at the bridge instead of at
+ * each llmster. Requests carry `Authorization: Bearer dpg_…` (lib/gatewayKeys);
+ * dashboard JWTs and personal API tokens are not accepted here.
+ *
+ * Each inference call goes to a target that has `model` (lib/modelCatalog)
+ * among the targets the key's owner may see (lib/targetAcl): balanced over
+ * the targets with it loaded (lib/loadBalancer), otherwise one that has it on
+ * disk and loads it just in time. The choice is echoed in the
+ * X-DaemonPulse-Target and X-DaemonPulse-Route response headers. Failover
+ * policies (lib/failover) and the admission queue (lib/admissionQueue) apply
+ * here as on /api/proxy; gateway traffic always queues as batch. Token
+ * usage is recorded against the key's owner (lib/usage), whose budgets and
+ * model limits apply (lib/quotas).
+ * Errors use the OpenAI shape `{ error: { message, type, code } }`.
+ */
+
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { isGatewayKey, resolveGatewayKey, touchGatewayKey } from '../lib/gatewayKeys';
+import { catalog, targetsForModel } from '../lib/modelCatalog';
+import { chooseLoadedTarget, describeDecision, trackRequest, ROUTE_HEADER } from '../lib/loadBalancer';
+import { forwardStream, forwardTo, TARGET_HEADER } from '../lib/daemonProxy';
+import { forwardWithFailover } from '../lib/failover';
+import { priorityOf, queued } from '../lib/admissionQueue';
+import { meterUsage, type UsageEndpoint } from '../lib/usage';
+import { checkQuota, openAiTokenLimits } from '../lib/quotas';
+import { requestMetrics } from '../lib/metrics';
+import { listTargets, type DaemonTarget } from '../lib/targets';
+import { visibleTargets } from '../lib/targetAcl';
+import type { AuthPayload } from '../middleware/auth';
+
+export const gatewayRouter = Router();
+
+type ErrorType = 'invalid_request_error' | 'authentication_error' | 'permission_error' | 'insufficient_quota' | 'api_error';
+
+function openAiError(res: Response, status: number, type: ErrorType, code: string, message: string): void {
+  res.status(status).json({ error: { message, type, code } });
+}
+
+function requireGatewayKey(req: Request, res: Response, next: NextFunction): void {
+  const bearer = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1] ?? '';
+  if (!isGatewayKey(bearer)) {
+    openAiError(res, 401, 'authentication_error', 'invalid_api_key',
+      'Missing gateway key — send Authorization: Bearer dpg_…');
+    return;
+  }
+  const found = resolveGatewayKey(bearer);
+  if (!found) {
+    openAiError(res, 401, 'authentication_error', 'invalid_api_key', 'Invalid, expired or revoked gateway key');
+    return;
+  }
+  if (found.disabled) {
+    openAiError(res, 401, 'authentication_error', 'account_disabled', 'The account owning this key is no longer active');
+    return;
+  }
+  touchGatewayKey(found.keyId);
+  const user: AuthPayload = {
+    sub:        found.userId,
+    username:   found.username,
+    role:       found.role,
+    sid:        `gateway:${found.keyId}`,   // never matches a session id
+    gatewayKey: { id: found.keyId },
+  };
+  res.locals['user'] = user;
+  next();
+}
+
+gatewayRouter.use(requireGatewayKey);
+gatewayRouter.use(requestMetrics);   // request counts and durations for /metrics
+
+/** Registered targets the key's owner may use. */
+function usableTargets(res: Response) {
+  return visibleTargets(res.locals['user'] as AuthPayload, listTargets()).map(v => v.target);
+}
+
+// ---------------------------------------------------------------------------
+// Models
+// ---------------------------------------------------------------------------
+
+interface ModelObject {
+  id:       string;
+  object:   'model';
+  created:  number;
+  owned_by: string;
+}
+
+async function listModelObjects(res: Response): Promise<ModelObject[]> {
+  const seen = new Map<string, ModelObject>();
+  for (const entry of await catalog(usableTargets(res))) {
+    for (const m of entry.models) {
+      if (!seen.has(m.id)) seen.set(m.id, { id: m.id, object: 'model', created: 0, owned_by: m.publisher ?? 'daemonpulse' });
+    }
+  }
+  return [...seen.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+gatewayRouter.get('/models', (_req, res) => {
+  void (async () => {
+    res.json({ object: 'list', data: await listModelObjects(res) });
+  })();
+});
+
+gatewayRouter.get('/models/*id', (req, res) => {
+  void (async () => {
+    // Model ids contain slashes (publisher/name), hence the wildcard
+    const id    = (req.params['id'] as string[]).join('/');
+    const model = (await listModelObjects(res)).find(m => m.id === id);
+    if (!model) {
+      openAiError(res, 404, 'invalid_request_error', 'model_not_found', `The model "${id}" does not exist on any available target`);
+      return;
+    }
+    res.json(model);
+  })();
+});
+
+// ---------------------------------------------------------------------------
+// Inference — routed by model to the daemons' own OpenAI-compatible /v1 API
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the target for body.model and store it in res.locals.target. Returns
+ * the model and the targets it may use, or null when answered with an error.
+ */
+async function routeByModel(req: Request, res: Response): Promise<{ model: string; usable: DaemonTarget[] } | null> {
+  const model = (req.body as Record<string, unknown> | undefined)?.['model'];
+  if (typeof model !== 'string' || !model) {
+    openAiError(res, 400, 'invalid_request_error', 'missing_model', 'model is required');
+    return null;
+  }
+  const usable   = usableTargets(res);
+  const decision = await chooseLoadedTarget(model, usable);
+  const target   = decision?.target ?? (await targetsForModel(model, usable))[0];
+  if (!target) {
+    openAiError(res, 404, 'invalid_request_error', 'model_not_found', `The model "${model}" does not exist on any available target`);
+    return null;
+  }
+  res.locals['target'] = target;
+  res.setHeader(TARGET_HEADER, target.id);
+  res.setHeader(ROUTE_HEADER, decision ? describeDecision(decision) : 'reason=not-loaded');
+  trackRequest(res, target, model);
+  return { model, usable };
+}
+
+function inference(endpoint: UsageEndpoint, daemonPath: string, streams: boolean) {
+  return (req: Request, res: Response) => {
+    const metered = meterUsage(req, res, endpoint);
+    void (async () => {
+      const body  = req.body as Record<string, unknown> | undefined;
+      const asked = body?.['model'];
+      const quota = checkQuota(res.locals['user'] as AuthPayload, typeof asked === 'string' && asked ? asked : null, openAiTokenLimits(endpoint), body);
+      res.set(quota.headers);
+      if (!quota.ok) {
+        openAiError(res, quota.status, quota.status === 429 ? 'insufficient_quota' : 'permission_error', quota.code, quota.message);
+        return;
+      }
+      const routed = await routeByModel(req, res);
+      if (!routed) return;
+      const stream = streams && (req.body as Record<string, unknown>)['stream'] === true;
+      if (stream) {
+        // Budgets need the usage chunk at the end of the stream; clients that did not ask for it still get it
+        const b = req.body as Record<string, unknown>;
+        const options = b['stream_options'];
+        b['stream_options'] = { ...(options && typeof options === 'object' ? options : {}), include_usage: true };
+      }
+      const forward = queued(
+        (rq, rs, opts) => stream ? forwardStream(daemonPath, rq, rs, opts) : forwardTo(daemonPath, rq, rs, opts),
+        routed.model, priorityOf(req, res.locals['user'] as AuthPayload));
+      await forwardWithFailover(req, res, forward, { ...routed, pinned: false });
+    })().finally(metered);
+  };
+}
+
+gatewayRouter.post('/chat/completions', inference('chat',        '/v1/chat/completions', true));
+gatewayRouter.post('/completions',      inference('completions', '/v1/completions',      true));
+gatewayRouter.post('/embeddings',       inference('embeddings',  '/v1/embeddings',       false));
@@ -0,0 +1,54 @@
+/**
+ * Gateway Key Routes — /api/gateway/keys
+ *
+ *   GET    /api/gateway/keys        your live gateway keys; admins see everyone's   (signed-in session)
+ *   POST   /api/gateway/keys        create { name, expiresInDays? }                 (signed-in session)
+ *   DELETE /api/gateway/keys/:id    revoke your key, or any key as admin            (signed-in session)
+ *
+ * The plaintext key is only in the POST response. The keys themselves are
+ * used against /v1 (routes/gateway), never against these routes.
+ */
+
+import { Router } from 'express';
+import { requireSession, type AuthPayload } from '../middleware/auth';
+import { createGatewayKey, gatewayKeyOwner, listGatewayKeys, revokeGatewayKey } from '../lib/gatewayKeys';
+
+export const gatewayKeysRouter = Router();
+
+const MAX_NAME_LEN    = 64;
+const MAX_EXPIRY_DAYS = 3650;
+
+gatewayKeysRouter.get('/', requireSession, (_req, res) => {
+  const me = res.locals['user'] as AuthPayload;
+  res.json({ keys: listGatewayKeys(me.role === 'admin' ? undefined : me.sub) });
+});
+
+gatewayKeysRouter.post('/', requireSession, (req, res) => {
+  const me = res.locals['user'] as AuthPayload;
+  const { name, expiresInDays = null } = req.body as { name?: unknown; expiresInDays?: unknown };
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LEN) {
+    res.status(400).json({ error: `name is required (max ${MAX_NAME_LEN} characters)` });
+    return;
+  }
+  if (expiresInDays !== null &&
+      (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+    res.status(400).json({ error: `expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}, or null` });
+    return;
+  }
+
+  const { key, summary } = createGatewayKey(me.sub, name.trim(), expiresInDays);
+  res.status(201).json({ ok: true, key, gatewayKey: summary });
+});
+
+gatewayKeysRouter.delete('/:id', requireSession, (req, res) => {
+  const me    = res.locals['user'] as AuthPayload;
+  const id    = Number(req.params['id']);
+  const owner = gatewayKeyOwner(id);
+  if (owner === undefined || (owner !== me.sub && me.role !== 'admin')) {
+    res.status(404).json({ error: 'Gateway key not found' });
+    return;
+  }
+  revokeGatewayKey(id);
+  res.json({ ok: true });
+});
@@ -0,0 +1,25 @@
+/**
+ * Metrics Route — /metrics (admin)
+ *
+ *   GET /metrics   Prometheus text format (lib/metrics)
+ *
+ * Meant for a Prometheus scraper: authenticate with an admin's personal API
+ * token (read scope) as the bearer token. Viewers are refused, since the
+ * output covers every target regardless of per-target access.
+ */
+
+import { Router } from 'express';
+import { requireAccess, type AuthPayload } from '../middleware/auth';
+import { renderMetrics } from '../lib/metrics';
+
+export const metricsRouter = Router();
+
+metricsRouter.get('/', requireAccess('read'), (_req, res) => {
+  if ((res.locals['user'] as AuthPayload).role !== 'admin') {
+    res.status(403).json({ error: 'Admin role required' });
+    return;
+  }
+  void (async () => {
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(await renderMetrics());
+  })();
+});
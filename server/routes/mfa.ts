@@ -0,0 +1,150 @@
+/**
+ * Two-Factor Routes — /api/mfa
+ *
+ *   GET  /api/mfa                      your 2FA status + whether policy requires it   (any signed-in user)
+ *                                      (SSO accounts: `sso: true`, the IdP handles 2FA)
+ *   POST /api/mfa/setup                start enrollment: secret + QR code (password)  (any signed-in user)
+ *   POST /api/mfa/enable               confirm with a code → recovery codes           (any signed-in user)
+ *   POST /api/mfa/disable              turn 2FA off (password)                        (any signed-in user)
+ *   POST /api/mfa/recovery-codes       replace your recovery codes (password)         (any signed-in user)
+ *   GET  /api/mfa/policy               { requireForAdmins }                            (any signed-in user)
+ *   PUT  /api/mfa/policy               change the admin 2FA policy                     (admin)
+ *   POST /api/mfa/users/:id/reset      clear someone's 2FA (lost device)               (admin)
+ *
+ * Sensitive self-service actions re-check the account password so an
+ * unattended browser cannot swap or remove the second factor.
+ */
+
+import { Router, type Response } from 'express';
+import bcrypt from 'bcrypt';
+import { getDb } from '../db/schema';
+import { requireSession, requireAdmin, type AuthPayload } from '../middleware/auth';
+import {
+  confirmEnrollment, disable2fa, is2faEnabled, is2faRequiredFor, isAdmin2faRequired,
+  recoveryCodesLeft, regenerateRecoveryCodes, setAdmin2faRequired, startEnrollment,
+} from '../lib/mfa';
+import { SecretBoxError } from '../lib/secretBox';
+import { isSsoUser } from '../lib/oidc';
+
+export const mfaRouter = Router();
+
+/** Answers 403 and returns false when the password is missing or wrong. */
+async function checkPassword(res: Response, userId: number, password: unknown): Promise<boolean> {
+  const row = getDb()
+    .prepare<number, { password_hash: string }>('SELECT password_hash FROM users WHERE id = ?')
+    .get(userId);
+  if (typeof password !== 'string' || !row || !(await bcrypt.compare(password, row.password_hash))) {
+    res.status(403).json({ error: 'Password is incorrect' });
+    return false;
+  }
+  return true;
+}
+
+function sendSecretBoxError(res: Response, err: unknown): void {
+  if (err instanceof SecretBoxError) {
+    res.status(503).json({ error: 'Cannot access the 2FA secret', detail: err.message });
+    return;
+  }
+  // Also called from async handlers, where a rethrow would go unhandled
+  console.error('[mfa] 2FA operation failed:', err);
+  res.status(500).json({ error: '2FA operation failed', detail: String(err) });
+}
+
+// ---------------------------------------------------------------------------
+// Self-service
+// ---------------------------------------------------------------------------
+
+mfaRouter.get('/', requireSession, (_req, res) => {
+  const me  = res.locals['user'] as AuthPayload;
+  const sso = isSsoUser(me.sub);   // the IdP owns the second factor; these accounts have no password
+  res.json({
+    enabled:           is2faEnabled(me.sub),
+    required:          !sso && is2faRequiredFor(me.role),
+    recoveryCodesLeft: recoveryCodesLeft(me.sub),
+    sso,
+  });
+});
+
+mfaRouter.post('/setup', requireSession, (req, res) => {
+  void (async () => {
+    const me = res.locals['user'] as AuthPayload;
+    if (!(await checkPassword(res, me.sub, (req.body as { password?: unknown }).password))) return;
+    try {
+      res.json(await startEnrollment(me.sub, me.username));
+    } catch (err) {
+      sendSecretBoxError(res, err);
+    }
+  })();
+});
+
+mfaRouter.post('/enable', requireSession, (req, res) => {
+  const me = res.locals['user'] as AuthPayload;
+  const { code } = req.body as { code?: unknown };
+  if (typeof code !== 'string' || !code) {
+    res.status(400).json({ error: 'code is required' });
+    return;
+  }
+  try {
+    const recoveryCodes = confirmEnrollment(me.sub, code);
+    if (!recoveryCodes) {
+      res.status(400).json({ error: 'Invalid code — check the time on your device and try again' });
+      return;
+    }
+    res.json({ ok: true, recoveryCodes });
+  } catch (err) {
+    sendSecretBoxError(res, err);
+  }
+});
+
+mfaRouter.post('/disable', requireSession, (req, res) => {
+  void (async () => {
+    const me = res.locals['user'] as AuthPayload;
+    if (is2faRequiredFor(me.role)) {
+      res.status(403).json({ error: 'Two-factor authentication is mandatory for admin accounts' });
+      return;
+    }
+    if (!(await checkPassword(res, me.sub, (req.body as { password?: unknown }).password))) return;
+    disable2fa(me.sub);
+    res.json({ ok: true });
+  })();
+});
+
+mfaRouter.post('/recovery-codes', requireSession, (req, res) => {
+  void (async () => {
+    const me = res.locals['user'] as AuthPayload;
+    if (!is2faEnabled(me.sub)) {
+      res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+      return;
+    }
+    if (!(await checkPassword(res, me.sub, (req.body as { password?: unknown }).password))) return;
+    res.json({ ok: true, recoveryCodes: regenerateRecoveryCodes(me.sub) });
+  })();
+});
+
+// ---------------------------------------------------------------------------
+// Policy + admin
+// ---------------------------------------------------------------------------
+
+mfaRouter.get('/policy', requireSession, (_req, res) => {
+  res.json({ requireForAdmins: isAdmin2faRequired() });
+});
+
+mfaRouter.put('/policy', requireAdmin, (req, res) => {
+  const { requireForAdmins } = req.body as { requireForAdmins?: unknown };
+  if (typeof requireForAdmins !== 'boolean') {
+    res.status(400).json({ error: 'requireForAdmins must be a boolean' });
+    return;
+  }
+  setAdmin2faRequired(requireForAdmins);
+  res.json({ ok: true, requireForAdmins });
+});
+
+mfaRouter.post('/users/:id/reset', requireAdmin, (req, res) => {
+  const id = Number(req.params['id']);
+  if (!getDb().prepare<number, { id: number }>('SELECT id FROM users WHERE id = ?').get(id)) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+  disable2fa(id);
+  res.json({ ok: true });
+});
@@ -0,0 +1,120 @@
+/**
+ * SSO Routes — /api/auth/oidc (public)
+ *
+ *   GET /api/auth/oidc            { enabled, label } — whether to show the SSO button
+ *   GET /api/auth/oidc/start      302 to the identity provider
+ *   GET /api/auth/oidc/callback   IdP redirect target; creates the session and
+ *                                 302s to /?sso=ok#/login (or /?sso_error=…#/login)
+ *
+ * The callback sets the same httpOnly refresh cookie as a password login;
+ * LoginView then trades it for an access token via /api/auth/refresh, so no
+ * token ever appears in a URL. The state value is bound to the browser with
+ * a short-lived cookie to stop login CSRF. See lib/oidc for configuration.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { beginLogin, completeLogin, oidcConfig, provisionUser, roleForGroups, OidcError } from '../lib/oidc';
+import { createSession, setRefreshCookie } from '../lib/sessions';
+import { recordAuthEvent, recordLoginSuccess } from '../lib/loginThrottle';
+
+export const oidcRouter = Router();
+
+const STATE_COOKIE      = 'dp_oidc_state';
+const STATE_COOKIE_PATH = '/api/auth/oidc';
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const eq = part.indexOf('=');
+    if (eq >= 0 && part.slice(0, eq).trim() === name) return part.slice(eq + 1).trim();
+  }
+  return undefined;
+}
+
+function redirectUri(req: Request, configured: string | undefined): string {
+  return configured ?? `${req.protocol}://${req.get('host') ?? 'localhost'}${STATE_COOKIE_PATH}/callback`;
+}
+
+/** Back to the dashboard; the outcome travels in the query string, before the hash route. */
+function backToLogin(res: Response, outcome: { ok: true } | { error: string }): void {
+  res.redirect('ok' in outcome ? '/?sso=ok#/login' : `/?sso_error=${encodeURIComponent(outcome.error)}#/login`);
+}
+
+oidcRouter.get('/', (_req, res) => {
+  const cfg = oidcConfig();
+  res.json({ enabled: cfg !== null, label: cfg?.buttonLabel ?? null });
+});
+
+oidcRouter.get('/start', (req, res) => {
+  void (async () => {
+    const cfg = oidcConfig();
+    if (!cfg) {
+      res.status(404).json({ error: 'Single sign-on is not configured' });
+      return;
+    }
+    try {
+      const { url, state } = await beginLogin(cfg, redirectUri(req, cfg.redirectUri));
+      res.cookie(STATE_COOKIE, state, {
+        httpOnly: true,
+        sameSite: 'lax',   // must survive the top-level redirect back from the IdP
+        secure:   req.secure,
+        path:     STATE_COOKIE_PATH,
+        maxAge:   10 * 60 * 1000,
+      });
+      res.redirect(url);
+    } catch (err) {
+      console.error('[oidc] Cannot start sign-in:', (err as Error).message);
+      backToLogin(res, { error: 'The identity provider is unreachable' });
+    }
+  })();
+});
+
+oidcRouter.get('/callback', (req, res) => {
+  void (async () => {
+    const cfg = oidcConfig();
+    if (!cfg) {
+      res.status(404).json({ error: 'Single sign-on is not configured' });
+      return;
+    }
+    const ip = req.ip ?? 'unknown';
+    const { code, state, error, error_description } = req.query as Record<string, string | undefined>;
+    const cookieState = readCookie(req, STATE_COOKIE);
+    res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+
+    if (error) {
+      backToLogin(res, { error: error_description ?? error });
+      return;
+    }
+    if (!code || !state || state !== cookieState) {
+      backToLogin(res, { error: 'Sign-in request did not match — start again' });
+      return;
+    }
+
+    try {
+      const identity = await completeLogin(cfg, state, code);
+      const role = roleForGroups(cfg, identity.groups);
+      if (!role) {
+        recordAuthEvent('login_failed', identity.username, ip, 'sso: not in an allowed group');
+        backToLogin(res, { error: 'Your account is not in a group that may use DaemonPulse' });
+        return;
+      }
+      const user = await provisionUser(identity, role);
+      if (user.disabled) {
+        recordAuthEvent('login_failed', user.username, ip, 'sso: account disabled');
+        backToLogin(res, { error: 'Account is disabled — contact an administrator' });
+        return;
+      }
+
+      recordLoginSuccess(user.username, ip);
+      const session = createSession(user.id, req);
+      setRefreshCookie(req, res, session.refreshToken);
+      backToLogin(res, { ok: true });
+    } catch (err) {
+      // Never rethrow: nothing awaits this handler, so it would be an unhandled rejection
+      if (err instanceof OidcError) console.warn(`[oidc] Sign-in failed: ${err.message}`);
+      else console.error('[oidc] Sign-in failed:', err);
+      const message = err instanceof OidcError ? err.message : 'Sign-in failed — try again';
+      recordAuthEvent('login_failed', null, ip, `sso: ${err instanceof Error ? err.message : String(err)}`);
+      backToLogin(res, { error: message });
+    }
+  })();
+});
@@ -0,0 +1,100 @@
+import '../test/tempDb';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { getDb, initDb } from '../db/schema';
+import { initJwtSecret } from '../lib/jwtSecret';
+import { createSession, signAccessToken } from '../lib/sessions';
+import { createTarget, syncDefaultTarget, DEFAULT_TARGET_ID } from '../lib/targets';
+import { setTargetAcl } from '../lib/targetAcl';
+import { TARGET_HEADER } from '../lib/daemonProxy';
+import { requireAuth } from '../middleware/auth';
+import { proxyRouter } from './proxy';
+
+initDb();
+syncDefaultTarget();
+initJwtSecret();
+
+let server: Server;
+let base = '';
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/proxy', requireAuth, proxyRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/proxy`;
+});
+
+after(() => { server.close(); });
+
+/** A signed-in user's bearer token. */
+function signIn(username: string, role: 'admin' | 'viewer'): { id: number; token: string } {
+  const id = Number(getDb().prepare("INSERT INTO users (username, password_hash, role) VALUES (?, 'x', ?)").run(username, role).lastInsertRowid);
+  const { sessionId } = createSession(id, { ip: '127.0.0.1', headers: {} } as express.Request);
+  return { id, token: signAccessToken({ sub: id, username, role, sid: sessionId }) };
+}
+
+const lab     = createTarget({ label: 'Lab', url: 'http://127.0.0.1:2', mode: 'local' });
+const hidden  = createTarget({ label: 'Hidden', url: 'http://127.0.0.1:3', mode: 'local' });
+const unknown = 'f0000000-0000-4000-8000-000000000000';
+const viewer  = signIn('restricted', 'viewer');
+const admin   = signIn('root', 'admin');
+setTargetAcl(viewer.id, [{ targetId: lab.id, level: 'view' }]);
+
+async function call(token: string, path: string, init: RequestInit & { target?: string } = {}) {
+  const headers: Record<string, string> = { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' };
+  if (init.target) headers[TARGET_HEADER] = init.target;
+  const r = await fetch(`${base}${path}`, { ...init, headers });
+  return { status: r.status, body: await r.json() as Record<string, unknown> };
+}
+
+/** A response with the target id blanked out, so a hidden and an unknown id can be compared. */
+const without = (id: string, r: { status: number; body: unknown }) =>
+  ({ status: r.status, body: JSON.parse(JSON.stringify(r.body).replaceAll(id, '<id>')) as unknown });
+
+test('the target list only shows granted targets', async () => {
+  const r = await call(viewer.token, '/config/targets');
+  assert.equal(r.status, 200);
+  assert.deepEqual((r.body['targets'] as { id: string }[]).map(t => t.id), [lab.id]);
+
+  const all = await call(admin.token, '/config/targets');
+  assert.deepEqual((all.body['targets'] as { id: string }[]).map(t => t.id).sort(), [DEFAULT_TARGET_ID, lab.id, hidden.id].sort());
+});
+
+test('a granted target named in the header is used', async () => {
+  const r = await call(viewer.token, '/config/daemon-key', { target: lab.id });
+  assert.deepEqual(r, { status: 200, body: { hasKey: false, hint: '' } });
+});
+
+test('a hidden target answers 404, exactly like an unknown one', async () => {
+  const hiddenReply  = await call(viewer.token, '/config/daemon-key', { target: hidden.id });
+  const unknownReply = await call(viewer.token, '/config/daemon-key', { target: unknown });
+  assert.equal(hiddenReply.status, 404);
+  assert.deepEqual(without(hidden.id, hiddenReply), without(unknown, unknownReply));
+});
+
+test('?target= is held to the same rule as the header', async () => {
+  const hiddenReply  = await call(viewer.token, `/config/daemon-key?target=${hidden.id}`);
+  const unknownReply = await call(viewer.token, `/config/daemon-key?target=${unknown}`);
+  assert.equal(hiddenReply.status, 404);
+  assert.deepEqual(without(hidden.id, hiddenReply), without(unknown, unknownReply));
+});
+
+test('activating a hidden target cannot tell it apart from an unknown one', async () => {
+  const hiddenReply  = await call(viewer.token, `/config/targets/${hidden.id}/activate`, { method: 'POST' });
+  const unknownReply = await call(viewer.token, `/config/targets/${unknown}/activate`, { method: 'POST' });
+  assert.notEqual(hiddenReply.status, 200);
+  assert.deepEqual(without(hidden.id, hiddenReply), without(unknown, unknownReply));
+
+  const granted = await call(viewer.token, `/config/targets/${lab.id}/activate`, { method: 'POST' });
+  assert.equal(granted.status, 200);
+});
+
+test('admins see every target', async () => {
+  const r = await call(admin.token, '/config/daemon-key', { target: hidden.id });
+  assert.equal(r.status, 200);
+});
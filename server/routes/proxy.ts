@@ -4,53 +4,69 @@
  * Forwards requests to the llmster daemon.
  * The browser never touches the daemon URL directly — this is the air-gap.
  * Spec reference: docs/LMStudioDaemon.md section 2, 3, 4, 5
+ *
+ * Every route declares an access level (see requireAccess): viewers may use
+ * `read` and `inference` routes; `operate` routes (load/eject, lifecycle,
+ * downloads) need operate permission on the target (admins, or a per-target
+ * grant — lib/targetAcl); `mutate` routes (target and key management) are
+ * admin-only. A target hidden from a user answers 404 when a call names it,
+ * the same as an unknown id.
+ *
+ * Each request is routed to its own target (header, ?target=, the session's
+ * selection, or the bridge's initial target) — see "Per-request target".
+ * Inference that does not name a target explicitly is load-balanced across
+ * every visible target with the model loaded (lib/loadBalancer) and, where a
+ * failover policy matches, retried elsewhere when its target is down
+ * (lib/failover, lib/circuitBreaker). Inference waits for a free slot on
+ * its target and model in the bridge's admission queue (lib/admissionQueue)
+ * and is turned away with 429 + Retry-After when that queue is full. Token
+ * usage reported by the daemon is recorded per user (lib/usage), and calls
+ * over the user's budget or model limits are refused before they are
+ * forwarded (lib/quotas).
  */
 
 import { Router, type Request, type Response } from 'express';
-import { exec }     from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
-
-// lms binary candidates: PATH first, then standard per-user install locations
-const LMS_BINS = [
-  'lms',
-  `${process.env['HOME'] ?? '~'}/.lmstudio/bin/lms`,                                // Linux headless
-  `${process.env['LOCALAPPDATA'] ?? ''}\\LM-Studio\\bin\\lms.exe`,              // Windows
-];
-
-async function runLmsCli(args: string[]): Promise<string> {
-  // Inject --host from the active target when it targets a remote machine
-  const target = getActiveTarget();
-  const hostFlag = target.host ? ['--host', target.host] : [];
-  const fullArgs = [...args, ...hostFlag];
-
-  // Remote targets: 8 s timeout (unreachable hosts stall but don't hang forever).
-  // Local targets:  12 s (GPU backend initialisation can be slow on first start).
-  const cliTimeout = target.mode === 'remote' ? 8_000 : 12_000;
-
-  let lastErr: unknown;
-  for (const bin of LMS_BINS) {
-    try {
-      const { stdout } = await execAsync(`"${bin}" ${fullArgs.join(' ')}`, { timeout: cliTimeout });
-      return stdout.trim();
-    } catch (err) {
-      lastErr = err;
-    }
-  }
-  throw lastErr ?? new Error('lms binary not found in PATH or known install locations');
-}
+import {
+  DEFAULT_TARGET_ID, listTargets, getTarget, getInitialTarget, getInitialTargetId, setInitialTargetId,
+  createTarget, updateTarget, deleteTarget, writeKey, parseTargetInput, summarise, maskKey, type DaemonTarget,
+} from '../lib/targets';
+import { getSessionTargetId, setSessionTargetId } from '../lib/sessions';
+import {
+  targetOf, getDaemonUrl, getDaemonHeaders, forwardTo, forwardStream, forwardPipe, TARGET_HEADER, type Forward,
+} from '../lib/daemonProxy';
+import { SecretBoxError } from '../lib/secretBox';
+import { requireAccess, type AuthPayload } from '../middleware/auth';
+import { targetPermission, visibleTargets } from '../lib/targetAcl';
+import {
+  chooseLoadedTarget, describeDecision, getBalanceStrategy, isBalanceStrategy, setBalanceStrategy, trackRequest,
+  BALANCE_STRATEGIES, ROUTE_HEADER,
+} from '../lib/loadBalancer';
+import { forwardWithFailover, listFailoverPolicies, parseFailoverPolicies, setFailoverPolicies } from '../lib/failover';
+import { circuitStatuses } from '../lib/circuitBreaker';
+import { healthOf, subscribeHealth, type HealthProbe } from '../lib/health';
+import { healthReport, isHealthRange } from '../lib/healthHistory';
+import { runLmsCli } from '../lib/lmsCli';
+import { surveyHardware } from '../lib/hardwareSurvey';
+import { gpuReadings, withGpuReadings } from '../lib/gpuStats';
+import { activeAlerts, expectUnload } from '../lib/alerts';
+import {
+  getAdmissionConfig, laneStatuses, parseAdmissionConfig, priorityOf, queued, recordLoad, setAdmissionConfig,
+  DEFAULT_N_PARALLEL,
+} from '../lib/admissionQueue';
+import { meterUsage, type UsageEndpoint } from '../lib/usage';
+import { checkQuota, openAiTokenLimits, NATIVE_CHAT_TOKEN_LIMITS, type TokenLimitFields } from '../lib/quotas';
+import { requestMetrics } from '../lib/metrics';
 
 /**
  * Poll the daemon HTTP endpoint until it responds (or times out).
  * `lms server start` returns as soon as the process spawns — the GPU backend
  * may still be initialising.  Callers should await this before reporting "ready".
  */
-async function waitForPort(maxMs = 20_000, pollInterval = 600): Promise<void> {
+async function waitForPort(target: DaemonTarget, maxMs = 20_000, pollInterval = 600): Promise<void> {
   const deadline = Date.now() + maxMs;
   while (Date.now() < deadline) {
     try {
-      const r = await fetch(`${getDaemonUrl()}/api/v0/models`,
+      const r = await fetch(`${getDaemonUrl(target)}/api/v0/models`,
         { signal: AbortSignal.timeout(1_500) });
       // 200 or 401 both mean the HTTP stack is alive.
       if (r.ok || r.status === 401) return;
@@ -62,180 +78,200 @@ async function waitForPort(maxMs = 20_000, pollInterval = 600): Promise<void> {
 
 export const proxyRouter = Router();
 
+proxyRouter.use(requestMetrics);   // request counts and durations for /metrics
+
 // ---------------------------------------------------------------------------
-// Target registry — multi-host support
-// Each target is one LM Studio daemon the proxy can talk to.
-// The active target is selected at runtime via POST /config/targets/:id/activate.
+// Per-request target — every call resolves the daemon it talks to, so users
+// working on different targets never switch each other's machines:
+//   1. X-DaemonPulse-Target header (scripts, API tokens)
+//   2. ?target= query parameter (EventSource, which cannot set headers)
+//   3. the caller's session selection (POST /config/targets/:id/activate)
+//   4. the bridge's initial target (POST /config/targets/:id/initial, admin)
+// A target named explicitly that does not exist is a 404, never a fallback;
+// so is one hidden from the caller, so ids cannot be probed for existence.
+// Registered before the routes so requireAccess checks the resolved target.
 // ---------------------------------------------------------------------------
-interface DaemonTarget {
-  id:     string;
-  label:  string;
-  url:    string;   // full daemon base URL  e.g. http://192.168.1.70:1234
-  host?:  string;   // hostname/IP for lms --host flag (when different from URL host)
-  key?:   string;   // per-target LM Studio Permission Key (overrides DAEMON_API_KEY)
-  mode:   'local' | 'remote';
-}
-
-const DEFAULT_ID = 'default';
-
-const targetRegistry = new Map<string, DaemonTarget>();
-targetRegistry.set(DEFAULT_ID, {
-  id:    DEFAULT_ID,
-  label: process.env['DAEMON_LABEL']   ?? 'Local',
-  url:   process.env['DAEMON_API_URL'] ?? 'http://localhost:1234',
-  host:  process.env['DAEMON_HOST'],   // optional --host override
-  key:   process.env['DAEMON_API_KEY'] ?? undefined,
-  mode:  'local',
+proxyRouter.use((req, res, next) => {
+  const user     = res.locals['user'] as AuthPayload;
+  const query    = req.query['target'];
+  const explicit = req.get(TARGET_HEADER) || (typeof query === 'string' ? query : '');
+  if (explicit) {
+    const target = getTarget(explicit);
+    if (!target || !targetPermission(user, target.id)) {
+      res.status(404).json({ error: `Unknown target: ${explicit}` });
+      return;
+    }
+    res.locals['target']       = target;
+    res.locals['targetPinned'] = true;   // inference stays here, no load balancing
+  } else {
+    const selected = user.apiToken ? undefined : getSessionTargetId(user.sid);
+    res.locals['target'] = (selected && getTarget(selected)) || getInitialTarget();
+  }
+  next();
 });
 
-let activeTargetId: string = DEFAULT_ID;
-
-function getActiveTarget(): DaemonTarget {
-  return targetRegistry.get(activeTargetId) ?? (targetRegistry.get(DEFAULT_ID) as DaemonTarget);
-}
-const getDaemonUrl  = () => getActiveTarget().url;
-
-// Fallback global key (settable via POST /config/daemon-key for the active target)
-let runtimeDaemonKey: string = process.env['DAEMON_API_KEY'] ?? '';
+// ---------------------------------------------------------------------------
+// Runtime config — update a target's permission key without restarting the server.
+// Stored encrypted at rest in node_tokens (see lib/secretBox.ts).
+// Body may name a targetId; otherwise the request's target is used.
+// ---------------------------------------------------------------------------
+proxyRouter.get('/config/daemon-key', requireAccess('read'), (_req, res) => {
+  // Never echo the full key value — return presence flag + masked hint only
+  const key = targetOf(res).key ?? '';
+  res.json({ hasKey: key.length > 0, hint: maskKey(key) });
+});
+proxyRouter.post('/config/daemon-key', requireAccess('mutate'), (req, res) => {
+  const body     = req.body as { key?: unknown; targetId?: unknown };
+  const targetId = typeof body.targetId === 'string' ? body.targetId : targetOf(res).id;
+  const key      = typeof body.key === 'string' ? body.key.trim() : '';
+  if (!getTarget(targetId)) { res.status(404).json({ error: `Unknown target: ${targetId}` }); return; }
+  if (/\s/.test(key))       { res.status(400).json({ error: 'key must be a single token without whitespace' }); return; }
+  try {
+    writeKey(targetId, key);
+  } catch (err) {
+    sendSecretError(res, err);
+    return;
+  }
+  res.json({ ok: true, hasKey: (getTarget(targetId)?.key ?? '').length > 0 });
+});
 
-function getDaemonHeaders(): Record<string, string> {
-  const key = getActiveTarget().key ?? runtimeDaemonKey;
-  const h: Record<string, string> = { 'Content-Type': 'application/json' };
-  if (key) h['Authorization'] = `Bearer ${key}`;
-  return h;
+/** Map a failed seal (DP_MASTER_KEY missing) to a 503 the UI can show verbatim. */
+function sendSecretError(res: Response, err: unknown): void {
+  if (err instanceof SecretBoxError) {
+    res.status(503).json({ error: err.message, hint: 'Set DP_MASTER_KEY in .env and restart the bridge' });
+    return;
+  }
+  res.status(500).json({ error: 'Failed to store secret', detail: String(err) });
 }
 
 // ---------------------------------------------------------------------------
-// Transport helpers
+// Target CRUD — /config/targets
+// List responses carry a masked keyHint only; keys never travel back to the browser.
 // ---------------------------------------------------------------------------
+// Only the targets the caller may see, each tagged with their access level.
+// activeId is the target this request resolved to; initialId the bridge-wide fallback.
+proxyRouter.get('/config/targets', requireAccess('read'), (_req, res) => {
+  const user = res.locals['user'] as AuthPayload;
+  res.json({
+    activeId:  targetOf(res).id,
+    initialId: getInitialTargetId(),
+    targets:  visibleTargets(user, listTargets()).map(({ target, access }) => ({ ...summarise(target), access })),
+  });
+});
 
-async function forwardTo(daemonPath: string, req: Request, res: Response): Promise<void> {
+proxyRouter.post('/config/targets', requireAccess('mutate'), (req, res) => {
+  const input = parseTargetInput(req.body);
+  if (!input.ok) { res.status(400).json({ error: input.error }); return; }
   try {
-    const url  = `${getDaemonUrl()}${daemonPath}`;
-    const init: RequestInit = {
-      method:  req.method,
-      headers: getDaemonHeaders(),
-    };
-    if (req.method !== 'GET') init.body = JSON.stringify(req.body);
-
-    const upstream = await fetch(url, init);
-    const data     = await upstream.json();
-    res.status(upstream.status).json(data);
+    const target = createTarget(input.value);
+    res.status(201).json({ ok: true, target: summarise(target) });
   } catch (err) {
-    res.status(502).json({ error: 'Daemon unreachable', detail: String(err) });
+    sendSecretError(res, err);
   }
-}
+});
 
-/**
- * SSE streaming passthrough.
- * Forces stream:true in the request body, then pipes the upstream
- * text/event-stream response directly to the client chunk by chunk.
- */
-async function forwardStream(daemonPath: string, req: Request, res: Response): Promise<void> {
+proxyRouter.put('/config/targets/:id', requireAccess('mutate'), (req, res) => {
+  const id = req.params['id'] ?? '';
+  if (id === DEFAULT_TARGET_ID) {
+    res.status(400).json({ error: 'The default target is managed via DAEMON_API_URL in .env' });
+    return;
+  }
+  const input = parseTargetInput(req.body);
+  if (!input.ok) { res.status(400).json({ error: input.error }); return; }
   try {
-    const url  = `${getDaemonUrl()}${daemonPath}`;
-    const body = { ...(req.body as Record<string, unknown>), stream: true };
-
-    const upstream = await fetch(url, {
-      method:  'POST',
-      headers: getDaemonHeaders(),
-      body:    JSON.stringify(body),
-    });
-
-    if (!upstream.ok || !upstream.body) {
-      res.status(upstream.status).json({ error: 'Upstream error', status: upstream.status });
-      return;
-    }
-
-    res.setHeader('Content-Type',  'text/event-stream; charset=utf-8');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection',    'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering if behind proxy
-    res.flushHeaders();
-
-    const reader = upstream.body.getReader();
-    const dec    = new TextDecoder();
-
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      res.write(dec.decode(value, { stream: true }));
-    }
-
-    res.end();
+    const target = updateTarget(id, input.value);
+    if (!target) { res.status(404).json({ error: `Unknown target: ${id}` }); return; }
+    res.json({ ok: true, target: summarise(target) });
   } catch (err) {
-    // Only send error if headers not yet sent
-    if (!res.headersSent) {
-      res.status(502).json({ error: 'Daemon unreachable', detail: String(err) });
-    } else {
-      res.write(`data: [ERROR] ${String(err)}\n\n`);
-      res.end();
-    }
+    sendSecretError(res, err);
   }
-}
+});
 
-/**
- * Raw pipe — pipes upstream response body as-is (no body modification).
- * Used for endpoints that stream their own progress events (e.g. /api/v1/models/load).
- */
-async function forwardPipe(daemonPath: string, req: Request, res: Response): Promise<void> {
-  try {
-    const url      = `${getDaemonUrl()}${daemonPath}`;
-    const upstream = await fetch(url, {
-      method:  req.method,
-      headers: getDaemonHeaders(),
-      body:    req.method !== 'GET' ? JSON.stringify(req.body) : undefined,
-    });
+proxyRouter.delete('/config/targets/:id', requireAccess('mutate'), (req, res) => {
+  const id = req.params['id'] ?? '';
+  if (id === DEFAULT_TARGET_ID) {
+    res.status(400).json({ error: 'The default target cannot be deleted' });
+    return;
+  }
+  if (!deleteTarget(id)) { res.status(404).json({ error: `Unknown target: ${id}` }); return; }
+  res.json({ ok: true, initialId: getInitialTargetId() });
+});
 
-    if (!upstream.ok || !upstream.body) {
-      const errBody = await upstream.text().catch(() => '');
-      res.status(upstream.status).json({ error: 'Upstream error', detail: errBody });
-      return;
-    }
+// Select the target for the caller's own session — other users are unaffected
+proxyRouter.post('/config/targets/:id/activate', requireAccess('read'), (req, res) => {
+  const id   = req.params['id'] ?? '';
+  const user = res.locals['user'] as AuthPayload;
+  const target = getTarget(id);
+  if (!target) { res.status(404).json({ error: `Unknown target: ${id}` }); return; }
+  if (user.apiToken) {
+    res.status(400).json({ error: `API tokens have no session — send the ${TARGET_HEADER} header with each request` });
+    return;
+  }
+  setSessionTargetId(user.sid, id);
+  res.json({ ok: true, activeId: id, target: summarise(target) });
+});
 
-    res.setHeader('Content-Type',      'text/event-stream; charset=utf-8');
-    res.setHeader('Cache-Control',     'no-cache');
-    res.setHeader('Connection',        'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no');
-    res.flushHeaders();
+// The target for requests that name none and sessions that have not picked one
+proxyRouter.post('/config/targets/:id/initial', requireAccess('mutate'), (req, res) => {
+  const id = req.params['id'] ?? '';
+  if (!setInitialTargetId(id)) { res.status(404).json({ error: `Unknown target: ${id}` }); return; }
+  res.json({ ok: true, initialId: id });
+});
 
-    const reader = upstream.body.getReader();
-    const dec    = new TextDecoder();
+// ---------------------------------------------------------------------------
+// Routing policy — how inference is spread over targets (lib/loadBalancer)
+// ---------------------------------------------------------------------------
+proxyRouter.get('/config/routing', requireAccess('read'), (_req, res) => {
+  const user    = res.locals['user'] as AuthPayload;
+  const visible = visibleTargets(user, listTargets()).map(v => v.target.id);
+  res.json({
+    strategy:   getBalanceStrategy(),
+    strategies: BALANCE_STRATEGIES,
+    failover:   listFailoverPolicies(),
+    circuits:   circuitStatuses(visible),
+  });
+});
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      res.write(dec.decode(value, { stream: true }));
-    }
-    res.end();
-  } catch (err) {
-    if (!res.headersSent) {
-      res.status(502).json({ error: 'Daemon unreachable', detail: String(err) });
-    } else {
-      res.write(`data: [ERROR] ${String(err)}\n\n`);
-      res.end();
-    }
+proxyRouter.put('/config/routing', requireAccess('mutate'), (req, res) => {
+  const { strategy } = req.body as { strategy?: unknown };
+  if (!isBalanceStrategy(strategy)) {
+    res.status(400).json({ error: `strategy must be one of: ${BALANCE_STRATEGIES.join(', ')}` });
+    return;
   }
-}
+  setBalanceStrategy(strategy);
+  res.json({ ok: true, strategy });
+});
+
+// Body: { policies: [{ modelPattern, targetIds, maxAttempts, allowJit }] } — replaces the list
+proxyRouter.put('/config/failover', requireAccess('mutate'), (req, res) => {
+  const parsed = parseFailoverPolicies(req.body);
+  if (!parsed.ok) { res.status(400).json({ error: parsed.error }); return; }
+  const unknown = parsed.value.flatMap(p => p.targetIds).find(id => !getTarget(id));
+  if (unknown) { res.status(400).json({ error: `Unknown target: ${unknown}` }); return; }
+  setFailoverPolicies(parsed.value);
+  res.json({ ok: true, failover: parsed.value });
+});
 
 // ---------------------------------------------------------------------------
-// Runtime config — update the daemon permission key without restarting the server.
-// Key is kept in process memory only (not written back to .env).
+// Admission queue — concurrency and queue limits per target and model (lib/admissionQueue)
 // ---------------------------------------------------------------------------
-proxyRouter.get('/config/daemon-key', (_req, res) => {
-  // Never echo the full key value — return presence flag + masked hint only
-  res.json({
-    hasKey: runtimeDaemonKey.length > 0,
-    hint:   runtimeDaemonKey.length > 4
-              ? '••••' + runtimeDaemonKey.slice(-4)
-              : runtimeDaemonKey.length > 0 ? '••••' : '',
-  });
+proxyRouter.get('/config/queue', requireAccess('read'), (_req, res) => {
+  res.json({ ...getAdmissionConfig(), defaultNParallel: DEFAULT_N_PARALLEL });
+});
+
+// Body: { maxConcurrency: number | null, maxQueueDepth, maxWaitSeconds }
+proxyRouter.put('/config/queue', requireAccess('mutate'), (req, res) => {
+  const parsed = parseAdmissionConfig(req.body);
+  if (!parsed.ok) { res.status(400).json({ error: parsed.error }); return; }
+  setAdmissionConfig(parsed.value);
+  res.json({ ok: true, ...parsed.value });
 });
-proxyRouter.post('/config/daemon-key', (req, res) => {
-  const body  = req.body as { key?: unknown };
-  runtimeDaemonKey = typeof body.key === 'string' ? body.key.trim() : '';
-  res.json({ ok: true, hasKey: runtimeDaemonKey.length > 0 });
+
+// Live slot and queue occupancy on every visible target
+proxyRouter.get('/queue', requireAccess('read'), (_req, res) => {
+  const user    = res.locals['user'] as AuthPayload;
+  const visible = visibleTargets(user, listTargets()).map(v => v.target.id);
+  res.json({ lanes: laneStatuses(visible), defaultNParallel: DEFAULT_N_PARALLEL, config: getAdmissionConfig() });
 });
 
 // ---------------------------------------------------------------------------
@@ -244,35 +280,50 @@ proxyRouter.post('/config/daemon-key', (req, res) => {
 // ---------------------------------------------------------------------------
 
 // Liveness probe — /api/v0/models is cheapest ping; logs nothing in LM Studio
-proxyRouter.get('/daemon/state',  (req, res) => void forwardTo('/api/v0/models', req, res));
+proxyRouter.get('/daemon/state',  requireAccess('read'), (req, res) => void forwardTo('/api/v0/models', req, res));
 
 // List all downloaded+loaded models  (JIT ON: includes not-loaded; JIT OFF: loaded only)
-proxyRouter.get('/models',          (req, res) => void forwardTo('/api/v0/models',         req, res));
-proxyRouter.get('/models/loaded',   (req, res) => void forwardTo('/api/v0/models',         req, res));
+proxyRouter.get('/models',          requireAccess('read'), (req, res) => void forwardTo('/api/v0/models',         req, res));
+proxyRouter.get('/models/loaded',   requireAccess('read'), (req, res) => void forwardTo('/api/v0/models',         req, res));
 
 // Single model detail
-proxyRouter.get('/models/:id',      (req, res) => void forwardTo(`/api/v0/models/${encodeURIComponent(req.params['id'] ?? '')}`, req, res));
+proxyRouter.get('/models/:id',      requireAccess('read'), (req, res) => void forwardTo(`/api/v0/models/${encodeURIComponent(req.params['id'] ?? '')}`, req, res));
 
 // Load / eject / download — no v0 equivalents yet; stay on v1 until LM Studio exposes them
 // /api/v1/models/load streams JSON-line progress events, then the final instance_id
-proxyRouter.post('/models/load',     (req, res) => void forwardPipe('/api/v1/models/load',      req, res));
-proxyRouter.post('/models/eject',    (req, res) => void forwardTo('/api/v1/models/unload',     req, res));
+// A successful load's n_parallel becomes the model's concurrency limit in the admission queue
+proxyRouter.post('/models/load',     requireAccess('operate'), (req, res) => {
+  void (async () => {
+    await forwardPipe('/api/v1/models/load', req, res);
+    const { identifier, n_parallel } = req.body as { identifier?: unknown; n_parallel?: unknown };
+    if (res.statusCode < 400 && typeof identifier === 'string' && typeof n_parallel === 'number' && n_parallel >= 1) {
+      recordLoad(targetOf(res).id, identifier, Math.floor(n_parallel));
+    }
+  })();
+});
+proxyRouter.post('/models/eject',    requireAccess('operate'), (req, res) => {
+  const { identifier } = req.body as { identifier?: unknown };
+  expectUnload(targetOf(res).id, typeof identifier === 'string' ? identifier : undefined);   // not an unexpected unload (lib/alerts)
+  void forwardTo('/api/v1/models/unload', req, res);
+});
 
 // Unload all loaded models via lms CLI --all flag (faster than individual REST calls)
-proxyRouter.post('/models/unload-all', (_req, res) => {
+proxyRouter.post('/models/unload-all', requireAccess('operate'), (_req, res) => {
   void (async () => {
+    expectUnload(targetOf(res).id);
     try {
-      const out = await runLmsCli(['unload', '--all']);
+      const out = await runLmsCli(targetOf(res), ['unload', '--all']);
       res.json({ ok: true, output: out });
     } catch (err) {
       res.status(500).json({ error: 'lms unload --all failed', detail: String(err) });
     }
   })();
 });
-proxyRouter.post('/models/download', (req, res) => void forwardTo('/api/v1/models/download',   req, res));
-proxyRouter.get( '/models/download/status', (req, res) => {
-  // Forward all query params (e.g. ?jobId=...) through to the daemon
-  const qs = new URLSearchParams(req.query as Record<string, string>).toString();
+proxyRouter.post('/models/download', requireAccess('operate'), (req, res) => void forwardTo('/api/v1/models/download',   req, res));
+proxyRouter.get( '/models/download/status', requireAccess('read'), (req, res) => {
+  // Forward the query params (e.g. ?jobId=...) through to the daemon, minus our own target selector
+  const { target: _target, ...query } = req.query as Record<string, string>;
+  const qs = new URLSearchParams(query).toString();
   void forwardTo(`/api/v1/models/download/status${qs ? `?${qs}` : ''}`, req, res);
 });
 
@@ -280,47 +331,94 @@ proxyRouter.get( '/models/download/status', (req, res) => {
 // Inference — /api/v0/ endpoints
 // ---------------------------------------------------------------------------
 
+/**
+ * Move an inference request to the visible target that should serve
+ * `model` (see lib/loadBalancer), unless the caller pinned a target with
+ * the header or ?target=. The decision is sent back in X-DaemonPulse-Target
+ * and X-DaemonPulse-Route; the request counts as outstanding on its target
+ * until it finishes.
+ */
+async function balance(res: Response, model: string | null, usable: DaemonTarget[]): Promise<void> {
+  const pinned   = res.locals['targetPinned'] === true;
+  const decision = model && !pinned ? await chooseLoadedTarget(model, usable) : null;
+  if (decision) {
+    res.locals['target'] = decision.target;
+    res.setHeader(ROUTE_HEADER, describeDecision(decision));
+  } else {
+    // Stays on the resolved target: pinned by the caller, model not loaded anywhere (JIT), or no model named
+    res.setHeader(ROUTE_HEADER, `reason=${pinned ? 'pinned' : model ? 'not-loaded' : 'no-model'}`);
+  }
+  res.setHeader(TARGET_HEADER, targetOf(res).id);
+  if (model) trackRequest(res, targetOf(res), model);
+}
+
+/**
+ * Check the caller's quota, balance, then hand over to a transport helper
+ * once the admission queue has a slot — through failover when a policy
+ * covers the model. The call's token usage is metered under `endpoint`;
+ * `limits` names the token-limit fields of the route's body shape.
+ */
+function balanced(endpoint: UsageEndpoint, forward: Forward, limits: TokenLimitFields | null = openAiTokenLimits(endpoint)) {
+  return (req: Request, res: Response) => {
+    const metered = meterUsage(req, res, endpoint);
+    void (async () => {
+      const user   = res.locals['user'] as AuthPayload;
+      const body   = req.body as Record<string, unknown> | undefined;
+      const model  = typeof body?.['model'] === 'string' && body['model'] ? body['model'] : null;
+      const quota  = checkQuota(user, model, limits, body);
+      res.set(quota.headers);
+      if (!quota.ok) {
+        res.status(quota.status).json({ error: quota.message, code: quota.code });
+        return;
+      }
+      const usable = visibleTargets(user, listTargets()).map(v => v.target);
+      await balance(res, model, usable);
+      await forwardWithFailover(req, res, queued(forward, model, priorityOf(req, user)),
+        { model, usable, pinned: res.locals['targetPinned'] === true });
+    })().finally(metered);
+  };
+}
+
 // Chat completions (OpenAI-compat messages format + enhanced stats)
 // Body: { model, messages, temperature?, max_tokens?, stream? }
 // Non-streaming (stream:false or omitted) → JSON response
-proxyRouter.post('/chat/completions', (req, res) => {
+proxyRouter.post('/chat/completions', requireAccess('inference'), balanced('chat', (req, res, opts) => {
   const body = req.body as Record<string, unknown>;
-  if (body['stream'] === true) {
-    void forwardStream('/api/v0/chat/completions', req, res);
-  } else {
-    void forwardTo('/api/v0/chat/completions', req, res);
-  }
-});
+  return body['stream'] === true
+    ? forwardStream('/api/v0/chat/completions', req, res, opts)
+    : forwardTo('/api/v0/chat/completions', req, res, opts);
+}));
 
 // Streaming-only endpoint — explicit SSE path, always streams
-proxyRouter.post('/chat/completions/stream', (req, res) =>
-  void forwardStream('/api/v0/chat/completions', req, res));
+proxyRouter.post('/chat/completions/stream', requireAccess('inference'),
+  balanced('chat', (req, res, opts) => forwardStream('/api/v0/chat/completions', req, res, opts)));
 
 // Text completions
 // Body: { model, prompt, temperature?, max_tokens?, stream?, stop? }
-proxyRouter.post('/completions',      (req, res) => void forwardTo('/api/v0/completions',      req, res));
+proxyRouter.post('/completions',      requireAccess('inference'), balanced('completions', (req, res, opts) => forwardTo('/api/v0/completions',      req, res, opts)));
 
 // Embeddings
 // Body: { model, input }
 // TODO: verify embeddings path — research indicates OpenAI-compatible route is /v1/embeddings,
 //       but LM Studio 0.4.x may also serve it at /api/v0/embeddings.  Test against live daemon.
-proxyRouter.post('/embeddings',       (req, res) => void forwardTo('/api/v0/embeddings',       req, res));
+proxyRouter.post('/embeddings',       requireAccess('inference'), balanced('embeddings', (req, res, opts) => forwardTo('/api/v0/embeddings',       req, res, opts)));
 
 // MCP-native chat (/api/v1/chat) — supports integrations[], output[] array response
 // Kept separate: different request/response shape from /api/v0/chat/completions
-// Body: { model, input, integrations?, context_length?, temperature? }
-proxyRouter.post('/chat',             (req, res) => void forwardTo('/api/v1/chat',              req, res));
+// Body: { model, input, integrations?, context_length?, temperature?, max_output_tokens? }
+proxyRouter.post('/chat',             requireAccess('inference'),
+  balanced('chat', (req, res, opts) => forwardTo('/api/v1/chat', req, res, opts), NATIVE_CHAT_TOKEN_LIMITS));
 
 // ---------------------------------------------------------------------------
 // Server lifecycle — executed via lms CLI (local target: direct exec; remote: --host flag)
-proxyRouter.post('/server/start', (req, res) => {
+proxyRouter.post('/server/start', requireAccess('operate'), (req, res) => {
   void (async () => {
     try {
       const body = req.body as Record<string, unknown>;
       const jit  = body['jit'] === true ? ['--jit', 'on'] : [];
-      const out  = await runLmsCli(['server', 'start', ...jit]);
+      const out  = await runLmsCli(targetOf(res), ['server', 'start', ...jit]);
       // lms returns before the GPU backend is ready — poll until HTTP is live.
-      await waitForPort(20_000);
+      await waitForPort(targetOf(res), 20_000);
       res.json({ ok: true, output: out });
     } catch (err) {
       res.status(500).json({ error: 'lms server start failed', detail: String(err) });
@@ -328,10 +426,11 @@ proxyRouter.post('/server/start', (req, res) => {
   })();
 });
 
-proxyRouter.post('/server/stop', (_req, res) => {
+proxyRouter.post('/server/stop', requireAccess('operate'), (_req, res) => {
   void (async () => {
+    expectUnload(targetOf(res).id);
     try {
-      const out = await runLmsCli(['server', 'stop']);
+      const out = await runLmsCli(targetOf(res), ['server', 'stop']);
       res.json({ ok: true, output: out });
     } catch (err) {
       res.status(500).json({ error: 'lms server stop failed', detail: String(err) });
@@ -339,10 +438,10 @@ proxyRouter.post('/server/stop', (_req, res) => {
   })();
 });
 
-proxyRouter.post('/daemon/up', (_req, res) => {
+proxyRouter.post('/daemon/up', requireAccess('operate'), (_req, res) => {
   void (async () => {
     try {
-      const out = await runLmsCli(['daemon', 'up']);
+      const out = await runLmsCli(targetOf(res), ['daemon', 'up']);
       res.json({ ok: true, output: out });
     } catch (err) {
       res.status(500).json({ error: 'lms daemon up failed', detail: String(err) });
@@ -350,10 +449,11 @@ proxyRouter.post('/daemon/up', (_req, res) => {
   })();
 });
 
-proxyRouter.post('/daemon/down', (_req, res) => {
+proxyRouter.post('/daemon/down', requireAccess('operate'), (_req, res) => {
   void (async () => {
+    expectUnload(targetOf(res).id);
     try {
-      const out = await runLmsCli(['daemon', 'down']);
+      const out = await runLmsCli(targetOf(res), ['daemon', 'down']);
       res.json({ ok: true, output: out });
     } catch (err) {
       res.status(500).json({ error: 'lms daemon down failed', detail: String(err) });
@@ -363,7 +463,7 @@ proxyRouter.post('/daemon/down', (_req, res) => {
 
 // Linux systemd lifecycle (remote targets only — requires lms --host or SSH)
 // Returns the lms CLI output; actual systemctl must be orchestrated server-side
-proxyRouter.post('/lifecycle/systemctl', (req, res) => {
+proxyRouter.post('/lifecycle/systemctl', requireAccess('operate'), (req, res) => {
   void (async () => {
     const body   = req.body as { action?: string };
     const action = body.action ?? 'status'; // restart | stop | start | status
@@ -372,7 +472,7 @@ proxyRouter.post('/lifecycle/systemctl', (req, res) => {
       res.status(400).json({ error: `Unknown action: ${action}. Must be one of: ${[...allowed].join(', ')}` });
       return;
     }
-    const target = getActiveTarget();
+    const target = targetOf(res);
     if (target.mode !== 'remote') {
       res.status(400).json({
         error:   'systemctl management is only available for remote targets',
@@ -380,9 +480,10 @@ proxyRouter.post('/lifecycle/systemctl', (req, res) => {
       });
       return;
     }
+    if (action === 'stop' || action === 'restart') expectUnload(target.id);
     try {
       // Delegate to lms CLI with --host; the lms daemon on the remote box handles systemd
-      const out = await runLmsCli(['server', action === 'restart' ? 'stop' : action]);
+      const out = await runLmsCli(target, ['server', action === 'restart' ? 'stop' : action]);
       res.json({ ok: true, action, output: out });
     } catch (err) {
       res.status(500).json({ error: `Lifecycle action '${action}' failed`, detail: String(err) });
@@ -394,7 +495,7 @@ proxyRouter.post('/lifecycle/systemctl', (req, res) => {
 // Log streaming (spec section 9) — SSE passthrough with per-line framing
 // ---------------------------------------------------------------------------
 
-proxyRouter.get('/logs/stream', (req, res) => {
+proxyRouter.get('/logs/stream', requireAccess('read'), (req, res) => {
   res.setHeader('Content-Type',      'text/event-stream; charset=utf-8');
   res.setHeader('Cache-Control',     'no-cache');
   res.setHeader('Connection',        'keep-alive');
@@ -405,7 +506,7 @@ proxyRouter.get('/logs/stream', (req, res) => {
   // Known sources: 'runtime' (default llama.cpp / MLX logs),
   //                'model'   (token throughput / perf stats — `lms log stream --source model`)
   const source      = typeof req.query['source'] === 'string' ? req.query['source'] : 'runtime';
-  const upstreamUrl = `${getDaemonUrl()}/v1/lms/log/stream?source=${encodeURIComponent(source)}`;
+  const upstreamUrl = `${getDaemonUrl(targetOf(res))}/v1/lms/log/stream?source=${encodeURIComponent(source)}`;
   const ctrl        = new AbortController();
   let   leftover    = '';
 
@@ -437,62 +538,62 @@ proxyRouter.get('/logs/stream', (req, res) => {
 });
 
 // ---------------------------------------------------------------------------
-// Daemon health stream — SSE pushed by the proxy every HEALTH_INTERVAL_MS.
-// Client subscribes once; proxy owns the poll cycle against the daemon.
-// Emits: { state: 'running'|'stopped'|'stalled', latencyMs: number }
+// Daemon health stream — SSE fed by the bridge's shared poller for the target
+// (lib/health): one poll cycle per target however many clients subscribe,
+// every 15 s while running, backing off while down, faster around changes.
+// Emits: { state: 'running'|'stopped'|'stalled', latencyMs: number, checkedAt: ISO,
+//          circuit: CircuitStatus,                  — this target's breaker
+//          circuits: Record<targetId, CircuitStatus> — every visible target's,
+//          alerts: Alert[]                          — open alerts on visible targets (lib/alerts) }
+// Each probe result also feeds the target's circuit breaker (lib/health).
 // ---------------------------------------------------------------------------
-const HEALTH_INTERVAL_MS  = 15_000;
-const STALL_THRESHOLD_MS  =  5_000;  // daemon response >5 s → stalled
+const KEEPALIVE_MS = 25_000;   // comment line, so idle proxies keep the stream open while polls back off
+
+function healthPayload(res: Response, target: DaemonTarget, health: HealthProbe) {
+  const visible  = visibleTargets(res.locals['user'] as AuthPayload, listTargets()).map(v => v.target.id);
+  const circuits = circuitStatuses([...new Set([target.id, ...visible])]);
+  return { ...health, circuit: circuits[target.id], circuits, alerts: activeAlerts(visible) };
+}
 
-proxyRouter.get('/health/stream', (req, res) => {
+proxyRouter.get('/health/stream', requireAccess('read'), (req, res) => {
   res.setHeader('Content-Type',      'text/event-stream; charset=utf-8');
   res.setHeader('Cache-Control',     'no-cache');
   res.setHeader('Connection',        'keep-alive');
   res.setHeader('X-Accel-Buffering', 'no');
   res.flushHeaders();
 
-  const probe = async () => {
-    const start = Date.now();
-    try {
-      const r = await fetch(`${getDaemonUrl()}/api/v0/models`, {
-        signal:  AbortSignal.timeout(STALL_THRESHOLD_MS),
-        headers: getDaemonHeaders(),
-      });
-      const latencyMs = Date.now() - start;
-      // 200 or 401 both mean the HTTP stack is alive
-      const state = (r.ok || r.status === 401) ? 'running' : 'stopped';
-      res.write(`data: ${JSON.stringify({ state, latencyMs })}\n\n`);
-    } catch {
-      const latencyMs = Date.now() - start;
-      const state = latencyMs >= STALL_THRESHOLD_MS ? 'stalled' : 'stopped';
-      res.write(`data: ${JSON.stringify({ state, latencyMs })}\n\n`);
-    }
-  };
-
-  void probe();   // immediate first event
-  const timer = setInterval(() => void probe(), HEALTH_INTERVAL_MS);
-  req.on('close', () => clearInterval(timer));
+  const target      = targetOf(res);   // fixed for the life of the stream
+  const unsubscribe = subscribeHealth(target, (health) => {
+    res.write(`data: ${JSON.stringify(healthPayload(res, target, health))}\n\n`);
+  });
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+  req.on('close', () => {
+    unsubscribe();
+    clearInterval(keepalive);
+  });
 });
 
-// One-shot probe — triggered by client on user action for immediate state update
-proxyRouter.post('/health/probe', (_req, res) => {
+// One-shot reading — the poller's cached result; ?force=1 probes the daemon now
+// (the client forces after user actions that may change the daemon's state)
+proxyRouter.post('/health/probe', requireAccess('read'), (req, res) => {
   void (async () => {
-    const start = Date.now();
-    try {
-      const r = await fetch(`${getDaemonUrl()}/api/v0/models`, {
-        signal:  AbortSignal.timeout(STALL_THRESHOLD_MS),
-        headers: getDaemonHeaders(),
-      });
-      const latencyMs = Date.now() - start;
-      const state = (r.ok || r.status === 401) ? 'running' : 'stopped';
-      res.json({ state, latencyMs });
-    } catch {
-      const latencyMs = Date.now() - start;
-      res.json({ state: latencyMs >= STALL_THRESHOLD_MS ? 'stalled' : 'stopped', latencyMs });
-    }
+    const target = targetOf(res);
+    const force  = req.query['force'] === '1' || req.query['force'] === 'true';
+    res.json(healthPayload(res, target, await healthOf(target, force)));
   })();
 });
 
+// Recorded health of the target (lib/healthHistory): uptime over 24h/7d/30d,
+// latency per bucket and outage intervals for ?range=24h|7d|30d (default 24h)
+proxyRouter.get('/health/history', requireAccess('read'), (req, res) => {
+  const range = req.query['range'] ?? '24h';
+  if (!isHealthRange(range)) {
+    res.status(400).json({ error: 'range must be 24h, 7d or 30d' });
+    return;
+  }
+  res.json(healthReport(targetOf(res).id, range));
+});
+
 // ---------------------------------------------------------------------------
 // MCP tool discovery — calls tools/list on a remote MCP server on behalf of
 // the client (avoids CORS issues when the MCP server does not set CORS headers)
@@ -506,7 +607,7 @@ proxyRouter.post('/health/probe', (_req, res) => {
  *
  * Protocol: MCP uses JSON-RPC 2.0 over HTTP POST.
  */
-proxyRouter.post('/mcp/discover', (req, res) => {
+proxyRouter.post('/mcp/discover', requireAccess('read'), (req, res) => {
   void (async () => {
     const body = req.body as { url?: string; headers?: Record<string, string> };
     if (!body.url) {
@@ -560,13 +661,20 @@ proxyRouter.post('/mcp/discover', (req, res) => {
 // CLI-backed routes — lms runtime survey, lms ps, lms load --estimate-only
 // ---------------------------------------------------------------------------
 
-/** Hardware survey: GPU names, architectures, VRAM, driver info */
-proxyRouter.get('/runtime/survey', (_req, res) => {
+/**
+ * Hardware survey, normalised by lib/hardwareSurvey: GPUs with VRAM and driver
+ * status, CUDA/Vulkan/Metal, CPU and system RAM. The survey itself is cached
+ * for 10 minutes (?fresh=1 runs it again); live VRAM use, temperature and load
+ * from lib/gpuStats are merged in on every call.
+ */
+proxyRouter.get('/runtime/survey', requireAccess('read'), (req, res) => {
   void (async () => {
+    const target = targetOf(res);
     try {
-      const stdout = await runLmsCli(['runtime', 'survey', '--json']);
-      try { res.json(JSON.parse(stdout)); }
-      catch { res.json({ raw: stdout }); }
+      const fresh    = req.query['fresh'] === '1' || req.query['fresh'] === 'true';
+      const hardware = await surveyHardware(target, fresh);
+      const readings = await gpuReadings(target);
+      res.json(readings ? withGpuReadings(hardware, readings) : hardware);
     } catch (err) {
       res.status(502).json({ error: 'lms runtime survey failed', detail: String(err) });
     }
@@ -574,10 +682,10 @@ proxyRouter.get('/runtime/survey', (_req, res) => {
 });
 
 /** Loaded model instances: id, path, state, VRAM/RAM footprint */
-proxyRouter.get('/models/running', (_req, res) => {
+proxyRouter.get('/models/running', requireAccess('read'), (_req, res) => {
   void (async () => {
     try {
-      const stdout = await runLmsCli(['ps', '--json']);
+      const stdout = await runLmsCli(targetOf(res), ['ps', '--json']);
       try { res.json(JSON.parse(stdout)); }
       catch { res.json({ raw: stdout }); }
     } catch (err) {
@@ -597,15 +705,32 @@ proxyRouter.get('/models/running', (_req, res) => {
  *   Estimated Total Memory: 8.73 GB
  * We parse those into a structured object.
  */
-proxyRouter.post('/models/estimate', (req, res) => {
+const ESTIMATE_MODEL_RE   = /^[\w.@:/+-]{1,256}$/;   // model keys and paths; no leading '-' (see below)
+const MAX_CONTEXT_LENGTH  = 1_048_576;
+const MAX_GPU_LAYERS      = 1_000;
+
+proxyRouter.post('/models/estimate', requireAccess('read'), (req, res) => {
   void (async () => {
-    const body = req.body as { model?: string; contextLength?: number; gpuLayers?: number };
-    if (!body.model) { res.status(400).json({ error: 'model is required' }); return; }
-    const args: string[] = ['load', '--estimate-only', body.model];
-    if (body.contextLength) args.push('--context-length', String(body.contextLength));
-    if (body.gpuLayers !== undefined) args.push('--gpu-layers', String(body.gpuLayers));
+    const body = (req.body ?? {}) as { model?: unknown; contextLength?: unknown; gpuLayers?: unknown };
+    const { model, contextLength, gpuLayers } = body;
+    // A leading '-' would be read by lms as an option
+    if (typeof model !== 'string' || !ESTIMATE_MODEL_RE.test(model) || model.startsWith('-')) {
+      res.status(400).json({ error: 'model must be a model key or path' });
+      return;
+    }
+    if (contextLength !== undefined && (!Number.isInteger(contextLength) || (contextLength as number) < 1 || (contextLength as number) > MAX_CONTEXT_LENGTH)) {
+      res.status(400).json({ error: `contextLength must be a whole number between 1 and ${MAX_CONTEXT_LENGTH}` });
+      return;
+    }
+    if (gpuLayers !== undefined && (!Number.isInteger(gpuLayers) || (gpuLayers as number) < 0 || (gpuLayers as number) > MAX_GPU_LAYERS)) {
+      res.status(400).json({ error: `gpuLayers must be a whole number between 0 and ${MAX_GPU_LAYERS}` });
+      return;
+    }
+    const args: string[] = ['load', '--estimate-only', model];
+    if (contextLength !== undefined) args.push('--context-length', String(contextLength));
+    if (gpuLayers !== undefined) args.push('--gpu-layers', String(gpuLayers));
     try {
-      const stdout = await runLmsCli(args);
+      const stdout = await runLmsCli(targetOf(res), args);
       // Try JSON first (future-proofs if LM Studio adds --json support)
       try { res.json(JSON.parse(stdout)); return; } catch { /* not JSON */ }
       // Parse human-readable output
@@ -3,7 +3,8 @@
  *
  * Every route opens a fresh SSH session, runs the requested operation,
  * then closes the connection. Credentials are accepted per-request in
- * the JSON body and are never persisted by these routes.
+ * the JSON body, or loaded from a target's saved (encrypted) credentials
+ * when the body names a `nodeId` instead.
  *
  * Routes:
  *   POST /api/remote/probe          — Connect + survey installed software + daemon state
@@ -13,19 +14,39 @@
  *   POST /api/remote/daemon/restart — systemctl restart
  *   POST /api/remote/survey         — lms runtime survey --json (GPU/VRAM/arch)
  *   POST /api/remote/key-scrape     — Read the LM Studio permission key from ~/.lmstudio
+ *   GET|PUT|DELETE /api/remote/credentials/:nodeId — Saved SSH credentials for a target
+ *
+ * probe and survey are `read` when they use a target's saved credentials
+ * (body `{ nodeId }` only); naming a host, port, username or credential inline
+ * would let the bridge connect anywhere, so that is `mutate`. The credential
+ * lookup is `read`; daemon start/stop/restart is `operate` (admins, or a
+ * per-target grant on the nodeId — which then must use the target's saved
+ * credentials); installing, reading the permission key and storing
+ * credentials are `mutate` (admin-only). Calls naming a nodeId the user may
+ * not see are refused (lib/targetAcl).
  */
 
-import { Router } from 'express';
+import { Router, type NextFunction, type Request, type Response } from 'express';
 import { openConnection, runCommand, streamCommand } from '../lib/sshClient';
 import type { SSHConnectOpts } from '../lib/sshClient';
+import {
+  getTarget, getSshConnectOpts, saveSshCredentials, deleteSshCredentials, describeSshCredentials,
+} from '../lib/targets';
+import { SecretBoxError } from '../lib/secretBox';
+import { requireAccess, type AuthPayload } from '../middleware/auth';
+import { sshMetrics } from '../lib/metrics';
+import { expectUnload } from '../lib/alerts';
 
 export const remoteRouter = Router();
 
+remoteRouter.use(sshMetrics);   // operation outcomes for /metrics
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
 interface ConnBody {
+  nodeId?:     string;   // use this target's saved credentials when no credential is supplied
   host:        string;
   port?:       number;
   username:    string;
@@ -36,7 +57,18 @@ interface ConnBody {
 
 type RemotePlatform = 'linux' | 'macOS' | 'windows' | 'unknown';
 
-function connOptsFromBody(body: ConnBody): SSHConnectOpts {
+const CONN_REQUIRED = 'host and username are required (or a nodeId with saved credentials)';
+
+/**
+ * Inline credentials win; otherwise fall back to the saved credentials of
+ * body.nodeId. Returns null when neither yields a host + username.
+ */
+function connOptsFromBody(body: ConnBody): SSHConnectOpts | null {
+  if (!body.privateKey && !body.password && body.nodeId) {
+    const saved = getSshConnectOpts(body.nodeId);
+    if (saved) return saved;
+  }
+  if (!body.host || !body.username) return null;
   return {
     host:       body.host,
     port:       body.port,
@@ -46,6 +78,16 @@ function connOptsFromBody(body: ConnBody): SSHConnectOpts {
   };
 }
 
+const readAccess   = requireAccess('read');
+const mutateAccess = requireAccess('mutate');
+
+/** `read` for a saved target login; `mutate` once the body names its own host or credentials. */
+function requireConnAccess(req: Request, res: Response, next: NextFunction): void {
+  const body   = (req.body ?? {}) as Partial<ConnBody>;
+  const inline = Boolean(body.host || body.port || body.username || body.privateKey || body.password);
+  (inline ? mutateAccess : readAccess)(req, res, next);
+}
+
 async function detectPlatform(conn: Awaited<ReturnType<typeof openConnection>>): Promise<RemotePlatform> {
   const { stdout: uname } = await runCommand(conn, 'uname -s 2>/dev/null || echo ""');
   const u = uname.trim().toLowerCase();
@@ -72,17 +114,17 @@ function lifecycleFallbackCmd(action: LifecycleAction, platform: RemotePlatform)
 // POST /probe
 // Runs a quick multi-step survey over SSH and returns a structured summary.
 // ---------------------------------------------------------------------------
-remoteRouter.post('/probe', (req, res) => {
+remoteRouter.post('/probe', requireConnAccess, (req, res) => {
   void (async () => {
-    const body = req.body as ConnBody;
-    if (!body.host || !body.username) {
-      res.status(400).json({ error: 'host and username are required' });
+    const opts = connOptsFromBody(req.body as ConnBody);
+    if (!opts) {
+      res.status(400).json({ error: CONN_REQUIRED });
       return;
     }
 
     let conn;
     try {
-      conn = await openConnection(connOptsFromBody(body));
+      conn = await openConnection(opts);
     } catch (e) {
       res.status(502).json({ error: 'SSH connection failed', detail: String(e) });
       return;
@@ -134,7 +176,7 @@ remoteRouter.post('/probe', (req, res) => {
       const arch = osFull.trim();
 
       res.json({
-        host:          body.host,
+        host:          opts.host,
         lmsInstalled:  lmsFound,
         lmsVersion,
         platform,
@@ -156,7 +198,7 @@ remoteRouter.post('/probe', (req, res) => {
 // SSE: stream progress of the official lmstudio install one-liner.
 // On macOS/Linux: curl -fsSL https://lmstudio.ai/install.sh | bash
 // ---------------------------------------------------------------------------
-remoteRouter.post('/install/stream', (req, res) => {
+remoteRouter.post('/install/stream', requireAccess('mutate'), (req, res) => {
   res.setHeader('Content-Type',      'text/event-stream; charset=utf-8');
   res.setHeader('Cache-Control',     'no-cache');
   res.setHeader('Connection',        'keep-alive');
@@ -165,8 +207,10 @@ remoteRouter.post('/install/stream', (req, res) => {
 
   void (async () => {
     const totalSteps = 6;
-    const emit = (payload: Record<string, unknown>) =>
+    const emit = (payload: Record<string, unknown>) => {
+      if (payload['type'] === 'error' || payload['status'] === 'error') res.locals['sshFailed'] = true;
       res.write(`data: ${JSON.stringify(payload)}\n\n`);
+    };
     const emitLine = (type: 'info' | 'warn' | 'error', line: string) => emit({ type, line });
     const emitStep = (
       step: number,
@@ -183,8 +227,9 @@ remoteRouter.post('/install/stream', (req, res) => {
     });
 
     const body = req.body as ConnBody;
-    if (!body.host || !body.username) {
-      emitLine('error', 'host and username are required');
+    const opts = connOptsFromBody(body);
+    if (!opts) {
+      emitLine('error', CONN_REQUIRED);
       res.end(); return;
     }
 
@@ -193,8 +238,8 @@ remoteRouter.post('/install/stream', (req, res) => {
     let conn;
     emitStep(1, 'SSH connection', 'active');
     try {
-      conn = await openConnection({ ...connOptsFromBody(body), connectTimeout: 15_000 });
-      emitStep(1, 'SSH connection', 'done', `Connected to ${body.host}:${body.port ?? 22}`);
+      conn = await openConnection({ ...opts, connectTimeout: 15_000 });
+      emitStep(1, 'SSH connection', 'done', `Connected to ${opts.host}:${opts.port ?? 22}`);
     } catch (e) {
       emitStep(1, 'SSH connection', 'error', `SSH failed: ${String(e)}`);
       res.end(); return;
@@ -287,7 +332,7 @@ function isLifecycleAction(s: string): s is LifecycleAction {
   return s === 'start' || s === 'stop' || s === 'restart';
 }
 
-remoteRouter.post('/daemon/:action', (req, res) => {
+remoteRouter.post('/daemon/:action', requireAccess('operate'), (req, res) => {
   void (async () => {
     const action = req.params['action'] ?? '';
     if (!isLifecycleAction(action)) {
@@ -295,19 +340,23 @@ remoteRouter.post('/daemon/:action', (req, res) => {
       return;
     }
 
+    // A per-target operate grant covers that target's saved login, not ad-hoc hosts
     const body = req.body as ConnBody;
-    if (!body.host || !body.username) {
-      res.status(400).json({ error: 'host and username are required' });
+    const user = res.locals['user'] as AuthPayload;
+    const opts = connOptsFromBody(user.role === 'admin' ? body : { nodeId: body.nodeId, host: '', username: '' });
+    if (!opts) {
+      res.status(400).json({ error: CONN_REQUIRED });
       return;
     }
 
     let conn;
     try {
-      conn = await openConnection(connOptsFromBody(body));
+      conn = await openConnection(opts);
     } catch (e) {
       res.status(502).json({ error: 'SSH connection failed', detail: String(e) });
       return;
     }
+    if (action !== 'start' && typeof body.nodeId === 'string') expectUnload(body.nodeId);
 
     try {
       const platform = await detectPlatform(conn);
@@ -361,17 +410,17 @@ remoteRouter.post('/daemon/:action', (req, res) => {
 // POST /survey
 // Run `lms runtime survey --json` and return parsed GPU/VRAM data.
 // ---------------------------------------------------------------------------
-remoteRouter.post('/survey', (req, res) => {
+remoteRouter.post('/survey', requireConnAccess, (req, res) => {
   void (async () => {
-    const body = req.body as ConnBody;
-    if (!body.host || !body.username) {
-      res.status(400).json({ error: 'host and username are required' });
+    const opts = connOptsFromBody(req.body as ConnBody);
+    if (!opts) {
+      res.status(400).json({ error: CONN_REQUIRED });
       return;
     }
 
     let conn;
     try {
-      conn = await openConnection(connOptsFromBody(body));
+      conn = await openConnection(opts);
     } catch (e) {
       res.status(502).json({ error: 'SSH connection failed', detail: String(e) });
       return;
@@ -399,17 +448,17 @@ remoteRouter.post('/survey', (req, res) => {
 // Read the LM Studio permission (API) key from the remote ~/.lmstudio config.
 // Returns { key } if found, or { key: null } if not present.
 // ---------------------------------------------------------------------------
-remoteRouter.post('/key-scrape', (req, res) => {
+remoteRouter.post('/key-scrape', requireAccess('mutate'), (req, res) => {
   void (async () => {
-    const body = req.body as ConnBody;
-    if (!body.host || !body.username) {
-      res.status(400).json({ error: 'host and username are required' });
+    const opts = connOptsFromBody(req.body as ConnBody);
+    if (!opts) {
+      res.status(400).json({ error: CONN_REQUIRED });
       return;
     }
 
     let conn;
     try {
-      conn = await openConnection(connOptsFromBody(body));
+      conn = await openConnection(opts);
     } catch (e) {
       res.status(502).json({ error: 'SSH connection failed', detail: String(e) });
       return;
@@ -459,3 +508,53 @@ remoteRouter.post('/key-scrape', (req, res) => {
     }
   })();
 });
+
+// ---------------------------------------------------------------------------
+// /credentials/:nodeId — saved SSH login for a registered target.
+// Secrets are sealed with DP_MASTER_KEY; GET returns metadata only.
+// ---------------------------------------------------------------------------
+remoteRouter.get('/credentials/:nodeId', requireAccess('read'), (req, res) => {
+  const nodeId = req.params['nodeId'] ?? '';
+  if (!getTarget(nodeId)) { res.status(404).json({ error: `Unknown target: ${nodeId}` }); return; }
+  const saved = describeSshCredentials(nodeId);
+  res.json(saved ? { saved: true, ...saved } : { saved: false });
+});
+
+remoteRouter.put('/credentials/:nodeId', requireAccess('mutate'), (req, res) => {
+  const nodeId = req.params['nodeId'] ?? '';
+  if (!getTarget(nodeId)) { res.status(404).json({ error: `Unknown target: ${nodeId}` }); return; }
+
+  const body = req.body as Partial<ConnBody>;
+  const username = typeof body.username === 'string' ? body.username.trim() : '';
+  if (!username) { res.status(400).json({ error: 'username is required' }); return; }
+  if (!body.privateKey && !body.password) {
+    res.status(400).json({ error: 'Either privateKey or password must be provided' });
+    return;
+  }
+  const port = body.port ?? 22;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    res.status(400).json({ error: 'port must be between 1 and 65535' });
+    return;
+  }
+
+  try {
+    saveSshCredentials(nodeId, {
+      username,
+      port,
+      ...(body.privateKey ? { privateKey: body.privateKey } : { password: body.password ?? '' }),
+    });
+  } catch (e) {
+    if (e instanceof SecretBoxError) {
+      res.status(503).json({ error: e.message, hint: 'Set DP_MASTER_KEY in .env and restart the bridge' });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to save credentials', detail: String(e) });
+    return;
+  }
+  res.json({ ok: true, saved: true, ...describeSshCredentials(nodeId) });
+});
+
+remoteRouter.delete('/credentials/:nodeId', requireAccess('mutate'), (req, res) => {
+  const nodeId = req.params['nodeId'] ?? '';
+  res.json({ ok: true, deleted: deleteSshCredentials(nodeId) });
+});
@@ -0,0 +1,28 @@
+/**
+ * Session Routes — /api/sessions (admin)
+ *
+ *   GET    /api/sessions       every live session: user, IP, user agent, issued / last seen
+ *   DELETE /api/sessions/:id   revoke one session; its holder is signed out on the next request
+ */
+
+import { Router } from 'express';
+import { requireAdmin, type AuthPayload } from '../middleware/auth';
+import { listActiveSessions, revokeSession } from '../lib/sessions';
+
+export const sessionsRouter = Router();
+
+sessionsRouter.get('/', requireAdmin, (_req, res) => {
+  const me = res.locals['user'] as AuthPayload;
+  res.json({
+    sessions: listActiveSessions().map(s => ({ ...s, current: s.id === me.sid })),
+  });
+});
+
+sessionsRouter.delete('/:id', requireAdmin, (req, res) => {
+  const id = String(req.params['id'] ?? '');
+  if (!revokeSession(id)) {
+    res.status(404).json({ error: 'Session not found or already ended' });
+    return;
+  }
+  res.json({ ok: true });
+});
@@ -0,0 +1,86 @@
+/**
+ * Setup Routes — /api/setup (public, first run only)
+ *
+ *   GET  /api/setup/status   { needsSetup }
+ *   POST /api/setup          { setupCode, username, password } → first admin + signed-in session
+ *
+ * Both stop working for good once any account exists. Wrong setup codes
+ * count against the same throttle as failed logins.
+ */
+
+import { Router } from 'express';
+import bcrypt from 'bcrypt';
+import { getDb } from '../db/schema';
+import { BCRYPT_ROUNDS, USERNAME_RE, strongPasswordError } from '../lib/accounts';
+import { checkSetupCode, clearSetupCode, needsSetup } from '../lib/setup';
+import { checkLoginAllowed, recordLoginFailure, recordAuthEvent } from '../lib/loginThrottle';
+import { createSession, setRefreshCookie, signAccessToken } from '../lib/sessions';
+
+export const setupRouter = Router();
+
+const THROTTLE_KEY = 'first-run-setup';
+
+setupRouter.get('/status', (_req, res) => {
+  res.json({ needsSetup: needsSetup() });
+});
+
+setupRouter.post('/', (req, res) => {
+  void (async () => {
+    if (!needsSetup()) {
+      res.status(409).json({ error: 'Setup has already been completed — sign in instead' });
+      return;
+    }
+
+    const ip      = req.ip ?? 'unknown';
+    const verdict = checkLoginAllowed(THROTTLE_KEY, ip);
+    if (!verdict.allowed) {
+      res.setHeader('Retry-After', String(verdict.retryAfter));
+      res.status(429).json({ error: 'Too many attempts', retryAfter: verdict.retryAfter });
+      return;
+    }
+
+    const { setupCode, username, password } = req.body as { setupCode?: string; username?: string; password?: string };
+    if (!checkSetupCode(setupCode ?? '')) {
+      const after = recordLoginFailure(THROTTLE_KEY, ip);
+      res.status(403).json({
+        error: 'Setup code is incorrect — copy it from the bridge console output',
+        ...(after.retryAfter > 0 && { retryAfter: after.retryAfter }),
+      });
+      return;
+    }
+    if (typeof username !== 'string' || !USERNAME_RE.test(username)) {
+      res.status(400).json({ error: 'Username must be 3–32 characters: letters, digits, . _ -' });
+      return;
+    }
+    const weak = strongPasswordError(password, username);
+    if (weak) {
+      res.status(400).json({ error: weak });
+      return;
+    }
+
+    const hash = await bcrypt.hash(password as string, BCRYPT_ROUNDS);
+    const db   = getDb();
+
+    // Re-check inside the transaction so two concurrent submissions cannot both win
+    const userId = db.transaction(() => {
+      if (!needsSetup()) return null;
+      const info = db.prepare("INSERT INTO users (username, password_hash, role) VALUES (?, ?, 'admin')").run(username, hash);
+      return Number(info.lastInsertRowid);
+    })();
+    if (userId === null) {
+      res.status(409).json({ error: 'Setup has already been completed — sign in instead' });
+      return;
+    }
+
+    clearSetupCode();
+    recordAuthEvent('login_success', username, ip, 'first-run setup created the initial admin');
+    console.log(`[DaemonPulse Bridge] First-run setup complete — admin "${username}" created`);
+
+    const session = createSession(userId, req);
+    setRefreshCookie(req, res, session.refreshToken);
+    res.status(201).json({
+      token: signAccessToken({ sub: userId, username, role: 'admin', sid: session.sessionId }),
+      sessionExpiresAt: session.expiresAt,
+    });
+  })();
+});
@@ -0,0 +1,64 @@
+/**
+ * API Token Routes — /api/tokens
+ *
+ *   GET    /api/tokens          your live tokens; admins see everyone's    (signed-in session)
+ *   POST   /api/tokens          create { name, scope, expiresInDays? }     (signed-in session)
+ *   DELETE /api/tokens/:id      revoke your token, or any token as admin   (signed-in session)
+ *
+ * The plaintext token is only in the POST response. Tokens cannot be used to
+ * call these routes — creating or revoking tokens needs a dashboard session.
+ */
+
+import { Router } from 'express';
+import { requireSession, type AuthPayload } from '../middleware/auth';
+import {
+  createApiToken, isApiTokenScope, listApiTokens, revokeApiToken, scopeAllowedFor, tokenOwner,
+} from '../lib/apiTokens';
+
+export const tokensRouter = Router();
+
+const MAX_NAME_LEN    = 64;
+const MAX_EXPIRY_DAYS = 3650;
+
+tokensRouter.get('/', requireSession, (_req, res) => {
+  const me = res.locals['user'] as AuthPayload;
+  res.json({ tokens: listApiTokens(me.role === 'admin' ? undefined : me.sub) });
+});
+
+tokensRouter.post('/', requireSession, (req, res) => {
+  const me = res.locals['user'] as AuthPayload;
+  const { name, scope, expiresInDays = null } = req.body as { name?: unknown; scope?: unknown; expiresInDays?: unknown };
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LEN) {
+    res.status(400).json({ error: `name is required (max ${MAX_NAME_LEN} characters)` });
+    return;
+  }
+  if (!isApiTokenScope(scope)) {
+    res.status(400).json({ error: "scope must be 'read', 'inference' or 'operator'" });
+    return;
+  }
+  if (!scopeAllowedFor(me.role, scope)) {
+    res.status(403).json({ error: 'Only admins can create operator tokens' });
+    return;
+  }
+  if (expiresInDays !== null &&
+      (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+    res.status(400).json({ error: `expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}, or null` });
+    return;
+  }
+
+  const { token, summary } = createApiToken(me.sub, name.trim(), scope, expiresInDays);
+  res.status(201).json({ ok: true, token, apiToken: summary });
+});
+
+tokensRouter.delete('/:id', requireSession, (req, res) => {
+  const me    = res.locals['user'] as AuthPayload;
+  const id    = Number(req.params['id']);
+  const owner = tokenOwner(id);
+  if (owner === undefined || (owner !== me.sub && me.role !== 'admin')) {
+    res.status(404).json({ error: 'Token not found' });
+    return;
+  }
+  revokeApiToken(id);
+  res.json({ ok: true });
+});
@@ -0,0 +1,77 @@
+/**
+ * Usage Routes — /api/usage (signed in)
+ *
+ *   GET /api/usage          totals, daily rollups and top consumers + filter facets
+ *   GET /api/usage/export   daily rollup per user, model and target as CSV
+ *   GET /api/usage/budget   your own quota, tokens used this day / month and when they reset
+ *   GET /api/usage/events   recent soft-limit warnings and hard-limit refusals (lib/quotas)
+ *
+ * Filters (query string): user, model, target, from / to (ISO timestamps).
+ * Admins see everyone's usage and budget events; other users only their
+ * own, whatever `user` says.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import {
+  usageDaily, usageExportRows, usageFacets, usageTop, usageTotals, type UsageExportRow, type UsageFilter,
+} from '../lib/usage';
+import { listQuotaEvents, quotaStatus } from '../lib/quotas';
+import type { AuthPayload } from '../middleware/auth';
+
+export const usageRouter = Router();
+
+function parseFilter(req: Request, res: Response): UsageFilter {
+  const user = res.locals['user'] as AuthPayload;
+  const q = req.query as Record<string, unknown>;
+  const str = (k: string) => (typeof q[k] === 'string' && q[k] ? q[k] : undefined);
+  return {
+    ...(user.role === 'admin' ? { user: str('user') } : { userId: user.sub }),
+    model:  str('model'),
+    target: str('target'),
+    from:   str('from'),
+    to:     str('to'),
+  };
+}
+
+usageRouter.get('/', (req, res) => {
+  const user   = res.locals['user'] as AuthPayload;
+  const filter = parseFilter(req, res);
+  res.json({
+    totals: usageTotals(filter),
+    daily:  usageDaily(filter),
+    top: {
+      users:   user.role === 'admin' ? usageTop(filter, 'user') : [],
+      models:  usageTop(filter, 'model'),
+      targets: usageTop(filter, 'target'),
+    },
+    ...usageFacets(user.role === 'admin' ? undefined : user.sub),
+  });
+});
+
+const CSV_COLUMNS: (keyof UsageExportRow)[] = [
+  'day', 'username', 'model', 'target', 'requests', 'promptTokens', 'completionTokens', 'totalTokens',
+];
+
+/** Quoted as needed; text a spreadsheet would run as a formula (=, +, -, @, tab, CR) gets a leading '. */
+function csvCell(v: unknown): string {
+  let s = String(v ?? '');
+  if (typeof v === 'string' && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+usageRouter.get('/export', (req, res) => {
+  const rows  = usageExportRows(parseFilter(req, res));
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  res.setHeader('Content-Disposition', `attachment; filename="daemonpulse-usage-${stamp}.csv"`);
+  const lines = [CSV_COLUMNS.join(','), ...rows.map(r => CSV_COLUMNS.map(c => csvCell(r[c])).join(','))];
+  res.type('text/csv').send(`${lines.join('\r\n')}\r\n`);
+});
+
+usageRouter.get('/budget', (_req, res) => {
+  res.json(quotaStatus((res.locals['user'] as AuthPayload).sub));
+});
+
+usageRouter.get('/events', (_req, res) => {
+  const user = res.locals['user'] as AuthPayload;
+  res.json({ events: listQuotaEvents(user.role === 'admin' ? undefined : user.sub) });
+});
@@ -0,0 +1,303 @@
+/**
+ * User Routes — /api/users
+ *
+ *   GET    /api/users                 list accounts                  (admin)
+ *   POST   /api/users                 create account                 (admin)
+ *   PATCH  /api/users/:id             change role / enable / disable (admin)
+ *   DELETE /api/users/:id             delete account                 (admin)
+ *   POST   /api/users/:id/password    reset someone's password       (admin)
+ *   GET    /api/users/:id/targets     per-target grants              (admin)
+ *   PUT    /api/users/:id/targets     replace per-target grants      (admin)
+ *   GET    /api/users/:id/quota       token budgets, model limits, usage (admin)
+ *   PUT    /api/users/:id/quota       replace them                   (admin)
+ *   POST   /api/users/me/password     change your own password       (any signed-in user)
+ *
+ * The bridge always keeps at least one enabled admin: the last one cannot be
+ * demoted, disabled or deleted, and admins cannot lock themselves out.
+ * Password changes and disabling an account end the affected sessions; an
+ * admin reset also lifts any failed-login lockout on the account.
+ * SSO-provisioned accounts (lib/oidc) have no password to change or reset.
+ * Target grants (lib/targetAcl) only affect viewers; an empty list means
+ * "every target, view only". Quotas (lib/quotas) apply to any role; an
+ * empty quota removes every limit.
+ */
+
+import { Router } from 'express';
+import bcrypt from 'bcrypt';
+import { getDb } from '../db/schema';
+import { requireSession, requireAdmin, type AuthPayload } from '../middleware/auth';
+import { revokeUserSessions } from '../lib/sessions';
+import { clearLoginFailures } from '../lib/loginThrottle';
+import { BCRYPT_ROUNDS, USERNAME_RE, passwordError } from '../lib/accounts';
+import { isSsoUser } from '../lib/oidc';
+import { getTarget } from '../lib/targets';
+import { listTargetAcl, setTargetAcl, isTargetPermission, type TargetAclEntry } from '../lib/targetAcl';
+import { parseQuota, quotaStatus, setQuota } from '../lib/quotas';
+
+export const usersRouter = Router();
+
+type Role = 'admin' | 'viewer';
+
+interface UserRow {
+  id:         number;
+  username:   string;
+  role:       Role;
+  disabled:   number;
+  totp_enabled: number;
+  auth_source: 'local' | 'oidc';
+  created_at: string;
+}
+
+function toJson(row: UserRow) {
+  return {
+    id:        row.id,
+    username:  row.username,
+    role:      row.role,
+    disabled:  row.disabled === 1,
+    twoFactor: row.totp_enabled === 1,
+    sso:       row.auth_source === 'oidc',
+    createdAt: row.created_at,
+  };
+}
+
+function findUser(id: number): UserRow | undefined {
+  return getDb()
+    .prepare<number, UserRow>('SELECT id, username, role, disabled, totp_enabled, auth_source, created_at FROM users WHERE id = ?')
+    .get(id);
+}
+
+function activeAdminCount(): number {
+  return getDb()
+    .prepare<[], { n: number }>("SELECT COUNT(*) AS n FROM users WHERE role = 'admin' AND disabled = 0")
+    .get()?.n ?? 0;
+}
+
+const isRole = (v: unknown): v is Role => v === 'admin' || v === 'viewer';
+
+const SSO_PASSWORD_ERROR = 'This account signs in with SSO — its password is managed by the identity provider';
+
+// ---------------------------------------------------------------------------
+// Self-service — registered before /:id so "me" is not parsed as an id
+// ---------------------------------------------------------------------------
+
+usersRouter.post('/me/password', requireSession, (req, res) => {
+  void (async () => {
+    const me = res.locals['user'] as AuthPayload;
+    const { currentPassword, newPassword } = req.body as { currentPassword?: string; newPassword?: string };
+
+    if (isSsoUser(me.sub)) {
+      res.status(400).json({ error: SSO_PASSWORD_ERROR });
+      return;
+    }
+    if (!currentPassword) {
+      res.status(400).json({ error: 'currentPassword is required' });
+      return;
+    }
+    const invalid = passwordError(newPassword);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const db  = getDb();
+    const row = db.prepare<number, { password_hash: string }>('SELECT password_hash FROM users WHERE id = ?').get(me.sub);
+    if (!row || !(await bcrypt.compare(currentPassword, row.password_hash))) {
+      res.status(403).json({ error: 'Current password is incorrect' });
+      return;
+    }
+
+    const hash = await bcrypt.hash(newPassword as string, BCRYPT_ROUNDS);
+    db.prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(hash, me.sub);
+    revokeUserSessions(me.sub, me.sid);   // sign out other devices, keep this one
+    res.json({ ok: true });
+  })();
+});
+
+// ---------------------------------------------------------------------------
+// Admin
+// ---------------------------------------------------------------------------
+
+usersRouter.get('/', requireAdmin, (_req, res) => {
+  const rows = getDb()
+    .prepare<[], UserRow>('SELECT id, username, role, disabled, totp_enabled, auth_source, created_at FROM users ORDER BY username COLLATE NOCASE')
+    .all();
+  res.json({ users: rows.map(toJson) });
+});
+
+usersRouter.post('/', requireAdmin, (req, res) => {
+  void (async () => {
+    const { username, password, role = 'viewer' } = req.body as { username?: string; password?: string; role?: unknown };
+
+    if (typeof username !== 'string' || !USERNAME_RE.test(username)) {
+      res.status(400).json({ error: 'Username must be 3–32 characters: letters, digits, . _ -' });
+      return;
+    }
+    const invalid = passwordError(password);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+    if (!isRole(role)) {
+      res.status(400).json({ error: "role must be 'admin' or 'viewer'" });
+      return;
+    }
+
+    const db = getDb();
+    if (db.prepare<string, { id: number }>('SELECT id FROM users WHERE username = ? COLLATE NOCASE').get(username)) {
+      res.status(409).json({ error: `User "${username}" already exists` });
+      return;
+    }
+
+    const hash = await bcrypt.hash(password as string, BCRYPT_ROUNDS);
+    const info = db.prepare('INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?)').run(username, hash, role);
+    res.status(201).json({ ok: true, user: toJson(findUser(Number(info.lastInsertRowid))!) });
+  })();
+});
+
+usersRouter.patch('/:id', requireAdmin, (req, res) => {
+  const me   = res.locals['user'] as AuthPayload;
+  const id   = Number(req.params['id']);
+  const user = findUser(id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  const { role, disabled } = req.body as { role?: unknown; disabled?: unknown };
+  if (role !== undefined && !isRole(role)) {
+    res.status(400).json({ error: "role must be 'admin' or 'viewer'" });
+    return;
+  }
+  if (disabled !== undefined && typeof disabled !== 'boolean') {
+    res.status(400).json({ error: 'disabled must be a boolean' });
+    return;
+  }
+
+  const nextRole     = role ?? user.role;
+  const nextDisabled = disabled ?? user.disabled === 1;
+
+  if (id === me.sub && (nextRole !== 'admin' || nextDisabled)) {
+    res.status(400).json({ error: 'You cannot demote or disable your own account' });
+    return;
+  }
+  const wasActiveAdmin = user.role === 'admin' && user.disabled === 0;
+  if (wasActiveAdmin && (nextRole !== 'admin' || nextDisabled) && activeAdminCount() <= 1) {
+    res.status(400).json({ error: 'At least one enabled admin account is required' });
+    return;
+  }
+
+  getDb().prepare('UPDATE users SET role = ?, disabled = ? WHERE id = ?').run(nextRole, nextDisabled ? 1 : 0, id);
+  if (nextDisabled) revokeUserSessions(id);
+  res.json({ ok: true, user: toJson(findUser(id)!) });
+});
+
+usersRouter.delete('/:id', requireAdmin, (req, res) => {
+  const me   = res.locals['user'] as AuthPayload;
+  const id   = Number(req.params['id']);
+  const user = findUser(id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+  if (id === me.sub) {
+    res.status(400).json({ error: 'You cannot delete your own account' });
+    return;
+  }
+  if (user.role === 'admin' && user.disabled === 0 && activeAdminCount() <= 1) {
+    res.status(400).json({ error: 'At least one enabled admin account is required' });
+    return;
+  }
+
+  getDb().prepare('DELETE FROM users WHERE id = ?').run(id);
+  res.json({ ok: true });
+});
+
+usersRouter.post('/:id/password', requireAdmin, (req, res) => {
+  void (async () => {
+    const id   = Number(req.params['id']);
+    const user = findUser(id);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    if (user.auth_source === 'oidc') {
+      res.status(400).json({ error: SSO_PASSWORD_ERROR });
+      return;
+    }
+    const { password } = req.body as { password?: string };
+    const invalid = passwordError(password);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const hash = await bcrypt.hash(password as string, BCRYPT_ROUNDS);
+    getDb().prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(hash, id);
+    revokeUserSessions(id);
+    clearLoginFailures(user.username);
+    res.json({ ok: true });
+  })();
+});
+
+usersRouter.get('/:id/targets', requireAdmin, (req, res) => {
+  const id = Number(req.params['id']);
+  if (!findUser(id)) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+  res.json({ entries: listTargetAcl(id) });
+});
+
+usersRouter.put('/:id/targets', requireAdmin, (req, res) => {
+  const id = Number(req.params['id']);
+  if (!findUser(id)) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+  const { entries } = req.body as { entries?: unknown };
+  if (!Array.isArray(entries)) {
+    res.status(400).json({ error: 'entries must be an array of { targetId, level }' });
+    return;
+  }
+
+  const parsed = new Map<string, TargetAclEntry>();
+  for (const e of entries as { targetId?: unknown; level?: unknown }[]) {
+    if (typeof e?.targetId !== 'string' || !isTargetPermission(e.level)) {
+      res.status(400).json({ error: "Each entry needs a targetId and a level of 'view' or 'operate'" });
+      return;
+    }
+    if (!getTarget(e.targetId)) {
+      res.status(400).json({ error: `Unknown target: ${e.targetId}` });
+      return;
+    }
+    parsed.set(e.targetId, { targetId: e.targetId, level: e.level });
+  }
+
+  setTargetAcl(id, [...parsed.values()]);
+  res.json({ ok: true, entries: listTargetAcl(id) });
+});
+
+usersRouter.get('/:id/quota', requireAdmin, (req, res) => {
+  const id = Number(req.params['id']);
+  if (!findUser(id)) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+  res.json(quotaStatus(id));
+});
+
+// Body: { dailySoft, dailyHard, monthlySoft, monthlyHard, maxTokensPerRequest, allowedModels } — null = no limit
+usersRouter.put('/:id/quota', requireAdmin, (req, res) => {
+  const id = Number(req.params['id']);
+  if (!findUser(id)) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+  const parsed = parseQuota(req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  setQuota(id, parsed.value);
+  res.json({ ok: true, ...quotaStatus(id) });
+});
@@ -0,0 +1,22 @@
+/**
+ * tempDb — Import first in a test file that touches SQLite, before anything
+ * that opens the database. Points DB_PATH at a fresh file in a temporary
+ * directory (removed on exit; each test file runs in its own process) and
+ * sets a throwaway master key so secrets can be sealed. Nothing listens at
+ * DAEMON_API_URL, so a test never reaches a real daemon.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'daemonpulse-test-'));
+
+process.env['DB_PATH']        = path.join(dir, 'test.db');
+process.env['DP_MASTER_KEY']  = randomBytes(32).toString('hex');
+process.env['DAEMON_API_URL'] = 'http://127.0.0.1:1';
+delete process.env['DP_MASTER_KEY_PREVIOUS'];
+delete process.env['JWT_SECRET'];
+
+process.on('exit', () => rmSync(dir, { recursive: true, force: true }));
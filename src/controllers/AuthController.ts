@@ -4,27 +4,53 @@
 
 import { EventBus }    from '@/core/EventBus';
 import { Store }       from '@/core/Store';
-import { AuthService } from '@/services/AuthService';
+import { AuthService, type LoginResult } from '@/services/AuthService';
 import { Router }      from '@/core/Router';
 
 export class AuthController {
-  async login(username: string, password: string): Promise<{ success: boolean; error?: string }> {
-    const result = await AuthService.login(username, password);
+  async login(username: string, password: string): Promise<LoginResult> {
+    return this.settle(await AuthService.login(username, password));
+  }
+
+  /**
+   * Second sign-in step. When 2FA was just set up the result carries
+   * recovery codes and the caller must show them, then call finishLogin().
+   */
+  async verifyMfa(mfaToken: string, code: string): Promise<LoginResult> {
+    return this.settle(await AuthService.verifyMfa(mfaToken, code));
+  }
+
+  /** First-run setup: creates the initial admin and signs them in. */
+  async completeSetup(setupCode: string, username: string, password: string): Promise<LoginResult> {
+    return this.settle(await AuthService.completeSetup(setupCode, username, password));
+  }
+
+  /** Back from the identity provider: pick up the session the SSO callback created. */
+  async completeSso(): Promise<LoginResult> {
+    return this.settle(await AuthService.completeSso());
+  }
+
+  /** Enter the app with the token stored by the last successful step. */
+  finishLogin(): void {
+    // Decode user info from the token and push into the store
+    const token = AuthService.getToken()!;
+    const payload = JSON.parse(atob(token.split('.')[1]!)) as {
+      sub: number;
+      username: string;
+      role: 'admin' | 'viewer';
+    };
+    const user = { id: payload.sub, username: payload.username, role: payload.role, createdAt: new Date() };
+    Store.setUser(user);
+    // Navigate BEFORE emitting AUTH_SUCCESS so the Shell's Store subscriber
+    // already sees the /fleet route when it reacts to the state change.
+    Router.navigate('/fleet');
+    EventBus.emit({ type: 'AUTH_SUCCESS', payload: user });
+  }
+
+  private settle(result: LoginResult): LoginResult {
     if (result.success) {
-      // Decode user info from the token and push into the store
-      const token = AuthService.getToken()!;
-      const payload = JSON.parse(atob(token.split('.')[1]!)) as {
-        sub: number;
-        username: string;
-        role: 'admin' | 'viewer';
-      };
-      const user = { id: payload.sub, username: payload.username, role: payload.role, createdAt: new Date() };
-      Store.setUser(user);
-      // Navigate BEFORE emitting AUTH_SUCCESS so the Shell's Store subscriber
-      // already sees the /fleet route when it reacts to the state change.
-      Router.navigate('/fleet');
-      EventBus.emit({ type: 'AUTH_SUCCESS', payload: user });
-    } else {
+      if (!result.recoveryCodes) this.finishLogin();
+    } else if (!result.mfa) {
       EventBus.emit({ type: 'AUTH_FAILED', payload: { reason: result.error ?? 'Unknown error' } });
     }
     return result;
@@ -69,6 +69,12 @@ export class DaemonController {
     }
   }
 
+  /** Refresh the targets (and access levels) the Sidebar and Access helpers read. */
+  async refreshTargets(): Promise<void> {
+    const result = await this.daemon.listTargets();
+    if (result.success && result.data) Store.setTargets(result.data.targets, result.data.activeId);
+  }
+
   private activeNodeId(): string {
     return Store.getState().activeNodeId ?? 'local';
   }
@@ -0,0 +1,35 @@
+/**
+ * Access — Client-side view of what the signed-in role may do.
+ *
+ * Mirrors the bridge's route access levels (server/middleware/auth.ts):
+ * viewers get `read` + `inference`, only admins get `mutate`. `operate`
+ * (load/eject, lifecycle) follows the per-target grant on the active target,
+ * as reported with the target list. The bridge is the enforcement point —
+ * views use this purely to hide or disable actions that would otherwise
+ * fail with 403.
+ */
+
+import { Store } from './Store';
+
+/** Tooltip for controls disabled because of the current role */
+export const ADMIN_ONLY_TITLE = 'Requires the admin role';
+
+/** Tooltip for controls disabled because the active target is view-only for this user */
+export const OPERATE_ONLY_TITLE = 'Requires operate permission on the active target';
+
+export const Access = {
+  canMutate(): boolean {
+    return Store.getState().currentUser?.role === 'admin';
+  },
+
+  /** Load/eject and lifecycle on the active target. */
+  canOperate(): boolean {
+    const id = Store.getState().activeTargetId;
+    return Access.canMutate() || (id !== null && Access.canOperateTarget(id));
+  },
+
+  canOperateTarget(targetId: string): boolean {
+    const state = Store.getState();
+    return state.currentUser?.role === 'admin' || state.targets.find(t => t.id === targetId)?.access === 'operate';
+  },
+} as const;
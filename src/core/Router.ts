@@ -16,10 +16,13 @@ export type Route =
   | '/console'
   | '/settings'
   | '/remote'
-  | '/login';
+  | '/audit'
+  | '/usage'
+  | '/login'
+  | '/setup';
 
 const VALID_ROUTES = new Set<Route>([
-  '/fleet', '/forge', '/pulse', '/toolchain', '/console', '/settings', '/remote', '/login',
+  '/fleet', '/forge', '/pulse', '/toolchain', '/console', '/settings', '/remote', '/audit', '/usage', '/login', '/setup',
 ]);
 
 function isValidRoute(path: string): path is Route {
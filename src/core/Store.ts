@@ -9,12 +9,16 @@
  * and notifies observers. It never fetches data itself.
  */
 
-import type { ILMSNode, IModel, IUser, IInferenceSlot } from '@/types';
+import type { ILMSNode, IModel, IUser, IInferenceSlot, ITargetSummary, ICircuitStatus, IAlert } from '@/types';
 import { EventBus } from './EventBus';
 
 interface IAppState {
   readonly currentUser: IUser | null;
   readonly activeNodeId: string | null;
+  readonly targets: ReadonlyArray<ITargetSummary>;   // daemon targets visible to the current user
+  readonly activeTargetId: string | null;
+  readonly circuits: ReadonlyMap<string, ICircuitStatus>;   // targetId → breaker state (health stream)
+  readonly alerts: ReadonlyArray<IAlert>;   // open alerts on visible targets (health stream)
   readonly nodes: ReadonlyMap<string, ILMSNode>;
   readonly loadedModels: ReadonlyMap<string, IModel>;   // nodeId → active model
   readonly inferenceSlots: ReadonlyArray<IInferenceSlot>;
@@ -28,6 +32,10 @@ class StoreClass {
   private state: IAppState = {
     currentUser: null,
     activeNodeId: null,
+    targets: [],
+    activeTargetId: null,
+    circuits: new Map(),
+    alerts: [],
     nodes: new Map(),
     loadedModels: new Map(),
     inferenceSlots: [],
@@ -61,6 +69,18 @@ class StoreClass {
     this.setState({ activeNodeId: nodeId });
   }
 
+  setTargets(targets: ITargetSummary[], activeTargetId: string): void {
+    this.setState({ targets, activeTargetId });
+  }
+
+  setCircuits(circuits: Record<string, ICircuitStatus>): void {
+    this.setState({ circuits: new Map(Object.entries(circuits)) });
+  }
+
+  setAlerts(alerts: IAlert[]): void {
+    this.setState({ alerts });
+  }
+
   upsertNode(node: ILMSNode): void {
     const nodes = new Map(this.state.nodes);
     nodes.set(node.nodeId, node);
@@ -63,22 +63,30 @@ function boot(): void {
   // Start heartbeat if we have a node
   if (AuthService.isAuthenticated()) {
     heartbeatService.start();
+    void controllers.daemon.refreshTargets();
   }
 
-  // Restore daemon permission key from localStorage to the running proxy server.
-  // This ensures the key survives a browser refresh even if the proxy was restarted
-  // without DAEMON_API_KEY set in .env.
-  const storedDaemonKey = localStorage.getItem('dp_daemon_key');
-  if (storedDaemonKey) {
-    void fetch('/api/proxy/config/daemon-key', {
-      method:  'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body:    JSON.stringify({ key: storedDaemonKey }),
-    });
-  }
+  // Permission keys are now stored encrypted by the bridge. Drop the plaintext
+  // copy older builds kept in localStorage.
+  localStorage.removeItem('dp_daemon_key');
 
   // Begin heartbeat after login
-  EventBus.on('AUTH_SUCCESS', () => heartbeatService.start());
+  EventBus.on('AUTH_SUCCESS', () => {
+    heartbeatService.start();
+    void controllers.daemon.refreshTargets();
+  });
+
+  // Circuit-breaker state arrives with every health event
+  EventBus.on('CIRCUITS_UPDATED', ({ payload }) => Store.setCircuits(payload.circuits));
+
+  // So do the open alerts on visible targets (shown in the Sidebar)
+  EventBus.on('ALERTS_UPDATED', ({ payload }) => Store.setAlerts(payload.alerts));
+
+  // The selected target is per session — follow it when this tab switches
+  EventBus.on('TARGET_SELECTED', () => {
+    heartbeatService.restart();
+    void controllers.daemon.refreshTargets();
+  });
 }
 
 boot();
@@ -1,16 +1,22 @@
 /**
  * AuthService — Client-side token storage and validation.
  *
- * Stores the JWT with persistence across tabs/reloads:
+ * Stores the short-lived access JWT with persistence across tabs/reloads:
  *   1) sessionStorage (fast path)
  *   2) localStorage  (survives browser restarts)
  *   3) cookie fallback (same-origin, SameSite=Lax)
  *
+ * The refresh token lives in an httpOnly cookie set by the bridge and is never
+ * visible here. When the access token expires, apiFetch() calls
+ * /api/auth/refresh and retries, so users are only sent to /login once the
+ * server-side session itself has ended.
+ *
  * Never hardcodes credentials. Actual credential verification happens server-side.
  */
 
-const TOKEN_KEY = 'dp_auth_token';
-const TOKEN_COOKIE = 'dp_auth_token';
+const TOKEN_KEY       = 'dp_auth_token';
+const TOKEN_COOKIE    = 'dp_auth_token';
+const SESSION_EXP_KEY = 'dp_session_expires';   // ISO expiry of the server-side session
 
 /**
  * Thrown by AuthService.apiFetch() when a 401 is received.
@@ -24,7 +30,36 @@ export class AuthRedirectError extends Error {
   }
 }
 
+/**
+ * Outcome of a sign-in step. retryAfter (seconds) is set when the bridge is
+ * throttling; mfa + mfaToken mean the password was accepted and a second
+ * factor (or 2FA enrollment) is still needed.
+ */
+export interface LoginResult {
+  success:            boolean;
+  error?:             string;
+  retryAfter?:        number;
+  mfa?:               'verify' | 'enroll';
+  mfaToken?:          string;
+  recoveryCodes?:     string[];   // issued once, when 2FA was set up during sign-in
+  recoveryCodesLeft?: number;     // set after signing in with a recovery code
+}
+
+interface TokenResponse {
+  token:              string;
+  sessionExpiresAt:   string;
+  recoveryCodes?:     string[];
+  recoveryCodesLeft?: number;
+}
+
+interface MfaChallengeResponse {
+  mfa:      'verify' | 'enroll';
+  mfaToken: string;
+}
+
 export class AuthService {
+  private static refreshing: Promise<boolean> | null = null;
+
   static getToken(): string | null {
     const inSession = sessionStorage.getItem(TOKEN_KEY);
     if (inSession) return inSession;
@@ -45,37 +80,35 @@ export class AuthService {
     return null;
   }
 
-  static setToken(token: string): void {
+  static setToken(token: string, sessionExpiresAt: string): void {
     sessionStorage.setItem(TOKEN_KEY, token);
     localStorage.setItem(TOKEN_KEY, token);
+    localStorage.setItem(SESSION_EXP_KEY, sessionExpiresAt);
 
-    const maxAge = this.tokenMaxAgeSeconds(token);
-    this.writeCookie(TOKEN_COOKIE, token, maxAge ?? 8 * 60 * 60);
+    // Keep the cookie copy for the life of the session, not just the access token
+    const maxAge = Math.max(1, Math.floor((Date.parse(sessionExpiresAt) - Date.now()) / 1000));
+    this.writeCookie(TOKEN_COOKIE, token, Number.isFinite(maxAge) ? maxAge : 8 * 60 * 60);
   }
 
   static clearToken(): void {
     sessionStorage.removeItem(TOKEN_KEY);
     localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(SESSION_EXP_KEY);
     this.clearCookie(TOKEN_COOKIE);
   }
 
+  /**
+   * True while the server-side session is believed alive. The access token
+   * itself may already be expired — apiFetch() refreshes it on demand.
+   */
   static isAuthenticated(): boolean {
     const token = this.getToken();
     if (!token) return false;
 
-    // Decode the JWT payload (no verification — server handles that)
-    try {
-      const [, payloadB64] = token.split('.');
-      if (!payloadB64) return false;
-      const payload = JSON.parse(atob(payloadB64)) as { exp?: number };
-      if (payload.exp === undefined) return false;
-      const valid = Date.now() / 1000 < payload.exp;
-      if (!valid) this.clearToken();
-      return valid;
-    } catch {
-      this.clearToken();
-      return false;
-    }
+    const sessionExp = Date.parse(localStorage.getItem(SESSION_EXP_KEY) ?? '');
+    const valid      = Number.isFinite(sessionExp) && Date.now() < sessionExp;
+    if (!valid) this.clearToken();
+    return valid;
   }
 
   static getPersistenceStatus(): {
@@ -96,18 +129,6 @@ export class AuthService {
     return { persisted: false, source: 'session' };
   }
 
-  private static tokenMaxAgeSeconds(token: string): number | null {
-    try {
-      const [, payloadB64] = token.split('.');
-      if (!payloadB64) return null;
-      const payload = JSON.parse(atob(payloadB64)) as { exp?: number };
-      if (payload.exp === undefined) return null;
-      return Math.max(1, Math.floor(payload.exp - Date.now() / 1000));
-    } catch {
-      return null;
-    }
-  }
-
   private static readCookie(name: string): string | null {
     const prefix = `${name}=`;
     const entry = document.cookie.split(';').map(c => c.trim()).find(c => c.startsWith(prefix));
@@ -127,20 +148,28 @@ export class AuthService {
   /**
    * Thin fetch wrapper that intercepts 401 responses globally.
    * Views should prefer this over bare fetch() for authenticated requests.
-   * On 401: clears the token and redirects to /login so users are never
+   * On 401: refreshes the access token once and retries. If the session is
+   * gone, clears the token and redirects to /login so users are never
    * stuck on a blank error banner.
    */
   static async apiFetch(input: RequestInfo, init?: RequestInit): Promise<Response> {
-    const authHeader: Record<string, string> = {
-      Authorization: `Bearer ${this.getToken() ?? ''}`,
+    const send = () => {
+      const authHeader: Record<string, string> = {
+        Authorization: `Bearer ${this.getToken() ?? ''}`,
+      };
+      const existingHeaders = (init?.headers ?? {}) as Record<string, string>;
+      const mergedHeaders: HeadersInit = {
+        'Content-Type': 'application/json',
+        ...existingHeaders,
+        ...authHeader,
+      };
+      return fetch(input, { ...init, headers: mergedHeaders });
     };
-    const existingHeaders = (init?.headers ?? {}) as Record<string, string>;
-    const mergedHeaders: HeadersInit = {
-      'Content-Type': 'application/json',
-      ...existingHeaders,
-      ...authHeader,
-    };
-    const res = await fetch(input, { ...init, headers: mergedHeaders });
+
+    let res = await send();
+    if (res.status === 401 && await this.refresh()) {
+      res = await send();
+    }
     if (res.status === 401) {
       this.clearToken();
       // Lazy import to avoid circular dependency
@@ -155,29 +184,133 @@ export class AuthService {
     return res;
   }
 
+  /**
+   * Trade the httpOnly refresh cookie for a new access token. Concurrent
+   * callers share one in-flight request so the refresh token rotates once.
+   */
+  static refresh(): Promise<boolean> {
+    this.refreshing ??= (async () => {
+      try {
+        const res = await fetch('/api/auth/refresh', { method: 'POST' });
+        if (!res.ok) return false;
+        const { token, sessionExpiresAt } = await res.json() as TokenResponse;
+        this.setToken(token, sessionExpiresAt);
+        return true;
+      } catch {
+        return false;
+      }
+    })().finally(() => { this.refreshing = null; });
+    return this.refreshing;
+  }
+
   /** Exchange username + password for a JWT from the bridge server */
-  static async login(username: string, password: string): Promise<{ success: boolean; error?: string }> {
+  static login(username: string, password: string): Promise<LoginResult> {
+    return this.signInStep('/api/auth/login', { username, password });
+  }
+
+  /** Second sign-in step: a TOTP code or a recovery code for the pending challenge. */
+  static verifyMfa(mfaToken: string, code: string): Promise<LoginResult> {
+    return this.signInStep('/api/auth/mfa/verify', { mfaToken, code });
+  }
+
+  /** True while the bridge has no accounts and serves the first-run setup flow. */
+  static async needsSetup(): Promise<boolean> {
+    try {
+      const res = await fetch('/api/setup/status');
+      return res.ok && ((await res.json()) as { needsSetup: boolean }).needsSetup;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Create the first admin with the console setup code; signs in on success. */
+  static completeSetup(setupCode: string, username: string, password: string): Promise<LoginResult> {
+    return this.signInStep('/api/setup', { setupCode, username, password });
+  }
+
+  /** Whether the bridge offers single sign-on, and the button label to show. */
+  static async ssoConfig(): Promise<{ enabled: boolean; label: string }> {
+    try {
+      const res = await fetch('/api/auth/oidc');
+      if (!res.ok) return { enabled: false, label: '' };
+      const d = (await res.json()) as { enabled: boolean; label: string | null };
+      return { enabled: d.enabled, label: d.label ?? 'Sign in with SSO' };
+    } catch {
+      return { enabled: false, label: '' };
+    }
+  }
+
+  /** Full-page redirect into the identity provider; it returns to /?sso=ok#/login. */
+  static startSso(): void {
+    window.location.assign('/api/auth/oidc/start');
+  }
+
+  /** After the SSO callback: the bridge has set the refresh cookie, trade it for a token. */
+  static async completeSso(): Promise<LoginResult> {
+    return (await this.refresh())
+      ? { success: true }
+      : { success: false, error: 'Single sign-on did not complete — try again' };
+  }
+
+  /** Forced enrollment during sign-in — returns the new secret and its QR code. */
+  static async startMfaEnrollment(mfaToken: string): Promise<{ secret: string; qr: string } | { error: string }> {
+    try {
+      const res = await fetch('/api/auth/mfa/enroll', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mfaToken }),
+      });
+      const d = await res.json().catch(() => ({})) as { secret?: string; qr?: string; error?: string };
+      if (res.ok && d.secret && d.qr) return { secret: d.secret, qr: d.qr };
+      return { error: d.error ?? `Enrollment failed (HTTP ${res.status})` };
+    } catch (err) {
+      return { error: String(err) };
+    }
+  }
+
+  private static async signInStep(url: string, body: Record<string, string>): Promise<LoginResult> {
     try {
-      const res = await fetch('/api/auth/login', {
+      const res = await fetch(url, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username, password }),
+        body: JSON.stringify(body),
       });
 
       if (res.ok) {
-        const { token } = await res.json() as { token: string };
-        this.setToken(token);
-        return { success: true };
+        const d = await res.json() as TokenResponse | MfaChallengeResponse;
+        if ('mfa' in d) return { success: false, mfa: d.mfa, mfaToken: d.mfaToken };
+        this.setToken(d.token, d.sessionExpiresAt);
+        return {
+          success: true,
+          ...(d.recoveryCodes && { recoveryCodes: d.recoveryCodes }),
+          ...(d.recoveryCodesLeft !== undefined && { recoveryCodesLeft: d.recoveryCodesLeft }),
+        };
       }
 
-      const { error } = await res.json() as { error?: string };
-      return { success: false, error: error ?? 'Login failed' };
+      const { error, retryAfter } = await res.json().catch(() => ({})) as { error?: string; retryAfter?: number };
+      const wait = retryAfter ?? Number(res.headers.get('Retry-After') ?? 0);
+      return { success: false, error: error ?? 'Login failed', ...(wait > 0 && { retryAfter: wait }) };
     } catch (err) {
       return { success: false, error: String(err) };
     }
   }
 
+  /** Revoke this session on the bridge (best effort), then forget the token. */
   static logout(): void {
+    const token = this.getToken();
+    void fetch('/api/auth/logout', {
+      method:    'POST',
+      keepalive: true,
+      headers:   token ? { Authorization: `Bearer ${token}` } : {},
+    }).catch(() => { /* offline — the session still expires server-side */ });
+    this.clearToken();
+  }
+
+  /** Revoke every session of the current user, including this one. */
+  static async logoutEverywhere(): Promise<void> {
+    try {
+      await this.apiFetch('/api/auth/logout-all', { method: 'POST' });
+    } catch { /* already signed out */ }
     this.clearToken();
   }
 }
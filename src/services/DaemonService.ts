@@ -10,7 +10,7 @@
  */
 
 import type {
-  IApiResult, ILMSNode, IVRAMEstimate, IModelLoadConfig, DaemonState,
+  IApiResult, ILMSNode, IVRAMEstimate, IModelLoadConfig, DaemonState, ITargetSummary,
   ILMSChatRequest, ILMSChatResponse,
   ILMSv0ChatRequest, ILMSv0ChatResponse,
   ILMSv0CompletionRequest, ILMSv0CompletionResponse,
@@ -115,6 +115,16 @@ export class DaemonService {
     return this.get('/api/proxy/models');
   }
 
+  // --- Targets ---
+
+  /**
+   * Daemon targets the signed-in user may see, each with their access level.
+   * activeId is this session's target; initialId the bridge-wide fallback.
+   */
+  async listTargets(): Promise<IApiResult<{ activeId: string; initialId: string; targets: ITargetSummary[] }>> {
+    return this.get('/api/proxy/config/targets');
+  }
+
   // --- Inference ---
 
   /**
@@ -162,7 +172,7 @@ export class DaemonService {
   private async get<T>(path: string): Promise<IApiResult<T>> {
     const start = performance.now();
     try {
-      const res = await fetch(`${this.baseUrl}${path}`, { headers: this.authHeaders() });
+      const res = await AuthService.apiFetch(`${this.baseUrl}${path}`);
       const latencyMs = performance.now() - start;
       if (res.ok) return { success: true, data: await res.json() as T, latencyMs };
       return { success: false, latencyMs };
@@ -174,9 +184,9 @@ export class DaemonService {
   private async post<T>(path: string, body?: unknown): Promise<IApiResult<T>> {
     const start = performance.now();
     try {
-      const res = await fetch(`${this.baseUrl}${path}`, {
+      // apiFetch adds the bearer token and refreshes it transparently on 401
+      const res = await AuthService.apiFetch(`${this.baseUrl}${path}`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
         ...(body !== undefined && { body: JSON.stringify(body) }),
       });
       const latencyMs = performance.now() - start;
@@ -186,9 +196,4 @@ export class DaemonService {
       return { success: false, error: String(err), latencyMs: performance.now() - start };
     }
   }
-
-  private authHeaders(): Record<string, string> {
-    const token = AuthService.getToken();
-    return token ? { Authorization: `Bearer ${token}` } : {};
-  }
 }
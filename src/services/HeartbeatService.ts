@@ -1,12 +1,15 @@
 /**
  * HeartbeatService — Daemon health monitoring via proxy SSE health stream.
  *
- * The proxy owns the poll cycle (GET /api/v0/models every 15 s server-side).
- * The client subscribes to the resulting SSE stream and re-emits EventBus events.
+ * The proxy owns the poll cycle: one shared poller per target (GET /api/v0/models
+ * every 15 s while running, backing off while down, faster around state changes),
+ * fanned out to every open stream. The client subscribes to the resulting SSE
+ * stream and re-emits EventBus events.
  *
  * Scout / Active / Reversion pattern is preserved at the *reconnect* level:
  *   SCOUTING  — SSE connected, receiving server-driven 15 s pulses (idle state).
- *   ACTIVE    — user action detected; fires POST /health/probe for immediate reading.
+ *   ACTIVE    — user action detected; fires POST /health/probe?force=1 for immediate reading
+ *               (which also puts the bridge's poller on its fast schedule).
  *   REVERSION — returns to SCOUTING 15 s after the last user action.
  *
  * Architecture note: moving the poll to the server reduces client network overhead
@@ -16,6 +19,7 @@
 import { AuthService } from './AuthService';
 import { EventBus }    from '@/core/EventBus';
 import type { DaemonService } from './DaemonService';
+import type { IAlert, ICircuitStatus } from '@/types';
 
 type HeartbeatMode = 'IDLE' | 'SCOUTING' | 'ACTIVE';
 type DaemonState   = 'running' | 'stopped' | 'stalled';
@@ -26,6 +30,8 @@ const RECONNECT_DELAY_MS  = 5_000;
 interface HealthEvent {
   state:     DaemonState;
   latencyMs: number;
+  circuits?: Record<string, ICircuitStatus>;   // breaker state of every visible target
+  alerts?:   IAlert[];                         // open alerts on visible targets
 }
 
 export class HeartbeatService {
@@ -56,6 +62,13 @@ export class HeartbeatService {
     this.mode = 'IDLE';
   }
 
+  /** Reopen the stream — it stays on the target it was opened for, so call this after switching. */
+  restart(): void {
+    if (this.mode === 'IDLE') return;
+    this.stop();
+    this.start();
+  }
+
   /**
    * Call on any user-initiated action (model load, config change, etc.).
    * Fires an immediate one-shot probe without waiting for the next 15 s pulse.
@@ -111,7 +124,7 @@ export class HeartbeatService {
           if (!payload) continue;
           try {
             const evt = JSON.parse(payload) as HealthEvent;
-            this.dispatch(evt.state, evt.latencyMs);
+            this.dispatch(evt.state, evt.latencyMs, evt.circuits, evt.alerts);
           } catch { /* malformed event — skip */ }
         }
       }
@@ -130,11 +143,11 @@ export class HeartbeatService {
   private async probe(): Promise<void> {
     const start = performance.now();
     try {
-      const res = await AuthService.apiFetch('/api/proxy/health/probe', { method: 'POST' });
+      const res = await AuthService.apiFetch('/api/proxy/health/probe?force=1', { method: 'POST' });
       const latencyMs = performance.now() - start;
       if (res.ok) {
         const evt = await res.json() as HealthEvent;
-        this.dispatch(evt.state, evt.latencyMs);
+        this.dispatch(evt.state, evt.latencyMs, evt.circuits, evt.alerts);
       } else {
         this.dispatch('stopped', latencyMs);
       }
@@ -147,9 +160,11 @@ export class HeartbeatService {
   // Helpers
   // ---------------------------------------------------------------------------
 
-  private dispatch(state: DaemonState, latencyMs: number): void {
+  private dispatch(state: DaemonState, latencyMs: number, circuits?: Record<string, ICircuitStatus>, alerts?: IAlert[]): void {
     EventBus.emit({ type: 'DAEMON_STATE_CHANGED', payload: { nodeId: this.nodeId, state } });
     EventBus.emit({ type: 'HEARTBEAT_TICK',        payload: { nodeId: this.nodeId, latencyMs } });
+    if (circuits) EventBus.emit({ type: 'CIRCUITS_UPDATED', payload: { circuits } });
+    if (alerts)   EventBus.emit({ type: 'ALERTS_UPDATED',   payload: { alerts } });
   }
 
   private scheduleReconnect(): void {
@@ -11,12 +11,46 @@
 
 export type NodeStatus = 'online' | 'offline' | 'unreachable' | 'booting';
 export type DaemonState = 'running' | 'stopped' | 'stalled';
+
+/** Bridge-side circuit breaker per target — open means requests are routed elsewhere. */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ICircuitStatus {
+  state:     CircuitState;
+  failures:  number;          // consecutive
+  retryAt:   string | null;   // ISO — when an open circuit lets a trial request through
+  lastError: string | null;
+}
+
+/** What a bridge alert rule watches (server/lib/alerts). */
+export type AlertKind = 'health' | 'vram' | 'gpu_temp' | 'model_unloaded' | 'log_error';
+
+/** An alert raised by a bridge rule — open while resolvedAt is null. */
+export interface IAlert {
+  id:             number;
+  ruleId:         number;
+  ruleName:       string;
+  kind:           AlertKind;
+  targetId:       string;
+  targetLabel:    string;
+  subject:        string;          // GPU or model the alert is about; '' = the whole target
+  message:        string;
+  value:          number | null;
+  occurrences:    number;
+  startedAt:      string;          // ISO
+  lastSeenAt:     string;
+  resolvedAt:     string | null;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  silenced:       boolean;         // its rule sends no notifications right now
+}
 export type OS = 'linux' | 'windows' | 'macOS';
 export type DaemonMode = 'local' | 'remote';
 
 /**
  * A saved daemon target — one entry per LM Studio host the UI can control.
- * Stored in localStorage as JSON array under 'dp_targets'.
+ * Persisted by the bridge in SQLite (nodes / node_tokens); the key is never
+ * returned to the browser — list responses carry a masked keyHint instead.
  */
 export interface IDaemonTarget {
   id:      string;   // uuid-lite: Date.now() + random
@@ -28,6 +62,18 @@ export interface IDaemonTarget {
   os?:     OS;       // hint for lifecycle commands (systemctl vs net start)
 }
 
+/**
+ * What the signed-in user may do on a target (server/lib/targetAcl):
+ * `view` — monitor and run inference; `operate` — also load/eject and lifecycle.
+ */
+export type TargetPermission = 'view' | 'operate';
+
+/** A target as listed by GET /api/proxy/config/targets — only those the user may see. */
+export interface ITargetSummary extends Omit<IDaemonTarget, 'key'> {
+  keyHint?: string;
+  access:   TargetPermission;
+}
+
 export interface ILMSNode {
   readonly nodeId: string;
   label: string;
@@ -40,24 +86,30 @@ export interface ILMSNode {
   lastSeen: Date;
 }
 
+/** Normalised `lms runtime survey` (GET /api/proxy/runtime/survey); unreported values are null or absent. */
 export interface IHardwareInfo {
   gpus: IGPUInfo[];
   totalVram: number;       // GB
-  systemRam: number;       // GB
-  os: OS;
+  systemRam: number | null; // GB
+  os: OS | null;
+  cpu?: string;
   cudaVersion?: string;
   metalSupported?: boolean;
   vulkanVersion?: string;
+  runtime?: string;        // the runtime that ran the survey
+  surveyError?: string;    // the survey's own complaint, e.g. a missing driver
+  surveyedAt?: string;     // ISO
 }
 
 export interface IGPUInfo {
   index: number;
   name: string;
   totalVram: number;       // GB
-  usedVram: number;        // GB
+  usedVram: number | null; // GB; null when not reported
   temperature?: number;    // Celsius
   utilisation?: number;    // 0–100 %
   driverStatus: 'ok' | 'error' | 'unknown';
+  backend?: 'CUDA' | 'Vulkan' | 'Metal' | 'ROCm';
 }
 
 // ---------------------------------------------------------------------------
@@ -343,6 +395,9 @@ export type AppEvent =
   | { type: 'LOG_LINE';              payload: { nodeId: string; line: string; source: 'runtime' | 'server' } }
   | { type: 'KPI_UPDATED';           payload: IPerformanceKPIs }
   | { type: 'HEARTBEAT_TICK';        payload: { nodeId: string; latencyMs: number } }
+  | { type: 'CIRCUITS_UPDATED';      payload: { circuits: Record<string, ICircuitStatus> } }
+  | { type: 'ALERTS_UPDATED';        payload: { alerts: IAlert[] } }
+  | { type: 'TARGET_SELECTED';       payload: { targetId: string } }
   | { type: 'AUTH_SUCCESS';          payload: IUser }
   | { type: 'AUTH_FAILED';           payload: { reason: string } }
   | { type: 'NAVIGATION';            payload: { route: string } }
@@ -0,0 +1,318 @@
+/**
+ * AuditView — Admin-only trail of every mutating proxy/remote call.
+ *
+ * Reads GET /api/audit (newest first, 100 per page) with filters for user,
+ * target, outcome, free text and date range. Export downloads the filtered
+ * set from GET /api/audit/export as CSV or JSON — fetched with the bearer
+ * header and saved via a blob URL, since a plain link cannot authenticate.
+ */
+
+import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+type Outcome = 'ok' | 'error' | 'denied' | 'aborted';
+
+interface AuditEntry {
+  id:         number;
+  at:         string;
+  username:   string;
+  via:        string;
+  target:     string | null;
+  method:     string;
+  route:      string;
+  params:     unknown;
+  status:     number;
+  outcome:    Outcome;
+  error:      string | null;
+  durationMs: number;
+  ip:         string | null;
+}
+
+interface Filters {
+  user:    string;
+  target:  string;
+  outcome: '' | Outcome;
+  q:       string;
+  from:    string;   // yyyy-mm-dd
+  to:      string;
+}
+
+const PAGE_SIZE = 100;
+
+const OUTCOME_STYLE: Record<Outcome, string> = {
+  ok:      'text-emerald-400 border-emerald-900',
+  error:   'text-red-400 border-red-900',
+  denied:  'text-amber-400 border-amber-900',
+  aborted: 'text-slate-400 border-slate-700',
+};
+
+const SELECT_CLASS = 'bg-slate-800 border border-slate-700 rounded-lg px-2.5 py-1.5 text-[12px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer';
+const INPUT_CLASS  = 'bg-slate-800 border border-slate-700 rounded-lg px-2.5 py-1.5 text-[12px] text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export class AuditView {
+  private entries: AuditEntry[] = [];
+  private total   = 0;
+  private offset  = 0;
+  private users:   string[] = [];
+  private targets: string[] = [];
+  private loading = true;
+  private error   = '';
+  private filters: Filters = { user: '', target: '', outcome: '', q: '', from: '', to: '' };
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly root: HTMLElement) {}
+
+  mount(): void {
+    if (Store.getState().currentUser?.role !== 'admin') {
+      this.root.innerHTML = `
+        <div class="max-w-5xl">
+          <h2 class="text-lg font-bold text-white tracking-tight">Audit Log</h2>
+          <p class="text-xs text-slate-500 mt-2">The audit log is only available to admins.</p>
+        </div>`;
+      return;
+    }
+    this.render();
+    void this.load();
+  }
+
+  unmount(): void {
+    if (this.searchTimer) clearTimeout(this.searchTimer);
+  }
+
+  /** Filters as a query string; `from`/`to` become whole-day bounds in local time. */
+  private query(extra: Record<string, string> = {}): string {
+    const p = new URLSearchParams();
+    const f = this.filters;
+    if (f.user)    p.set('user', f.user);
+    if (f.target)  p.set('target', f.target);
+    if (f.outcome) p.set('outcome', f.outcome);
+    if (f.q.trim()) p.set('q', f.q.trim());
+    if (f.from) p.set('from', new Date(`${f.from}T00:00:00`).toISOString());
+    if (f.to)   p.set('to',   new Date(`${f.to}T23:59:59`).toISOString());
+    for (const [k, v] of Object.entries(extra)) p.set(k, v);
+    return p.toString();
+  }
+
+  private async load(): Promise<void> {
+    this.loading = true;
+    try {
+      const res = await AuthService.apiFetch(`/api/audit?${this.query({ limit: String(PAGE_SIZE), offset: String(this.offset) })}`);
+      const d = (await res.json().catch(() => ({}))) as {
+        entries?: AuditEntry[]; total?: number; users?: string[]; targets?: string[]; error?: string;
+      };
+      if (res.ok) {
+        this.entries = d.entries ?? [];
+        this.total   = d.total ?? 0;
+        this.users   = d.users ?? [];
+        this.targets = d.targets ?? [];
+        this.error   = '';
+      } else {
+        this.error = d.error ?? `Failed to load audit log (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.loading = false;
+    this.render();
+  }
+
+  private async exportAs(format: 'csv' | 'json'): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch(`/api/audit/export?${this.query({ format })}`);
+      if (!res.ok) {
+        this.error = `Export failed (HTTP ${res.status})`;
+        this.render();
+        return;
+      }
+      const name = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')?.[1] ?? `audit.${format}`;
+      const url  = URL.createObjectURL(await res.blob());
+      const a    = document.createElement('a');
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch { /* redirecting to login */ }
+  }
+
+  private applyFilters(): Promise<void> {
+    this.offset = 0;
+    return this.load();
+  }
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+
+  private render(): void {
+    const f = this.filters;
+    const option = (value: string, label: string, current: string) =>
+      `<option value="${esc(value)}" ${value === current ? 'selected' : ''}>${esc(label)}</option>`;
+    const lastShown = Math.min(this.offset + this.entries.length, this.total);
+
+    this.root.innerHTML = `
+      <div class="space-y-5 max-w-6xl">
+
+        <div class="flex items-center justify-between">
+          <div>
+            <h2 class="text-lg font-bold text-white tracking-tight">Audit Log</h2>
+            <p class="text-xs text-slate-500 mt-0.5">Every state-changing proxy and remote call · secrets redacted</p>
+          </div>
+          <div class="flex gap-2">
+            <button id="audit-export-csv"
+              class="px-3 py-1.5 rounded-lg border border-slate-700 text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors">
+              Export CSV
+            </button>
+            <button id="audit-export-json"
+              class="px-3 py-1.5 rounded-lg border border-slate-700 text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors">
+              Export JSON
+            </button>
+          </div>
+        </div>
+
+        <!-- Filters -->
+        <div class="flex flex-wrap items-end gap-2">
+          <label class="text-[10px] text-slate-500">User<br>
+            <select id="audit-f-user" class="${SELECT_CLASS}">
+              ${option('', 'Everyone', f.user)}
+              ${this.users.map(u => option(u, u, f.user)).join('')}
+            </select>
+          </label>
+          <label class="text-[10px] text-slate-500">Target<br>
+            <select id="audit-f-target" class="${SELECT_CLASS}">
+              ${option('', 'All targets', f.target)}
+              ${this.targets.map(t => option(t, t, f.target)).join('')}
+            </select>
+          </label>
+          <label class="text-[10px] text-slate-500">Outcome<br>
+            <select id="audit-f-outcome" class="${SELECT_CLASS}">
+              ${option('', 'Any', f.outcome)}
+              ${(['ok', 'error', 'denied', 'aborted'] as const).map(o => option(o, o, f.outcome)).join('')}
+            </select>
+          </label>
+          <label class="text-[10px] text-slate-500">From<br>
+            <input id="audit-f-from" type="date" value="${esc(f.from)}" class="${INPUT_CLASS}">
+          </label>
+          <label class="text-[10px] text-slate-500">To<br>
+            <input id="audit-f-to" type="date" value="${esc(f.to)}" class="${INPUT_CLASS}">
+          </label>
+          <label class="text-[10px] text-slate-500 flex-1 min-w-[12rem]">Search<br>
+            <input id="audit-f-q" type="text" value="${esc(f.q)}" placeholder="route, parameter or error text" autocomplete="off"
+              class="${INPUT_CLASS} w-full">
+          </label>
+        </div>
+
+        ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+
+        <!-- Entries -->
+        <section class="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+          <table class="w-full text-left text-[12px]">
+            <thead class="text-[10px] uppercase tracking-wider text-slate-500 border-b border-slate-800">
+              <tr>
+                <th class="px-3 py-2 font-semibold">Time</th>
+                <th class="px-3 py-2 font-semibold">User</th>
+                <th class="px-3 py-2 font-semibold">Target</th>
+                <th class="px-3 py-2 font-semibold">Call</th>
+                <th class="px-3 py-2 font-semibold">Outcome</th>
+                <th class="px-3 py-2 font-semibold text-right">Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${this.loading && this.entries.length === 0
+                ? '<tr><td colspan="6" class="px-3 py-4 text-[11px] text-slate-700 font-mono">Loading…</td></tr>'
+                : this.entries.length === 0
+                  ? '<tr><td colspan="6" class="px-3 py-4 text-[11px] text-slate-600">No matching entries.</td></tr>'
+                  : this.entries.map(e => this.renderRow(e)).join('')}
+            </tbody>
+          </table>
+        </section>
+
+        <!-- Paging -->
+        <div class="flex items-center justify-between text-[11px] text-slate-500">
+          <span>${this.total === 0 ? '0 entries' : `${this.offset + 1}–${lastShown} of ${this.total}`}</span>
+          <div class="flex gap-2">
+            <button id="audit-prev" ${this.offset === 0 ? 'disabled' : ''}
+              class="px-3 py-1 rounded border border-slate-700 hover:bg-slate-800 disabled:opacity-30 disabled:pointer-events-none">‹ Newer</button>
+            <button id="audit-next" ${lastShown >= this.total ? 'disabled' : ''}
+              class="px-3 py-1 rounded border border-slate-700 hover:bg-slate-800 disabled:opacity-30 disabled:pointer-events-none">Older ›</button>
+          </div>
+        </div>
+      </div>
+    `;
+
+    this.bindEvents();
+  }
+
+  private renderRow(e: AuditEntry): string {
+    const params = JSON.stringify(e.params, null, 2);
+    return `
+      <tr class="border-b border-slate-800/60 align-top hover:bg-slate-800/30">
+        <td class="px-3 py-2 font-mono text-[11px] text-slate-400 whitespace-nowrap" title="${esc(e.at)}">
+          ${esc(new Date(e.at).toLocaleString())}
+        </td>
+        <td class="px-3 py-2 text-slate-300">
+          ${esc(e.username)}
+          ${e.via !== 'session' ? `<span class="block text-[10px] text-slate-600 font-mono">${esc(e.via)}</span>` : ''}
+        </td>
+        <td class="px-3 py-2 font-mono text-[11px] text-slate-400">${e.target ? esc(e.target) : '<span class="text-slate-700">—</span>'}</td>
+        <td class="px-3 py-2 min-w-0">
+          <details>
+            <summary class="cursor-pointer font-mono text-[11px] text-slate-200">
+              <span class="text-slate-500">${esc(e.method)}</span> ${esc(e.route)}
+            </summary>
+            <pre class="mt-1.5 text-[10px] text-slate-400 bg-slate-950 border border-slate-800 rounded p-2 overflow-x-auto max-h-48">${esc(params)}</pre>
+            ${e.ip ? `<p class="text-[10px] text-slate-600 font-mono mt-1">from ${esc(e.ip)}</p>` : ''}
+          </details>
+          ${e.error ? `<p class="text-[11px] text-red-400/80 mt-0.5 break-words">${esc(e.error)}</p>` : ''}
+        </td>
+        <td class="px-3 py-2 whitespace-nowrap">
+          <span class="text-[10px] font-semibold border rounded px-1.5 py-px ${OUTCOME_STYLE[e.outcome]}">${e.outcome}</span>
+          <span class="text-[10px] font-mono text-slate-600 ml-1">${e.status}</span>
+        </td>
+        <td class="px-3 py-2 text-right font-mono text-[11px] text-slate-500 whitespace-nowrap">${formatDuration(e.durationMs)}</td>
+      </tr>
+    `;
+  }
+
+  // ── Events ──────────────────────────────────────────────────────────────────
+
+  private bindEvents(): void {
+    const bindSelect = (id: string, key: 'user' | 'target' | 'outcome' | 'from' | 'to') => {
+      document.getElementById(id)?.addEventListener('change', (ev) => {
+        (this.filters[key] as string) = (ev.target as HTMLInputElement | HTMLSelectElement).value;
+        void this.applyFilters();
+      });
+    };
+    bindSelect('audit-f-user', 'user');
+    bindSelect('audit-f-target', 'target');
+    bindSelect('audit-f-outcome', 'outcome');
+    bindSelect('audit-f-from', 'from');
+    bindSelect('audit-f-to', 'to');
+
+    const search = document.getElementById('audit-f-q') as HTMLInputElement | null;
+    search?.addEventListener('input', () => {
+      this.filters.q = search.value;
+      if (this.searchTimer) clearTimeout(this.searchTimer);
+      this.searchTimer = setTimeout(() => {
+        void this.applyFilters().then(() => {
+          // Re-render replaced the input — restore focus and caret
+          const el = document.getElementById('audit-f-q') as HTMLInputElement | null;
+          el?.focus();
+          el?.setSelectionRange(el.value.length, el.value.length);
+        });
+      }, 300);
+    });
+
+    document.getElementById('audit-prev')?.addEventListener('click', () => {
+      this.offset = Math.max(0, this.offset - PAGE_SIZE);
+      void this.load();
+    });
+    document.getElementById('audit-next')?.addEventListener('click', () => {
+      this.offset += PAGE_SIZE;
+      void this.load();
+    });
+    document.getElementById('audit-export-csv')?.addEventListener('click', () => void this.exportAs('csv'));
+    document.getElementById('audit-export-json')?.addEventListener('click', () => void this.exportAs('json'));
+  }
+}
@@ -6,56 +6,88 @@
  *
  * Shows:
  *   - Daemon & server status strip (global header bar)
- *   - GPU diagnostic cards (VRAM, temp, utilisation, driver)
+ *   - GPU diagnostic cards (VRAM, temp, utilisation, driver) and system RAM
+ *     from the normalised hardware survey (GET /api/proxy/runtime/survey),
+ *     re-read every LIVE_REFRESH_MS for live VRAM use and temperature; when
+ *     the survey fails or reports nothing, that is said instead
  *   - Multi-GPU allocation strategy toggles
- *   - System RAM overview
+ *   - Availability of the active target: uptime over 24h/7d/30d, latency and
+ *     outages (GET /api/proxy/health/history)
+ *
+ * The kill switch (unload all models) is only rendered for admins.
  */
 
 import { EventBus }  from '@/core/EventBus';
 import { Store }     from '@/core/Store';
 import type { DaemonController } from '@/controllers/DaemonController';
-import type { IGPUInfo, GPUAllocationStrategy, DaemonState, IRunningModel } from '@/types';
+import type { IGPUInfo, IHardwareInfo, GPUAllocationStrategy, DaemonState, IRunningModel } from '@/types';
 import { renderStatusBadge } from '@/views/components/StatusBadge';
 import { AuthService }       from '@/services/AuthService';
+import { Access }            from '@/core/Access';
 
 // ---------------------------------------------------------------------------
-// Mock data — replaced by live daemon data once connected
+// Hardware — GET /api/proxy/runtime/survey
 // ---------------------------------------------------------------------------
 
-const MOCK_GPUS: IGPUInfo[] = [
-  {
-    index:        0,
-    name:         'NVIDIA RTX 4090',
-    totalVram:    24,
-    usedVram:     9.4,
-    temperature:  62,
-    utilisation:  78,
-    driverStatus: 'ok',
-  },
-  {
-    index:        1,
-    name:         'NVIDIA RTX 3060 12GB',
-    totalVram:    12,
-    usedVram:     0,
-    temperature:  38,
-    utilisation:  0,
-    driverStatus: 'ok',
-  },
+/** The bridge caches the survey itself; each read refreshes live VRAM use and temperature. */
+const LIVE_REFRESH_MS = 15_000;
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// ---------------------------------------------------------------------------
+// Health history — GET /api/proxy/health/history
+// ---------------------------------------------------------------------------
+
+type HealthRange = '24h' | '7d' | '30d';
+
+const HEALTH_RANGES: { key: HealthRange; label: string }[] = [
+  { key: '24h', label: '24 hours' },
+  { key: '7d',  label: '7 days' },
+  { key: '30d', label: '30 days' },
 ];
 
-const MOCK_RAM = { used: 18.2, total: 64 };
+interface LatencyPoint {
+  at:      string;
+  samples: number;
+  uptime:  number;          // 0–1
+  avgMs:   number | null;   // null when no sample found the daemon running
+  maxMs:   number | null;
+}
+
+interface Outage {
+  start:      string;
+  end:        string | null;   // null while ongoing
+  durationMs: number;
+  state:      'stopped' | 'stalled';
+}
+
+interface HealthReport {
+  range:   HealthRange;
+  uptime:  Record<HealthRange, number | null>;
+  latency: LatencyPoint[];
+  outages: Outage[];
+}
+
+function fmtDuration(ms: number): string {
+  const m = Math.round(ms / 60_000);
+  if (m < 1)  return '<1m';
+  if (m < 60) return `${m}m`;
+  const h = Math.floor(m / 60);
+  return h < 24 ? `${h}h ${m % 60}m` : `${Math.floor(h / 24)}d ${h % 24}h`;
+}
 
 // ---------------------------------------------------------------------------
 
 export class FleetView {
-  private gpus: IGPUInfo[]           = MOCK_GPUS;
-  private ramUsed                    = MOCK_RAM.used;
-  private ramTotal                   = MOCK_RAM.total;
+  private hardware: IHardwareInfo | null = null;
   private daemonState: DaemonState   = 'stopped';
   private allocation: GPUAllocationStrategy = 'priority';
   private liveInterval: ReturnType<typeof setInterval> | null = null;
   private runningModels: IRunningModel[] = [];
-  private surveyError    = false;
+  private surveyError: string | null = null;   // why the last survey failed
+  private healthRange: HealthRange = '24h';
+  private health: HealthReport | null = null;
+  private healthError    = false;
 
   constructor(
     private readonly root: HTMLElement,
@@ -65,11 +97,12 @@ export class FleetView {
   mount(): void {
     this.render();
     this.bindEventBus();
-    this.startMockLiveTick(); // Remove once real daemon is connected
+    this.startLiveRefresh();
     // Probe real daemon state immediately on mount
     void this.daemon.probe();
     void this.fetchRunning();
     void this.fetchSurvey();
+    void this.fetchHealth();
   }
 
   unmount(): void {
@@ -102,32 +135,8 @@ export class FleetView {
         <!-- Global control strip -->
         ${this.renderControlStrip()}
 
-        <!-- GPU cards grid -->
-        <section>
-          <h3 class="text-[11px] font-bold uppercase tracking-wider text-slate-500 mb-3">GPU Matrix</h3>
-          <div id="gpu-grid" class="grid grid-cols-1 lg:grid-cols-2 gap-4">
-            ${this.gpus.map(gpu => this.renderGpuCard(gpu)).join('')}
-          </div>
-        </section>
-
-        <!-- System RAM -->
-        <section class="bg-slate-900 border border-slate-800 rounded-xl p-5">
-          <div class="flex items-center justify-between mb-3">
-            <h3 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">System RAM</h3>
-            <span class="text-xs font-mono text-slate-400" id="ram-text">
-              ${this.ramUsed.toFixed(1)} / ${this.ramTotal} GB
-            </span>
-          </div>
-          <div class="w-full bg-slate-800 rounded-full h-2">
-            <div id="ram-bar"
-              class="h-2 rounded-full transition-all duration-700 ${this.ramBarColour()}"
-              style="width: ${this.pct(this.ramUsed, this.ramTotal)}%">
-            </div>
-          </div>
-          <p class="text-[10px] text-slate-600 mt-2">
-            Strict VRAM limits prevent model layers spilling into system RAM — keeping tok/sec high.
-          </p>
-        </section>
+        <!-- GPU cards grid + system RAM -->
+        ${this.renderHardware()}
 
         <!-- GPU Allocation Strategy -->
         ${this.renderAllocationSection()}
@@ -135,6 +144,9 @@ export class FleetView {
         <!-- Memory State (lms ps) -->
         ${this.renderMemoryState()}
 
+        <!-- Availability (health history) -->
+        ${this.renderAvailability()}
+
       </div>
     `;
 
@@ -145,29 +157,28 @@ export class FleetView {
   // Hardware survey + running model fetch
   // ---------------------------------------------------------------------------
 
-  private async fetchSurvey(): Promise<void> {
+  private async fetchSurvey(fresh = false): Promise<void> {
     try {
-      const res = await AuthService.apiFetch('/api/proxy/runtime/survey');
-      if (!res.ok) { this.surveyError = true; return; }
-      // Survey returns GPU list — map onto this.gpus if real data available
-      const json = await res.json() as { gpus?: Array<{ index: number; name: string; totalVramGb: number; freeVramGb?: number; architecture?: string }> } | { error?: string };
-      if ('error' in json) { this.surveyError = true; return; }
-      const gpus = (json as { gpus?: Array<{ index: number; name: string; totalVramGb: number; freeVramGb?: number; architecture?: string }> }).gpus;
-      if (gpus && gpus.length > 0) {
-        this.gpus = gpus.map(g => {
-          const gpu: IGPUInfo = {
-            index:        g.index,
-            name:         g.name,
-            totalVram:    g.totalVramGb,
-            usedVram:     g.freeVramGb !== undefined ? g.totalVramGb - g.freeVramGb : 0,
-            driverStatus: 'ok',
-          };
-          return gpu;
-        });
-        const grid = document.getElementById('gpu-grid');
-        if (grid) grid.innerHTML = this.gpus.map(g => this.renderGpuCard(g)).join('');
+      const res  = await AuthService.apiFetch(`/api/proxy/runtime/survey${fresh ? '?fresh=1' : ''}`);
+      const json = await res.json().catch(() => ({})) as IHardwareInfo | { error?: string; detail?: string };
+      if (res.ok && 'gpus' in json) {
+        this.hardware    = json;
+        this.surveyError = null;
+      } else {
+        const err = json as { error?: string; detail?: string };
+        this.hardware    = null;
+        this.surveyError = err.detail ?? err.error ?? `HTTP ${res.status}`;
       }
-    } catch { this.surveyError = true; }
+    } catch {
+      this.hardware    = null;
+      this.surveyError = 'The bridge did not answer';
+    }
+    this.refreshHardware();
+  }
+
+  private refreshHardware(): void {
+    const section = document.getElementById('fleet-hardware');
+    if (section) section.outerHTML = this.renderHardware();
   }
 
   private async fetchRunning(): Promise<void> {
@@ -185,6 +196,99 @@ export class FleetView {
     } catch { /* keep empty */ }
     const memSection = document.getElementById('fleet-memory-state');
     if (memSection) memSection.outerHTML = this.renderMemoryState();
+    this.refreshHardware();   // system RAM shows what loaded models hold
+  }
+
+  private async fetchHealth(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch(`/api/proxy/health/history?range=${this.healthRange}`);
+      this.healthError = !res.ok;
+      this.health      = res.ok ? await res.json() as HealthReport : null;
+    } catch {
+      this.healthError = true;
+      this.health      = null;
+    }
+    this.refreshAvailability();
+  }
+
+  private refreshAvailability(): void {
+    const section = document.getElementById('fleet-availability');
+    if (!section) return;
+    section.outerHTML = this.renderAvailability();
+    this.bindAvailability();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sub-render: Hardware (GPU matrix + system RAM)
+  // ---------------------------------------------------------------------------
+
+  private renderHardware(): string {
+    const hw = this.hardware;
+    return `
+      <div id="fleet-hardware" class="space-y-6">
+        <section>
+          <div class="flex items-center justify-between gap-3 mb-3">
+            <h3 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">GPU Matrix</h3>
+            ${hw ? `<p class="text-[10px] text-slate-600 font-mono truncate">${esc(this.platformLine(hw))}</p>` : ''}
+          </div>
+          ${!hw
+            ? `<div class="bg-slate-900 border border-slate-800 rounded-xl p-5 text-center">
+                 ${this.surveyError === null
+                   ? '<p class="text-[11px] text-slate-700 font-mono">Surveying hardware…</p>'
+                   : `<p class="text-[11px] text-slate-400">No hardware data for this target</p>
+                      <p class="text-[10px] text-slate-600 font-mono mt-1 break-all">${esc(this.surveyError)}</p>`}
+               </div>`
+            : hw.gpus.length === 0
+              ? `<div class="bg-slate-900 border border-slate-800 rounded-xl p-5 text-center">
+                   <p class="text-[11px] text-slate-400">The survey reported no GPUs — models run on the CPU</p>
+                   ${hw.surveyError ? `<p class="text-[10px] text-red-400 font-mono mt-1">${esc(hw.surveyError)}</p>` : ''}
+                 </div>`
+              : `<div id="gpu-grid" class="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                   ${hw.gpus.map(gpu => this.renderGpuCard(gpu)).join('')}
+                 </div>
+                 ${hw.surveyError ? `<p class="text-[10px] text-orange-400 font-mono mt-2">${esc(hw.surveyError)}</p>` : ''}`}
+        </section>
+
+        ${this.renderSystemRam(hw)}
+      </div>
+    `;
+  }
+
+  /** "CUDA 12.4 · Vulkan 1.3.275 · linux · AMD Ryzen 9 · surveyed 14:02" — only what the survey reported */
+  private platformLine(hw: IHardwareInfo): string {
+    return [
+      hw.cudaVersion   ? `CUDA ${hw.cudaVersion}`     : '',
+      hw.vulkanVersion ? `Vulkan ${hw.vulkanVersion}` : '',
+      hw.metalSupported ? 'Metal' : '',
+      hw.os ?? '',
+      hw.cpu ?? '',
+      hw.surveyedAt ? `surveyed ${new Date(hw.surveyedAt).toLocaleTimeString()}` : '',
+    ].filter(Boolean).join(' · ');
+  }
+
+  private renderSystemRam(hw: IHardwareInfo | null): string {
+    const total  = hw?.systemRam ?? null;
+    const models = this.runningModels.reduce((sum, m) => sum + (m.ram_usage ?? 0), 0);
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl p-5">
+        <div class="flex items-center justify-between mb-3">
+          <h3 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">System RAM</h3>
+          <span class="text-xs font-mono text-slate-400">
+            ${total === null ? 'No data' : `${models.toFixed(1)} GB in loaded models / ${total.toFixed(1)} GB`}
+          </span>
+        </div>
+        ${total === null
+          ? `<p class="text-[11px] text-slate-600">${hw ? 'The survey did not report system RAM.' : 'No hardware data for this target.'}</p>`
+          : `<div class="w-full bg-slate-800 rounded-full h-2">
+               <div class="h-2 rounded-full transition-all duration-700 ${this.ramBarColour(models, total)}"
+                 style="width: ${this.pct(models, total)}%">
+               </div>
+             </div>`}
+        <p class="text-[10px] text-slate-600 mt-2">
+          Strict VRAM limits prevent model layers spilling into system RAM — keeping tok/sec high.
+        </p>
+      </section>
+    `;
   }
 
   // ---------------------------------------------------------------------------
@@ -245,6 +349,110 @@ export class FleetView {
     `;
   }
 
+  // ---------------------------------------------------------------------------
+  // Sub-render: Availability (health history)
+  // ---------------------------------------------------------------------------
+
+  private renderAvailability(): string {
+    const h = this.health;
+    return `
+      <section id="fleet-availability" class="space-y-3">
+        <div class="flex items-center justify-between">
+          <h3 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">Availability</h3>
+          <div class="flex gap-1">
+            ${HEALTH_RANGES.map(r => `
+              <button data-health-range="${r.key}"
+                class="health-range-btn px-2.5 py-1 rounded-lg border text-[10px] font-semibold transition-all
+                       ${this.healthRange === r.key
+                         ? 'border-indigo-500/60 bg-indigo-600/10 text-indigo-300'
+                         : 'border-slate-700 text-slate-500 hover:text-slate-300 hover:bg-slate-800'}">
+                ${r.label}
+              </button>`).join('')}
+          </div>
+        </div>
+
+        <div class="grid grid-cols-3 gap-3">
+          ${HEALTH_RANGES.map(r => this.renderUptimeCard(r.label, h?.uptime[r.key] ?? null)).join('')}
+        </div>
+
+        ${!h
+          ? `<div class="bg-slate-900 border border-slate-800 rounded-xl p-5 text-center">
+               <p class="text-slate-600 text-[11px]">
+                 ${this.healthError ? 'Health history unavailable' : 'Loading health history…'}
+               </p>
+             </div>`
+          : `${this.renderLatencyChart(h.latency)}
+             ${this.renderOutages(h.outages)}`}
+      </section>
+    `;
+  }
+
+  private renderUptimeCard(label: string, uptime: number | null): string {
+    const colour = uptime === null ? 'text-slate-600'
+                 : uptime >= 0.999 ? 'text-emerald-400'
+                 : uptime >= 0.99  ? 'text-orange-400'
+                 : 'text-red-400';
+    return `
+      <div class="bg-slate-900 border border-slate-800 rounded-xl p-4">
+        <p class="text-[10px] text-slate-600 uppercase tracking-wider">Uptime · ${label}</p>
+        <p class="text-lg font-mono font-bold mt-1 ${colour}">
+          ${uptime === null ? '—' : `${(uptime * 100).toFixed(uptime >= 0.999 && uptime < 1 ? 2 : 1)}%`}
+        </p>
+      </div>
+    `;
+  }
+
+  /** One bar per bucket: height is the average latency, colour the share of samples that found the daemon up. */
+  private renderLatencyChart(points: LatencyPoint[]): string {
+    if (points.length === 0) {
+      return `
+        <div class="bg-slate-900 border border-slate-800 rounded-xl p-5 text-center">
+          <p class="text-slate-600 text-[11px]">No health samples recorded in this range yet</p>
+        </div>`;
+    }
+    const peak = Math.max(1, ...points.map(p => p.avgMs ?? 0));
+    return `
+      <div class="bg-slate-900 border border-slate-800 rounded-xl p-4">
+        <div class="flex justify-between text-[10px] text-slate-500 mb-2">
+          <span class="uppercase tracking-wider">Probe latency</span>
+          <span class="font-mono">peak avg ${peak} ms</span>
+        </div>
+        <div class="flex items-end gap-px h-24">
+          ${points.map(p => {
+            const colour = p.avgMs === null ? 'bg-red-500/70'
+                         : p.uptime < 1     ? 'bg-orange-400/70'
+                         : 'bg-indigo-500/60';
+            const height = p.avgMs === null ? 100 : Math.max(4, (p.avgMs / peak) * 100);
+            const title  = `${new Date(p.at).toLocaleString()} — ${p.avgMs === null ? 'down' : `avg ${p.avgMs} ms, max ${p.maxMs ?? 0} ms`}, up ${(p.uptime * 100).toFixed(0)}%`;
+            return `<div class="flex-1 rounded-t-sm ${colour}" style="height:${height.toFixed(1)}%" title="${title}"></div>`;
+          }).join('')}
+        </div>
+        <div class="flex justify-between text-[10px] font-mono text-slate-600 mt-1">
+          <span>${new Date(points[0]!.at).toLocaleString()}</span>
+          <span>${new Date(points[points.length - 1]!.at).toLocaleString()}</span>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderOutages(outages: Outage[]): string {
+    return `
+      <div class="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-2">
+        <p class="text-[10px] font-bold uppercase tracking-wider text-slate-500">Outages</p>
+        ${outages.length === 0
+          ? '<p class="text-[11px] text-slate-600">No outages in this range</p>'
+          : outages.map(o => `
+            <div class="flex items-center gap-3 text-[12px]">
+              ${renderStatusBadge(o.state === 'stalled' ? 'Stalled' : 'Stopped', o.end === null ? 'error' : 'warning')}
+              <span class="font-mono text-[11px] text-slate-400 flex-1 truncate">
+                ${new Date(o.start).toLocaleString()} → ${o.end === null ? 'ongoing' : new Date(o.end).toLocaleString()}
+              </span>
+              <span class="font-mono text-[11px] text-slate-300 whitespace-nowrap">${fmtDuration(o.durationMs)}</span>
+            </div>`).join('')}
+      </div>
+    `;
+  }
+
   // ---------------------------------------------------------------------------
   // Sub-renders
   // ---------------------------------------------------------------------------
@@ -265,15 +473,16 @@ export class FleetView {
             Refresh Hardware
           </button>
 
-          <!-- Kill switch — right-aligned -->
-          <div class="ml-auto">
-            <button id="btn-kill-switch"
-              class="flex items-center gap-2 px-4 py-2 rounded-lg border border-red-500/30
-                     bg-red-500/10 text-red-400 text-xs font-bold hover:bg-red-500/20
-                     transition-all uppercase tracking-wider">
-              ⚡ Kill Switch
-            </button>
-          </div>
+          <!-- Kill switch — right-aligned, needs operate permission -->
+          ${Access.canOperate() ? `
+            <div class="ml-auto">
+              <button id="btn-kill-switch"
+                class="flex items-center gap-2 px-4 py-2 rounded-lg border border-red-500/30
+                       bg-red-500/10 text-red-400 text-xs font-bold hover:bg-red-500/20
+                       transition-all uppercase tracking-wider">
+                ⚡ Kill Switch
+              </button>
+            </div>` : ''}
         </div>
 
         <!-- Service lifecycle info (LM Studio 0.4+ has no REST lifecycle endpoints) -->
@@ -320,7 +529,7 @@ export class FleetView {
   }
 
   private renderGpuCard(gpu: IGPUInfo): string {
-    const vramPct  = this.pct(gpu.usedVram, gpu.totalVram);
+    const vramPct  = gpu.usedVram === null ? 0 : this.pct(gpu.usedVram, gpu.totalVram);
     const vramBar  = vramPct > 85 ? 'bg-red-500'
                    : vramPct > 65 ? 'bg-orange-400'
                    : 'bg-indigo-500';
@@ -330,6 +539,10 @@ export class FleetView {
     const utilisationBar = gpu.utilisation && gpu.utilisation > 0
       ? 'bg-emerald-500' : 'bg-slate-700';
     const isActive = (gpu.usedVram ?? 0) > 0;
+    const badge: [string, 'active' | 'error' | 'idle'] =
+        gpu.driverStatus === 'ok'    ? [`${gpu.backend ?? 'Driver'} OK`, 'active']
+      : gpu.driverStatus === 'error' ? ['Driver Error', 'error']
+      :                                ['Driver Unknown', 'idle'];
 
     return `
       <div class="bg-slate-900 border ${isActive ? 'border-indigo-500/40' : 'border-slate-800'}
@@ -339,13 +552,10 @@ export class FleetView {
         <div class="flex items-start justify-between mb-4">
           <div>
             <p class="text-[10px] text-slate-500 font-mono">GPU ${gpu.index}</p>
-            <h4 class="text-sm font-bold text-slate-100 mt-0.5">${gpu.name}</h4>
+            <h4 class="text-sm font-bold text-slate-100 mt-0.5">${esc(gpu.name)}</h4>
           </div>
           <div class="text-right">
-            ${renderStatusBadge(
-              gpu.driverStatus === 'ok' ? 'CUDA OK' : 'Driver Error',
-              gpu.driverStatus === 'ok' ? 'active' : 'error'
-            )}
+            ${renderStatusBadge(...badge)}
           </div>
         </div>
 
@@ -353,7 +563,7 @@ export class FleetView {
         <div class="mb-3">
           <div class="flex justify-between text-[10px] text-slate-500 mb-1.5">
             <span class="uppercase tracking-wider">VRAM</span>
-            <span class="font-mono">${gpu.usedVram.toFixed(1)} / ${gpu.totalVram} GB</span>
+            <span class="font-mono">${gpu.usedVram !== null ? gpu.usedVram.toFixed(1) : '—'} / ${gpu.totalVram.toFixed(1)} GB</span>
           </div>
           <div class="w-full bg-slate-800 rounded-full h-2">
             <div class="${vramBar} h-2 rounded-full transition-all duration-700"
@@ -365,7 +575,7 @@ export class FleetView {
         <div class="mb-4">
           <div class="flex justify-between text-[10px] text-slate-500 mb-1.5">
             <span class="uppercase tracking-wider">Core Utilisation</span>
-            <span class="font-mono">${Math.round(gpu.utilisation ?? 0)}%</span>
+            <span class="font-mono">${gpu.utilisation !== undefined ? `${Math.round(gpu.utilisation)}%` : '—'}</span>
           </div>
           <div class="w-full bg-slate-800 rounded-full h-1.5">
             <div class="${utilisationBar} h-1.5 rounded-full transition-all duration-700"
@@ -377,18 +587,18 @@ export class FleetView {
         <div class="flex gap-4 text-xs">
           <div>
             <p class="text-slate-600 text-[10px] uppercase tracking-wider">Temp</p>
-            <p class="font-mono font-bold ${tempColour} mt-0.5">${gpu.temperature !== undefined ? gpu.temperature.toFixed(1) : '—'}°C</p>
+            <p class="font-mono font-bold ${tempColour} mt-0.5">${gpu.temperature !== undefined ? `${gpu.temperature.toFixed(1)}°C` : '—'}</p>
           </div>
           <div>
             <p class="text-slate-600 text-[10px] uppercase tracking-wider">VRAM Free</p>
             <p class="font-mono font-bold text-slate-300 mt-0.5">
-              ${(gpu.totalVram - gpu.usedVram).toFixed(1)} GB
+              ${gpu.usedVram !== null ? `${(gpu.totalVram - gpu.usedVram).toFixed(1)} GB` : '—'}
             </p>
           </div>
           <div>
             <p class="text-slate-600 text-[10px] uppercase tracking-wider">Status</p>
             <p class="font-mono font-bold mt-0.5 ${isActive ? 'text-emerald-400' : 'text-slate-500'}">
-              ${isActive ? 'Active' : 'Idle'}
+              ${gpu.usedVram === null ? '—' : isActive ? 'Active' : 'Idle'}
             </p>
           </div>
         </div>
@@ -450,8 +660,10 @@ export class FleetView {
     // The btn-daemon-toggle and btn-server-toggle no longer exist in the control strip.
 
     document.getElementById('btn-refresh-hw')?.addEventListener('click', () => {
-      void this.daemon.refreshHardware();
-      void this.fetchSurvey();
+      this.hardware    = null;
+      this.surveyError = null;
+      this.refreshHardware();
+      void this.fetchSurvey(true);
     });
 
     document.getElementById('btn-refresh-ps')?.addEventListener('click', () => {
@@ -472,52 +684,47 @@ export class FleetView {
         this.render();
       });
     });
+
+    this.bindAvailability();
+  }
+
+  private bindAvailability(): void {
+    document.querySelectorAll<HTMLButtonElement>('.health-range-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.healthRange = btn.dataset['healthRange'] as HealthRange;
+        this.health      = null;
+        this.healthError = false;
+        this.refreshAvailability();
+        void this.fetchHealth();
+      });
+    });
   }
 
   private bindEventBus(): void {
     EventBus.on('DAEMON_STATE_CHANGED', ({ payload }) => {
       if (payload.nodeId === (Store.getState().activeNodeId ?? 'local')) {
+        const changed = payload.state !== this.daemonState;
         this.daemonState = payload.state;
         this.render();
+        if (changed) void this.fetchHealth();   // opens or closes an outage
       }
     });
 
     EventBus.on('VRAM_UPDATED', ({ payload }) => {
       if (payload.nodeId === (Store.getState().activeNodeId ?? 'local')) {
-        this.gpus = payload.gpus;
-        const grid = document.getElementById('gpu-grid');
-        if (grid) grid.innerHTML = this.gpus.map(g => this.renderGpuCard(g)).join('');
+        if (!this.hardware) return;
+        this.hardware = { ...this.hardware, gpus: payload.gpus };
+        this.refreshHardware();
       }
     });
   }
 
   // ---------------------------------------------------------------------------
-  // Mock live tick — simulates GPU activity until real daemon is wired
+  // Live refresh — survey re-read while the view is mounted
   // ---------------------------------------------------------------------------
 
-  private startMockLiveTick(): void {
-    this.liveInterval = setInterval(() => {
-      this.gpus = this.gpus.map(gpu => ({
-        ...gpu,
-        usedVram:    gpu.index === 0
-          ? Math.min(gpu.totalVram, Math.max(0, gpu.usedVram + (Math.random() - 0.4) * 0.3))
-          : gpu.usedVram,
-        utilisation: gpu.index === 0
-          ? Math.min(100, Math.max(0, (gpu.utilisation ?? 0) + (Math.random() - 0.4) * 8))
-          : 0,
-        temperature: Math.min(85, Math.max(35, (gpu.temperature ?? 50) + (Math.random() - 0.5) * 2)),
-      }));
-
-      const grid = document.getElementById('gpu-grid');
-      if (grid) grid.innerHTML = this.gpus.map(g => this.renderGpuCard(g)).join('');
-
-      // Update RAM bar
-      this.ramUsed = Math.min(this.ramTotal, Math.max(8, this.ramUsed + (Math.random() - 0.5) * 0.5));
-      const ramBar  = document.getElementById('ram-bar');
-      const ramText = document.getElementById('ram-text');
-      if (ramBar)  { ramBar.style.width = `${this.pct(this.ramUsed, this.ramTotal)}%`; }
-      if (ramText) { ramText.textContent = `${this.ramUsed.toFixed(1)} / ${this.ramTotal} GB`; }
-    }, 2000);
+  private startLiveRefresh(): void {
+    this.liveInterval = setInterval(() => { void this.fetchSurvey(); }, LIVE_REFRESH_MS);
   }
 
   // ---------------------------------------------------------------------------
@@ -528,8 +735,8 @@ export class FleetView {
     return total > 0 ? Math.round((used / total) * 100) : 0;
   }
 
-  private ramBarColour(): string {
-    const p = this.pct(this.ramUsed, this.ramTotal);
+  private ramBarColour(used: number, total: number): string {
+    const p = this.pct(used, total);
     return p > 85 ? 'bg-red-500' : p > 65 ? 'bg-orange-400' : 'bg-indigo-500';
   }
 }
@@ -11,11 +11,14 @@
  * LM Studio JIT behaviour (0.3+):
  *   JIT ON  → /api/v1/models returns ALL downloaded models; inference auto-loads on-demand
  *   JIT OFF → /api/v1/models returns only models already loaded into VRAM
+ *
+ * Load / eject are admin-only; viewers see the buttons disabled.
  */
 
 import { renderStatusBadge } from '@/views/components/StatusBadge';
 import type { LMSModelRecord } from '@/services/DaemonService';
 import { AuthService, AuthRedirectError } from '@/services/AuthService';
+import { Access, OPERATE_ONLY_TITLE } from '@/core/Access';
 
 function esc(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
@@ -557,6 +560,12 @@ export class ForgeView {
                      cursor-not-allowed opacity-50">
             ⏳ Working…
           </button>`
+      : !Access.canOperate()
+        ? `<button disabled title="${OPERATE_ONLY_TITLE}"
+              class="px-3 py-1.5 rounded-lg border border-slate-800 text-slate-600 text-xs font-semibold
+                     cursor-not-allowed">
+            ${mode === 'loaded' ? 'Eject' : 'Load Now'}
+          </button>`
       : mode === 'loaded'
         ? `<button data-forge-action="eject" data-model-id="${esc(m.id)}"
               class="px-3 py-1.5 rounded-lg border border-red-500/30 bg-red-500/10
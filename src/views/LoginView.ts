@@ -2,19 +2,39 @@
  * LoginView — Full-screen login gate.
  *
  * Features: show/hide password toggle, remember username (localStorage),
- * security notice, inline error display.
+ * security notice, inline error display. When the bridge throttles failed
+ * attempts (429 / retryAfter) the submit button stays disabled with a
+ * "retry in Xs" countdown.
+ *
+ * Accounts with two-factor authentication get a second step after the
+ * password: a TOTP / recovery code prompt, or — for admins when policy
+ * requires 2FA and none is set up — inline enrollment (QR code, first code,
+ * recovery codes) before the session is issued.
+ *
+ * When the bridge has OIDC configured a "Sign in with SSO" button starts the
+ * identity-provider redirect; the bridge sends the browser back to
+ * /?sso=ok#/login (or ?sso_error=…) and this view finishes the sign-in from
+ * the refresh cookie the callback set.
+ *
+ * On a bridge with no accounts yet it hands over to SetupView.
  */
 
 import type { AuthController } from '@/controllers/AuthController';
+import { AuthService }         from '@/services/AuthService';
+import { Router }              from '@/core/Router';
 
 const REMEMBER_KEY   = 'dp_remember_username';
 const SAVED_USER_KEY = 'dp_saved_username';
 
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 const EYE_OPEN = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"/><circle cx="12" cy="12" r="3"/></svg>`;
 
 const EYE_CLOSED = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94"/><path d="M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19"/><line x1="1" y1="1" x2="23" y2="23"/></svg>`;
 
 export class LoginView {
+  private countdown: ReturnType<typeof setInterval> | null = null;
+
   constructor(
     private readonly root: HTMLElement,
     private readonly auth: AuthController,
@@ -34,7 +54,7 @@ export class LoginView {
             <h1 class="text-xl font-bold tracking-widest uppercase text-white">DaemonPulse</h1>
             <p class="text-xs text-slate-500 mt-1">LM Studio Control Plane</p>
           </div>
-          <div class="bg-slate-900 border border-slate-800 rounded-xl p-6">
+          <div id="login-card" class="bg-slate-900 border border-slate-800 rounded-xl p-6">
             <h2 class="text-sm font-semibold text-slate-300 mb-5">Sign in to continue</h2>
             <form id="login-form" class="space-y-4" novalidate>
               <div>
@@ -63,6 +83,17 @@ export class LoginView {
                 class="w-full bg-indigo-600 hover:bg-indigo-500 active:bg-indigo-700 text-white text-sm font-semibold py-2.5 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50 disabled:cursor-not-allowed">
                 Sign In
               </button>
+              <div id="login-sso-block" class="hidden space-y-4">
+                <div class="flex items-center gap-3">
+                  <span class="flex-1 h-px bg-slate-800"></span>
+                  <span class="text-[10px] uppercase tracking-wider text-slate-600">or</span>
+                  <span class="flex-1 h-px bg-slate-800"></span>
+                </div>
+                <button type="button" id="login-sso"
+                  class="w-full bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 text-sm font-semibold py-2.5 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50 disabled:cursor-not-allowed">
+                  Sign in with SSO
+                </button>
+              </div>
               <div class="text-center pt-1">
                 <button type="button" id="login-forgot"
                   class="text-[11px] text-slate-600 hover:text-indigo-400 transition-colors focus:outline-none">
@@ -92,10 +123,11 @@ export class LoginView {
               </div>
               <p class="text-xs text-slate-400 leading-relaxed mb-5">
                 Automated password reset via email is on the roadmap but not yet active.
-                In the meantime, an admin can reset your password directly via the server CLI:
+                In the meantime, ask an admin to reset your password in
+                <span class="text-slate-300">Settings &rsaquo; Users</span>.
               </p>
-              <pre class="bg-[#0d0f14] border border-slate-800 rounded-lg px-3 py-2.5 text-[11px] text-indigo-300 font-mono overflow-x-auto mb-5">npm run seed</pre>
-              <p class="text-[10px] text-slate-600 mb-5">Re-running the seed script resets the default admin credentials.</p>
+              <p class="text-[10px] text-slate-600 mb-5">If no admin can sign in, create a new admin account from the server CLI:</p>
+              <pre class="bg-[#0d0f14] border border-slate-800 rounded-lg px-3 py-2.5 text-[11px] text-indigo-300 font-mono overflow-x-auto mb-5">npm run seed -- &lt;username&gt; &lt;password&gt;</pre>
               <button id="forgot-modal-close"
                 class="w-full bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-medium py-2 rounded-lg transition-colors focus:outline-none">
                 Got it
@@ -115,6 +147,8 @@ export class LoginView {
     `;
 
     this.bindEvents();
+    void AuthService.needsSetup().then(needed => { if (needed) Router.navigate('/setup'); });
+    void this.initSso();
     const pwInput = document.getElementById('login-password') as HTMLInputElement;
     const unInput = document.getElementById('login-username') as HTMLInputElement;
     if (rememberedUser) { pwInput.focus(); } else { unInput.focus(); }
@@ -171,17 +205,192 @@ export class LoginView {
 
       const result = await this.auth.login(username, password);
 
+      if (result.mfa && result.mfaToken) {
+        this.showMfaStep(result.mfa, result.mfaToken);
+        return;
+      }
+
       if (!result.success) {
         this.showError(errorEl, result.error ?? 'Login failed.');
-        submit.disabled    = false;
-        submit.textContent = 'Sign In';
         pwInput.type       = 'password';
         pwToggle.innerHTML = EYE_OPEN;
         pwToggle.title     = 'Show password';
+        if (result.retryAfter) {
+          this.startCountdown(submit, result.retryAfter);
+        } else {
+          submit.disabled    = false;
+          submit.textContent = 'Sign In';
+        }
+      }
+    });
+  }
+
+  // ── Single sign-on ──────────────────────────────────────────────────────────
+
+  /** Show the SSO button when configured, and finish a sign-in returning from the IdP. */
+  private async initSso(): Promise<void> {
+    const errorEl = document.getElementById('login-error') as HTMLParagraphElement;
+    const params  = new URLSearchParams(window.location.search);
+    const outcome = params.get('sso');
+    const failure = params.get('sso_error');
+    if (outcome || failure) {
+      // Drop the query so a reload does not replay it
+      history.replaceState(null, '', `${window.location.pathname}${window.location.hash}`);
+    }
+    if (failure) this.showError(errorEl, failure);
+    if (outcome === 'ok') {
+      const result = await this.auth.completeSso();
+      if (result.success) return;   // AuthController navigates to /fleet
+      this.showError(errorEl, result.error ?? 'Single sign-on failed.');
+    }
+
+    const sso = await AuthService.ssoConfig();
+    const block  = document.getElementById('login-sso-block');
+    const button = document.getElementById('login-sso') as HTMLButtonElement | null;
+    if (!sso.enabled || !block || !button) return;
+    button.textContent = sso.label;
+    block.classList.remove('hidden');
+    button.addEventListener('click', () => {
+      button.disabled    = true;
+      button.textContent = 'Redirecting\u2026';
+      AuthService.startSso();
+    });
+  }
+
+  // ── Second factor ───────────────────────────────────────────────────────────
+
+  /** Replace the password form with the code prompt (or enrollment). */
+  private showMfaStep(mode: 'verify' | 'enroll', mfaToken: string): void {
+    const card = document.getElementById('login-card');
+    if (!card) return;
+
+    card.innerHTML = `
+      <h2 class="text-sm font-semibold text-slate-300 mb-2">
+        ${mode === 'verify' ? 'Two-factor verification' : 'Set up two-factor authentication'}
+      </h2>
+      <p class="text-[11px] text-slate-500 leading-relaxed mb-5">
+        ${mode === 'verify'
+          ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes.'
+          : 'Two-factor authentication is required for admin accounts. Scan the QR code with an authenticator app, then enter the code it shows.'}
+      </p>
+      <div id="mfa-enroll" class="${mode === 'enroll' ? '' : 'hidden'} mb-4">
+        <p class="text-[11px] text-slate-600 font-mono">Generating secret\u2026</p>
+      </div>
+      <form id="mfa-form" class="space-y-4" novalidate>
+        <input id="mfa-code" type="text" autocomplete="one-time-code" spellcheck="false"
+          placeholder="${mode === 'verify' ? '123456 or recovery code' : '123456'}"
+          class="w-full bg-[#0d0f14] border border-slate-700 rounded-lg px-3 py-2.5 text-sm font-mono tracking-widest text-slate-200 placeholder-slate-600 placeholder:tracking-normal focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500/50 transition-colors"/>
+        <p id="mfa-error" class="hidden text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2"></p>
+        <button type="submit" id="mfa-submit"
+          class="w-full bg-indigo-600 hover:bg-indigo-500 active:bg-indigo-700 text-white text-sm font-semibold py-2.5 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50 disabled:cursor-not-allowed">
+          Verify
+        </button>
+        <div class="text-center pt-1">
+          <button type="button" id="mfa-back"
+            class="text-[11px] text-slate-600 hover:text-indigo-400 transition-colors focus:outline-none">
+            &larr; Back to sign in
+          </button>
+        </div>
+      </form>
+    `;
+
+    const form    = document.getElementById('mfa-form')   as HTMLFormElement;
+    const codeEl  = document.getElementById('mfa-code')   as HTMLInputElement;
+    const errorEl = document.getElementById('mfa-error')  as HTMLParagraphElement;
+    const submit  = document.getElementById('mfa-submit') as HTMLButtonElement;
+
+    document.getElementById('mfa-back')?.addEventListener('click', () => this.mount());
+    codeEl.focus();
+
+    if (mode === 'enroll') void this.loadEnrollment(mfaToken, errorEl);
+
+    form.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const code = codeEl.value.trim();
+      if (!code) {
+        this.showError(errorEl, 'Enter the code from your authenticator app.');
+        return;
+      }
+
+      submit.disabled    = true;
+      submit.textContent = 'Verifying\u2026';
+      errorEl.classList.add('hidden');
+
+      const result = await this.auth.verifyMfa(mfaToken, code);
+      if (result.success) {
+        if (result.recoveryCodes) this.showRecoveryCodes(result.recoveryCodes);
+        return;
+      }
+
+      this.showError(errorEl, result.error ?? 'Verification failed.');
+      codeEl.value = '';
+      codeEl.focus();
+      if (result.retryAfter) {
+        this.startCountdown(submit, result.retryAfter, 'Verify');
+      } else {
+        submit.disabled    = false;
+        submit.textContent = 'Verify';
       }
     });
   }
 
+  private async loadEnrollment(mfaToken: string, errorEl: HTMLParagraphElement): Promise<void> {
+    const box = document.getElementById('mfa-enroll');
+    const d   = await AuthService.startMfaEnrollment(mfaToken);
+    if (!box) return;
+    if ('error' in d) {
+      box.innerHTML = '';
+      this.showError(errorEl, d.error);
+      return;
+    }
+    box.innerHTML = `
+      <div class="flex flex-col items-center gap-3">
+        <img src="${esc(d.qr)}" alt="Authenticator QR code" width="180" height="180" class="rounded-lg bg-white p-1"/>
+        <p class="text-[10px] text-slate-600">Can't scan? Enter this key manually:</p>
+        <p class="font-mono text-[12px] text-indigo-300 break-all text-center select-all">${esc(d.secret)}</p>
+      </div>
+    `;
+  }
+
+  /** Shown once after enrollment; the user enters the app from here. */
+  private showRecoveryCodes(codes: string[]): void {
+    const card = document.getElementById('login-card');
+    if (!card) return;
+    card.innerHTML = `
+      <h2 class="text-sm font-semibold text-slate-300 mb-2">Save your recovery codes</h2>
+      <p class="text-[11px] text-slate-500 leading-relaxed mb-4">
+        Each code signs you in once if you lose access to your authenticator app.
+        Store them somewhere safe &mdash; they will not be shown again.
+      </p>
+      <pre class="grid grid-cols-2 gap-x-6 gap-y-1 bg-[#0d0f14] border border-slate-800 rounded-lg px-4 py-3 text-[12px] text-indigo-300 font-mono select-all mb-5">${codes.map(esc).join('\n')}</pre>
+      <button id="mfa-continue"
+        class="w-full bg-indigo-600 hover:bg-indigo-500 active:bg-indigo-700 text-white text-sm font-semibold py-2.5 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500/50">
+        I've saved them &mdash; continue
+      </button>
+    `;
+    document.getElementById('mfa-continue')?.addEventListener('click', () => this.auth.finishLogin());
+  }
+
+  /** Keep submit disabled until the bridge will accept another attempt. */
+  private startCountdown(submit: HTMLButtonElement, seconds: number, label = 'Sign In'): void {
+    if (this.countdown) clearInterval(this.countdown);
+    let left = Math.ceil(seconds);
+    const tick = () => {
+      if (!submit.isConnected || left <= 0) {
+        if (this.countdown) clearInterval(this.countdown);
+        this.countdown     = null;
+        submit.disabled    = false;
+        submit.textContent = label;
+        return;
+      }
+      submit.disabled    = true;
+      submit.textContent = `Too many attempts \u2014 retry in ${left >= 60 ? `${Math.ceil(left / 60)} min` : `${left}s`}`;
+      left--;
+    };
+    tick();
+    this.countdown = setInterval(tick, 1000);
+  }
+
   private showError(el: HTMLParagraphElement, msg: string): void {
     el.textContent = msg;
     el.classList.remove('hidden');
@@ -10,11 +10,15 @@
  *   - Streaming inference via /api/proxy/chat/completions/stream (SSE)
  *   - <think> tag interception → Reasoning panel (DeepSeek R1, QwQ, etc.)
  *   - Live stats: tokens/sec, TTFT, generation time, stop reason
+ *   - Routing decision: which target served the request and why (load balancing)
  *   - Per-request history with stats replay
- *   - Continuous batching slot monitor (4 slots visual)
+ *   - Slot monitor: the bridge's admission queue for the selected model on
+ *     every visible target — busy slots and queued requests, polled from
+ *     /api/proxy/queue
  */
 
 import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
 import { renderStatusBadge } from '@/views/components/StatusBadge';
 
 // ---------------------------------------------------------------------------
@@ -31,6 +35,15 @@ interface IInferenceStats {
   completion_tokens:   number;
 }
 
+/** From the X-DaemonPulse-Target / X-DaemonPulse-Route response headers. */
+interface IRouteDecision {
+  targetId:   string;
+  reason:     string;          // balanced | only-loaded | not-loaded | pinned | no-model
+  strategy:   string | null;
+  candidates: string[];        // target ids with the model loaded
+  failedOver: string[];        // target ids that failed before this one answered
+}
+
 interface IHistoryEntry {
   id:        string;
   model:     string;
@@ -38,6 +51,7 @@ interface IHistoryEntry {
   response:  string;
   reasoning: string;
   stats:     IInferenceStats;
+  route:     IRouteDecision | null;
   ts:        Date;
 }
 
@@ -59,6 +73,30 @@ interface IStreamDelta {
   };
 }
 
+/** One target+model lane of the bridge's admission queue (GET /api/proxy/queue). */
+interface IQueueLane {
+  targetId:    string;
+  model:       string;
+  limit:       number;
+  limitSource: 'config' | 'n_parallel' | 'default';
+  active:      number;
+  queued:      { interactive: number; batch: number };
+}
+
+interface IQueueSnapshot {
+  lanes:            IQueueLane[];
+  defaultNParallel: number;
+  config:           { maxConcurrency: number | null };
+}
+
+const QUEUE_POLL_MS = 2_000;
+
+const LIMIT_SOURCE: Record<IQueueLane['limitSource'], string> = {
+  'config':     'bridge limit',
+  'n_parallel': 'n_parallel at load',
+  'default':    'default',
+};
+
 function esc(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
@@ -66,6 +104,33 @@ function fmtMs(s: number): string {
   return s < 1 ? `${(s * 1000).toFixed(0)}ms` : `${s.toFixed(2)}s`;
 }
 
+function parseRoute(res: Response): IRouteDecision | null {
+  const targetId = res.headers.get('X-DaemonPulse-Target');
+  if (!targetId) return null;
+  const fields = new Map<string, string>();
+  for (const part of (res.headers.get('X-DaemonPulse-Route') ?? '').split(';')) {
+    const [key, value] = part.trim().split('=');
+    if (key && value !== undefined) fields.set(key, value);
+  }
+  return {
+    targetId,
+    reason:     fields.get('reason') ?? 'unknown',
+    strategy:   fields.get('strategy') ?? null,
+    candidates: (fields.get('candidates') ?? '').split(',').filter(Boolean),
+    failedOver: (fields.get('failover') ?? '').split(',').filter(Boolean),
+  };
+}
+
+const targetLabel = (id: string) => Store.getState().targets.find(t => t.id === id)?.label ?? id;
+
+const ROUTE_REASON: Record<string, string> = {
+  'balanced':    'balanced',
+  'only-loaded': 'only target with the model loaded',
+  'not-loaded':  'not loaded on any target — loaded just in time here',
+  'pinned':      'pinned by the request',
+  'no-model':    'active target',
+};
+
 // ---------------------------------------------------------------------------
 // PulseView
 // ---------------------------------------------------------------------------
@@ -83,18 +148,30 @@ export class PulseView {
   private reasoningText = '';
   private inThinkBlock  = false;
   private lastStats:    IInferenceStats | null = null;
+  private lastRoute:    IRouteDecision  | null = null;
+  private budgetWarning = '';   // X-DaemonPulse-Budget-Warning — past a soft token limit
 
   private history:         IHistoryEntry[] = [];
   private historyVisible   = false;
 
+  private queue:     IQueueSnapshot | null = null;
+  private queuePoll: ReturnType<typeof setInterval> | null = null;
+
   constructor(private readonly root: HTMLElement) {}
 
   mount(): void {
     this.render();
     void this.fetchModels();
+    void this.fetchQueue();
+    this.queuePoll = setInterval(() => void this.fetchQueue(), QUEUE_POLL_MS);
   }
 
-  unmount(): void { /* stateless */ }
+  unmount(): void {
+    if (this.queuePoll !== null) {
+      clearInterval(this.queuePoll);
+      this.queuePoll = null;
+    }
+  }
 
   // ---------------------------------------------------------------------------
   // Data
@@ -121,6 +198,21 @@ export class PulseView {
     this.bindEvents();
   }
 
+  /** Refresh only the slot monitor, so polling never disturbs the prompt being typed. */
+  private async fetchQueue(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch('/api/proxy/queue');
+      if (!res.ok) return;
+      this.queue = await res.json() as IQueueSnapshot;
+    } catch { return; }
+    this.updateSlotMonitor();
+  }
+
+  private updateSlotMonitor(): void {
+    const el = document.getElementById('pulse-slots');
+    if (el) el.outerHTML = this.renderSlotMonitor();
+  }
+
   // ---------------------------------------------------------------------------
   // Inference
   // ---------------------------------------------------------------------------
@@ -133,6 +225,8 @@ export class PulseView {
     this.reasoningText = '';
     this.inThinkBlock  = false;
     this.lastStats     = null;
+    this.lastRoute     = null;
+    this.budgetWarning = '';
     this.render();
     this.bindEvents();
 
@@ -161,8 +255,12 @@ export class PulseView {
         }),
       });
 
+      this.lastRoute     = parseRoute(res);
+      this.budgetWarning = res.headers.get('X-DaemonPulse-Budget-Warning') ?? '';
+
       if (!res.ok || !res.body) {
-        this.responseText = `⚠ HTTP ${res.status}`;
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.responseText = `⚠ HTTP ${res.status}${d.error ? ` — ${d.error}` : ''}`;
         this.streaming    = false;
         this.render(); this.bindEvents();
         return;
@@ -243,6 +341,7 @@ export class PulseView {
       response:  this.responseText,
       reasoning: this.reasoningText,
       stats:     this.lastStats,
+      route:     this.lastRoute,
       ts:        new Date(),
     });
     if (this.history.length > 20) this.history.length = 20;
@@ -423,12 +522,17 @@ export class PulseView {
               ${this.renderStat('🔢', 'Tokens',  this.lastStats.completion_tokens > 0 ? String(this.lastStats.completion_tokens) : '—')}
               ${this.renderStat('■', 'Stop',    this.lastStats.stop_reason)}
             </div>
+            ${this.lastRoute ? this.renderRoute(this.lastRoute) : ''}
           ` : this.streaming ? `
             <div class="border-t border-slate-800 px-5 py-2.5 flex items-center gap-2 bg-slate-900/70">
               <span class="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse"></span>
               <span class="text-[11px] text-emerald-400 font-mono">Generating…</span>
             </div>
           ` : ''}
+          ${this.budgetWarning ? `
+            <div class="border-t border-slate-800 px-5 py-2 bg-amber-950/30 text-[11px] text-amber-400">
+              ⚠ ${esc(this.budgetWarning)}
+            </div>` : ''}
         </div>
 
         <!-- Prompt input -->
@@ -472,27 +576,75 @@ export class PulseView {
     `;
   }
 
+  /** Which target served the request, and why — the load balancer's decision. */
+  private renderRoute(route: IRouteDecision): string {
+    const why = route.reason === 'balanced' && route.strategy
+      ? `${route.strategy} across ${route.candidates.length} targets`
+      : ROUTE_REASON[route.reason] ?? route.reason;
+    const others = route.candidates.filter(id => id !== route.targetId);
+    return `
+      <div class="border-t border-slate-800 px-5 py-2 flex flex-wrap items-center gap-x-3 gap-y-1 bg-slate-900/70">
+        ${this.renderStat('⇄', 'Route', targetLabel(route.targetId))}
+        <span class="text-[10px] text-slate-500">${esc(why)}</span>
+        ${others.length > 0
+          ? `<span class="text-[10px] text-slate-600 font-mono truncate">also loaded on: ${esc(others.map(targetLabel).join(', '))}</span>`
+          : ''}
+        ${route.failedOver.length > 0
+          ? `<span class="text-[10px] text-amber-400 font-mono truncate">failed over from: ${esc(route.failedOver.map(targetLabel).join(', '))}</span>`
+          : ''}
+      </div>
+    `;
+  }
+
   private renderSlotMonitor(): string {
-    const slots = [1, 2, 3, 4].map((id, i) => ({ id, active: this.streaming && i === 0 }));
+    const lanes = (this.queue?.lanes ?? []).filter(l => l.model === this.selectedModel);
+    const idleLimit = this.queue?.config.maxConcurrency ?? this.queue?.defaultNParallel ?? 4;
     return `
-      <section>
-        <div class="flex items-center justify-between mb-2">
-          <h3 class="text-[10px] font-bold uppercase tracking-wider text-slate-600">Continuous Batching — 4 Slots</h3>
-          <span class="text-[10px] text-slate-700 font-mono">n_parallel: 4 (default)</span>
+      <section id="pulse-slots" class="space-y-3">
+        <div class="flex items-center justify-between">
+          <h3 class="text-[10px] font-bold uppercase tracking-wider text-slate-600">Slots &amp; Queue</h3>
+          <span class="text-[10px] text-slate-700 font-mono truncate">${esc(this.selectedModel || 'no model selected')}</span>
         </div>
-        <div class="grid grid-cols-4 gap-2">
-          ${slots.map(s => `
-            <div class="bg-slate-900 border ${s.active ? 'border-indigo-500/40' : 'border-slate-800'}
-                        rounded-lg p-3 text-center transition-colors">
-              <p class="text-[10px] text-slate-600 font-mono mb-1.5">Slot ${s.id}</p>
-              ${s.active ? renderStatusBadge('Active', 'active') : renderStatusBadge('Idle', 'idle')}
-            </div>
-          `).join('')}
+        ${lanes.length > 0
+          ? lanes.map(l => this.renderLane(l)).join('')
+          : `
+            ${this.renderSlots(idleLimit, 0)}
+            <p class="text-[10px] text-slate-700">
+              No requests for this model have passed through the bridge yet — ${idleLimit} slots per target until one does.
+            </p>`}
+      </section>
+    `;
+  }
+
+  private renderLane(lane: IQueueLane): string {
+    const waiting = lane.queued.interactive + lane.queued.batch;
+    return `
+      <div class="space-y-1.5">
+        <div class="flex items-center justify-between gap-2">
+          <span class="text-[11px] text-slate-400 truncate">${esc(targetLabel(lane.targetId))}</span>
+          <span class="text-[10px] text-slate-700 font-mono">
+            ${lane.active}/${lane.limit} busy · ${esc(LIMIT_SOURCE[lane.limitSource])}
+          </span>
         </div>
-        <p class="text-[10px] text-slate-700 mt-1.5">
-          Per-slot tok/s and request IDs will populate once LM Studio exposes slot telemetry via REST.
+        ${this.renderSlots(lane.limit, lane.active)}
+        <p class="text-[10px] font-mono ${waiting > 0 ? 'text-orange-400' : 'text-slate-700'}">
+          Queued: ${lane.queued.interactive} interactive · ${lane.queued.batch} batch
         </p>
-      </section>
+      </div>
+    `;
+  }
+
+  private renderSlots(limit: number, active: number): string {
+    return `
+      <div class="grid grid-cols-4 gap-2">
+        ${Array.from({ length: limit }, (_v, i) => `
+          <div class="bg-slate-900 border ${i < active ? 'border-indigo-500/40' : 'border-slate-800'}
+                      rounded-lg p-3 text-center transition-colors">
+            <p class="text-[10px] text-slate-600 font-mono mb-1.5">Slot ${i + 1}</p>
+            ${i < active ? renderStatusBadge('Active', 'active') : renderStatusBadge('Idle', 'idle')}
+          </div>
+        `).join('')}
+      </div>
     `;
   }
 
@@ -515,6 +667,7 @@ export class PulseView {
                 ${this.renderStat('⚡', 'tok/s', h.stats.tokens_per_second > 0 ? h.stats.tokens_per_second.toFixed(1) : '—')}
                 ${this.renderStat('⏱', 'TTFT',   fmtMs(h.stats.time_to_first_token))}
                 ${this.renderStat('⏳', 'Gen',    fmtMs(h.stats.generation_time))}
+                ${h.route ? this.renderStat('⇄', 'Route', targetLabel(h.route.targetId)) : ''}
               </div>
             </div>
           `).join('')}
@@ -530,6 +683,7 @@ export class PulseView {
   private bindEvents(): void {
     document.getElementById('pulse-model-select')?.addEventListener('change', (e) => {
       this.selectedModel = (e.target as HTMLSelectElement).value;
+      this.updateSlotMonitor();
     });
 
     const tempEl = document.getElementById('pulse-temp') as HTMLInputElement | null;
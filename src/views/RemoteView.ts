@@ -10,9 +10,16 @@
  * All SSH operations are proxied through the bridge server (/api/remote/*)
  * so private keys and passwords are never transmitted over the network
  * beyond the browser→bridge hop (which is localhost in dev).
+ *
+ * Picking a saved target lets the bridge reuse that target's SSH credentials
+ * (stored encrypted at rest) — the credential field can then be left blank.
+ *
+ * Viewers can probe and survey; lifecycle, install, key scraping and saving
+ * credentials are admin-only and rendered disabled or hidden.
  */
 
 import { AuthService } from '@/services/AuthService';
+import { Access, ADMIN_ONLY_TITLE, OPERATE_ONLY_TITLE } from '@/core/Access';
 
 type AuthMethod  = 'key' | 'password';
 type RemoteTab   = 'connect' | 'status' | 'install' | 'hardware';
@@ -29,6 +36,19 @@ interface ProbeResult {
   os:            string;
 }
 
+interface TargetOption {
+  id:    string;
+  label: string;
+  url:   string;
+  host?: string;
+}
+
+interface SavedCreds {
+  username: string;
+  port:     number;
+  method:   AuthMethod;
+}
+
 interface SurveyResult {
   survey?: unknown;
   raw?:    string;
@@ -65,6 +85,13 @@ export class RemoteView {
   private username  = 'ubuntu';
   private credential = '';   // privateKey content/path OR password
 
+  // Saved targets — credentials for these can be stored (encrypted) on the bridge
+  private targets:       TargetOption[]    = [];
+  private nodeId         = '';
+  private savedCreds:    SavedCreds | null = null;
+  private rememberCreds  = false;
+  private credsMsg:      string | null     = null;
+
   // Operation state
   private probing   = false;
   private probe:    ProbeResult | null = null;
@@ -93,6 +120,7 @@ export class RemoteView {
   mount(): void {
     this.render();
     this.bindEvents();
+    void this.fetchTargets();
   }
 
   unmount(): void {
@@ -175,7 +203,10 @@ export class RemoteView {
   }
 
   private connBody() {
+    // Saved credentials and nothing typed → just the target; viewers may only probe that way
+    if (this.nodeId && this.savedCreds && !this.credential) return { nodeId: this.nodeId };
     return {
+      ...(this.nodeId ? { nodeId: this.nodeId } : {}),
       host:        this.host,
       port:        this.port,
       username:    this.username,
@@ -185,6 +216,71 @@ export class RemoteView {
     };
   }
 
+  private async fetchTargets(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch('/api/proxy/config/targets');
+      if (!res.ok) return;
+      const d = await res.json() as { targets: TargetOption[] };
+      this.targets = d.targets;
+    } catch { return; }
+    if (this.activeTab === 'connect') { this.render(); this.bindEvents(); }
+  }
+
+  private async selectTarget(id: string): Promise<void> {
+    this.nodeId     = id;
+    this.savedCreds = null;
+    this.credsMsg   = null;
+    const t = this.targets.find(x => x.id === id);
+    if (t) {
+      try { this.host = t.host ?? new URL(t.url).hostname; } catch { this.host = t.host ?? ''; }
+      try {
+        const res = await AuthService.apiFetch(`/api/remote/credentials/${encodeURIComponent(id)}`);
+        const d   = await res.json() as { saved: boolean } & Partial<SavedCreds>;
+        if (res.ok && d.saved && d.username && d.port && d.method) {
+          this.savedCreds = { username: d.username, port: d.port, method: d.method };
+          this.username   = d.username;
+          this.port       = d.port;
+          this.authMethod = d.method;
+          this.credential = '';
+        }
+      } catch { /* no saved credentials */ }
+    }
+    this.render(); this.bindEvents();
+  }
+
+  /** Persist the typed credential against the selected target (sealed server-side). */
+  private async saveCredentials(): Promise<void> {
+    if (!this.nodeId || !this.credential) return;
+    try {
+      const res = await AuthService.apiFetch(`/api/remote/credentials/${encodeURIComponent(this.nodeId)}`, {
+        method: 'PUT',
+        body:   JSON.stringify({
+          username: this.username,
+          port:     this.port,
+          ...(this.authMethod === 'key' ? { privateKey: this.credential } : { password: this.credential }),
+        }),
+      });
+      const d = await res.json() as Partial<SavedCreds> & { error?: string; hint?: string };
+      if (!res.ok) throw new Error([d.error ?? `HTTP ${res.status}`, d.hint].filter(Boolean).join(' — '));
+      this.savedCreds = { username: this.username, port: this.port, method: this.authMethod };
+      this.credsMsg   = '✓ Credentials saved (encrypted on the bridge)';
+    } catch (e) {
+      this.credsMsg = `Could not save credentials: ${String(e)}`;
+    }
+  }
+
+  private async forgetCredentials(): Promise<void> {
+    if (!this.nodeId) return;
+    try {
+      await AuthService.apiFetch(`/api/remote/credentials/${encodeURIComponent(this.nodeId)}`, { method: 'DELETE' });
+      this.savedCreds = null;
+      this.credsMsg   = 'Saved credentials removed';
+    } catch (e) {
+      this.credsMsg = String(e);
+    }
+    this.render(); this.bindEvents();
+  }
+
   private async runProbe(): Promise<void> {
     this.probing  = true;
     this.probe    = null;
@@ -200,6 +296,7 @@ export class RemoteView {
       if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
       this.probe    = json;
       this.activeTab = 'status';   // auto-switch to Status once connected
+      if (this.rememberCreds && this.nodeId && this.credential) await this.saveCredentials();
     } catch (e) {
       this.probeErr = String(e);
     }
@@ -296,7 +393,7 @@ export class RemoteView {
     this.streaming   = false;
     this.streamAbort = null;
     // Refresh status after install attempt to reflect CLI presence + daemon state.
-    if (this.host && this.username) {
+    if ((this.host && this.username) || this.savedCreds) {
       void this.runProbe();
     }
     this.render(); this.bindEvents();
@@ -348,14 +445,20 @@ export class RemoteView {
 
   private async applyKey(): Promise<void> {
     if (!this.scrapedKey) return;
-    localStorage.setItem('dp_daemon_key', this.scrapedKey);
     try {
-      await AuthService.apiFetch('/api/proxy/config/daemon-key', {
+      // Stored (encrypted) on the selected target, or the active target when ad-hoc
+      const res = await AuthService.apiFetch('/api/proxy/config/daemon-key', {
         method: 'POST',
-        body:   JSON.stringify({ key: this.scrapedKey }),
+        body:   JSON.stringify({ key: this.scrapedKey, ...(this.nodeId ? { targetId: this.nodeId } : {}) }),
       });
-    } catch { /* proxy may not be running against the remote yet */ }
-    this.keyApplied = true;
+      if (!res.ok) {
+        const d = await res.json() as { error?: string };
+        throw new Error(d.error ?? `HTTP ${res.status}`);
+      }
+      this.keyApplied = true;
+    } catch (e) {
+      this.error = String(e);
+    }
     this.render(); this.bindEvents();
   }
 
@@ -436,6 +539,25 @@ export class RemoteView {
       <section class="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-4">
         <h3 class="text-sm font-bold text-slate-200">SSH Connection</h3>
 
+        <div>
+          <label class="block text-[11px] text-slate-500 font-semibold uppercase tracking-wider mb-1">Saved Target</label>
+          <select id="r-target"
+            class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 text-xs
+                   focus:outline-none focus:border-indigo-500 cursor-pointer">
+            <option value="" ${this.nodeId === '' ? 'selected' : ''}>Ad-hoc host (nothing saved)</option>
+            ${this.targets.map(t => `
+              <option value="${this.esc(t.id)}" ${this.nodeId === t.id ? 'selected' : ''}>${this.esc(t.label)} — ${this.esc(t.url)}</option>
+            `).join('')}
+          </select>
+          ${this.savedCreds ? `
+            <p class="text-[10px] text-emerald-400/80 mt-1">
+              Saved credentials: ${this.esc(this.savedCreds.username)}@${this.esc(this.host)}:${this.savedCreds.port}
+              (${this.savedCreds.method === 'key' ? 'SSH key' : 'password'}) — leave the credential blank to use them.
+              ${Access.canMutate() ? '<button id="r-forget-creds" class="ml-1 text-slate-500 hover:text-red-400 underline">Forget</button>' : ''}
+            </p>` : ''}
+          ${this.credsMsg ? `<p class="text-[10px] text-slate-400 mt-1">${this.esc(this.credsMsg)}</p>` : ''}
+        </div>
+
         <div class="grid grid-cols-3 gap-3">
           <div class="col-span-2">
             <label class="block text-[11px] text-slate-500 font-semibold uppercase tracking-wider mb-1">Host / IP</label>
@@ -487,6 +609,12 @@ export class RemoteView {
               Paste the raw PEM block or enter the absolute path to the key file on this machine.
               The key is sent to the bridge server only and never leaves your host.
             </p>` : ''}
+          ${this.nodeId && Access.canMutate() ? `
+            <label class="flex items-center gap-2 mt-2 cursor-pointer select-none">
+              <input id="r-remember" type="checkbox" ${this.rememberCreds ? 'checked' : ''}
+                class="w-3.5 h-3.5 rounded accent-indigo-500 cursor-pointer" />
+              <span class="text-[11px] text-slate-500">Remember for this target (encrypted on the bridge)</span>
+            </label>` : ''}
         </div>
 
         ${this.probeErr ? `
@@ -543,11 +671,11 @@ export class RemoteView {
         <div>
           <p class="text-[11px] text-slate-500 font-semibold uppercase tracking-wider mb-3">Daemon Lifecycle</p>
           <div class="flex gap-2 flex-wrap">
-            ${this.actionBtn('r-start',   '▶ Start',   'emerald', this.actionBusy)}
-            ${this.actionBtn('r-stop',    '■ Stop',    'red',     this.actionBusy)}
-            ${this.actionBtn('r-restart', '↻ Restart', 'amber',   this.actionBusy)}
+            ${this.actionBtn('r-start',   '▶ Start',   'emerald', this.actionBusy, 'operate')}
+            ${this.actionBtn('r-stop',    '■ Stop',    'red',     this.actionBusy, 'operate')}
+            ${this.actionBtn('r-restart', '↻ Restart', 'amber',   this.actionBusy, 'operate')}
             ${this.actionBtn('r-survey',  '⬡ Survey',  'indigo',  this.surveying)}
-            ${this.actionBtn('r-scrape',  '⚿ Scrape Key', 'slate', this.scraping)}
+            ${this.actionBtn('r-scrape',  '⚿ Scrape Key', 'slate', this.scraping, 'admin')}
           </div>
           ${this.actionMsg ? `
             <p class="mt-3 text-xs font-mono text-slate-400 border border-slate-700 rounded-lg px-3 py-2 bg-slate-800/60">
@@ -561,7 +689,7 @@ export class RemoteView {
             <p class="text-[11px] font-bold uppercase tracking-wider text-emerald-400">Permission Key Found</p>
             <p class="font-mono text-xs text-slate-300 break-all">${this.esc(this.scrapedKey)}</p>
             ${this.keyApplied
-              ? `<p class="text-xs text-emerald-400">✓ Applied to Live Mode — dashboard will use this key for API calls</p>`
+              ? `<p class="text-xs text-emerald-400">✓ Saved to ${this.nodeId ? 'target' : 'active target'} — stored encrypted on the bridge</p>`
               : `<button id="r-apply-key"
                   class="mt-1 px-4 py-1.5 rounded-lg text-xs font-semibold bg-emerald-600/20 hover:bg-emerald-600/30
                          text-emerald-400 border border-emerald-500/30 cursor-pointer transition-all">
@@ -589,7 +717,15 @@ export class RemoteView {
       </div>`;
   }
 
-  private actionBtn(id: string, label: string, color: string, disabled: boolean): string {
+  /**
+   * Buttons that `require` a permission render disabled without it (the bridge
+   * rejects them anyway). 'operate' is met by a grant on the selected target.
+   */
+  private actionBtn(id: string, label: string, color: string, busy: boolean, requires?: 'admin' | 'operate'): string {
+    const denied   = requires === 'admin'   ? !Access.canMutate()
+                   : requires === 'operate' ? !(this.nodeId ? Access.canOperateTarget(this.nodeId) : Access.canMutate())
+                   : false;
+    const disabled = busy || denied;
     const colors: Record<string, string> = {
       emerald: 'bg-emerald-600/20 hover:bg-emerald-600/30 text-emerald-400 border-emerald-500/30',
       red:     'bg-red-600/20     hover:bg-red-600/30     text-red-400     border-red-500/30',
@@ -602,7 +738,7 @@ export class RemoteView {
       : `${colors[color] ?? colors['slate']} border cursor-pointer`;
     return `
       <button id="${id}" class="px-4 py-1.5 rounded-lg text-xs font-semibold transition-all ${cls}"
-              ${disabled ? 'disabled' : ''}>
+              ${disabled ? 'disabled' : ''} ${denied ? `title="${requires === 'operate' && this.nodeId ? OPERATE_ONLY_TITLE : ADMIN_ONLY_TITLE}"` : ''}>
         ${label}
       </button>`;
   }
@@ -640,10 +776,11 @@ export class RemoteView {
             ${!this.streaming
               ? `<button id="r-install"
                   class="px-5 py-2 rounded-lg text-xs font-semibold transition-all
-                         ${!this.host
+                         ${!this.host || !Access.canMutate()
                            ? 'bg-slate-700 text-slate-500 cursor-not-allowed'
                            : 'bg-indigo-600 hover:bg-indigo-500 text-white cursor-pointer'}"
-                         ${!this.host ? 'disabled' : ''}>
+                         ${!this.host || !Access.canMutate() ? 'disabled' : ''}
+                         ${!Access.canMutate() ? `title="${ADMIN_ONLY_TITLE}"` : ''}>
                   ↓ Start Install
                 </button>`
               : `<button id="r-install-stop"
@@ -791,6 +928,15 @@ export class RemoteView {
       this.credential = (document.getElementById('r-cred') as HTMLTextAreaElement | null)?.value ?? this.credential;
     };
 
+    // Saved target selection + credential storage
+    document.getElementById('r-target')?.addEventListener('change', (e) => {
+      sync(); void this.selectTarget((e.target as HTMLSelectElement).value);
+    });
+    document.getElementById('r-remember')?.addEventListener('change', (e) => {
+      this.rememberCreds = (e.target as HTMLInputElement).checked;
+    });
+    document.getElementById('r-forget-creds')?.addEventListener('click', () => { void this.forgetCredentials(); });
+
     // Probe
     document.getElementById('r-probe')?.addEventListener('click', () => { sync(); void this.runProbe(); });
 
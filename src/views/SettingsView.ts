@@ -1,29 +1,52 @@
 /**
- * SettingsView — Multi-target manager, server defaults, dev/live mode, session.
+ * SettingsView — Multi-target manager, server defaults, dev/live mode, session,
+ * password change, two-factor setup, personal API tokens, open alerts and (for
+ * admins) alert rules and webhooks, active sessions, user management and the
+ * admin 2FA policy.
  *
  * Stored keys (localStorage):
  *   dp_default_ttl          — integer seconds (0 = never)
  *   dp_default_n_parallel   — integer 1-16 (default 4)
  *   dp_default_context      — integer tokens (default 4096)
  *   dp_developer_mode       — 'true' | 'false'
- *   dp_daemon_key           — LM Studio Permission Key for default target
- *   dp_targets              — JSON IDaemonTarget[] (saved target list)
+ *
+ * Daemon targets are persisted by the bridge (GET/POST/PUT/DELETE /api/proxy/config/targets).
+ * Permission keys are sealed with the bridge's master key and never stored in the browser.
+ * Target and key management are admin-only; viewers see them read-only and
+ * only the targets they have been granted.
+ *
+ * "Activate" selects the target for this login session only — other users
+ * keep theirs. Admins can also set the initial target, which sessions and
+ * API tokens use until they pick one.
  */
 
 import { AuthService }  from '@/services/AuthService';
 import { Router }       from '@/core/Router';
-import type { IDaemonTarget } from '@/types';
+import { Store }        from '@/core/Store';
+import { EventBus }     from '@/core/EventBus';
+import { UsersPanel }    from './settings/UsersPanel';
+import { PasswordPanel } from './settings/PasswordPanel';
+import { SessionsPanel } from './settings/SessionsPanel';
+import { TwoFactorPanel } from './settings/TwoFactorPanel';
+import { ApiTokensPanel } from './settings/ApiTokensPanel';
+import { GatewayKeysPanel } from './settings/GatewayKeysPanel';
+import { RoutingPanel }  from './settings/RoutingPanel';
+import { QueuePanel }    from './settings/QueuePanel';
+import { AlertsPanel }   from './settings/AlertsPanel';
+import type { ITargetSummary } from '@/types';
 
 const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 
-type TargetRow = Omit<IDaemonTarget, 'key'> & { keyHint?: string };
-
 export class SettingsView {
-  private targets:       TargetRow[] = [];
+  private targets:       ITargetSummary[] = [];
+  private targetsLoaded  = false;
   private activeTargetId = '';
+  private initialTargetId = '';
   private targetWorking  = false;   // spinner while activating/deleting
 
   private showAddForm    = false;
+  private editingId: string | null = null;   // set when the add form is editing an existing target
+  private addError       = '';
   private addLabel       = '';
   private addUrl         = 'http://';
   private addHost        = '';
@@ -34,6 +57,7 @@ export class SettingsView {
   private keyHint   = '';
   private keyHasKey = false;
   private keySaved  = false;
+  private keyError  = '';
 
   // Defaults form values
   private defTtl  = parseInt(localStorage.getItem('dp_default_ttl')        ?? '0',    10);
@@ -42,12 +66,37 @@ export class SettingsView {
   private devMode =          localStorage.getItem('dp_developer_mode') === 'true';
   private saved   = false;
 
+  // Self-contained sections — re-rendered as part of this view
+  private readonly usersPanel    = new UsersPanel(() => this.render());
+  private readonly passwordPanel = new PasswordPanel(() => this.render());
+  private readonly sessionsPanel = new SessionsPanel(() => this.render());
+  private readonly twoFactorPanel = new TwoFactorPanel(() => this.render());
+  private readonly apiTokensPanel = new ApiTokensPanel(() => this.render());
+  private readonly gatewayKeysPanel = new GatewayKeysPanel(() => this.render());
+  private readonly routingPanel  = new RoutingPanel(() => this.render());
+  private readonly queuePanel    = new QueuePanel(() => this.render());
+  private readonly alertsPanel   = new AlertsPanel(() => this.render());
+
   constructor(private readonly root: HTMLElement) {}
 
+  private get isAdmin(): boolean {
+    return Store.getState().currentUser?.role === 'admin';
+  }
+
   mount(): void {
     this.render();
     void this.fetchTargets();
     void this.fetchKeyStatus();
+    void this.routingPanel.load();
+    void this.queuePanel.load();
+    void this.alertsPanel.load();
+    void this.twoFactorPanel.load();
+    void this.apiTokensPanel.load();
+    void this.gatewayKeysPanel.load();
+    if (this.isAdmin) {
+      void this.usersPanel.load();
+      void this.sessionsPanel.load();
+    }
   }
 
   unmount(): void { this.root.innerHTML = ''; }
@@ -58,11 +107,14 @@ export class SettingsView {
     try {
       const res = await AuthService.apiFetch('/api/proxy/config/targets');
       if (res.ok) {
-        const d = (await res.json()) as { activeId: string; targets: TargetRow[] };
-        this.activeTargetId = d.activeId;
+        const d = (await res.json()) as { activeId: string; initialId: string; targets: ITargetSummary[] };
+        this.activeTargetId  = d.activeId;
+        this.initialTargetId = d.initialId;
         this.targets        = d.targets;
+        Store.setTargets(d.targets, d.activeId);   // keep the Sidebar list in step
       }
     } catch { /* leave empty */ }
+    this.targetsLoaded = true;
     this.render();
   }
 
@@ -70,7 +122,20 @@ export class SettingsView {
     this.targetWorking = true; this.render();
     try {
       const res = await AuthService.apiFetch(`/api/proxy/config/targets/${id}/activate`, { method: 'POST' });
-      if (res.ok) { this.activeTargetId = id; void this.fetchKeyStatus(); }
+      if (res.ok) {
+        this.activeTargetId = id;
+        void this.fetchKeyStatus();
+        EventBus.emit({ type: 'TARGET_SELECTED', payload: { targetId: id } });
+      }
+    } catch { /* leave */ }
+    this.targetWorking = false;
+    void this.fetchTargets();
+  }
+
+  private async setInitialTarget(id: string): Promise<void> {
+    this.targetWorking = true; this.render();
+    try {
+      await AuthService.apiFetch(`/api/proxy/config/targets/${id}/initial`, { method: 'POST' });
     } catch { /* leave */ }
     this.targetWorking = false;
     void this.fetchTargets();
@@ -86,27 +151,58 @@ export class SettingsView {
   }
 
   private async addTarget(): Promise<void> {
-    if (!this.addLabel.trim() || !this.addUrl.trim()) return;
-    this.targetWorking = true; this.render();
+    if (!this.addLabel.trim() || !this.addUrl.trim()) {
+      this.addError = 'Label and API URL are required.';
+      this.render();
+      return;
+    }
+    this.targetWorking = true; this.addError = ''; this.render();
+    const editing = this.editingId;
     try {
-      await AuthService.apiFetch('/api/proxy/config/targets', {
-        method:  'POST',
+      const res = await AuthService.apiFetch(
+        editing ? `/api/proxy/config/targets/${editing}` : '/api/proxy/config/targets', {
+        method:  editing ? 'PUT' : 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           label: this.addLabel.trim(),
           url:   this.addUrl.trim().replace(/\/$/, ''),
           host:  this.addHost.trim() || undefined,
+          // When editing, a blank key field means "keep the stored key"
           key:   this.addKey.trim()  || undefined,
           mode:  this.addMode,
         }),
       });
-      this.addLabel = ''; this.addUrl = 'http://'; this.addHost = '';
-      this.addKey   = ''; this.showAddForm = false;
+      if (res.ok) {
+        this.resetAddForm();
+      } else {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.addError = d.error ?? `Save failed (HTTP ${res.status})`;
+      }
     } catch { /* leave */ }
     this.targetWorking = false;
     void this.fetchTargets();
   }
 
+  private editTarget(id: string): void {
+    const t = this.targets.find(x => x.id === id);
+    if (!t) return;
+    this.editingId   = id;
+    this.addLabel    = t.label;
+    this.addUrl      = t.url;
+    this.addHost     = t.host ?? '';
+    this.addKey      = '';
+    this.addMode     = t.mode;
+    this.addError    = '';
+    this.showAddForm = true;
+    this.render();
+  }
+
+  private resetAddForm(): void {
+    this.addLabel = ''; this.addUrl = 'http://'; this.addHost = '';
+    this.addKey   = ''; this.addMode = 'local'; this.addError = '';
+    this.editingId = null; this.showAddForm = false;
+  }
+
   private async fetchKeyStatus(): Promise<void> {
     try {
       const res = await AuthService.apiFetch('/api/proxy/config/daemon-key');
@@ -127,11 +223,14 @@ export class SettingsView {
         body: JSON.stringify({ key }),
       });
       if (res.ok) {
-        if (key) localStorage.setItem('dp_daemon_key', key);
-        else     localStorage.removeItem('dp_daemon_key');
         this.keySaved = true;
+        this.keyError = '';
         void this.fetchKeyStatus();
         setTimeout(() => { this.keySaved = false; this.render(); }, 2000);
+      } else {
+        const d = (await res.json().catch(() => ({}))) as { error?: string; hint?: string };
+        this.keyError = [d.error ?? `HTTP ${res.status}`, d.hint].filter(Boolean).join(' — ');
+        this.render();
       }
     } catch { /* ignore */ }
   }
@@ -172,17 +271,20 @@ export class SettingsView {
         <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
           <div class="flex items-center justify-between">
             <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">Daemon Targets</h2>
-            <button id="set-add-target-toggle"
-              class="text-[11px] font-semibold text-indigo-400 hover:text-indigo-300
-                     border border-indigo-800 hover:border-indigo-600 rounded-lg px-3 py-1 transition-colors">
-              ${this.showAddForm ? '× Cancel' : '+ Add target'}
-            </button>
+            ${this.isAdmin ? `
+              <button id="set-add-target-toggle"
+                class="text-[11px] font-semibold text-indigo-400 hover:text-indigo-300
+                       border border-indigo-800 hover:border-indigo-600 rounded-lg px-3 py-1 transition-colors">
+                ${this.showAddForm ? '× Cancel' : '+ Add target'}
+              </button>` : ''}
           </div>
 
           <!-- Target list -->
           <div class="space-y-1.5">
-            ${this.targets.length === 0
+            ${!this.targetsLoaded
               ? '<p class="text-[11px] text-slate-700 font-mono">Loading…</p>'
+              : this.targets.length === 0
+              ? '<p class="text-[11px] text-slate-600">No targets have been assigned to your account — ask an admin.</p>'
               : this.targets.map(t => `
                 <div class="flex items-center gap-2.5 rounded-lg px-3 py-2
                             ${t.id === this.activeTargetId ? 'bg-indigo-500/10 border border-indigo-500/30' : 'bg-slate-800/50'}">
@@ -196,15 +298,36 @@ export class SettingsView {
                                ${t.mode === 'remote' ? 'bg-amber-500/15 text-amber-400' : 'bg-slate-700/60 text-slate-500'}">
                     ${t.mode}
                   </span>
-                  ${t.id !== this.activeTargetId
-                    ? `<button data-activate-id="${t.id}"
+                  ${this.isAdmin ? '' : `
+                    <span class="text-[9px] uppercase tracking-wider ${t.access === 'operate' ? 'text-amber-400' : 'text-slate-600'}"
+                          title="${t.access === 'operate' ? 'You can load/eject models and control this daemon' : 'You can monitor and run inference'}">
+                      ${t.access}
+                    </span>`}
+                  ${t.id === this.initialTargetId
+                    ? '<span class="text-[10px] text-slate-500" title="Used by sessions and API tokens that have not picked a target">initial</span>'
+                    : this.isAdmin
+                      ? `<button data-initial-id="${t.id}" title="Make this the target new sessions and API tokens use"
+                           class="text-[10px] text-slate-500 hover:text-indigo-300 transition-colors
+                                  ${this.targetWorking ? 'opacity-40 pointer-events-none' : ''}">
+                           Set initial
+                         </button>`
+                      : ''}
+                  ${t.id === this.activeTargetId
+                    ? '<span class="text-[10px] font-semibold text-emerald-400">Active</span>'
+                    : `<button data-activate-id="${t.id}" title="Use this target in this session (other users are unaffected)"
                          class="text-[10px] font-semibold text-indigo-400 hover:text-indigo-300
                                 border border-indigo-800 rounded px-2 py-0.5 transition-colors
                                 ${this.targetWorking ? 'opacity-40 pointer-events-none' : ''}">
                          Activate
+                       </button>`}
+                  ${t.id !== 'default' && this.isAdmin
+                    ? `<button data-edit-id="${t.id}"
+                         class="text-[10px] text-slate-500 hover:text-indigo-300 transition-colors
+                                ${this.targetWorking ? 'opacity-40 pointer-events-none' : ''}">
+                         Edit
                        </button>`
-                    : '<span class="text-[10px] font-semibold text-emerald-400">Active</span>'}
-                  ${t.id !== 'default'
+                    : ''}
+                  ${t.id !== 'default' && this.isAdmin
                     ? `<button data-delete-id="${t.id}"
                          class="text-[10px] text-slate-600 hover:text-red-400 transition-colors
                                 ${this.targetWorking ? 'opacity-40 pointer-events-none' : ''}">
@@ -216,7 +339,7 @@ export class SettingsView {
           </div>
 
           <!-- Add Target form -->
-          ${this.showAddForm ? `
+          ${this.showAddForm && this.isAdmin ? `
             <div class="mt-3 space-y-2.5 border-t border-slate-800 pt-3">
               <div class="grid grid-cols-2 gap-2">
                 <div>
@@ -260,23 +383,30 @@ export class SettingsView {
                 <div>
                   <label class="block text-[10px] text-slate-500 mb-0.5">Permission Key</label>
                   <input id="set-add-key" type="password" value="${esc(this.addKey)}"
-                    placeholder="lms-key-…"
+                    placeholder="${this.editingId ? 'leave blank to keep current key' : 'lms-key-…'}"
                     class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
                            text-sm font-mono text-slate-200 placeholder-slate-600
                            focus:outline-none focus:ring-1 focus:ring-indigo-500">
                 </div>
               </div>
+              ${this.addError ? `<p class="text-[11px] text-red-400">${esc(this.addError)}</p>` : ''}
               <div class="flex justify-end">
                 <button id="set-add-target-submit"
                   class="px-5 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs
                          font-semibold rounded-lg transition-colors">
-                  Save target
+                  ${this.editingId ? 'Update target' : 'Save target'}
                 </button>
               </div>
             </div>
           ` : ''}
         </section>
 
+        ${this.routingPanel.render()}
+
+        ${this.queuePanel.render()}
+
+        ${this.alertsPanel.render()}
+
         <!-- Permission Key -->
         <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
           <div class="flex items-center justify-between">
@@ -289,6 +419,7 @@ export class SettingsView {
               ${this.keyHasKey ? `Active &nbsp;${esc(this.keyHint)}` : 'No key configured — requests sent without auth'}
             </span>
           </div>
+          ${this.isAdmin ? `
           <div class="flex gap-2">
             <input id="set-daemon-key" type="password"
               placeholder="Paste LM Studio Permission Key (leave blank to clear)"
@@ -301,10 +432,12 @@ export class SettingsView {
               Apply
             </button>
           </div>
+          ${this.keyError ? `<p class="text-[11px] text-red-400">${esc(this.keyError)}</p>` : ''}
           <p class="text-[10px] text-slate-600">
             LM Studio &rsaquo; Settings &rsaquo; Server &rsaquo; Permission Keys.
-            Leave blank to disable. Key is held in proxy memory and not written to disk.
-          </p>
+            Leave blank to disable. Key is encrypted at rest on the bridge and never stored in the browser.
+          </p>` : `
+          <p class="text-[10px] text-slate-600">Only admins can change the permission key.</p>`}
         </section>
 
         <!-- Server Defaults -->
@@ -418,16 +551,35 @@ export class SettingsView {
           <div class="flex items-center justify-between">
             <div class="text-[12px] text-slate-400">
               Signed in as
-              <span class="font-mono text-slate-200 ml-1">${esc(localStorage.getItem('dp_username') ?? 'admin')}</span>
+              <span class="font-mono text-slate-200 ml-1">${esc(Store.getState().currentUser?.username ?? '—')}</span>
+            </div>
+            <div class="flex items-center gap-2">
+              <button id="set-logout-all" title="End every session of this account, on all devices"
+                class="text-xs font-semibold text-slate-400 hover:text-red-300
+                       border border-slate-700 hover:border-red-700 rounded-lg px-4 py-1.5 transition-colors">
+                Sign out everywhere
+              </button>
+              <button id="set-logout"
+                class="text-xs font-semibold text-red-400 hover:text-red-300
+                       border border-red-900 hover:border-red-700 rounded-lg px-4 py-1.5 transition-colors">
+                Sign out
+              </button>
             </div>
-            <button id="set-logout"
-              class="text-xs font-semibold text-red-400 hover:text-red-300
-                     border border-red-900 hover:border-red-700 rounded-lg px-4 py-1.5 transition-colors">
-              Sign out
-            </button>
           </div>
         </section>
 
+        ${this.isAdmin ? this.sessionsPanel.render() : ''}
+
+        ${this.passwordPanel.render()}
+
+        ${this.twoFactorPanel.render()}
+
+        ${this.apiTokensPanel.render()}
+
+        ${this.gatewayKeysPanel.render()}
+
+        ${this.isAdmin ? this.usersPanel.render() : ''}
+
         <!-- Save -->
         <div class="flex justify-end">
           <button id="set-save"
@@ -448,7 +600,8 @@ export class SettingsView {
   private bindEvents(): void {
     // Target management
     document.getElementById('set-add-target-toggle')?.addEventListener('click', () => {
-      this.showAddForm = !this.showAddForm;
+      if (this.showAddForm) this.resetAddForm();
+      else this.showAddForm = true;
       this.render();
     });
 
@@ -456,6 +609,12 @@ export class SettingsView {
     this.root.querySelectorAll<HTMLButtonElement>('[data-activate-id]').forEach(btn => {
       btn.addEventListener('click', () => void this.activateTarget(btn.dataset['activateId'] ?? ''));
     });
+    this.root.querySelectorAll<HTMLButtonElement>('[data-initial-id]').forEach(btn => {
+      btn.addEventListener('click', () => void this.setInitialTarget(btn.dataset['initialId'] ?? ''));
+    });
+    this.root.querySelectorAll<HTMLButtonElement>('[data-edit-id]').forEach(btn => {
+      btn.addEventListener('click', () => this.editTarget(btn.dataset['editId'] ?? ''));
+    });
     this.root.querySelectorAll<HTMLButtonElement>('[data-delete-id]').forEach(btn => {
       btn.addEventListener('click', () => {
         if (confirm(`Delete target "${btn.closest('.flex')?.querySelector('p')?.textContent ?? ''}"?`)) {
@@ -522,10 +681,26 @@ export class SettingsView {
       if (el) void this.savePermissionKey(el.value.trim());
     });
 
+    this.routingPanel.bind(this.root);
+    this.queuePanel.bind();
+    this.alertsPanel.bind(this.root);
+    this.passwordPanel.bind();
+    this.twoFactorPanel.bind();
+    this.apiTokensPanel.bind(this.root);
+    this.gatewayKeysPanel.bind(this.root);
+    if (this.isAdmin) {
+      this.sessionsPanel.bind(this.root);
+      this.usersPanel.bind(this.root);
+    }
+
     // Logout
     document.getElementById('set-logout')?.addEventListener('click', () => {
       AuthService.logout();
       Router.navigate('/login');
     });
+    document.getElementById('set-logout-all')?.addEventListener('click', () => {
+      if (!confirm('Sign out of every device and browser using this account?')) return;
+      void AuthService.logoutEverywhere().then(() => Router.navigate('/login'));
+    });
   }
 }
@@ -0,0 +1,151 @@
+/**
+ * SetupView — First-run wizard that creates the initial admin account.
+ *
+ * Only reachable while the bridge has no accounts (GET /api/setup/status);
+ * otherwise it redirects to /login. The operator copies the one-time setup
+ * code from the bridge console, picks a username and a strong password
+ * (checked live here, enforced by the bridge), and is signed in directly.
+ */
+
+import type { AuthController } from '@/controllers/AuthController';
+import { AuthService }         from '@/services/AuthService';
+import { Router }              from '@/core/Router';
+
+const MIN_LEN = 12;
+
+interface Rule {
+  id:    string;
+  label: string;
+  test:  (pw: string, username: string) => boolean;
+}
+
+const RULES: Rule[] = [
+  { id: 'len',     label: `At least ${MIN_LEN} characters`,
+    test: (pw) => pw.length >= MIN_LEN && pw.length <= 72 },
+  { id: 'classes', label: 'Three of: lowercase, uppercase, digits, symbols',
+    test: (pw) => [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(re => re.test(pw)).length >= 3 },
+  { id: 'user',    label: 'Does not contain the username',
+    test: (pw, u) => !u || !pw.toLowerCase().includes(u.toLowerCase()) },
+];
+
+const INPUT_CLASS = 'w-full bg-[#0d0f14] border border-slate-700 rounded-lg px-3 py-2.5 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500/50 transition-colors';
+const LABEL_CLASS = 'block text-[11px] font-medium text-slate-500 uppercase tracking-wider mb-1.5';
+
+export class SetupView {
+  constructor(
+    private readonly root: HTMLElement,
+    private readonly auth: AuthController,
+  ) {}
+
+  mount(): void {
+    this.root.innerHTML = `
+      <div class="min-h-screen bg-[#0d0f14] flex items-center justify-center p-4">
+        <div class="w-full max-w-sm">
+          <div class="text-center mb-10">
+            <div class="inline-flex items-center justify-center w-14 h-14 rounded-2xl bg-indigo-600/20 border border-indigo-500/30 mb-4">
+              <span class="text-2xl text-indigo-400 font-mono">&#9678;</span>
+            </div>
+            <h1 class="text-xl font-bold tracking-widest uppercase text-white">DaemonPulse</h1>
+            <p class="text-xs text-slate-500 mt-1">First-run setup</p>
+          </div>
+          <div class="bg-slate-900 border border-slate-800 rounded-xl p-6">
+            <h2 class="text-sm font-semibold text-slate-300 mb-2">Create the admin account</h2>
+            <p class="text-[11px] text-slate-500 leading-relaxed mb-5">
+              No accounts exist yet. Enter the setup code printed in the bridge console
+              (<span class="font-mono text-slate-400">npm run server</span> output), then choose your admin credentials.
+            </p>
+            <form id="setup-form" class="space-y-4" novalidate>
+              <div>
+                <label for="setup-code" class="${LABEL_CLASS}">Setup code</label>
+                <input id="setup-code" type="text" autocomplete="off" spellcheck="false" placeholder="XXXX-XXXX"
+                  class="${INPUT_CLASS} font-mono tracking-widest uppercase"/>
+              </div>
+              <div>
+                <label for="setup-username" class="${LABEL_CLASS}">Username</label>
+                <input id="setup-username" type="text" autocomplete="username" placeholder="admin" class="${INPUT_CLASS}"/>
+              </div>
+              <div>
+                <label for="setup-password" class="${LABEL_CLASS}">Password</label>
+                <input id="setup-password" type="password" autocomplete="new-password" class="${INPUT_CLASS}"/>
+              </div>
+              <div>
+                <label for="setup-confirm" class="${LABEL_CLASS}">Confirm password</label>
+                <input id="setup-confirm" type="password" autocomplete="new-password" class="${INPUT_CLASS}"/>
+              </div>
+              <ul id="setup-rules" class="space-y-1">
+                ${RULES.map(r => `
+                  <li data-rule="${r.id}" class="text-[11px] text-slate-600 flex items-center gap-2">
+                    <span class="w-3 text-center">&bull;</span>${r.label}
+                  </li>`).join('')}
+                <li data-rule="match" class="text-[11px] text-slate-600 flex items-center gap-2">
+                  <span class="w-3 text-center">&bull;</span>Passwords match
+                </li>
+              </ul>
+              <p id="setup-error" class="hidden text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2"></p>
+              <button type="submit" id="setup-submit" disabled
+                class="w-full bg-indigo-600 hover:bg-indigo-500 active:bg-indigo-700 text-white text-sm font-semibold py-2.5 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50 disabled:cursor-not-allowed">
+                Create admin &amp; sign in
+              </button>
+            </form>
+          </div>
+          <p class="text-center text-[11px] text-slate-600 mt-4">Unofficial project &middot; Not affiliated with LM Studio</p>
+        </div>
+      </div>
+    `;
+
+    this.bindEvents();
+    document.getElementById('setup-code')?.focus();
+
+    // Someone else may have finished setup already (or this is a stale bookmark)
+    void AuthService.needsSetup().then(needed => { if (!needed) Router.navigate('/login'); });
+  }
+
+  private bindEvents(): void {
+    const form     = document.getElementById('setup-form')     as HTMLFormElement;
+    const codeEl   = document.getElementById('setup-code')     as HTMLInputElement;
+    const userEl   = document.getElementById('setup-username') as HTMLInputElement;
+    const pwEl     = document.getElementById('setup-password') as HTMLInputElement;
+    const confirm  = document.getElementById('setup-confirm')  as HTMLInputElement;
+    const errorEl  = document.getElementById('setup-error')    as HTMLParagraphElement;
+    const submit   = document.getElementById('setup-submit')   as HTMLButtonElement;
+
+    const mark = (id: string, ok: boolean) => {
+      const li = this.root.querySelector<HTMLLIElement>(`[data-rule="${id}"]`);
+      if (!li) return;
+      li.className = `text-[11px] flex items-center gap-2 ${ok ? 'text-emerald-400' : 'text-slate-600'}`;
+      li.firstElementChild!.innerHTML = ok ? '&check;' : '&bull;';
+    };
+
+    const validate = () => {
+      const pw = pwEl.value;
+      let ok = true;
+      for (const rule of RULES) {
+        const pass = rule.test(pw, userEl.value.trim());
+        mark(rule.id, pass);
+        ok &&= pass;
+      }
+      const match = pw.length > 0 && pw === confirm.value;
+      mark('match', match);
+      submit.disabled = !(ok && match && codeEl.value.trim() && userEl.value.trim());
+    };
+
+    for (const el of [codeEl, userEl, pwEl, confirm]) el.addEventListener('input', validate);
+
+    form.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      if (submit.disabled) return;
+
+      submit.disabled    = true;
+      submit.textContent = 'Creating account…';
+      errorEl.classList.add('hidden');
+
+      const result = await this.auth.completeSetup(codeEl.value.trim(), userEl.value.trim(), pwEl.value);
+      if (result.success) return;   // AuthController navigates to /fleet
+
+      errorEl.textContent = result.error ?? 'Setup failed.';
+      errorEl.classList.remove('hidden');
+      submit.textContent  = 'Create admin & sign in';
+      validate();
+    });
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * UsageView — Token usage through the bridge, per user, model and target.
+ *
+ * Reads GET /api/usage (totals, daily rollups, top consumers) with filters
+ * for user (admins only — everyone else sees just their own usage), model,
+ * target and date range. Export downloads the filtered daily rollup from
+ * GET /api/usage/export as CSV — fetched with the bearer header and saved via
+ * a blob URL, since a plain link cannot authenticate.
+ *
+ * Above the report: your own token budget (GET /api/usage/budget) when an
+ * admin has set one, and recent soft/hard limit events (GET /api/usage/events
+ * — everyone's for admins).
+ */
+
+import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface UsageTotals {
+  requests:         number;
+  promptTokens:     number;
+  completionTokens: number;
+  totalTokens:      number;
+}
+
+interface DailyUsage extends UsageTotals {
+  day: string;   // yyyy-mm-dd (UTC)
+}
+
+interface TopConsumer extends UsageTotals {
+  key: string;
+}
+
+interface UsageReport {
+  totals:  UsageTotals;
+  daily:   DailyUsage[];
+  top:     { users: TopConsumer[]; models: TopConsumer[]; targets: TopConsumer[] };
+  users:   string[];
+  models:  string[];
+  targets: string[];
+}
+
+type QuotaPeriod = 'daily' | 'monthly';
+
+interface Budget {
+  quota: {
+    dailySoft: number | null; dailyHard: number | null; monthlySoft: number | null; monthlyHard: number | null;
+    maxTokensPerRequest: number | null; allowedModels: string[] | null;
+  } | null;
+  used:   Record<QuotaPeriod, number>;
+  resets: Record<QuotaPeriod, string>;
+}
+
+interface QuotaEvent {
+  id:       number;
+  at:       string;
+  username: string;
+  kind:     'soft' | 'hard';
+  period:   QuotaPeriod;
+  used:     number;
+  limit:    number;
+}
+
+interface Filters {
+  user:   string;
+  model:  string;
+  target: string;
+  from:   string;   // yyyy-mm-dd
+  to:     string;
+}
+
+const SELECT_CLASS = 'bg-slate-800 border border-slate-700 rounded-lg px-2.5 py-1.5 text-[12px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer';
+const INPUT_CLASS  = 'bg-slate-800 border border-slate-700 rounded-lg px-2.5 py-1.5 text-[12px] text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+const fmt = (n: number) => n.toLocaleString();
+
+const targetLabel = (id: string) => Store.getState().targets.find(t => t.id === id)?.label ?? id;
+
+/** Default range: the last 30 days. */
+function daysAgo(n: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - n);
+  return d.toISOString().slice(0, 10);
+}
+
+export class UsageView {
+  private report:  UsageReport | null = null;
+  private budget:  Budget | null = null;
+  private events:  QuotaEvent[] = [];
+  private loading = true;
+  private error   = '';
+  private filters: Filters = { user: '', model: '', target: '', from: daysAgo(29), to: '' };
+
+  constructor(private readonly root: HTMLElement) {}
+
+  private get isAdmin(): boolean {
+    return Store.getState().currentUser?.role === 'admin';
+  }
+
+  mount(): void {
+    this.render();
+    void this.load();
+    void this.loadBudget();
+  }
+
+  /** Filters as a query string; `from`/`to` are whole UTC days, matching the daily rollup. */
+  private query(): string {
+    const p = new URLSearchParams();
+    const f = this.filters;
+    if (f.user)   p.set('user', f.user);
+    if (f.model)  p.set('model', f.model);
+    if (f.target) p.set('target', f.target);
+    if (f.from) p.set('from', `${f.from}T00:00:00Z`);
+    if (f.to)   p.set('to',   `${f.to}T23:59:59Z`);
+    return p.toString();
+  }
+
+  private async load(): Promise<void> {
+    this.loading = true;
+    try {
+      const res = await AuthService.apiFetch(`/api/usage?${this.query()}`);
+      const d = (await res.json().catch(() => ({}))) as Partial<UsageReport> & { error?: string };
+      if (res.ok) {
+        this.report = d as UsageReport;
+        this.error  = '';
+      } else {
+        this.error = d.error ?? `Failed to load usage (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.loading = false;
+    this.render();
+  }
+
+  /** Budget and limit events don't follow the filters — loaded once per mount. */
+  private async loadBudget(): Promise<void> {
+    try {
+      const [budgetRes, eventsRes] = await Promise.all([
+        AuthService.apiFetch('/api/usage/budget'),
+        AuthService.apiFetch('/api/usage/events'),
+      ]);
+      if (budgetRes.ok) this.budget = (await budgetRes.json()) as Budget;
+      if (eventsRes.ok) this.events = ((await eventsRes.json()) as { events: QuotaEvent[] }).events;
+    } catch { /* redirecting to login */ }
+    this.render();
+  }
+
+  private async exportCsv(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch(`/api/usage/export?${this.query()}`);
+      if (!res.ok) {
+        this.error = `Export failed (HTTP ${res.status})`;
+        this.render();
+        return;
+      }
+      const name = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')?.[1] ?? 'usage.csv';
+      const url  = URL.createObjectURL(await res.blob());
+      const a    = document.createElement('a');
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch { /* redirecting to login */ }
+  }
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+
+  private render(): void {
+    const f = this.filters;
+    const r = this.report;
+    const option = (value: string, label: string, current: string) =>
+      `<option value="${esc(value)}" ${value === current ? 'selected' : ''}>${esc(label)}</option>`;
+
+    this.root.innerHTML = `
+      <div class="space-y-5 max-w-6xl">
+
+        <div class="flex items-center justify-between">
+          <div>
+            <h2 class="text-lg font-bold text-white tracking-tight">Usage</h2>
+            <p class="text-xs text-slate-500 mt-0.5">
+              Tokens reported by the daemons for inference through the bridge ·
+              ${this.isAdmin ? 'all users' : 'your account'} · days in UTC
+            </p>
+          </div>
+          <button id="usage-export-csv"
+            class="px-3 py-1.5 rounded-lg border border-slate-700 text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors">
+            Export CSV
+          </button>
+        </div>
+
+        <!-- Filters -->
+        <div class="flex flex-wrap items-end gap-2">
+          ${this.isAdmin ? `
+            <label class="text-[10px] text-slate-500">User<br>
+              <select id="usage-f-user" class="${SELECT_CLASS}">
+                ${option('', 'Everyone', f.user)}
+                ${(r?.users ?? []).map(u => option(u, u, f.user)).join('')}
+              </select>
+            </label>` : ''}
+          <label class="text-[10px] text-slate-500">Model<br>
+            <select id="usage-f-model" class="${SELECT_CLASS}">
+              ${option('', 'All models', f.model)}
+              ${(r?.models ?? []).map(m => option(m, m, f.model)).join('')}
+            </select>
+          </label>
+          <label class="text-[10px] text-slate-500">Target<br>
+            <select id="usage-f-target" class="${SELECT_CLASS}">
+              ${option('', 'All targets', f.target)}
+              ${(r?.targets ?? []).map(t => option(t, targetLabel(t), f.target)).join('')}
+            </select>
+          </label>
+          <label class="text-[10px] text-slate-500">From<br>
+            <input id="usage-f-from" type="date" value="${esc(f.from)}" class="${INPUT_CLASS}">
+          </label>
+          <label class="text-[10px] text-slate-500">To<br>
+            <input id="usage-f-to" type="date" value="${esc(f.to)}" class="${INPUT_CLASS}">
+          </label>
+        </div>
+
+        ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+
+        ${this.budget?.quota || this.events.length ? `
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+            ${this.renderBudget()}
+            ${this.renderEvents()}
+          </div>` : ''}
+
+        ${r === null
+          ? `<p class="text-[11px] text-slate-700 font-mono">${this.loading ? 'Loading…' : 'No data.'}</p>`
+          : `
+            ${this.renderTotals(r.totals)}
+            ${this.renderDaily(r.daily)}
+            <div class="grid grid-cols-1 ${this.isAdmin ? 'md:grid-cols-3' : 'md:grid-cols-2'} gap-4">
+              ${this.isAdmin ? this.renderTop('Top users', r.top.users, k => k) : ''}
+              ${this.renderTop('Top models', r.top.models, k => k)}
+              ${this.renderTop('Top targets', r.top.targets, targetLabel)}
+            </div>`}
+      </div>
+    `;
+
+    this.bindEvents();
+  }
+
+  private renderTotals(t: UsageTotals): string {
+    const card = (label: string, value: number) => `
+      <div class="bg-slate-900 border border-slate-800 rounded-xl px-4 py-3">
+        <p class="text-[10px] font-bold uppercase tracking-wider text-slate-600">${label}</p>
+        <p class="text-xl font-mono text-slate-100 mt-1">${fmt(value)}</p>
+      </div>`;
+    return `
+      <div class="grid grid-cols-2 md:grid-cols-4 gap-3">
+        ${card('Requests', t.requests)}
+        ${card('Prompt tokens', t.promptTokens)}
+        ${card('Completion tokens', t.completionTokens)}
+        ${card('Total tokens', t.totalTokens)}
+      </div>`;
+  }
+
+  private renderBudget(): string {
+    const b = this.budget;
+    if (!b?.quota) {
+      return `
+        <section class="bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 space-y-2">
+          <h3 class="text-[10px] font-bold uppercase tracking-wider text-slate-600">Your budget</h3>
+          <p class="text-[11px] text-slate-600">No limits on your account.</p>
+        </section>`;
+    }
+    const q = b.quota;
+    const period = (label: string, p: QuotaPeriod, soft: number | null, hard: number | null) => {
+      const used = b.used[p];
+      const cap  = hard ?? soft;
+      const pct  = cap ? Math.min(100, used / cap * 100) : 0;
+      const bar  = hard !== null && used >= hard ? 'bg-red-500' : soft !== null && used >= soft ? 'bg-amber-500' : 'bg-indigo-500/60';
+      return `
+        <div class="space-y-1">
+          <div class="flex items-center justify-between text-[12px]">
+            <span class="text-slate-300">${label}</span>
+            <span class="font-mono text-slate-400">
+              ${fmt(used)}${cap ? ` / ${fmt(cap)}` : ''} <span class="text-[10px] text-slate-600">tok</span>
+            </span>
+          </div>
+          ${cap ? `<div class="h-1.5 rounded bg-slate-800"><div class="h-1.5 rounded ${bar}" style="width:${pct.toFixed(1)}%"></div></div>` : ''}
+          <p class="text-[10px] text-slate-600">
+            ${soft !== null ? `warns at ${fmt(soft)} · ` : ''}${hard !== null ? `stops at ${fmt(hard)} · ` : ''}resets ${esc(new Date(b.resets[p]).toLocaleString())}
+          </p>
+        </div>`;
+    };
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 space-y-3">
+        <h3 class="text-[10px] font-bold uppercase tracking-wider text-slate-600">Your budget</h3>
+        ${q.dailySoft !== null || q.dailyHard !== null ? period('Today', 'daily', q.dailySoft, q.dailyHard) : ''}
+        ${q.monthlySoft !== null || q.monthlyHard !== null ? period('This month', 'monthly', q.monthlySoft, q.monthlyHard) : ''}
+        ${q.maxTokensPerRequest !== null ? `<p class="text-[11px] text-slate-400">At most ${fmt(q.maxTokensPerRequest)} tokens per request</p>` : ''}
+        ${q.allowedModels ? `<p class="text-[11px] text-slate-400">Models: <span class="font-mono">${esc(q.allowedModels.join(', '))}</span></p>` : ''}
+      </section>`;
+  }
+
+  private renderEvents(): string {
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 space-y-2">
+        <h3 class="text-[10px] font-bold uppercase tracking-wider text-slate-600">Budget warnings</h3>
+        ${this.events.length === 0
+          ? '<p class="text-[11px] text-slate-600">—</p>'
+          : this.events.map(e => `
+            <div class="flex items-center justify-between gap-2 text-[12px]">
+              <span class="truncate ${e.kind === 'hard' ? 'text-red-400' : 'text-amber-400'}">
+                ${this.isAdmin ? `${esc(e.username)} · ` : ''}${e.period} ${e.kind === 'hard' ? 'limit reached' : 'soft limit passed'}
+              </span>
+              <span class="font-mono text-[10px] text-slate-600 whitespace-nowrap">
+                ${fmt(e.used)} / ${fmt(e.limit)} · ${esc(new Date(e.at).toLocaleString())}
+              </span>
+            </div>`).join('')}
+      </section>`;
+  }
+
+  private renderDaily(days: DailyUsage[]): string {
+    const peak = Math.max(1, ...days.map(d => d.totalTokens));
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+        <table class="w-full text-left text-[12px]">
+          <thead class="text-[10px] uppercase tracking-wider text-slate-500 border-b border-slate-800">
+            <tr>
+              <th class="px-3 py-2 font-semibold">Day</th>
+              <th class="px-3 py-2 font-semibold text-right">Requests</th>
+              <th class="px-3 py-2 font-semibold text-right">Prompt</th>
+              <th class="px-3 py-2 font-semibold text-right">Completion</th>
+              <th class="px-3 py-2 font-semibold text-right">Total</th>
+              <th class="px-3 py-2 font-semibold w-1/3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            ${days.length === 0
+              ? '<tr><td colspan="6" class="px-3 py-4 text-[11px] text-slate-600">No usage in this range.</td></tr>'
+              : [...days].reverse().map(d => `
+                <tr class="border-b border-slate-800/60 hover:bg-slate-800/30">
+                  <td class="px-3 py-1.5 font-mono text-[11px] text-slate-400">${esc(d.day)}</td>
+                  <td class="px-3 py-1.5 text-right font-mono text-slate-400">${fmt(d.requests)}</td>
+                  <td class="px-3 py-1.5 text-right font-mono text-slate-400">${fmt(d.promptTokens)}</td>
+                  <td class="px-3 py-1.5 text-right font-mono text-slate-400">${fmt(d.completionTokens)}</td>
+                  <td class="px-3 py-1.5 text-right font-mono text-slate-200">${fmt(d.totalTokens)}</td>
+                  <td class="px-3 py-1.5">
+                    <div class="h-1.5 rounded bg-indigo-500/60" style="width:${(d.totalTokens / peak * 100).toFixed(1)}%"></div>
+                  </td>
+                </tr>`).join('')}
+          </tbody>
+        </table>
+      </section>`;
+  }
+
+  private renderTop(title: string, rows: TopConsumer[], label: (key: string) => string): string {
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 space-y-2">
+        <h3 class="text-[10px] font-bold uppercase tracking-wider text-slate-600">${title}</h3>
+        ${rows.length === 0
+          ? '<p class="text-[11px] text-slate-600">—</p>'
+          : rows.map(c => `
+            <div class="flex items-center justify-between gap-2 text-[12px]">
+              <span class="truncate text-slate-300" title="${esc(c.key)}">${esc(label(c.key))}</span>
+              <span class="font-mono text-slate-400 whitespace-nowrap">
+                ${fmt(c.totalTokens)} <span class="text-[10px] text-slate-600">tok · ${fmt(c.requests)} req</span>
+              </span>
+            </div>`).join('')}
+      </section>`;
+  }
+
+  // ── Events ──────────────────────────────────────────────────────────────────
+
+  private bindEvents(): void {
+    const bindFilter = (id: string, key: keyof Filters) => {
+      document.getElementById(id)?.addEventListener('change', (ev) => {
+        this.filters[key] = (ev.target as HTMLInputElement | HTMLSelectElement).value;
+        void this.load();
+      });
+    };
+    bindFilter('usage-f-user', 'user');
+    bindFilter('usage-f-model', 'model');
+    bindFilter('usage-f-target', 'target');
+    bindFilter('usage-f-from', 'from');
+    bindFilter('usage-f-to', 'to');
+
+    document.getElementById('usage-export-csv')?.addEventListener('click', () => void this.exportCsv());
+  }
+}
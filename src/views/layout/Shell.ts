@@ -14,6 +14,7 @@ import { Router }      from '@/core/Router';
 import { Sidebar }     from './Sidebar';
 
 import { LoginView }     from '@/views/LoginView';
+import { SetupView }     from '@/views/SetupView';
 import { FleetView }     from '@/views/FleetView';
 import { ForgeView }     from '@/views/ForgeView';
 import { PulseView }     from '@/views/PulseView';
@@ -21,6 +22,8 @@ import { ToolchainView } from '@/views/ToolchainView';
 import { ConsoleView }   from '@/views/ConsoleView';
 import { SettingsView }  from '@/views/SettingsView';
 import { RemoteView }    from '@/views/RemoteView';
+import { AuditView }     from '@/views/AuditView';
+import { UsageView }     from '@/views/UsageView';
 import type { DaemonController } from '@/controllers/DaemonController';
 import type { AuthController }   from '@/controllers/AuthController';
 
@@ -72,7 +75,7 @@ export class Shell {
 
     // Auth guard — any protected route requires a valid session.
     // If the token has expired or was never set, bounce to /login.
-    if (route !== '/login' && !AuthService.isAuthenticated()) {
+    if (route !== '/login' && route !== '/setup' && !AuthService.isAuthenticated()) {
       Router.navigate('/login');
       return;
     }
@@ -86,12 +89,15 @@ export class Shell {
 
     switch (route) {
       case '/login':     view = new LoginView(canvas, this.controllers.auth);   break;
+      case '/setup':     view = new SetupView(canvas, this.controllers.auth);   break;
       case '/fleet':     view = new FleetView(canvas, this.controllers.daemon); break;
       case '/forge':     view = new ForgeView(canvas);     break;
       case '/pulse':     view = new PulseView(canvas);     break;
       case '/toolchain': view = new ToolchainView(canvas); break;
       case '/console':   view = new ConsoleView(canvas);   break;
       case '/remote':    view = new RemoteView(canvas);    break;
+      case '/audit':     view = new AuditView(canvas);     break;
+      case '/usage':     view = new UsageView(canvas);     break;
       case '/settings':  view = new SettingsView(canvas);  break;
       default:
         canvas.innerHTML = `
@@ -1,21 +1,39 @@
 /**
  * Sidebar — Left navigation (the vertical bar of the L-shape).
  *
- * Renders the five module links and a status indicator strip.
- * Highlights the active route. Never initiates data fetching.
+ * Renders the module links (admin-only entries hidden from viewers), the
+ * daemon targets the user may see (from the Store; hidden ones are filtered
+ * out by the bridge) with their circuit-breaker state, the open alerts on
+ * those targets (from the health stream; acknowledged ones dimmed), and a
+ * status indicator strip. Highlights the active
+ * route. Never initiates data fetching.
  */
 
 import { Store }  from '@/core/Store';
 import { Router } from '@/core/Router';
 import type { Route } from '@/core/Router';
+import type { IAlert, ICircuitStatus, ITargetSummary } from '@/types';
 
-const NAV_ITEMS: { route: Route; label: string; icon: string }[] = [
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const MAX_SIDEBAR_ALERTS = 5;
+
+interface NavItem {
+  route:      Route;
+  label:      string;
+  icon:       string;
+  adminOnly?: boolean;
+}
+
+const NAV_ITEMS: NavItem[] = [
   { route: '/fleet',     label: 'The Fleet',     icon: '⬡' },
   { route: '/forge',     label: 'The Forge',     icon: '⚙' },
   { route: '/pulse',     label: 'The Pulse',     icon: '◎' },
   { route: '/toolchain', label: 'The Toolchain', icon: '⎘' },
   { route: '/console',   label: 'The Console',   icon: '>' },
   { route: '/remote',    label: 'Remote Nodes',  icon: '⌁' },
+  { route: '/usage',     label: 'Usage',         icon: '∑' },
+  { route: '/audit',     label: 'Audit Log',     icon: '≣', adminOnly: true },
   { route: '/settings',  label: 'Settings',      icon: '⚊' },
 ];
 
@@ -30,6 +48,7 @@ export class Sidebar {
   private render(activeRoute: string): void {
     const state = Store.getState();
     const user  = state.currentUser;
+    const items = NAV_ITEMS.filter(item => !item.adminOnly || user?.role === 'admin');
 
     this.root.innerHTML = `
       <div class="flex flex-col h-full">
@@ -41,9 +60,29 @@ export class Sidebar {
 
         <!-- Nav -->
         <nav class="flex-1 py-4 space-y-1 px-2">
-          ${NAV_ITEMS.map(item => this.navItem(item, activeRoute)).join('')}
+          ${items.map(item => this.navItem(item, activeRoute)).join('')}
         </nav>
 
+        <!-- Targets visible to this user -->
+        ${user && state.targets.length > 0 ? `
+          <div class="px-4 py-3 border-t border-slate-800 space-y-1">
+            <p class="text-[10px] font-bold uppercase tracking-wider text-slate-600 mb-1.5">Targets</p>
+            ${state.targets.map(t => this.targetItem(t, t.id === state.activeTargetId, user.role !== 'admin', state.circuits.get(t.id))).join('')}
+          </div>` : ''}
+
+        <!-- Open alerts on those targets -->
+        ${user && state.alerts.length > 0 ? `
+          <div class="px-4 py-3 border-t border-slate-800 space-y-1">
+            <p class="text-[10px] font-bold uppercase tracking-wider text-slate-600 mb-1.5">
+              Alerts <span class="text-red-400">${state.alerts.filter(a => !a.acknowledgedAt).length || ''}</span>
+            </p>
+            ${state.alerts.slice(0, MAX_SIDEBAR_ALERTS).map(a => this.alertItem(a)).join('')}
+            ${state.alerts.length > MAX_SIDEBAR_ALERTS ? `
+              <p data-sidebar-alert class="text-[10px] text-slate-600 cursor-pointer hover:text-slate-400">
+                +${state.alerts.length - MAX_SIDEBAR_ALERTS} more
+              </p>` : ''}
+          </div>` : ''}
+
         <!-- User strip -->
         <div class="px-4 py-3 border-t border-slate-800 text-[11px] text-slate-500">
           ${user ? `<span>${user.username}</span> · <span class="text-indigo-500">${user.role}</span>` : '<span>Not logged in</span>'}
@@ -52,13 +91,52 @@ export class Sidebar {
     `;
 
     // Attach nav click handlers
-    NAV_ITEMS.forEach(item => {
+    items.forEach(item => {
       document.getElementById(`nav-${item.route.slice(1)}`)
         ?.addEventListener('click', () => Router.navigate(item.route));
     });
+    // Targets are switched, and alerts acknowledged, in Settings
+    this.root.querySelectorAll('[data-sidebar-target], [data-sidebar-alert]').forEach(el => {
+      el.addEventListener('click', () => Router.navigate('/settings'));
+    });
+  }
+
+  private alertItem(alert: IAlert): string {
+    const acked = alert.acknowledgedAt !== null;
+    const title = `${alert.ruleName} · ${alert.targetLabel} — ${alert.message}${acked ? ` (acknowledged by ${alert.acknowledgedBy ?? '?'})` : ''}`;
+    return `
+      <div data-sidebar-alert title="${esc(title)}"
+        class="flex items-center gap-2 text-[11px] cursor-pointer rounded px-1 py-0.5 hover:bg-slate-800
+               ${acked ? 'text-slate-600' : 'text-slate-300'}">
+        <span class="w-1.5 h-1.5 rounded-full flex-shrink-0 ${acked ? 'bg-slate-700' : 'bg-red-500 animate-pulse'}"></span>
+        <span class="flex-1 truncate">${esc(alert.ruleName)}</span>
+        <span class="text-[9px] text-slate-600 truncate max-w-[5rem]">${esc(alert.targetLabel)}</span>
+      </div>
+    `;
+  }
+
+  private targetItem(target: ITargetSummary, active: boolean, showAccess: boolean, circuit?: ICircuitStatus): string {
+    const tripped = circuit && circuit.state !== 'closed';
+    const title   = tripped ? `${target.url} — circuit ${circuit.state}${circuit.lastError ? `: ${circuit.lastError}` : ''}` : target.url;
+    return `
+      <div data-sidebar-target="${esc(target.id)}" title="${esc(title)}"
+        class="flex items-center gap-2 text-[11px] cursor-pointer rounded px-1 py-0.5 hover:bg-slate-800
+               ${active ? 'text-slate-200' : 'text-slate-500'}">
+        <span class="w-1.5 h-1.5 rounded-full flex-shrink-0 ${active ? 'bg-emerald-400' : 'bg-slate-700'}"></span>
+        <span class="flex-1 truncate">${esc(target.label)}</span>
+        ${tripped ? `
+          <span class="text-[9px] uppercase tracking-wider ${circuit.state === 'open' ? 'text-red-400' : 'text-amber-400'}">
+            ${circuit.state === 'open' ? 'tripped' : 'retrying'}
+          </span>` : ''}
+        ${showAccess ? `
+          <span class="text-[9px] uppercase tracking-wider ${target.access === 'operate' ? 'text-amber-400' : 'text-slate-600'}">
+            ${target.access}
+          </span>` : ''}
+      </div>
+    `;
   }
 
-  private navItem(item: { route: Route; label: string; icon: string }, activeRoute: string): string {
+  private navItem(item: NavItem, activeRoute: string): string {
     const isActive = activeRoute === item.route;
     const base  = 'flex items-center gap-3 px-3 py-2 rounded-md cursor-pointer text-sm transition-colors';
     const style = isActive
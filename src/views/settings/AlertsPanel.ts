@@ -0,0 +1,475 @@
+/**
+ * AlertsPanel — Settings section for alerts, their rules and webhooks.
+ *
+ * Everyone sees the open alerts on the targets they can see (GET /api/alerts)
+ * and can acknowledge those on targets they may operate. Admins also manage
+ * the rules that raise alerts (/api/alerts/rules) — with silencing — and the
+ * webhooks notified when an alert fires or resolves (/api/alerts/webhooks).
+ * Open alerts also arrive with every health event, so the list follows the
+ * Store between loads.
+ *
+ * Same fragment contract as UsersPanel: render() inside the host template,
+ * bind() after every re-render.
+ */
+
+import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
+import { Access, OPERATE_ONLY_TITLE } from '@/core/Access';
+import type { AlertKind, IAlert } from '@/types';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+type HealthAlertState = 'stopped' | 'stalled';
+
+interface AlertRule {
+  id:            number;
+  name:          string;
+  kind:          AlertKind;
+  targetId:      string | null;   // null = every target
+  states:        HealthAlertState[] | null;
+  threshold:     number | null;
+  pattern:       string | null;
+  forSeconds:    number;
+  enabled:       boolean;
+  silencedUntil: string | null;
+}
+
+interface Webhook {
+  id:         number;
+  name:       string;
+  url:        string;
+  hasSecret:  boolean;
+  enabled:    boolean;
+  lastStatus: 'ok' | 'retrying' | 'failed' | null;
+  lastError:  string | null;
+  lastAt:     string | null;
+}
+
+const KIND_LABEL: Record<AlertKind, string> = {
+  health:         'Daemon down',
+  vram:           'VRAM use',
+  gpu_temp:       'GPU temperature',
+  model_unloaded: 'Model unloaded unexpectedly',
+  log_error:      'Error in runtime log',
+};
+
+/** Kinds that fire on an event rather than a condition — no "for" duration. */
+const EVENT_KINDS: ReadonlySet<AlertKind> = new Set(['model_unloaded', 'log_error']);
+
+const WEBHOOK_STYLE: Record<NonNullable<Webhook['lastStatus']>, string> = {
+  ok:       'text-emerald-400',
+  retrying: 'text-amber-400',
+  failed:   'text-red-400',
+};
+
+const SILENCE_MINUTES = 60;
+
+const blankRule = (): Omit<AlertRule, 'id' | 'silencedUntil'> => ({
+  name: '', kind: 'health', targetId: null, states: ['stalled'], threshold: null, pattern: null, forSeconds: 60, enabled: true,
+});
+
+const ago = (iso: string) => {
+  const s = Math.max(0, Math.round((Date.now() - Date.parse(iso)) / 1000));
+  if (s < 60)   return `${s}s ago`;
+  if (s < 3600) return `${Math.round(s / 60)}m ago`;
+  return `${Math.round(s / 3600)}h ago`;
+};
+
+export class AlertsPanel {
+  private loaded  = false;
+  private recent: IAlert[] = [];
+  private rules:  AlertRule[] = [];
+  private webhooks: Webhook[] = [];
+  private working = false;
+  private error   = '';
+
+  /** null = form closed · 0 = new rule · otherwise the rule being edited */
+  private editingId: number | null = null;
+  private draft = blankRule();
+  private ruleError = '';
+
+  private showWebhookForm = false;
+  private webhookError = '';
+  private testResult: { id: number; text: string; ok: boolean } | null = null;
+
+  constructor(private readonly onChange: () => void) {}
+
+  private get isAdmin(): boolean {
+    return Store.getState().currentUser?.role === 'admin';
+  }
+
+  async load(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch('/api/alerts');
+      if (res.ok) {
+        const d = (await res.json()) as { alerts: IAlert[]; recent: IAlert[] };
+        Store.setAlerts(d.alerts);
+        this.recent = d.recent.filter(a => a.resolvedAt !== null);
+      }
+      if (this.isAdmin) {
+        const [rules, hooks] = await Promise.all([
+          AuthService.apiFetch('/api/alerts/rules'),
+          AuthService.apiFetch('/api/alerts/webhooks'),
+        ]);
+        if (rules.ok) this.rules    = ((await rules.json()) as { rules: AlertRule[] }).rules;
+        if (hooks.ok) this.webhooks = ((await hooks.json()) as { webhooks: Webhook[] }).webhooks;
+      }
+      this.loaded = true;
+    } catch { /* redirecting to login */ }
+    this.onChange();
+  }
+
+  /** Send a request, reload on success and return the error message otherwise. */
+  private async send(path: string, method: string, body?: unknown): Promise<string> {
+    this.working = true; this.onChange();
+    let error = '';
+    try {
+      const res = await AuthService.apiFetch(path, { method, ...(body === undefined ? {} : { body: JSON.stringify(body) }) });
+      if (res.ok) {
+        await this.load();
+      } else {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        error = d.error ?? `Request failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    this.onChange();
+    return error;
+  }
+
+  private async saveRule(): Promise<void> {
+    const d = this.draft;
+    const body = {
+      name: d.name, kind: d.kind, targetId: d.targetId, enabled: d.enabled,
+      ...(d.kind === 'health'                         ? { states: d.states } : {}),
+      ...(d.kind === 'vram' || d.kind === 'gpu_temp' ? { threshold: d.threshold } : {}),
+      ...(d.kind === 'log_error' && d.pattern         ? { pattern: d.pattern } : {}),
+      ...(EVENT_KINDS.has(d.kind)                     ? {} : { forSeconds: d.forSeconds }),
+    };
+    this.ruleError = this.editingId
+      ? await this.send(`/api/alerts/rules/${this.editingId}`, 'PUT', body)
+      : await this.send('/api/alerts/rules', 'POST', body);
+    if (!this.ruleError) this.editingId = null;
+    this.onChange();
+  }
+
+  private async saveWebhook(root: HTMLElement): Promise<void> {
+    const value = (id: string) => (root.querySelector<HTMLInputElement>(`#${id}`)?.value ?? '').trim();
+    const secret = value('wh-secret');
+    this.webhookError = await this.send('/api/alerts/webhooks', 'POST', {
+      name: value('wh-name'), url: value('wh-url'), ...(secret ? { secret } : {}),
+    });
+    if (!this.webhookError) this.showWebhookForm = false;
+    this.onChange();
+  }
+
+  private async testWebhook(id: number): Promise<void> {
+    this.working = true; this.testResult = null; this.onChange();
+    try {
+      const res = await AuthService.apiFetch(`/api/alerts/webhooks/${id}/test`, { method: 'POST' });
+      const d = (await res.json().catch(() => ({}))) as { ok?: boolean; status?: number | null; error?: string | null };
+      this.testResult = d.ok
+        ? { id, ok: true,  text: `Delivered (HTTP ${d.status ?? '?'})` }
+        : { id, ok: false, text: d.error ?? `Test failed (HTTP ${res.status})` };
+      await this.load();
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    this.onChange();
+  }
+
+  // ── Rendering ───────────────────────────────────────────────────────────────
+
+  private renderAlert(a: IAlert): string {
+    const acked = a.acknowledgedAt !== null;
+    const canAck = Access.canOperateTarget(a.targetId);
+    return `
+      <div class="flex items-center gap-2 rounded-lg px-3 py-2 bg-slate-800/50 text-[11px]">
+        <span class="w-1.5 h-1.5 rounded-full flex-shrink-0 ${acked ? 'bg-slate-600' : 'bg-red-500'}"></span>
+        <div class="flex-1 min-w-0">
+          <p class="truncate ${acked ? 'text-slate-500' : 'text-slate-200'}">
+            <span class="font-semibold">${esc(a.ruleName)}</span>
+            <span class="text-slate-500">· ${esc(a.targetLabel)}</span>
+          </p>
+          <p class="truncate text-[10px] text-slate-500" title="${esc(a.message)}">
+            ${esc(a.message)}${a.occurrences > 1 ? ` · ×${a.occurrences}` : ''} · since ${esc(ago(a.startedAt))}
+            ${acked ? ` · acknowledged by ${esc(a.acknowledgedBy ?? '?')}` : ''}
+            ${a.silenced ? ' · <span class="text-amber-500">silenced</span>' : ''}
+          </p>
+        </div>
+        ${acked ? '' : `
+          <button data-alert-ack="${a.id}" ${canAck ? '' : `disabled title="${esc(OPERATE_ONLY_TITLE)}"`}
+            class="text-[10px] font-semibold text-indigo-400 hover:text-indigo-300 disabled:opacity-40 disabled:cursor-not-allowed">
+            Acknowledge
+          </button>`}
+      </div>`;
+  }
+
+  private ruleSummary(r: AlertRule): string {
+    const target = r.targetId === null ? 'every target' : (Store.getState().targets.find(t => t.id === r.targetId)?.label ?? r.targetId);
+    const detail =
+      r.kind === 'health'   ? (r.states ?? []).join(' or ') :
+      r.kind === 'vram'     ? `≥ ${r.threshold ?? '?'}%` :
+      r.kind === 'gpu_temp' ? `≥ ${r.threshold ?? '?'} °C` :
+      r.kind === 'log_error' ? `/${r.pattern ?? ''}/i` : '';
+    const duration = EVENT_KINDS.has(r.kind) || r.forSeconds === 0 ? '' : ` for ${r.forSeconds}s`;
+    return `${KIND_LABEL[r.kind]} ${detail}${duration} · ${target}`;
+  }
+
+  private renderRule(r: AlertRule): string {
+    const silenced = r.silencedUntil !== null && Date.parse(r.silencedUntil) > Date.now();
+    return `
+      <div class="flex items-center gap-2 rounded-lg px-3 py-2 bg-slate-800/50 text-[11px]">
+        <div class="flex-1 min-w-0">
+          <p class="truncate ${r.enabled ? 'text-slate-200' : 'text-slate-500'}">
+            <span class="font-semibold">${esc(r.name)}</span>
+            ${r.enabled ? '' : '<span class="text-[10px] text-slate-600">(disabled)</span>'}
+            ${silenced ? `<span class="text-[10px] text-amber-500">silenced until ${esc(new Date(r.silencedUntil!).toLocaleTimeString())}</span>` : ''}
+          </p>
+          <p class="truncate text-[10px] text-slate-500 font-mono">${esc(this.ruleSummary(r))}</p>
+        </div>
+        <button data-rule-silence="${r.id}" data-minutes="${silenced ? 0 : SILENCE_MINUTES}"
+          class="text-[10px] font-semibold text-amber-400 hover:text-amber-300">${silenced ? 'Unsilence' : 'Silence 1h'}</button>
+        <button data-rule-edit="${r.id}" class="text-[10px] font-semibold text-indigo-400 hover:text-indigo-300">Edit</button>
+        <button data-rule-delete="${r.id}" class="text-[10px] font-semibold text-red-400 hover:text-red-300">Delete</button>
+      </div>`;
+  }
+
+  private renderRuleForm(): string {
+    const d = this.draft;
+    const input = 'bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-[12px] text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+    return `
+      <div class="rounded-lg px-3 py-3 bg-slate-800/30 border border-slate-800 space-y-2">
+        <div class="flex flex-wrap items-center gap-2">
+          <input id="rule-name" type="text" value="${esc(d.name)}" placeholder="Rule name" maxlength="64" class="flex-1 min-w-[8rem] ${input}">
+          <select id="rule-kind" class="${input} cursor-pointer">
+            ${(Object.keys(KIND_LABEL) as AlertKind[]).map(k =>
+              `<option value="${k}" ${d.kind === k ? 'selected' : ''}>${KIND_LABEL[k]}</option>`).join('')}
+          </select>
+          <select id="rule-target" class="${input} cursor-pointer">
+            <option value="" ${d.targetId === null ? 'selected' : ''}>Every target</option>
+            ${Store.getState().targets.map(t =>
+              `<option value="${esc(t.id)}" ${d.targetId === t.id ? 'selected' : ''}>${esc(t.label)}</option>`).join('')}
+          </select>
+        </div>
+        <div class="flex flex-wrap items-center gap-3 text-[11px] text-slate-400">
+          ${d.kind === 'health' ? (['stalled', 'stopped'] as HealthAlertState[]).map(s => `
+            <label class="flex items-center gap-1 cursor-pointer">
+              <input data-rule-state value="${s}" type="checkbox" ${d.states?.includes(s) ? 'checked' : ''} class="accent-indigo-500"> ${s}
+            </label>`).join('') : ''}
+          ${d.kind === 'vram' || d.kind === 'gpu_temp' ? `
+            <label class="flex items-center gap-1">
+              At or above
+              <input id="rule-threshold" type="number" min="1" max="${d.kind === 'vram' ? 100 : 150}" value="${d.threshold ?? ''}"
+                class="w-16 ${input} font-mono">
+              ${d.kind === 'vram' ? '%' : '°C'}
+            </label>` : ''}
+          ${d.kind === 'log_error' ? `
+            <input id="rule-pattern" type="text" value="${esc(d.pattern ?? '')}" placeholder="\\b(error|fatal|panic|exception)\\b"
+              class="flex-1 min-w-[12rem] ${input} font-mono">` : ''}
+          ${d.kind === 'model_unloaded' ? `
+            <span class="text-[10px] text-slate-500">Fires when a model leaves memory without an eject, unload or stop from DaemonPulse.</span>` : ''}
+          ${EVENT_KINDS.has(d.kind) ? '' : `
+            <label class="flex items-center gap-1">
+              for
+              <input id="rule-for" type="number" min="0" max="86400" value="${d.forSeconds}" class="w-20 ${input} font-mono">
+              s
+            </label>`}
+          <label class="flex items-center gap-1 cursor-pointer">
+            <input id="rule-enabled" type="checkbox" ${d.enabled ? 'checked' : ''} class="accent-indigo-500"> Enabled
+          </label>
+        </div>
+        ${this.ruleError ? `<p class="text-[11px] text-red-400">${esc(this.ruleError)}</p>` : ''}
+        <div class="flex justify-end gap-2">
+          <button id="rule-cancel" class="px-3 py-1 text-xs text-slate-400 hover:text-slate-200">Cancel</button>
+          <button id="rule-save"
+            class="px-4 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-lg transition-colors">
+            ${this.editingId ? 'Save rule' : 'Add rule'}
+          </button>
+        </div>
+      </div>`;
+  }
+
+  private renderWebhook(w: Webhook): string {
+    const test = this.testResult?.id === w.id ? this.testResult : null;
+    return `
+      <div class="flex items-center gap-2 rounded-lg px-3 py-2 bg-slate-800/50 text-[11px]">
+        <div class="flex-1 min-w-0">
+          <p class="truncate text-slate-200">
+            <span class="font-semibold">${esc(w.name)}</span>
+            ${w.hasSecret ? '<span class="text-[10px] text-slate-500">signed</span>' : ''}
+          </p>
+          <p class="truncate text-[10px] text-slate-500 font-mono" title="${esc(w.url)}">${esc(w.url)}</p>
+          ${test ? `<p class="text-[10px] ${test.ok ? 'text-emerald-400' : 'text-red-400'}">${esc(test.text)}</p>` : w.lastStatus ? `
+            <p class="text-[10px] ${WEBHOOK_STYLE[w.lastStatus]}" title="${esc(w.lastError ?? '')}">
+              ${w.lastStatus}${w.lastAt ? ` · ${esc(ago(w.lastAt))}` : ''}${w.lastError ? ` · ${esc(w.lastError)}` : ''}
+            </p>` : ''}
+        </div>
+        <button data-webhook-test="${w.id}" class="text-[10px] font-semibold text-indigo-400 hover:text-indigo-300">Test</button>
+        <button data-webhook-delete="${w.id}" class="text-[10px] font-semibold text-red-400 hover:text-red-300">Delete</button>
+      </div>`;
+  }
+
+  private renderWebhookForm(): string {
+    const input = 'bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-[12px] text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+    return `
+      <div class="rounded-lg px-3 py-3 bg-slate-800/30 border border-slate-800 space-y-2">
+        <div class="flex flex-wrap gap-2">
+          <input id="wh-name" type="text" placeholder="Name" maxlength="64" class="w-32 ${input}">
+          <input id="wh-url" type="url" placeholder="https://hooks.example.com/…" class="flex-1 min-w-[12rem] ${input} font-mono">
+          <input id="wh-secret" type="password" placeholder="Signing secret (optional)" autocomplete="off" class="w-48 ${input}">
+        </div>
+        ${this.webhookError ? `<p class="text-[11px] text-red-400">${esc(this.webhookError)}</p>` : ''}
+        <div class="flex justify-end gap-2">
+          <button id="wh-cancel" class="px-3 py-1 text-xs text-slate-400 hover:text-slate-200">Cancel</button>
+          <button id="wh-save"
+            class="px-4 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-lg transition-colors">
+            Add webhook
+          </button>
+        </div>
+      </div>`;
+  }
+
+  render(): string {
+    const busy   = this.working ? 'opacity-40 pointer-events-none' : '';
+    const alerts = Store.getState().alerts;
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3 ${busy}">
+        <div class="flex items-center justify-between">
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">Alerts</h2>
+          ${alerts.length > 0 ? `<span class="text-[11px] font-semibold text-red-400">${alerts.length} open</span>` : ''}
+        </div>
+        ${!this.loaded
+          ? '<p class="text-[11px] text-slate-700 font-mono">Loading…</p>'
+          : alerts.length === 0
+            ? '<p class="text-[11px] text-slate-600">No open alerts.</p>'
+            : alerts.map(a => this.renderAlert(a)).join('')}
+        ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+        ${this.recent.length > 0 ? `
+          <details class="text-[11px]">
+            <summary class="cursor-pointer text-[10px] text-slate-600 hover:text-slate-400">Recently resolved (${this.recent.length})</summary>
+            <div class="mt-1 space-y-0.5">
+              ${this.recent.map(a => `
+                <p class="truncate text-[10px] text-slate-500" title="${esc(a.message)}">
+                  <span class="text-slate-400">${esc(a.ruleName)}</span> · ${esc(a.targetLabel)} · ${esc(a.message)}
+                  · resolved ${esc(ago(a.resolvedAt!))}
+                </p>`).join('')}
+            </div>
+          </details>` : ''}
+
+        ${this.isAdmin ? `
+          <div class="border-t border-slate-800 pt-3 space-y-2">
+            <div class="flex items-center justify-between">
+              <p class="text-[10px] font-bold uppercase tracking-wider text-slate-600">Rules</p>
+              ${this.editingId === null ? '<button id="rule-add" class="text-[11px] font-semibold text-indigo-400 hover:text-indigo-300">+ Add rule</button>' : ''}
+            </div>
+            ${this.editingId === 0 ? this.renderRuleForm() : ''}
+            ${this.rules.length === 0 && this.editingId === null
+              ? '<p class="text-[11px] text-slate-600">No rules — nothing raises alerts.</p>'
+              : this.rules.map(r => this.editingId === r.id ? this.renderRuleForm() : this.renderRule(r)).join('')}
+            <p class="text-[10px] text-slate-600">
+              A condition must hold for the whole "for" duration before its alert fires, and resolves once it clears.
+              Silencing keeps alerts open but sends no webhooks.
+            </p>
+          </div>
+
+          <div class="border-t border-slate-800 pt-3 space-y-2">
+            <div class="flex items-center justify-between">
+              <p class="text-[10px] font-bold uppercase tracking-wider text-slate-600">Webhooks</p>
+              ${this.showWebhookForm ? '' : '<button id="wh-add" class="text-[11px] font-semibold text-indigo-400 hover:text-indigo-300">+ Add webhook</button>'}
+            </div>
+            ${this.showWebhookForm ? this.renderWebhookForm() : ''}
+            ${this.webhooks.length === 0 && !this.showWebhookForm
+              ? '<p class="text-[11px] text-slate-600">No webhooks — alerts only show here and in the sidebar.</p>'
+              : this.webhooks.map(w => this.renderWebhook(w)).join('')}
+            <p class="text-[10px] text-slate-600">
+              Each webhook receives a JSON POST when an alert fires or resolves. Failed deliveries are retried
+              after 10 s, 1 min, 5 min and 15 min. With a secret, the body is signed in
+              <span class="font-mono text-slate-500">X-DaemonPulse-Signature</span>.
+            </p>
+          </div>` : ''}
+      </section>
+    `;
+  }
+
+  bind(root: HTMLElement): void {
+    root.querySelectorAll<HTMLButtonElement>('[data-alert-ack]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        void this.send(`/api/alerts/${btn.dataset['alertAck']}/ack`, 'POST').then((error) => { this.error = error; this.onChange(); });
+      });
+    });
+    if (!this.isAdmin) return;
+
+    // Rules
+    document.getElementById('rule-add')?.addEventListener('click', () => {
+      this.editingId = 0; this.draft = blankRule(); this.ruleError = ''; this.onChange();
+    });
+    document.getElementById('rule-cancel')?.addEventListener('click', () => { this.editingId = null; this.onChange(); });
+    document.getElementById('rule-save')?.addEventListener('click', () => void this.saveRule());
+    root.querySelectorAll<HTMLButtonElement>('[data-rule-edit]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const rule = this.rules.find(r => r.id === Number(btn.dataset['ruleEdit']));
+        if (!rule) return;
+        const { id, silencedUntil: _s, ...draft } = rule;
+        this.editingId = id; this.draft = draft; this.ruleError = ''; this.onChange();
+      });
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-rule-delete]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (!confirm('Delete this alert rule? Its open alerts are resolved.')) return;
+        void this.send(`/api/alerts/rules/${btn.dataset['ruleDelete']}`, 'DELETE').then((error) => { this.error = error; this.onChange(); });
+      });
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-rule-silence]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        void this.send(`/api/alerts/rules/${btn.dataset['ruleSilence']}/silence`, 'POST', { minutes: Number(btn.dataset['minutes']) })
+          .then((error) => { this.error = error; this.onChange(); });
+      });
+    });
+
+    // Rule form — fields update the draft; kind changes re-render the kind-specific inputs
+    (document.getElementById('rule-name') as HTMLInputElement | null)
+      ?.addEventListener('input', (e) => { this.draft.name = (e.target as HTMLInputElement).value; });
+    (document.getElementById('rule-kind') as HTMLSelectElement | null)?.addEventListener('change', (e) => {
+      const kind = (e.target as HTMLSelectElement).value as AlertKind;
+      this.draft = {
+        ...this.draft, kind,
+        states:    kind === 'health' ? (this.draft.states ?? ['stalled']) : null,
+        threshold: kind === 'vram' ? 90 : kind === 'gpu_temp' ? 85 : null,
+      };
+      this.onChange();
+    });
+    (document.getElementById('rule-target') as HTMLSelectElement | null)
+      ?.addEventListener('change', (e) => { this.draft.targetId = (e.target as HTMLSelectElement).value || null; });
+    (document.getElementById('rule-threshold') as HTMLInputElement | null)
+      ?.addEventListener('input', (e) => { this.draft.threshold = Number((e.target as HTMLInputElement).value); });
+    (document.getElementById('rule-pattern') as HTMLInputElement | null)
+      ?.addEventListener('input', (e) => { this.draft.pattern = (e.target as HTMLInputElement).value || null; });
+    (document.getElementById('rule-for') as HTMLInputElement | null)
+      ?.addEventListener('input', (e) => { this.draft.forSeconds = Number((e.target as HTMLInputElement).value); });
+    (document.getElementById('rule-enabled') as HTMLInputElement | null)
+      ?.addEventListener('change', (e) => { this.draft.enabled = (e.target as HTMLInputElement).checked; });
+    root.querySelectorAll<HTMLInputElement>('[data-rule-state]').forEach(el => {
+      el.addEventListener('change', () => {
+        const states = this.draft.states ?? [];
+        const state  = el.value as HealthAlertState;
+        this.draft.states = el.checked ? [...states, state] : states.filter(s => s !== state);
+      });
+    });
+
+    // Webhooks
+    document.getElementById('wh-add')?.addEventListener('click', () => {
+      this.showWebhookForm = true; this.webhookError = ''; this.onChange();
+    });
+    document.getElementById('wh-cancel')?.addEventListener('click', () => { this.showWebhookForm = false; this.onChange(); });
+    document.getElementById('wh-save')?.addEventListener('click', () => void this.saveWebhook(root));
+    root.querySelectorAll<HTMLButtonElement>('[data-webhook-test]').forEach(btn => {
+      btn.addEventListener('click', () => void this.testWebhook(Number(btn.dataset['webhookTest'])));
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-webhook-delete]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (!confirm('Delete this webhook?')) return;
+        void this.send(`/api/alerts/webhooks/${btn.dataset['webhookDelete']}`, 'DELETE').then((error) => { this.error = error; this.onChange(); });
+      });
+    });
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * ApiTokensPanel — Settings section for personal API tokens.
+ *
+ * Tokens let scripts call /api/proxy/* and /api/remote/* with
+ * `Authorization: Bearer dp_…` instead of a browser JWT. Each has a scope
+ * (read / inference / operator) and an optional expiry; the plaintext is
+ * shown once after creation. Admins see and can revoke everyone's tokens.
+ *
+ * Same fragment contract as UsersPanel: render() inside the host template,
+ * bind() after every re-render.
+ */
+
+import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+type Scope = 'read' | 'inference' | 'operator';
+
+interface TokenRow {
+  id:         number;
+  userId:     number;
+  username:   string;
+  name:       string;
+  scope:      Scope;
+  prefix:     string;
+  createdAt:  string;
+  lastUsedAt: string | null;
+  expiresAt:  string | null;
+}
+
+const SCOPE_LABEL: Record<Scope, string> = {
+  read:      'Read-only',
+  inference: 'Inference-only',
+  operator:  'Operator',
+};
+
+const SCOPE_COLOR: Record<Scope, string> = {
+  read:      'text-slate-400 border-slate-700',
+  inference: 'text-sky-400 border-sky-900',
+  operator:  'text-amber-400 border-amber-900',
+};
+
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 30,   label: '30 days' },
+  { days: 90,   label: '90 days' },
+  { days: 365,  label: '1 year'  },
+  { days: null, label: 'Never'   },
+];
+
+function ago(iso: string): string {
+  const s = Math.max(0, Math.round((Date.now() - Date.parse(iso)) / 1000));
+  if (s < 60)    return 'just now';
+  if (s < 3600)  return `${Math.floor(s / 60)} min ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)} h ago`;
+  return `${Math.floor(s / 86400)} d ago`;
+}
+
+export class ApiTokensPanel {
+  private tokens: TokenRow[] = [];
+  private loaded  = false;
+  private working = false;
+  private error   = '';
+
+  private showAddForm = false;
+  private addName     = '';
+  private addScope: Scope = 'read';
+  private addExpiry: number | null = 90;
+
+  private created: string | null = null;   // plaintext of the token just created
+  private copied  = false;
+
+  constructor(private readonly onChange: () => void) {}
+
+  private get isAdmin(): boolean {
+    return Store.getState().currentUser?.role === 'admin';
+  }
+
+  async load(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch('/api/tokens');
+      if (res.ok) {
+        const d = (await res.json()) as { tokens: TokenRow[] };
+        this.tokens = d.tokens;
+      }
+    } catch { /* leave empty */ }
+    this.loaded = true;
+    this.onChange();
+  }
+
+  private async create(): Promise<void> {
+    this.working = true; this.error = ''; this.onChange();
+    try {
+      const res = await AuthService.apiFetch('/api/tokens', {
+        method: 'POST',
+        body:   JSON.stringify({ name: this.addName.trim(), scope: this.addScope, expiresInDays: this.addExpiry }),
+      });
+      const d = (await res.json().catch(() => ({}))) as { token?: string; error?: string };
+      if (res.ok && d.token) {
+        this.created     = d.token;
+        this.copied      = false;
+        this.addName     = '';
+        this.showAddForm = false;
+      } else {
+        this.error = d.error ?? `Create failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    await this.load();
+  }
+
+  private async revoke(id: number): Promise<void> {
+    this.working = true; this.error = ''; this.onChange();
+    try {
+      const res = await AuthService.apiFetch(`/api/tokens/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.error = d.error ?? `Revoke failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    await this.load();
+  }
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+
+  render(): string {
+    const me     = Store.getState().currentUser;
+    const busy   = this.working ? 'opacity-40 pointer-events-none' : '';
+    const scopes = (Object.keys(SCOPE_LABEL) as Scope[]).filter(s => s !== 'operator' || this.isAdmin);
+
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
+        <div class="flex items-center justify-between">
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">API Tokens</h2>
+          <button id="tok-add-toggle"
+            class="text-[11px] font-semibold text-indigo-400 hover:text-indigo-300
+                   border border-indigo-800 hover:border-indigo-600 rounded-lg px-3 py-1 transition-colors">
+            ${this.showAddForm ? '× Cancel' : '+ New token'}
+          </button>
+        </div>
+
+        ${this.created ? `
+          <div class="bg-emerald-500/5 border border-emerald-500/20 rounded-lg px-3 py-2.5 space-y-2">
+            <p class="text-[11px] text-emerald-400/90">Copy your new token now — it will not be shown again.</p>
+            <div class="flex gap-2 items-center">
+              <code class="flex-1 min-w-0 font-mono text-[12px] text-slate-200 break-all select-all">${esc(this.created)}</code>
+              <button id="tok-copy" class="text-[11px] font-semibold text-emerald-400 hover:text-emerald-300 flex-shrink-0">
+                ${this.copied ? 'Copied ✓' : 'Copy'}
+              </button>
+              <button id="tok-dismiss" class="text-[11px] text-slate-500 hover:text-slate-300 flex-shrink-0">Done</button>
+            </div>
+          </div>` : ''}
+
+        ${this.showAddForm ? `
+          <div class="grid grid-cols-3 gap-2 items-end">
+            <div>
+              <label class="block text-[10px] text-slate-500 mb-0.5">Name</label>
+              <input id="tok-name" type="text" value="${esc(this.addName)}" placeholder="nightly-eval" autocomplete="off"
+                class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                       text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-indigo-500">
+            </div>
+            <div>
+              <label class="block text-[10px] text-slate-500 mb-0.5">Scope</label>
+              <select id="tok-scope"
+                class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                       text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer">
+                ${scopes.map(s => `<option value="${s}" ${this.addScope === s ? 'selected' : ''}>${SCOPE_LABEL[s]}</option>`).join('')}
+              </select>
+            </div>
+            <div>
+              <label class="block text-[10px] text-slate-500 mb-0.5">Expires</label>
+              <select id="tok-expiry"
+                class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                       text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer">
+                ${EXPIRY_OPTIONS.map(o => `<option value="${o.days ?? ''}" ${this.addExpiry === o.days ? 'selected' : ''}>${o.label}</option>`).join('')}
+              </select>
+            </div>
+          </div>
+          <div class="flex justify-end">
+            <button id="tok-add-submit"
+              class="px-5 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-lg transition-colors ${busy}">
+              Create token
+            </button>
+          </div>` : ''}
+
+        <div class="space-y-1.5">
+          ${!this.loaded
+            ? '<p class="text-[11px] text-slate-700 font-mono">Loading…</p>'
+            : this.tokens.length === 0
+              ? '<p class="text-[11px] text-slate-600">No API tokens.</p>'
+              : this.tokens.map(t => `
+                <div class="flex items-center gap-2.5 rounded-lg px-3 py-2 bg-slate-800/50">
+                  <div class="flex-1 min-w-0">
+                    <p class="text-[12px] font-semibold text-slate-200 truncate">
+                      ${esc(t.name)}
+                      <span class="text-[10px] font-normal border rounded px-1.5 py-px ml-1 ${SCOPE_COLOR[t.scope]}">${SCOPE_LABEL[t.scope]}</span>
+                      ${this.isAdmin && t.userId !== me?.id ? `<span class="text-[10px] font-normal text-slate-500 ml-1">${esc(t.username)}</span>` : ''}
+                    </p>
+                    <p class="text-[10px] font-mono text-slate-500 truncate">
+                      ${esc(t.prefix)}…
+                      · created ${ago(t.createdAt)}
+                      · ${t.lastUsedAt ? `last used <span title="${esc(new Date(t.lastUsedAt).toLocaleString())}">${ago(t.lastUsedAt)}</span>` : 'never used'}
+                      ${t.expiresAt ? `· expires ${esc(new Date(t.expiresAt).toLocaleDateString())}` : ''}
+                    </p>
+                  </div>
+                  <button data-tok-revoke="${t.id}" data-tok-name="${esc(t.name)}"
+                    class="text-[10px] font-semibold text-red-400 hover:text-red-300
+                           border border-red-900 hover:border-red-700 rounded px-2 py-0.5 transition-colors ${busy}">
+                    Revoke
+                  </button>
+                </div>
+              `).join('')}
+        </div>
+
+        ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+        <p class="text-[10px] text-slate-600">
+          Send as <span class="font-mono text-slate-500">Authorization: Bearer dp_…</span>.
+          Read-only tokens can only observe; inference-only tokens can only run prompts;
+          operator tokens can do everything your role allows. Tokens cannot manage accounts.
+        </p>
+      </section>
+    `;
+  }
+
+  // ── Events ──────────────────────────────────────────────────────────────────
+
+  bind(root: HTMLElement): void {
+    document.getElementById('tok-add-toggle')?.addEventListener('click', () => {
+      this.showAddForm = !this.showAddForm;
+      this.error = '';
+      this.onChange();
+      document.getElementById('tok-name')?.focus();
+    });
+    (document.getElementById('tok-name') as HTMLInputElement | null)
+      ?.addEventListener('input', (e) => { this.addName = (e.target as HTMLInputElement).value; });
+    (document.getElementById('tok-scope') as HTMLSelectElement | null)
+      ?.addEventListener('change', (e) => { this.addScope = (e.target as HTMLSelectElement).value as Scope; });
+    (document.getElementById('tok-expiry') as HTMLSelectElement | null)
+      ?.addEventListener('change', (e) => {
+        const v = (e.target as HTMLSelectElement).value;
+        this.addExpiry = v ? Number(v) : null;
+      });
+    document.getElementById('tok-add-submit')?.addEventListener('click', () => void this.create());
+
+    document.getElementById('tok-copy')?.addEventListener('click', () => {
+      if (!this.created) return;
+      void navigator.clipboard.writeText(this.created).then(() => {
+        this.copied = true;
+        this.onChange();
+      });
+    });
+    document.getElementById('tok-dismiss')?.addEventListener('click', () => {
+      this.created = null;
+      this.onChange();
+    });
+
+    root.querySelectorAll<HTMLButtonElement>('[data-tok-revoke]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (confirm(`Revoke token "${btn.dataset['tokName'] ?? ''}"? Scripts using it will stop working immediately.`)) {
+          void this.revoke(Number(btn.dataset['tokRevoke']));
+        }
+      });
+    });
+  }
+}
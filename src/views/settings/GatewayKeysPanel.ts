@@ -0,0 +1,240 @@
+/**
+ * GatewayKeysPanel — Settings section for OpenAI-gateway keys.
+ *
+ * Gateway keys (`dpg_…`) let downstream apps call the bridge's /v1/*
+ * endpoints with any OpenAI client. They only open inference and the model
+ * list — not the dashboard API — and reach the targets their owner can see.
+ * The plaintext is shown once after creation. Admins see and can revoke
+ * everyone's keys.
+ *
+ * Same fragment contract as UsersPanel: render() inside the host template,
+ * bind() after every re-render.
+ */
+
+import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface GatewayKeyRow {
+  id:         number;
+  userId:     number;
+  username:   string;
+  name:       string;
+  prefix:     string;
+  createdAt:  string;
+  lastUsedAt: string | null;
+  expiresAt:  string | null;
+}
+
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 30,   label: '30 days' },
+  { days: 90,   label: '90 days' },
+  { days: 365,  label: '1 year'  },
+  { days: null, label: 'Never'   },
+];
+
+function ago(iso: string): string {
+  const s = Math.max(0, Math.round((Date.now() - Date.parse(iso)) / 1000));
+  if (s < 60)    return 'just now';
+  if (s < 3600)  return `${Math.floor(s / 60)} min ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)} h ago`;
+  return `${Math.floor(s / 86400)} d ago`;
+}
+
+export class GatewayKeysPanel {
+  private keys: GatewayKeyRow[] = [];
+  private loaded  = false;
+  private working = false;
+  private error   = '';
+
+  private showAddForm = false;
+  private addName     = '';
+  private addExpiry: number | null = 365;
+
+  private created: string | null = null;   // plaintext of the key just created
+  private copied  = false;
+
+  constructor(private readonly onChange: () => void) {}
+
+  private get isAdmin(): boolean {
+    return Store.getState().currentUser?.role === 'admin';
+  }
+
+  async load(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch('/api/gateway/keys');
+      if (res.ok) {
+        const d = (await res.json()) as { keys: GatewayKeyRow[] };
+        this.keys = d.keys;
+      }
+    } catch { /* leave empty */ }
+    this.loaded = true;
+    this.onChange();
+  }
+
+  private async create(): Promise<void> {
+    this.working = true; this.error = ''; this.onChange();
+    try {
+      const res = await AuthService.apiFetch('/api/gateway/keys', {
+        method: 'POST',
+        body:   JSON.stringify({ name: this.addName.trim(), expiresInDays: this.addExpiry }),
+      });
+      const d = (await res.json().catch(() => ({}))) as { key?: string; error?: string };
+      if (res.ok && d.key) {
+        this.created     = d.key;
+        this.copied      = false;
+        this.addName     = '';
+        this.showAddForm = false;
+      } else {
+        this.error = d.error ?? `Create failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    await this.load();
+  }
+
+  private async revoke(id: number): Promise<void> {
+    this.working = true; this.error = ''; this.onChange();
+    try {
+      const res = await AuthService.apiFetch(`/api/gateway/keys/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.error = d.error ?? `Revoke failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    await this.load();
+  }
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+
+  render(): string {
+    const me   = Store.getState().currentUser;
+    const busy = this.working ? 'opacity-40 pointer-events-none' : '';
+
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
+        <div class="flex items-center justify-between">
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">OpenAI Gateway Keys</h2>
+          <button id="gwk-add-toggle"
+            class="text-[11px] font-semibold text-indigo-400 hover:text-indigo-300
+                   border border-indigo-800 hover:border-indigo-600 rounded-lg px-3 py-1 transition-colors">
+            ${this.showAddForm ? '× Cancel' : '+ New key'}
+          </button>
+        </div>
+
+        ${this.created ? `
+          <div class="bg-emerald-500/5 border border-emerald-500/20 rounded-lg px-3 py-2.5 space-y-2">
+            <p class="text-[11px] text-emerald-400/90">Copy your new gateway key now — it will not be shown again.</p>
+            <div class="flex gap-2 items-center">
+              <code class="flex-1 min-w-0 font-mono text-[12px] text-slate-200 break-all select-all">${esc(this.created)}</code>
+              <button id="gwk-copy" class="text-[11px] font-semibold text-emerald-400 hover:text-emerald-300 flex-shrink-0">
+                ${this.copied ? 'Copied ✓' : 'Copy'}
+              </button>
+              <button id="gwk-dismiss" class="text-[11px] text-slate-500 hover:text-slate-300 flex-shrink-0">Done</button>
+            </div>
+          </div>` : ''}
+
+        ${this.showAddForm ? `
+          <div class="grid grid-cols-3 gap-2 items-end">
+            <div class="col-span-2">
+              <label class="block text-[10px] text-slate-500 mb-0.5">Name</label>
+              <input id="gwk-name" type="text" value="${esc(this.addName)}" placeholder="wiki-search-app" autocomplete="off"
+                class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                       text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-indigo-500">
+            </div>
+            <div>
+              <label class="block text-[10px] text-slate-500 mb-0.5">Expires</label>
+              <select id="gwk-expiry"
+                class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                       text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer">
+                ${EXPIRY_OPTIONS.map(o => `<option value="${o.days ?? ''}" ${this.addExpiry === o.days ? 'selected' : ''}>${o.label}</option>`).join('')}
+              </select>
+            </div>
+          </div>
+          <div class="flex justify-end">
+            <button id="gwk-add-submit"
+              class="px-5 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-lg transition-colors ${busy}">
+              Create key
+            </button>
+          </div>` : ''}
+
+        <div class="space-y-1.5">
+          ${!this.loaded
+            ? '<p class="text-[11px] text-slate-700 font-mono">Loading…</p>'
+            : this.keys.length === 0
+              ? '<p class="text-[11px] text-slate-600">No gateway keys.</p>'
+              : this.keys.map(k => `
+                <div class="flex items-center gap-2.5 rounded-lg px-3 py-2 bg-slate-800/50">
+                  <div class="flex-1 min-w-0">
+                    <p class="text-[12px] font-semibold text-slate-200 truncate">
+                      ${esc(k.name)}
+                      ${this.isAdmin && k.userId !== me?.id ? `<span class="text-[10px] font-normal text-slate-500 ml-1">${esc(k.username)}</span>` : ''}
+                    </p>
+                    <p class="text-[10px] font-mono text-slate-500 truncate">
+                      ${esc(k.prefix)}…
+                      · created ${ago(k.createdAt)}
+                      · ${k.lastUsedAt ? `last used <span title="${esc(new Date(k.lastUsedAt).toLocaleString())}">${ago(k.lastUsedAt)}</span>` : 'never used'}
+                      ${k.expiresAt ? `· expires ${esc(new Date(k.expiresAt).toLocaleDateString())}` : ''}
+                    </p>
+                  </div>
+                  <button data-gwk-revoke="${k.id}" data-gwk-name="${esc(k.name)}"
+                    class="text-[10px] font-semibold text-red-400 hover:text-red-300
+                           border border-red-900 hover:border-red-700 rounded px-2 py-0.5 transition-colors ${busy}">
+                    Revoke
+                  </button>
+                </div>
+              `).join('')}
+        </div>
+
+        ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+        <p class="text-[10px] text-slate-600">
+          Point an OpenAI client at <span class="font-mono text-slate-500">${esc(location.origin)}/v1</span>
+          with <span class="font-mono text-slate-500">Authorization: Bearer dpg_…</span>.
+          Requests go to a target that has the requested model, among the targets you can see.
+          Gateway keys cannot call the dashboard API.
+        </p>
+      </section>
+    `;
+  }
+
+  // ── Events ──────────────────────────────────────────────────────────────────
+
+  bind(root: HTMLElement): void {
+    document.getElementById('gwk-add-toggle')?.addEventListener('click', () => {
+      this.showAddForm = !this.showAddForm;
+      this.error = '';
+      this.onChange();
+      document.getElementById('gwk-name')?.focus();
+    });
+    (document.getElementById('gwk-name') as HTMLInputElement | null)
+      ?.addEventListener('input', (e) => { this.addName = (e.target as HTMLInputElement).value; });
+    (document.getElementById('gwk-expiry') as HTMLSelectElement | null)
+      ?.addEventListener('change', (e) => {
+        const v = (e.target as HTMLSelectElement).value;
+        this.addExpiry = v ? Number(v) : null;
+      });
+    document.getElementById('gwk-add-submit')?.addEventListener('click', () => void this.create());
+
+    document.getElementById('gwk-copy')?.addEventListener('click', () => {
+      if (!this.created) return;
+      void navigator.clipboard.writeText(this.created).then(() => {
+        this.copied = true;
+        this.onChange();
+      });
+    });
+    document.getElementById('gwk-dismiss')?.addEventListener('click', () => {
+      this.created = null;
+      this.onChange();
+    });
+
+    root.querySelectorAll<HTMLButtonElement>('[data-gwk-revoke]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (confirm(`Revoke gateway key "${btn.dataset['gwkName'] ?? ''}"? Apps using it will stop working immediately.`)) {
+          void this.revoke(Number(btn.dataset['gwkRevoke']));
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * PasswordPanel — Settings section for changing your own password.
+ *
+ * Available to every signed-in user (POST /api/users/me/password).
+ * Same fragment contract as UsersPanel: render() inside the host template,
+ * bind() after every re-render.
+ */
+
+import { AuthService } from '@/services/AuthService';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export class PasswordPanel {
+  private open    = false;
+  private working = false;
+  private error   = '';
+  private changed = false;
+
+  constructor(private readonly onChange: () => void) {}
+
+  private async submit(current: string, next: string, confirmNext: string): Promise<void> {
+    if (next !== confirmNext) {
+      this.error = 'New passwords do not match.';
+      this.onChange();
+      return;
+    }
+    this.working = true; this.error = ''; this.onChange();
+    try {
+      const res = await AuthService.apiFetch('/api/users/me/password', {
+        method: 'POST',
+        body:   JSON.stringify({ currentPassword: current, newPassword: next }),
+      });
+      if (res.ok) {
+        this.open    = false;
+        this.changed = true;
+        setTimeout(() => { this.changed = false; this.onChange(); }, 3000);
+      } else {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.error = d.error ?? `Password change failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    this.onChange();
+  }
+
+  render(): string {
+    const input = (id: string, placeholder: string, autocomplete: string) => `
+      <input id="${id}" type="password" autocomplete="${autocomplete}" placeholder="${placeholder}"
+        class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+               text-sm text-slate-200 placeholder-slate-600
+               focus:outline-none focus:ring-1 focus:ring-indigo-500">`;
+
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
+        <div class="flex items-center justify-between">
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">Password</h2>
+          ${this.changed
+            ? '<span class="text-[11px] font-semibold text-emerald-400">Password changed ✓</span>'
+            : `<button id="pw-toggle"
+                 class="text-[11px] font-semibold text-indigo-400 hover:text-indigo-300
+                        border border-indigo-800 hover:border-indigo-600 rounded-lg px-3 py-1 transition-colors">
+                 ${this.open ? '× Cancel' : 'Change password'}
+               </button>`}
+        </div>
+        ${this.open ? `
+          <div class="space-y-2">
+            ${input('pw-current', 'Current password', 'current-password')}
+            <div class="grid grid-cols-2 gap-2">
+              ${input('pw-new', 'New password (min 8 chars)', 'new-password')}
+              ${input('pw-confirm', 'Confirm new password', 'new-password')}
+            </div>
+            ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+            <div class="flex justify-end">
+              <button id="pw-submit"
+                class="px-5 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold
+                       rounded-lg transition-colors ${this.working ? 'opacity-40 pointer-events-none' : ''}">
+                Update password
+              </button>
+            </div>
+          </div>
+        ` : ''}
+      </section>
+    `;
+  }
+
+  bind(): void {
+    document.getElementById('pw-toggle')?.addEventListener('click', () => {
+      this.open  = !this.open;
+      this.error = '';
+      this.onChange();
+    });
+    document.getElementById('pw-submit')?.addEventListener('click', () => {
+      const val = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.value ?? '';
+      void this.submit(val('pw-current'), val('pw-new'), val('pw-confirm'));
+    });
+  }
+}
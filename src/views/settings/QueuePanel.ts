@@ -0,0 +1,128 @@
+/**
+ * QueuePanel — Settings section for the bridge's admission queue.
+ *
+ * Inference waits at the bridge for a free slot on its target and model
+ * instead of piling onto a busy daemon (GET/PUT /api/proxy/config/queue).
+ * Everyone can see the limits; only admins can change them. Live occupancy
+ * is shown in The Pulse's slot monitor.
+ *
+ * Same fragment contract as UsersPanel: render() inside the host template,
+ * bind() after every re-render.
+ */
+
+import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+interface QueueConfig {
+  maxConcurrency: number | null;   // null = the model's n_parallel
+  maxQueueDepth:  number;
+  maxWaitSeconds: number;
+}
+
+export class QueuePanel {
+  private config: QueueConfig | null = null;
+  private defaultNParallel = 4;
+  private working = false;
+  private error   = '';
+  private saved   = false;
+
+  constructor(private readonly onChange: () => void) {}
+
+  private get isAdmin(): boolean {
+    return Store.getState().currentUser?.role === 'admin';
+  }
+
+  async load(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch('/api/proxy/config/queue');
+      if (res.ok) {
+        const d = (await res.json()) as QueueConfig & { defaultNParallel: number };
+        this.config = { maxConcurrency: d.maxConcurrency, maxQueueDepth: d.maxQueueDepth, maxWaitSeconds: d.maxWaitSeconds };
+        this.defaultNParallel = d.defaultNParallel;
+      }
+    } catch { /* leave unknown */ }
+    this.onChange();
+  }
+
+  private async save(config: QueueConfig): Promise<void> {
+    this.working = true; this.error = ''; this.onChange();
+    try {
+      const res = await AuthService.apiFetch('/api/proxy/config/queue', {
+        method: 'PUT',
+        body:   JSON.stringify(config),
+      });
+      if (res.ok) {
+        this.config = config;
+        this.saved  = true;
+        setTimeout(() => { this.saved = false; this.onChange(); }, 2000);
+      } else {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.error = d.error ?? `Save failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    this.onChange();
+  }
+
+  private field(id: string, label: string, value: string, placeholder = ''): string {
+    return `
+      <label class="block space-y-1">
+        <span class="text-[10px] text-slate-500">${label}</span>
+        <input id="${id}" type="number" min="0" value="${esc(value)}" placeholder="${esc(placeholder)}"
+          ${this.isAdmin ? '' : 'disabled'}
+          class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                 text-sm font-mono text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-indigo-500
+                 disabled:opacity-60">
+      </label>`;
+  }
+
+  render(): string {
+    const busy = this.working ? 'opacity-40 pointer-events-none' : '';
+    const c    = this.config;
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
+        <div class="flex items-center justify-between">
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">Request Queue</h2>
+          ${this.saved ? '<span class="text-[11px] font-semibold text-emerald-400">Saved ✓</span>' : ''}
+        </div>
+        ${c === null
+          ? '<p class="text-[11px] text-slate-700 font-mono">Loading…</p>'
+          : `
+            <div class="grid grid-cols-3 gap-3">
+              ${this.field('queue-concurrency', 'Concurrent requests', c.maxConcurrency === null ? '' : String(c.maxConcurrency), 'n_parallel')}
+              ${this.field('queue-depth', 'Queue depth', String(c.maxQueueDepth))}
+              ${this.field('queue-wait', 'Max wait (s)', String(c.maxWaitSeconds))}
+            </div>
+            ${this.isAdmin ? `
+              <div class="flex justify-end">
+                <button id="queue-save"
+                  class="px-5 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-lg transition-colors ${busy}">
+                  Save
+                </button>
+              </div>` : ''}`}
+        ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+        <p class="text-[10px] text-slate-600">
+          Limits apply per target and model. Leave "Concurrent requests" empty to use the
+          <span class="font-mono text-slate-500">n_parallel</span> the model was loaded with
+          (${this.defaultNParallel} when unknown). Requests beyond the queue depth, or still waiting after the
+          max wait, get HTTP 429 with Retry-After. Dashboard requests go ahead of API tokens and gateway keys;
+          any client can step down with <span class="font-mono text-slate-500">X-DaemonPulse-Priority: batch</span>.
+        </p>
+      </section>
+    `;
+  }
+
+  bind(): void {
+    document.getElementById('queue-save')?.addEventListener('click', () => {
+      const num = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.value.trim() ?? '';
+      const concurrency = num('queue-concurrency');
+      void this.save({
+        maxConcurrency: concurrency === '' ? null : Number(concurrency),
+        maxQueueDepth:  Number(num('queue-depth')),
+        maxWaitSeconds: Number(num('queue-wait')),
+      });
+    });
+  }
+}
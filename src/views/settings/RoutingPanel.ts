@@ -0,0 +1,285 @@
+/**
+ * RoutingPanel — Settings section for how inference is spread over targets.
+ *
+ * When several targets have the requested model loaded, the bridge picks one
+ * per request (GET/PUT /api/proxy/config/routing). Failover policies
+ * (PUT /api/proxy/config/failover) let requests for matching models retry on
+ * another target of a group when theirs is down; each target's circuit
+ * breaker state is listed. Everyone can see the settings; only admins can
+ * change them. Requests pinned to a target with the X-DaemonPulse-Target
+ * header are never moved.
+ *
+ * Same fragment contract as UsersPanel: render() inside the host template,
+ * bind() after every re-render.
+ */
+
+import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
+import type { ICircuitStatus } from '@/types';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+type Strategy = 'round-robin' | 'least-outstanding' | 'lowest-ttft';
+
+const STRATEGY_LABEL: Record<Strategy, string> = {
+  'round-robin':       'Round-robin',
+  'least-outstanding': 'Least outstanding requests',
+  'lowest-ttft':       'Lowest recent TTFT',
+};
+
+const STRATEGY_HINT: Record<Strategy, string> = {
+  'round-robin':       'Targets take turns, per model.',
+  'least-outstanding': 'The target with the fewest requests in flight from this bridge.',
+  'lowest-ttft':       'The target that recently answered this model fastest (time to first token).',
+};
+
+interface FailoverPolicy {
+  modelPattern: string;
+  targetIds:    string[];   // empty = any target
+  maxAttempts:  number;
+  allowJit:     boolean;
+}
+
+const MAX_ATTEMPTS = 5;
+
+const CIRCUIT_STYLE: Record<ICircuitStatus['state'], string> = {
+  'closed':    'text-emerald-400',
+  'half-open': 'text-amber-400',
+  'open':      'text-red-400',
+};
+
+export class RoutingPanel {
+  private strategy: Strategy | null = null;
+  private working = false;
+  private error   = '';
+  private saved   = false;
+
+  private policies: FailoverPolicy[] = [];
+  private policiesDirty = false;
+  private policyError   = '';
+  private policySaved   = false;
+
+  constructor(private readonly onChange: () => void) {}
+
+  private get isAdmin(): boolean {
+    return Store.getState().currentUser?.role === 'admin';
+  }
+
+  async load(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch('/api/proxy/config/routing');
+      if (res.ok) {
+        const d = (await res.json()) as { strategy: Strategy; failover: FailoverPolicy[]; circuits: Record<string, ICircuitStatus> };
+        this.strategy = d.strategy;
+        if (!this.policiesDirty) this.policies = d.failover;
+        Store.setCircuits(d.circuits);
+      }
+    } catch { /* leave unknown */ }
+    this.onChange();
+  }
+
+  private async save(strategy: Strategy): Promise<void> {
+    this.working = true; this.error = ''; this.onChange();
+    try {
+      const res = await AuthService.apiFetch('/api/proxy/config/routing', {
+        method: 'PUT',
+        body:   JSON.stringify({ strategy }),
+      });
+      if (res.ok) {
+        this.strategy = strategy;
+        this.saved    = true;
+        setTimeout(() => { this.saved = false; this.onChange(); }, 2000);
+      } else {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.error = d.error ?? `Save failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    this.onChange();
+  }
+
+  private async savePolicies(): Promise<void> {
+    this.working = true; this.policyError = ''; this.onChange();
+    try {
+      const res = await AuthService.apiFetch('/api/proxy/config/failover', {
+        method: 'PUT',
+        body:   JSON.stringify({ policies: this.policies }),
+      });
+      if (res.ok) {
+        this.policiesDirty = false;
+        this.policySaved   = true;
+        setTimeout(() => { this.policySaved = false; this.onChange(); }, 2000);
+      } else {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.policyError = d.error ?? `Save failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    this.onChange();
+  }
+
+  private editPolicy(i: number, patch: Partial<FailoverPolicy>): void {
+    const p = this.policies[i];
+    if (!p) return;
+    this.policies = this.policies.map((x, j) => j === i ? { ...p, ...patch } : x);
+    this.policiesDirty = true;
+  }
+
+  private renderPolicy(p: FailoverPolicy, i: number): string {
+    const targets = Store.getState().targets;
+    const label   = (id: string) => targets.find(t => t.id === id)?.label ?? id;
+    if (!this.isAdmin) {
+      return `
+        <div class="rounded-lg px-3 py-2 bg-slate-800/50 text-[11px] text-slate-300">
+          <span class="font-mono">${esc(p.modelPattern)}</span>
+          <span class="text-slate-500">→ ${p.targetIds.length ? esc(p.targetIds.map(label).join(', ')) : 'any target'}
+            · ${p.maxAttempts} attempts${p.allowJit ? ' · JIT load allowed' : ''}</span>
+        </div>`;
+    }
+    return `
+      <div class="rounded-lg px-3 py-2 bg-slate-800/50 space-y-2">
+        <div class="flex items-center gap-2">
+          <input data-fo-pattern="${i}" type="text" value="${esc(p.modelPattern)}" placeholder="qwen* or *"
+            class="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1
+                   text-[12px] font-mono text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-indigo-500">
+          <label class="text-[10px] text-slate-500">Attempts</label>
+          <input data-fo-attempts="${i}" type="number" min="2" max="${MAX_ATTEMPTS}" value="${p.maxAttempts}"
+            class="w-14 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1
+                   text-[12px] font-mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500">
+          <label class="flex items-center gap-1 text-[10px] text-slate-500 cursor-pointer">
+            <input data-fo-jit="${i}" type="checkbox" ${p.allowJit ? 'checked' : ''} class="accent-indigo-500"> JIT load
+          </label>
+          <button data-fo-remove="${i}" class="text-[10px] font-semibold text-red-400 hover:text-red-300">Remove</button>
+        </div>
+        <div class="flex flex-wrap gap-x-3 gap-y-1">
+          <span class="text-[10px] text-slate-600">Group:</span>
+          ${targets.map(t => `
+            <label class="flex items-center gap-1 text-[10px] text-slate-400 cursor-pointer">
+              <input data-fo-target="${i}" value="${esc(t.id)}" type="checkbox" ${p.targetIds.includes(t.id) ? 'checked' : ''}
+                class="accent-indigo-500"> ${esc(t.label)}
+            </label>`).join('')}
+          ${p.targetIds.length === 0 ? '<span class="text-[10px] text-slate-600">(none ticked = any target)</span>' : ''}
+        </div>
+      </div>`;
+  }
+
+  private renderCircuits(): string {
+    const { targets, circuits } = Store.getState();
+    if (targets.length === 0) return '';
+    return `
+      <div class="space-y-1">
+        <p class="text-[10px] font-bold uppercase tracking-wider text-slate-600">Circuit breakers</p>
+        ${targets.map(t => {
+          const c = circuits.get(t.id);
+          return `
+            <div class="flex items-center gap-2 text-[11px]">
+              <span class="flex-1 truncate text-slate-300">${esc(t.label)}</span>
+              <span class="font-mono ${c ? CIRCUIT_STYLE[c.state] : 'text-slate-600'}">${c?.state ?? 'unknown'}</span>
+              ${c?.retryAt ? `<span class="text-[10px] text-slate-600">retry ${esc(new Date(c.retryAt).toLocaleTimeString())}</span>` : ''}
+              ${c && c.state !== 'closed' && c.lastError ? `<span class="text-[10px] text-slate-600 truncate max-w-[40%]" title="${esc(c.lastError)}">${esc(c.lastError)}</span>` : ''}
+            </div>`;
+        }).join('')}
+      </div>`;
+  }
+
+  render(): string {
+    const busy = this.working ? 'opacity-40 pointer-events-none' : '';
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
+        <div class="flex items-center justify-between">
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">Load Balancing</h2>
+          ${this.saved ? '<span class="text-[11px] font-semibold text-emerald-400">Saved ✓</span>' : ''}
+        </div>
+        ${this.strategy === null
+          ? '<p class="text-[11px] text-slate-700 font-mono">Loading…</p>'
+          : this.isAdmin ? `
+            <select id="routing-strategy"
+              class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                     text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer ${busy}">
+              ${(Object.keys(STRATEGY_LABEL) as Strategy[]).map(s =>
+                `<option value="${s}" ${this.strategy === s ? 'selected' : ''}>${STRATEGY_LABEL[s]}</option>`).join('')}
+            </select>` : `
+            <p class="text-[12px] text-slate-300">${STRATEGY_LABEL[this.strategy]}</p>`}
+        ${this.strategy ? `<p class="text-[10px] text-slate-500">${STRATEGY_HINT[this.strategy]}</p>` : ''}
+        ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+        <p class="text-[10px] text-slate-600">
+          Applies when two or more of your targets have the requested model loaded — otherwise
+          requests go to the active target. Requests that name a target with the
+          <span class="font-mono text-slate-500">X-DaemonPulse-Target</span> header are not moved.
+        </p>
+
+        <div class="border-t border-slate-800 pt-3 space-y-2">
+          <div class="flex items-center justify-between">
+            <p class="text-[10px] font-bold uppercase tracking-wider text-slate-600">Failover policies</p>
+            ${this.policySaved ? '<span class="text-[11px] font-semibold text-emerald-400">Saved ✓</span>' : ''}
+            ${this.isAdmin ? `
+              <button id="fo-add" class="text-[11px] font-semibold text-indigo-400 hover:text-indigo-300">+ Add policy</button>` : ''}
+          </div>
+          ${this.policies.length === 0
+            ? '<p class="text-[11px] text-slate-600">No policies — a request whose target is down fails with 502.</p>'
+            : this.policies.map((p, i) => this.renderPolicy(p, i)).join('')}
+          ${this.isAdmin && this.policiesDirty ? `
+            <div class="flex justify-end">
+              <button id="fo-save"
+                class="px-5 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-lg transition-colors ${busy}">
+                Save policies
+              </button>
+            </div>` : ''}
+          ${this.policyError ? `<p class="text-[11px] text-red-400">${esc(this.policyError)}</p>` : ''}
+          <p class="text-[10px] text-slate-600">
+            The first policy whose pattern matches the model applies. When its target is unreachable, answers 5xx
+            or has a tripped circuit, the request is retried on another healthy target of the group that has the
+            model loaded — or, with JIT load, on disk. A circuit trips after 3 failures in a row or a failed
+            health probe, and lets a trial request through after 30 s.
+          </p>
+          ${this.renderCircuits()}
+        </div>
+      </section>
+    `;
+  }
+
+  bind(root: HTMLElement): void {
+    (document.getElementById('routing-strategy') as HTMLSelectElement | null)
+      ?.addEventListener('change', (e) => void this.save((e.target as HTMLSelectElement).value as Strategy));
+
+    document.getElementById('fo-add')?.addEventListener('click', () => {
+      this.policies = [...this.policies, { modelPattern: '*', targetIds: [], maxAttempts: 2, allowJit: false }];
+      this.policiesDirty = true;
+      this.onChange();
+    });
+    document.getElementById('fo-save')?.addEventListener('click', () => void this.savePolicies());
+
+    root.querySelectorAll<HTMLInputElement>('[data-fo-pattern]').forEach(el => {
+      el.addEventListener('input', () => { this.editPolicy(Number(el.dataset['foPattern']), { modelPattern: el.value }); });
+      el.addEventListener('change', () => this.onChange());
+    });
+    root.querySelectorAll<HTMLInputElement>('[data-fo-attempts]').forEach(el => {
+      el.addEventListener('change', () => {
+        this.editPolicy(Number(el.dataset['foAttempts']), { maxAttempts: Number(el.value) });
+        this.onChange();
+      });
+    });
+    root.querySelectorAll<HTMLInputElement>('[data-fo-jit]').forEach(el => {
+      el.addEventListener('change', () => {
+        this.editPolicy(Number(el.dataset['foJit']), { allowJit: el.checked });
+        this.onChange();
+      });
+    });
+    root.querySelectorAll<HTMLInputElement>('[data-fo-target]').forEach(el => {
+      el.addEventListener('change', () => {
+        const i  = Number(el.dataset['foTarget']);
+        const ids = this.policies[i]?.targetIds ?? [];
+        this.editPolicy(i, { targetIds: el.checked ? [...ids, el.value] : ids.filter(id => id !== el.value) });
+        this.onChange();
+      });
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-fo-remove]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const i = Number(btn.dataset['foRemove']);
+        this.policies = this.policies.filter((_p, j) => j !== i);
+        this.policiesDirty = true;
+        this.onChange();
+      });
+    });
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * SessionsPanel — Settings section listing every live bridge session (admin only).
+ *
+ * Shows who is signed in (username, IP, user agent, issued / last seen) from
+ * GET /api/sessions and lets an admin end any one of them. A revoked session
+ * is rejected on its next request, even if its access token has not expired.
+ *
+ * Same fragment contract as UsersPanel: render() inside the host template,
+ * bind() after every re-render.
+ */
+
+import { AuthService } from '@/services/AuthService';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface SessionRow {
+  id:         string;
+  username:   string;
+  ip:         string | null;
+  userAgent:  string | null;
+  issuedAt:   string;
+  lastSeenAt: string;
+  expiresAt:  string;
+  current:    boolean;
+}
+
+/** "Chrome on macOS"-style summary; the full string goes in the tooltip. */
+function describeAgent(ua: string | null): string {
+  if (!ua) return 'Unknown client';
+  const browser =
+    /Edg\//.test(ua)                         ? 'Edge'    :
+    /Firefox\//.test(ua)                     ? 'Firefox' :
+    /Chrome\//.test(ua)                      ? 'Chrome'  :
+    /Safari\//.test(ua)                      ? 'Safari'  :
+    /curl\//i.test(ua)                       ? 'curl'    :
+    /node|undici/i.test(ua)                  ? 'Node.js' : 'Other';
+  const os =
+    /Windows/.test(ua)                       ? 'Windows' :
+    /Mac OS X|Macintosh/.test(ua)            ? 'macOS'   :
+    /Android/.test(ua)                       ? 'Android' :
+    /iPhone|iPad/.test(ua)                   ? 'iOS'     :
+    /Linux/.test(ua)                         ? 'Linux'   : '';
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function ago(iso: string): string {
+  const s = Math.max(0, Math.round((Date.now() - Date.parse(iso)) / 1000));
+  if (s < 60)    return 'just now';
+  if (s < 3600)  return `${Math.floor(s / 60)} min ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)} h ago`;
+  return `${Math.floor(s / 86400)} d ago`;
+}
+
+export class SessionsPanel {
+  private sessions: SessionRow[] = [];
+  private loaded   = false;
+  private working  = false;
+  private error    = '';
+
+  constructor(private readonly onChange: () => void) {}
+
+  async load(): Promise<void> {
+    try {
+      const res = await AuthService.apiFetch('/api/sessions');
+      if (res.ok) {
+        const d = (await res.json()) as { sessions: SessionRow[] };
+        this.sessions = d.sessions;
+      }
+    } catch { /* leave empty */ }
+    this.loaded = true;
+    this.onChange();
+  }
+
+  private async revoke(id: string): Promise<void> {
+    this.working = true; this.error = ''; this.onChange();
+    try {
+      const res = await AuthService.apiFetch(`/api/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.error = d.error ?? `Revoke failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    await this.load();
+  }
+
+  render(): string {
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
+        <div class="flex items-center justify-between">
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">
+            Active Sessions
+            ${this.loaded ? `<span class="text-slate-700 normal-case tracking-normal font-normal ml-1">(${this.sessions.length})</span>` : ''}
+          </h2>
+          <button id="sess-refresh"
+            class="text-[11px] text-slate-500 hover:text-slate-300 transition-colors">↻ Refresh</button>
+        </div>
+
+        <div class="space-y-1.5">
+          ${!this.loaded
+            ? '<p class="text-[11px] text-slate-700 font-mono">Loading…</p>'
+            : this.sessions.length === 0
+              ? '<p class="text-[11px] text-slate-600">No live sessions.</p>'
+              : this.sessions.map(s => `
+                <div class="flex items-center gap-2.5 rounded-lg px-3 py-2
+                            ${s.current ? 'bg-indigo-500/10 border border-indigo-500/30' : 'bg-slate-800/50'}">
+                  <div class="flex-1 min-w-0">
+                    <p class="text-[12px] font-semibold text-slate-200 truncate">
+                      ${esc(s.username)}
+                      <span class="font-normal text-slate-500 ml-1" title="${esc(s.userAgent ?? '')}">${esc(describeAgent(s.userAgent))}</span>
+                      ${s.current ? '<span class="text-[10px] font-normal text-indigo-400 ml-1">(this session)</span>' : ''}
+                    </p>
+                    <p class="text-[10px] font-mono text-slate-500 truncate">
+                      ${esc(s.ip ?? 'unknown IP')}
+                      · signed in <span title="${esc(new Date(s.issuedAt).toLocaleString())}">${ago(s.issuedAt)}</span>
+                      · last seen <span title="${esc(new Date(s.lastSeenAt).toLocaleString())}">${ago(s.lastSeenAt)}</span>
+                    </p>
+                  </div>
+                  ${s.current ? '' : `
+                    <button data-sess-revoke="${esc(s.id)}" data-sess-user="${esc(s.username)}"
+                      class="text-[10px] font-semibold text-red-400 hover:text-red-300
+                             border border-red-900 hover:border-red-700 rounded px-2 py-0.5 transition-colors
+                             ${this.working ? 'opacity-40 pointer-events-none' : ''}">
+                      Revoke
+                    </button>`}
+                </div>
+              `).join('')}
+        </div>
+
+        ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+      </section>
+    `;
+  }
+
+  bind(root: HTMLElement): void {
+    document.getElementById('sess-refresh')?.addEventListener('click', () => void this.load());
+    root.querySelectorAll<HTMLButtonElement>('[data-sess-revoke]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (confirm(`End this session for "${btn.dataset['sessUser'] ?? ''}"?`)) {
+          void this.revoke(btn.dataset['sessRevoke'] ?? '');
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * TwoFactorPanel — Settings section for TOTP two-factor authentication.
+ *
+ * Every user can enroll an authenticator app (password → QR code → first
+ * code → recovery codes), regenerate recovery codes, or turn 2FA off unless
+ * policy requires it. Admins also get the "require 2FA for admin accounts"
+ * switch (PUT /api/mfa/policy).
+ *
+ * Same fragment contract as UsersPanel: render() inside the host template,
+ * bind() after every re-render.
+ */
+
+import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface MfaStatus {
+  enabled:           boolean;
+  required:          boolean;
+  recoveryCodesLeft: number;
+  sso:               boolean;   // signs in through the identity provider, which owns the second factor
+}
+
+interface Enrollment {
+  secret: string;
+  qr:     string;
+}
+
+/** Which inline form is open — each asks for the account password first. */
+type Step = 'idle' | 'password-setup' | 'password-disable' | 'password-codes' | 'scan';
+
+export class TwoFactorPanel {
+  private status: MfaStatus | null = null;
+  private requireForAdmins = false;
+  private step: Step       = 'idle';
+  private enrollment: Enrollment | null = null;
+  private recoveryCodes: string[] = [];
+  private working = false;
+  private error   = '';
+
+  constructor(private readonly onChange: () => void) {}
+
+  private get isAdmin(): boolean {
+    return Store.getState().currentUser?.role === 'admin';
+  }
+
+  async load(): Promise<void> {
+    try {
+      const [s, p] = await Promise.all([AuthService.apiFetch('/api/mfa'), AuthService.apiFetch('/api/mfa/policy')]);
+      if (s.ok) this.status = (await s.json()) as MfaStatus;
+      if (p.ok) this.requireForAdmins = ((await p.json()) as { requireForAdmins: boolean }).requireForAdmins;
+    } catch { /* leave as is */ }
+    this.onChange();
+  }
+
+  /** POST a JSON body; returns the parsed response or null after surfacing the error. */
+  private async post<T>(url: string, body: unknown, method = 'POST'): Promise<T | null> {
+    this.working = true; this.error = ''; this.onChange();
+    let result: T | null = null;
+    try {
+      const res = await AuthService.apiFetch(url, { method, body: JSON.stringify(body) });
+      const d   = (await res.json().catch(() => ({}))) as T & { error?: string };
+      if (res.ok) result = d;
+      else this.error = d.error ?? `Request failed (HTTP ${res.status})`;
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    this.onChange();
+    return result;
+  }
+
+  private async submitPassword(password: string): Promise<void> {
+    if (this.step === 'password-setup') {
+      const d = await this.post<Enrollment>('/api/mfa/setup', { password });
+      if (d) { this.enrollment = d; this.step = 'scan'; }
+    } else if (this.step === 'password-disable') {
+      if (await this.post('/api/mfa/disable', { password })) this.step = 'idle';
+    } else if (this.step === 'password-codes') {
+      const d = await this.post<{ recoveryCodes: string[] }>('/api/mfa/recovery-codes', { password });
+      if (d) { this.recoveryCodes = d.recoveryCodes; this.step = 'idle'; }
+    }
+    await this.load();
+  }
+
+  private async confirmCode(code: string): Promise<void> {
+    const d = await this.post<{ recoveryCodes: string[] }>('/api/mfa/enable', { code });
+    if (!d) return;
+    this.recoveryCodes = d.recoveryCodes;
+    this.enrollment    = null;
+    this.step          = 'idle';
+    await this.load();
+  }
+
+  private async setPolicy(requireForAdmins: boolean): Promise<void> {
+    await this.post('/api/mfa/policy', { requireForAdmins }, 'PUT');
+    await this.load();
+  }
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+
+  render(): string {
+    const busy  = this.working ? 'opacity-40 pointer-events-none' : '';
+    const s     = this.status;
+    const input = (id: string, type: string, placeholder: string, autocomplete: string) => `
+      <input id="${id}" type="${type}" autocomplete="${autocomplete}" placeholder="${placeholder}"
+        class="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+               text-sm text-slate-200 placeholder-slate-600
+               focus:outline-none focus:ring-1 focus:ring-indigo-500">`;
+    const linkBtn = (id: string, label: string, color = 'text-indigo-400 hover:text-indigo-300') =>
+      `<button id="${id}" class="text-[11px] font-semibold ${color} transition-colors ${busy}">${label}</button>`;
+
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
+        <div class="flex items-center justify-between">
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">Two-Factor Authentication</h2>
+          ${!s || s.sso ? '' : s.enabled
+            ? '<span class="text-[11px] font-semibold text-emerald-400">Enabled ✓</span>'
+            : `<span class="text-[11px] font-semibold ${s.required ? 'text-amber-400' : 'text-slate-500'}">
+                 ${s.required ? 'Required — not set up' : 'Off'}
+               </span>`}
+        </div>
+
+        ${!s ? '<p class="text-[11px] text-slate-700 font-mono">Loading…</p>' : s.sso ? `
+          <p class="text-[11px] text-slate-500">
+            You sign in with single sign-on — two-factor authentication is managed by your identity provider.
+          </p>` : `
+          <p class="text-[11px] text-slate-500">
+            ${s.enabled
+              ? `Sign-in asks for a code from your authenticator app. ${s.recoveryCodesLeft} recovery code${s.recoveryCodesLeft === 1 ? '' : 's'} left.`
+              : 'Protect this account with a time-based code from an authenticator app (1Password, Google Authenticator, Authy…).'}
+          </p>
+
+          ${this.step === 'idle' ? `
+            <div class="flex gap-4">
+              ${s.enabled
+                ? `${linkBtn('mfa-codes', 'New recovery codes')}
+                   ${s.required ? '' : linkBtn('mfa-disable', 'Turn off', 'text-red-400 hover:text-red-300')}`
+                : linkBtn('mfa-setup', 'Set up authenticator app')}
+            </div>` : ''}
+
+          ${this.step.startsWith('password-') ? `
+            <div class="flex gap-2">
+              ${input('mfa-password', 'password', 'Confirm with your password', 'current-password')}
+              <button id="mfa-password-submit"
+                class="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-lg transition-colors ${busy}">
+                Continue
+              </button>
+              <button id="mfa-cancel" class="text-[11px] text-slate-500 hover:text-slate-300">Cancel</button>
+            </div>` : ''}
+
+          ${this.step === 'scan' && this.enrollment ? `
+            <div class="flex gap-4 items-start">
+              <img src="${esc(this.enrollment.qr)}" alt="Authenticator QR code" width="140" height="140"
+                class="rounded-lg bg-white p-1 flex-shrink-0">
+              <div class="flex-1 min-w-0 space-y-2">
+                <p class="text-[11px] text-slate-400">Scan the code with your authenticator app, or enter this key manually:</p>
+                <p class="font-mono text-[12px] text-indigo-300 break-all select-all">${esc(this.enrollment.secret)}</p>
+                <div class="flex gap-2">
+                  ${input('mfa-code', 'text', '6-digit code', 'one-time-code')}
+                  <button id="mfa-code-submit"
+                    class="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-lg transition-colors ${busy}">
+                    Verify
+                  </button>
+                </div>
+                <button id="mfa-cancel" class="text-[11px] text-slate-500 hover:text-slate-300">Cancel</button>
+              </div>
+            </div>` : ''}
+
+          ${this.recoveryCodes.length ? `
+            <div class="bg-amber-500/5 border border-amber-500/20 rounded-lg px-3 py-2.5 space-y-2">
+              <p class="text-[11px] text-amber-400/90">
+                Save these recovery codes somewhere safe. Each one signs you in once if you lose your device — they will not be shown again.
+              </p>
+              <pre class="grid grid-cols-2 gap-x-6 font-mono text-[12px] text-slate-200 select-all">${this.recoveryCodes.map(esc).join('\n')}</pre>
+              <button id="mfa-codes-done" class="text-[11px] font-semibold text-amber-400 hover:text-amber-300">I've saved them</button>
+            </div>` : ''}
+        `}
+
+        ${this.isAdmin ? `
+          <label class="flex items-center gap-2.5 cursor-pointer select-none border-t border-slate-800 pt-3 ${busy}">
+            <input id="mfa-policy" type="checkbox" ${this.requireForAdmins ? 'checked' : ''}
+              class="w-3.5 h-3.5 rounded border-slate-600 bg-slate-800 accent-indigo-500 cursor-pointer">
+            <span class="text-[11px] text-slate-400">Require two-factor authentication for all admin accounts</span>
+          </label>
+          <p class="text-[10px] text-slate-600 -mt-1">
+            Admins without 2FA will have to set it up at their next sign-in.
+          </p>` : ''}
+
+        ${this.error ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+      </section>
+    `;
+  }
+
+  // ── Events ──────────────────────────────────────────────────────────────────
+
+  bind(): void {
+    const open = (step: Step) => () => {
+      this.step = step; this.error = ''; this.recoveryCodes = [];
+      this.onChange();
+      document.getElementById('mfa-password')?.focus();
+    };
+    document.getElementById('mfa-setup')?.addEventListener('click', open('password-setup'));
+    document.getElementById('mfa-disable')?.addEventListener('click', open('password-disable'));
+    document.getElementById('mfa-codes')?.addEventListener('click', open('password-codes'));
+    document.getElementById('mfa-cancel')?.addEventListener('click', () => {
+      this.step = 'idle'; this.enrollment = null; this.error = '';
+      this.onChange();
+    });
+    document.getElementById('mfa-codes-done')?.addEventListener('click', () => {
+      this.recoveryCodes = [];
+      this.onChange();
+    });
+
+    const submitOnEnter = (inputId: string, buttonId: string, action: (value: string) => void) => {
+      const el = document.getElementById(inputId) as HTMLInputElement | null;
+      document.getElementById(buttonId)?.addEventListener('click', () => action(el?.value ?? ''));
+      el?.addEventListener('keydown', (e) => { if (e.key === 'Enter') action(el.value); });
+    };
+    submitOnEnter('mfa-password', 'mfa-password-submit', (v) => void this.submitPassword(v));
+    submitOnEnter('mfa-code', 'mfa-code-submit', (v) => void this.confirmCode(v));
+
+    (document.getElementById('mfa-policy') as HTMLInputElement | null)?.addEventListener('change', (e) => {
+      void this.setPolicy((e.target as HTMLInputElement).checked);
+    });
+  }
+}
@@ -0,0 +1,496 @@
+/**
+ * UsersPanel — Settings section for managing bridge accounts (admin only).
+ *
+ * Lists every account from GET /api/users and lets an admin create accounts,
+ * change roles, enable/disable, reset passwords or two-factor, assign viewers
+ * per-target access (view / operate), set token budgets and allowed models
+ * (GET/PUT /api/users/:id/quota), and delete. The bridge
+ * refuses changes that would leave no enabled admin; those errors are shown
+ * inline.
+ *
+ * Rendered as a fragment inside SettingsView: the host calls render() from
+ * its own template and bind() after every re-render.
+ */
+
+import { AuthService } from '@/services/AuthService';
+import { Store }       from '@/core/Store';
+import type { UserRole, ITargetSummary, TargetPermission } from '@/types';
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+interface UserRow {
+  id:        number;
+  username:  string;
+  role:      UserRole;
+  disabled:  boolean;
+  twoFactor: boolean;
+  sso:       boolean;   // provisioned by single sign-on; role follows IdP groups
+  createdAt: string;
+}
+
+/** Token budget fields, edited as text — empty = no limit. */
+const QUOTA_LIMITS = [
+  ['dailySoft',           'Daily soft'],
+  ['dailyHard',           'Daily hard'],
+  ['monthlySoft',         'Monthly soft'],
+  ['monthlyHard',         'Monthly hard'],
+  ['maxTokensPerRequest', 'Max tokens / request'],
+] as const;
+
+type QuotaLimit = typeof QUOTA_LIMITS[number][0];
+
+interface QuotaStatus {
+  quota:  (Record<QuotaLimit, number | null> & { allowedModels: string[] | null }) | null;
+  used:   { daily: number; monthly: number };
+}
+
+export class UsersPanel {
+  private users:   UserRow[] = [];
+  private loaded   = false;
+  private working  = false;
+  private error    = '';
+  private notice   = '';
+
+  private showAddForm = false;
+  private addUsername = '';
+  private addPassword = '';
+  private addRole: UserRole = 'viewer';
+
+  private resetId: number | null = null;   // row showing the inline password-reset field
+
+  // Per-target access editor — one viewer at a time
+  private targets: ITargetSummary[] = [];
+  private aclId: number | null = null;
+  private aclDraft = new Map<string, TargetPermission>();   // absent = no access
+  private aclLoading = false;
+
+  // Quota editor — one user at a time
+  private quotaId: number | null = null;
+  private quotaDraft: Record<QuotaLimit | 'allowedModels', string> = emptyQuotaDraft();
+  private quotaUsed = { daily: 0, monthly: 0 };
+  private quotaLoading = false;
+
+  constructor(private readonly onChange: () => void) {}
+
+  // ── Data ────────────────────────────────────────────────────────────────────
+
+  async load(): Promise<void> {
+    try {
+      const [usersRes, targetsRes] = await Promise.all([
+        AuthService.apiFetch('/api/users'),
+        AuthService.apiFetch('/api/proxy/config/targets'),
+      ]);
+      if (usersRes.ok) {
+        const d = (await usersRes.json()) as { users: UserRow[] };
+        this.users = d.users;
+      }
+      if (targetsRes.ok) {
+        const d = (await targetsRes.json()) as { targets: ITargetSummary[] };
+        this.targets = d.targets;
+      }
+    } catch { /* leave empty */ }
+    this.loaded = true;
+    this.onChange();
+  }
+
+  /** Run a mutating request, surface the bridge's error message, then reload. */
+  private async mutate(url: string, init: RequestInit, notice: string): Promise<boolean> {
+    this.working = true; this.error = ''; this.notice = ''; this.onChange();
+    let ok = false;
+    try {
+      const res = await AuthService.apiFetch(url, init);
+      if (res.ok) {
+        ok = true;
+        this.notice = notice;
+      } else {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        this.error = d.error ?? `Request failed (HTTP ${res.status})`;
+      }
+    } catch { /* redirecting to login */ }
+    this.working = false;
+    await this.load();
+    return ok;
+  }
+
+  private async addUser(): Promise<void> {
+    const ok = await this.mutate('/api/users', {
+      method: 'POST',
+      body:   JSON.stringify({ username: this.addUsername.trim(), password: this.addPassword, role: this.addRole }),
+    }, `Created ${this.addUsername.trim()}`);
+    if (ok) {
+      this.addUsername = ''; this.addPassword = ''; this.addRole = 'viewer';
+      this.showAddForm = false;
+      this.onChange();
+    }
+  }
+
+  private async patchUser(id: number, patch: { role?: UserRole; disabled?: boolean }): Promise<void> {
+    await this.mutate(`/api/users/${id}`, { method: 'PATCH', body: JSON.stringify(patch) }, 'User updated');
+  }
+
+  private async deleteUser(id: number): Promise<void> {
+    await this.mutate(`/api/users/${id}`, { method: 'DELETE' }, 'User deleted');
+  }
+
+  private async reset2fa(id: number): Promise<void> {
+    await this.mutate(`/api/mfa/users/${id}/reset`, { method: 'POST' }, 'Two-factor reset');
+  }
+
+  private async resetPassword(id: number, password: string): Promise<void> {
+    const ok = await this.mutate(`/api/users/${id}/password`, {
+      method: 'POST',
+      body:   JSON.stringify({ password }),
+    }, 'Password reset');
+    if (ok) { this.resetId = null; this.onChange(); }
+  }
+
+  private async openAcl(id: number): Promise<void> {
+    if (this.aclId === id) { this.aclId = null; this.onChange(); return; }
+    this.aclId = id; this.aclDraft = new Map(); this.aclLoading = true;
+    this.error = ''; this.notice = '';
+    this.onChange();
+    try {
+      const res = await AuthService.apiFetch(`/api/users/${id}/targets`);
+      if (res.ok) {
+        const d = (await res.json()) as { entries: { targetId: string; level: TargetPermission }[] };
+        this.aclDraft = new Map(d.entries.map(e => [e.targetId, e.level]));
+      }
+    } catch { /* redirecting to login */ }
+    this.aclLoading = false;
+    this.onChange();
+  }
+
+  private async saveAcl(id: number): Promise<void> {
+    const entries = [...this.aclDraft].map(([targetId, level]) => ({ targetId, level }));
+    const ok = await this.mutate(`/api/users/${id}/targets`, {
+      method: 'PUT',
+      body:   JSON.stringify({ entries }),
+    }, 'Target access saved');
+    if (ok) { this.aclId = null; this.onChange(); }
+  }
+
+  private async openQuota(id: number): Promise<void> {
+    if (this.quotaId === id) { this.quotaId = null; this.onChange(); return; }
+    this.quotaId = id; this.quotaDraft = emptyQuotaDraft(); this.quotaLoading = true;
+    this.error = ''; this.notice = '';
+    this.onChange();
+    try {
+      const res = await AuthService.apiFetch(`/api/users/${id}/quota`);
+      if (res.ok) {
+        const d = (await res.json()) as QuotaStatus;
+        this.quotaUsed = d.used;
+        if (d.quota) {
+          for (const [key] of QUOTA_LIMITS) this.quotaDraft[key] = d.quota[key] === null ? '' : String(d.quota[key]);
+          this.quotaDraft.allowedModels = (d.quota.allowedModels ?? []).join(', ');
+        }
+      }
+    } catch { /* redirecting to login */ }
+    this.quotaLoading = false;
+    this.onChange();
+  }
+
+  private async saveQuota(id: number): Promise<void> {
+    const body: Record<string, unknown> = {};
+    for (const [key] of QUOTA_LIMITS) {
+      const v = this.quotaDraft[key].trim();
+      body[key] = v === '' ? null : Number(v);
+    }
+    const models = this.quotaDraft.allowedModels.split(',').map(m => m.trim()).filter(Boolean);
+    body['allowedModels'] = models.length ? models : null;
+    const ok = await this.mutate(`/api/users/${id}/quota`, {
+      method: 'PUT',
+      body:   JSON.stringify(body),
+    }, 'Quota saved');
+    if (ok) { this.quotaId = null; this.onChange(); }
+  }
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+
+  render(): string {
+    const me       = Store.getState().currentUser;
+    const disabled = this.working ? 'opacity-40 pointer-events-none' : '';
+
+    return `
+      <section class="bg-slate-900 border border-slate-800 rounded-xl px-5 py-4 space-y-3">
+        <div class="flex items-center justify-between">
+          <h2 class="text-[11px] font-bold uppercase tracking-wider text-slate-500">Users</h2>
+          <button id="usr-add-toggle"
+            class="text-[11px] font-semibold text-indigo-400 hover:text-indigo-300
+                   border border-indigo-800 hover:border-indigo-600 rounded-lg px-3 py-1 transition-colors">
+            ${this.showAddForm ? '× Cancel' : '+ Add user'}
+          </button>
+        </div>
+
+        <div class="space-y-1.5">
+          ${!this.loaded
+            ? '<p class="text-[11px] text-slate-700 font-mono">Loading…</p>'
+            : this.users.map(u => `
+              <div class="rounded-lg px-3 py-2 bg-slate-800/50 ${u.disabled ? 'opacity-60' : ''}">
+                <div class="flex items-center gap-2.5">
+                  <span class="w-2 h-2 rounded-full flex-shrink-0 ${u.disabled ? 'bg-slate-700' : 'bg-emerald-400'}"></span>
+                  <div class="flex-1 min-w-0">
+                    <p class="text-[12px] font-semibold text-slate-200 truncate">
+                      ${esc(u.username)}
+                      ${u.id === me?.id ? '<span class="text-[10px] font-normal text-slate-500 ml-1">(you)</span>' : ''}
+                      ${u.disabled ? '<span class="text-[10px] font-normal text-red-400 ml-1">disabled</span>' : ''}
+                      ${u.twoFactor ? '<span class="text-[10px] font-normal text-emerald-400 ml-1" title="Two-factor authentication enabled">2FA</span>' : ''}
+                      ${u.sso ? '<span class="text-[10px] font-normal text-sky-400 ml-1" title="Signs in with SSO — the role is re-applied from identity provider groups at each sign-in">SSO</span>' : ''}
+                    </p>
+                    <p class="text-[10px] font-mono text-slate-600">created ${esc(u.createdAt)}</p>
+                  </div>
+                  <select data-usr-role="${u.id}" ${u.id === me?.id ? 'disabled' : ''}
+                    class="bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-[11px] text-slate-300
+                           focus:outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer disabled:cursor-not-allowed ${disabled}">
+                    <option value="viewer" ${u.role === 'viewer' ? 'selected' : ''}>viewer</option>
+                    <option value="admin"  ${u.role === 'admin'  ? 'selected' : ''}>admin</option>
+                  </select>
+                  ${u.id !== me?.id ? `
+                    <button data-usr-toggle="${u.id}" data-usr-disabled="${u.disabled}"
+                      class="text-[10px] text-slate-500 hover:text-amber-300 transition-colors ${disabled}">
+                      ${u.disabled ? 'Enable' : 'Disable'}
+                    </button>` : ''}
+                  ${u.role === 'viewer' ? `
+                    <button data-usr-acl="${u.id}"
+                      class="text-[10px] ${this.aclId === u.id ? 'text-indigo-300' : 'text-slate-500'} hover:text-indigo-300 transition-colors ${disabled}">
+                      Targets
+                    </button>` : ''}
+                  <button data-usr-quota="${u.id}"
+                    class="text-[10px] ${this.quotaId === u.id ? 'text-indigo-300' : 'text-slate-500'} hover:text-indigo-300 transition-colors ${disabled}">
+                    Quota
+                  </button>
+                  ${u.sso ? '' : `
+                    <button data-usr-reset="${u.id}"
+                      class="text-[10px] text-slate-500 hover:text-indigo-300 transition-colors ${disabled}">
+                      Reset pw
+                    </button>`}
+                  ${u.twoFactor && u.id !== me?.id ? `
+                    <button data-usr-reset2fa="${u.id}" data-usr-name="${esc(u.username)}"
+                      class="text-[10px] text-slate-500 hover:text-amber-300 transition-colors ${disabled}">
+                      Reset 2FA
+                    </button>` : ''}
+                  ${u.id !== me?.id ? `
+                    <button data-usr-delete="${u.id}" data-usr-name="${esc(u.username)}"
+                      class="text-[10px] text-slate-600 hover:text-red-400 transition-colors ${disabled}">
+                      ×
+                    </button>` : ''}
+                </div>
+                ${this.resetId === u.id ? `
+                  <div class="flex gap-2 mt-2">
+                    <input id="usr-reset-password" type="password" autocomplete="new-password"
+                      placeholder="New password for ${esc(u.username)} (min 8 chars)"
+                      class="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1
+                             text-[12px] text-slate-200 placeholder-slate-600
+                             focus:outline-none focus:ring-1 focus:ring-indigo-500">
+                    <button id="usr-reset-submit" data-usr-id="${u.id}"
+                      class="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-[11px]
+                             font-semibold rounded-lg transition-colors ${disabled}">
+                      Set
+                    </button>
+                  </div>` : ''}
+                ${this.aclId === u.id ? this.renderAcl(u) : ''}
+                ${this.quotaId === u.id ? this.renderQuota(u) : ''}
+              </div>
+            `).join('')}
+        </div>
+
+        ${this.showAddForm ? `
+          <div class="space-y-2.5 border-t border-slate-800 pt-3">
+            <div class="grid grid-cols-3 gap-2">
+              <div>
+                <label class="block text-[10px] text-slate-500 mb-0.5">Username</label>
+                <input id="usr-add-username" type="text" value="${esc(this.addUsername)}" autocomplete="off"
+                  class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                         text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500">
+              </div>
+              <div>
+                <label class="block text-[10px] text-slate-500 mb-0.5">Password</label>
+                <input id="usr-add-password" type="password" value="${esc(this.addPassword)}" autocomplete="new-password"
+                  class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                         text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500">
+              </div>
+              <div>
+                <label class="block text-[10px] text-slate-500 mb-0.5">Role</label>
+                <select id="usr-add-role"
+                  class="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5
+                         text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer">
+                  <option value="viewer" ${this.addRole === 'viewer' ? 'selected' : ''}>Viewer</option>
+                  <option value="admin"  ${this.addRole === 'admin'  ? 'selected' : ''}>Admin</option>
+                </select>
+              </div>
+            </div>
+            <div class="flex justify-end">
+              <button id="usr-add-submit"
+                class="px-5 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs
+                       font-semibold rounded-lg transition-colors ${disabled}">
+                Create user
+              </button>
+            </div>
+          </div>
+        ` : ''}
+
+        ${this.error  ? `<p class="text-[11px] text-red-400">${esc(this.error)}</p>` : ''}
+        ${this.notice ? `<p class="text-[11px] text-emerald-400">${esc(this.notice)} ✓</p>` : ''}
+        <p class="text-[10px] text-slate-600">
+          Viewers can monitor and run inference; admins can also change daemon state and manage users.
+          Give a viewer operate on a target to let them load/eject models and control that daemon.
+          Quotas cap a user's tokens per UTC day and month: past the soft limit responses carry a warning,
+          at the hard limit inference is refused until the period resets.
+        </p>
+      </section>
+    `;
+  }
+
+  private renderAcl(u: UserRow): string {
+    if (this.aclLoading) return '<p class="text-[11px] text-slate-700 font-mono mt-2">Loading…</p>';
+    const disabled = this.working ? 'opacity-40 pointer-events-none' : '';
+    return `
+      <div class="mt-2 border-t border-slate-700/60 pt-2 space-y-1.5">
+        ${this.targets.map(t => `
+          <div class="flex items-center gap-2">
+            <span class="flex-1 text-[11px] text-slate-300 truncate">${esc(t.label)}
+              <span class="font-mono text-[10px] text-slate-600 ml-1">${esc(t.url)}</span>
+            </span>
+            <select data-usr-acl-target="${esc(t.id)}"
+              class="bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-[11px] text-slate-300
+                     focus:outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer">
+              <option value=""        ${!this.aclDraft.has(t.id) ? 'selected' : ''}>no access</option>
+              <option value="view"    ${this.aclDraft.get(t.id) === 'view'    ? 'selected' : ''}>view</option>
+              <option value="operate" ${this.aclDraft.get(t.id) === 'operate' ? 'selected' : ''}>operate</option>
+            </select>
+          </div>
+        `).join('')}
+        <div class="flex items-center justify-between gap-2 pt-1">
+          <p class="text-[10px] text-slate-600">
+            ${this.aclDraft.size === 0
+              ? `Nothing assigned — ${esc(u.username)} can view every target.`
+              : `${esc(u.username)} sees only the targets above that are not "no access".`}
+          </p>
+          <button id="usr-acl-save" data-usr-id="${u.id}"
+            class="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-[11px]
+                   font-semibold rounded-lg transition-colors ${disabled}">
+            Save
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderQuota(u: UserRow): string {
+    if (this.quotaLoading) return '<p class="text-[11px] text-slate-700 font-mono mt-2">Loading…</p>';
+    const disabled = this.working ? 'opacity-40 pointer-events-none' : '';
+    const input = 'w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[11px] font-mono text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+    return `
+      <div class="mt-2 border-t border-slate-700/60 pt-2 space-y-2">
+        <div class="grid grid-cols-5 gap-2">
+          ${QUOTA_LIMITS.map(([key, label]) => `
+            <label class="block space-y-0.5">
+              <span class="text-[10px] text-slate-500">${label}</span>
+              <input data-usr-quota-field="${key}" type="number" min="1" value="${esc(this.quotaDraft[key])}"
+                placeholder="no limit" class="${input}">
+            </label>`).join('')}
+        </div>
+        <label class="block space-y-0.5">
+          <span class="text-[10px] text-slate-500">Allowed models — comma-separated ids or globs</span>
+          <input data-usr-quota-field="allowedModels" type="text" value="${esc(this.quotaDraft.allowedModels)}"
+            placeholder="every model" class="${input}">
+        </label>
+        <div class="flex items-center justify-between gap-2 pt-1">
+          <p class="text-[10px] font-mono text-slate-600">
+            ${esc(u.username)} used ${this.quotaUsed.daily.toLocaleString()} tokens today ·
+            ${this.quotaUsed.monthly.toLocaleString()} this month
+          </p>
+          <button id="usr-quota-save" data-usr-id="${u.id}"
+            class="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-[11px]
+                   font-semibold rounded-lg transition-colors ${disabled}">
+            Save
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  // ── Events ──────────────────────────────────────────────────────────────────
+
+  bind(root: HTMLElement): void {
+    document.getElementById('usr-add-toggle')?.addEventListener('click', () => {
+      this.showAddForm = !this.showAddForm;
+      this.error = ''; this.notice = '';
+      this.onChange();
+    });
+
+    (document.getElementById('usr-add-username') as HTMLInputElement | null)
+      ?.addEventListener('input', (e) => { this.addUsername = (e.target as HTMLInputElement).value; });
+    (document.getElementById('usr-add-password') as HTMLInputElement | null)
+      ?.addEventListener('input', (e) => { this.addPassword = (e.target as HTMLInputElement).value; });
+    (document.getElementById('usr-add-role') as HTMLSelectElement | null)
+      ?.addEventListener('change', (e) => { this.addRole = (e.target as HTMLSelectElement).value as UserRole; });
+    document.getElementById('usr-add-submit')?.addEventListener('click', () => void this.addUser());
+
+    root.querySelectorAll<HTMLSelectElement>('[data-usr-role]').forEach(sel => {
+      sel.addEventListener('change', () => {
+        void this.patchUser(Number(sel.dataset['usrRole']), { role: sel.value as UserRole });
+      });
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-usr-toggle]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        void this.patchUser(Number(btn.dataset['usrToggle']), { disabled: btn.dataset['usrDisabled'] !== 'true' });
+      });
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-usr-delete]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (confirm(`Delete user "${btn.dataset['usrName'] ?? ''}"?`)) {
+          void this.deleteUser(Number(btn.dataset['usrDelete']));
+        }
+      });
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-usr-reset2fa]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (confirm(`Remove two-factor authentication from "${btn.dataset['usrName'] ?? ''}"? They will sign in with their password only until they enroll again.`)) {
+          void this.reset2fa(Number(btn.dataset['usrReset2fa']));
+        }
+      });
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-usr-reset]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const id = Number(btn.dataset['usrReset']);
+        this.resetId = this.resetId === id ? null : id;
+        this.onChange();
+        document.getElementById('usr-reset-password')?.focus();
+      });
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-usr-acl]').forEach(btn => {
+      btn.addEventListener('click', () => void this.openAcl(Number(btn.dataset['usrAcl'])));
+    });
+    root.querySelectorAll<HTMLSelectElement>('[data-usr-acl-target]').forEach(sel => {
+      sel.addEventListener('change', () => {
+        const id = sel.dataset['usrAclTarget'] ?? '';
+        if (sel.value === 'view' || sel.value === 'operate') this.aclDraft.set(id, sel.value);
+        else this.aclDraft.delete(id);
+        this.onChange();
+      });
+    });
+    document.getElementById('usr-acl-save')?.addEventListener('click', (e) => {
+      void this.saveAcl(Number((e.currentTarget as HTMLButtonElement).dataset['usrId']));
+    });
+    root.querySelectorAll<HTMLButtonElement>('[data-usr-quota]').forEach(btn => {
+      btn.addEventListener('click', () => void this.openQuota(Number(btn.dataset['usrQuota'])));
+    });
+    root.querySelectorAll<HTMLInputElement>('[data-usr-quota-field]').forEach(el => {
+      el.addEventListener('input', () => {
+        this.quotaDraft[el.dataset['usrQuotaField'] as QuotaLimit | 'allowedModels'] = el.value;
+      });
+    });
+    document.getElementById('usr-quota-save')?.addEventListener('click', (e) => {
+      void this.saveQuota(Number((e.currentTarget as HTMLButtonElement).dataset['usrId']));
+    });
+    document.getElementById('usr-reset-submit')?.addEventListener('click', (e) => {
+      const el = document.getElementById('usr-reset-password') as HTMLInputElement | null;
+      const id = Number((e.currentTarget as HTMLButtonElement).dataset['usrId']);
+      if (el) void this.resetPassword(id, el.value);
+    });
+  }
+}
+
+function emptyQuotaDraft(): Record<QuotaLimit | 'allowedModels', string> {
+  return { dailySoft: '', dailyHard: '', monthlySoft: '', monthlyHard: '', maxTokensPerRequest: '', allowedModels: '' };
+}